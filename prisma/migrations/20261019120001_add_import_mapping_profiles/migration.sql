@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."ImportMappingProfile" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "description" TEXT,
+    "mappings" JSONB NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "ImportMappingProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportMappingProfile_userId_idx" ON "public"."ImportMappingProfile"("userId");
+
+-- CreateIndex
+CREATE INDEX "ImportMappingProfile_entityType_idx" ON "public"."ImportMappingProfile"("entityType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportMappingProfile_userId_entityType_name_key" ON "public"."ImportMappingProfile"("userId", "entityType", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."ImportMappingProfile" ADD CONSTRAINT "ImportMappingProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."ProcessingJob" ADD COLUMN     "undoneAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."ImportSnapshot" (
+    "id" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "before" JSONB,
+    "restoredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "jobId" TEXT NOT NULL,
+
+    CONSTRAINT "ImportSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportSnapshot_jobId_idx" ON "public"."ImportSnapshot"("jobId");
+
+-- CreateIndex
+CREATE INDEX "ImportSnapshot_entityType_recordId_idx" ON "public"."ImportSnapshot"("entityType", "recordId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ImportSnapshot" ADD CONSTRAINT "ImportSnapshot_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."ProcessingJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
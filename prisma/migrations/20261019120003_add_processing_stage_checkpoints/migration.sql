@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "public"."ProcessingStage" ADD COLUMN     "checkpoint" JSONB,
+ADD COLUMN     "checkpointedAt" TIMESTAMP(3);
+
+-- Keep one stage per job and name before the unique index: the most recently completed or started one
+DELETE FROM "public"."ProcessingStage"
+WHERE "id" IN (
+    SELECT "id" FROM (
+        SELECT "id", ROW_NUMBER() OVER (
+            PARTITION BY "jobId", "name"
+            ORDER BY "completedAt" DESC NULLS LAST, "startedAt" DESC NULLS LAST, "id" DESC
+        ) AS "rank"
+        FROM "public"."ProcessingStage"
+    ) AS "ranked"
+    WHERE "rank" > 1
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProcessingStage_jobId_name_key" ON "public"."ProcessingStage"("jobId", "name");
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "public"."AccountMatchReviewStatus" AS ENUM ('PENDING', 'CONFIRMED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "public"."AccountMatchReview" (
+    "id" TEXT NOT NULL,
+    "customerName" TEXT NOT NULL,
+    "normalizedName" TEXT NOT NULL,
+    "customerDomain" TEXT,
+    "candidateAccountId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "matchedBy" TEXT NOT NULL,
+    "status" "public"."AccountMatchReviewStatus" NOT NULL DEFAULT 'PENDING',
+    "opportunities" JSONB NOT NULL,
+    "importOptions" JSONB,
+    "resolvedAccountId" TEXT,
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "jobId" TEXT,
+
+    CONSTRAINT "AccountMatchReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AccountMatchReview_status_idx" ON "public"."AccountMatchReview"("status");
+
+-- CreateIndex
+CREATE INDEX "AccountMatchReview_jobId_idx" ON "public"."AccountMatchReview"("jobId");
+
+-- CreateIndex
+CREATE INDEX "AccountMatchReview_candidateAccountId_idx" ON "public"."AccountMatchReview"("candidateAccountId");
+
+-- AddForeignKey
+ALTER TABLE "public"."AccountMatchReview" ADD CONSTRAINT "AccountMatchReview_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."ProcessingJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
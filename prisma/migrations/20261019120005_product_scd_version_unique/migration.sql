@@ -0,0 +1,14 @@
+-- Every SCD version of an item shares its item number, so the unique index moves to the
+-- item number and version start. Existing rows are unique by item number alone, so the
+-- new indexes hold for them once the old one is gone.
+
+-- DropIndex
+DROP INDEX "public"."Product_itemNumber_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Product_itemNumber_scdStartDate_key" ON "public"."Product"("itemNumber", "scdStartDate");
+
+-- A null version start never collides in the index above, so each item keeps a single
+-- current version here. Prisma cannot declare a partial index; it lives in SQL only.
+-- CreateIndex
+CREATE UNIQUE INDEX "Product_itemNumber_current_key" ON "public"."Product"("itemNumber") WHERE "isCurrentRecordFlag";
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."ProcessingJobType" ADD VALUE 'IMPORT_CONTACTS';
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."ImportRejectedRow" (
+    "id" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+    "errors" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "jobId" TEXT NOT NULL,
+
+    CONSTRAINT "ImportRejectedRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportRejectedRow_jobId_idx" ON "public"."ImportRejectedRow"("jobId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportRejectedRow_jobId_entityType_rowNumber_key" ON "public"."ImportRejectedRow"("jobId", "entityType", "rowNumber");
+
+-- AddForeignKey
+ALTER TABLE "public"."ImportRejectedRow" ADD CONSTRAINT "ImportRejectedRow_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."ProcessingJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."CompanyAccount" ADD COLUMN     "importHash" TEXT,
+ADD COLUMN     "missingFromImportAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Product" ADD COLUMN     "importHash" TEXT,
+ADD COLUMN     "missingFromImportAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Opportunity" ADD COLUMN     "importHash" TEXT,
+ADD COLUMN     "missingFromImportAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Contact" ADD COLUMN     "importHash" TEXT,
+ADD COLUMN     "missingFromImportAt" TIMESTAMP(3);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."ImportValidationRule" (
+    "id" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL DEFAULT 'error',
+    "config" JSONB,
+    "message" TEXT,
+    "description" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+
+    CONSTRAINT "ImportValidationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportValidationRule_entityType_enabled_idx" ON "public"."ImportValidationRule"("entityType", "enabled");
+
+-- AddForeignKey
+ALTER TABLE "public"."ImportValidationRule" ADD CONSTRAINT "ImportValidationRule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "public"."FieldLineage" (
+    "id" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "value" TEXT,
+    "source" TEXT NOT NULL,
+    "sourceFile" TEXT,
+    "rowNumber" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "jobId" TEXT,
+    "userId" TEXT,
+
+    CONSTRAINT "FieldLineage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FieldLineage_entityType_recordId_field_idx" ON "public"."FieldLineage"("entityType", "recordId", "field");
+
+-- CreateIndex
+CREATE INDEX "FieldLineage_jobId_idx" ON "public"."FieldLineage"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "public"."FieldLineage" ADD CONSTRAINT "FieldLineage_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."ProcessingJob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."FieldLineage" ADD CONSTRAINT "FieldLineage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
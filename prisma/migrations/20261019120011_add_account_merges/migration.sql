@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."AccountMerge" (
+    "id" TEXT NOT NULL,
+    "survivorId" TEXT NOT NULL,
+    "mergedAccountId" TEXT NOT NULL,
+    "mergedAccount" JSONB NOT NULL,
+    "survivorBefore" JSONB NOT NULL,
+    "fieldChoices" JSONB NOT NULL,
+    "movedRecords" JSONB NOT NULL,
+    "undoneAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT,
+
+    CONSTRAINT "AccountMerge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AccountMerge_survivorId_idx" ON "public"."AccountMerge"("survivorId");
+
+-- CreateIndex
+CREATE INDEX "AccountMerge_mergedAccountId_idx" ON "public"."AccountMerge"("mergedAccountId");
+
+-- AddForeignKey
+ALTER TABLE "public"."AccountMerge" ADD CONSTRAINT "AccountMerge_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."PurchaseProduct" ADD COLUMN     "quantity" DOUBLE PRECISION,
+ADD COLUMN     "unitPrice" DOUBLE PRECISION,
+ADD COLUMN     "discount" DOUBLE PRECISION,
+ADD COLUMN     "totalValue" DOUBLE PRECISION,
+ADD COLUMN     "lineMargin" DOUBLE PRECISION;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."Opportunity" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "public"."PurchaseProduct" ADD COLUMN     "currency" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "fromCurrency" TEXT NOT NULL,
+    "toCurrency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_fromCurrency_toCurrency_idx" ON "public"."ExchangeRate"("fromCurrency", "toCurrency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_fromCurrency_toCurrency_effectiveDate_key" ON "public"."ExchangeRate"("fromCurrency", "toCurrency", "effectiveDate");
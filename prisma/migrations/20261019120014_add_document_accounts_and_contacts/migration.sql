@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."Document" ADD COLUMN     "accountId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."DocumentContact" (
+    "id" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "documentId" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+
+    CONSTRAINT "DocumentContact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Document_accountId_idx" ON "public"."Document"("accountId");
+
+-- CreateIndex
+CREATE INDEX "DocumentContact_contactId_idx" ON "public"."DocumentContact"("contactId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentContact_documentId_contactId_role_key" ON "public"."DocumentContact"("documentId", "contactId", "role");
+
+-- AddForeignKey
+ALTER TABLE "public"."Document" ADD CONSTRAINT "Document_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "public"."CompanyAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DocumentContact" ADD CONSTRAINT "DocumentContact_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "public"."Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DocumentContact" ADD CONSTRAINT "DocumentContact_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "public"."Contact"("id") ON DELETE CASCADE ON UPDATE CASCADE;
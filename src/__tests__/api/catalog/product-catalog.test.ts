@@ -0,0 +1,120 @@
+/**
+ * Test suite for point-in-time product catalog queries
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { ProductCatalogService } from '../../../lib/services/catalog/product-catalog.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    product: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    opportunity: {
+      findUnique: jest.fn(),
+    },
+    exchangeRate: { findMany: jest.fn().mockResolvedValue([]) },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const version = (id: string, start: string | null, end: string | null, fields: Record<string, unknown>) => ({
+  id,
+  itemNumber: 'SKU-1',
+  scdStartDate: start ? new Date(start) : null,
+  scdEndDate: end ? new Date(end) : null,
+  isCurrentRecordFlag: end === null,
+  createdAt: new Date('2024-01-01'),
+  ...fields,
+});
+
+const versions = [
+  version('v1', null, '2024-03-01', { itemDescription: 'Switch', currentCost: 100 }),
+  version('v2', '2024-03-01', '2024-06-01', { itemDescription: 'Switch', currentCost: 120 }),
+  version('v3', '2024-06-01', null, { itemDescription: 'Managed switch', currentCost: 120 }),
+];
+
+describe('product catalog', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should filter the catalog to versions valid at the as-of date', async () => {
+    mockedPrisma.product.findMany.mockResolvedValue([versions[1]]);
+    mockedPrisma.product.count.mockResolvedValue(1);
+    const asOf = new Date('2024-04-15');
+
+    const catalog = await new ProductCatalogService().getCatalog({ asOf, page: 1, pageSize: 20 });
+
+    expect(catalog).toMatchObject({ asOf, total: 1, products: [{ id: 'v2' }] });
+    expect(mockedPrisma.product.findMany.mock.calls[0][0].where.AND[0]).toEqual({
+      AND: [
+        { OR: [{ scdStartDate: null }, { scdStartDate: { lte: asOf } }] },
+        { OR: [{ scdEndDate: null }, { scdEndDate: { gt: asOf } }] },
+      ],
+    });
+  });
+
+  test('should list every version with the fields it changed', async () => {
+    mockedPrisma.product.findMany.mockResolvedValue(versions);
+
+    const history = await new ProductCatalogService().getVersionHistory('SKU-1');
+
+    expect(history.currentVersionId).toBe('v3');
+    expect(history.changedFields).toEqual(['currentCost', 'itemDescription']);
+    expect(history.versions.map(item => item.changes)).toEqual([
+      [],
+      [{ field: 'currentCost', before: 100, after: 120 }],
+      [{ field: 'itemDescription', before: 'Switch', after: 'Managed switch' }],
+    ]);
+  });
+
+  test('should resolve purchase lines against the version current at the booked date', async () => {
+    mockedPrisma.opportunity.findUnique.mockResolvedValue({
+      id: 'opp-1',
+      opportunityNumber: 'OPP-1',
+      bookedDate: new Date('2024-04-15'),
+      purchaseProducts: [{ id: 'line-1', product: versions[2] }],
+    });
+    mockedPrisma.product.findMany.mockResolvedValue(versions);
+
+    const resolved = await new ProductCatalogService().resolveOpportunityLines('opp-1');
+
+    expect(resolved.lines[0]).toMatchObject({
+      linkedProduct: { id: 'v3' },
+      product: { id: 'v2' },
+      resolvedBy: 'booked_date',
+      changes: [{ field: 'itemDescription', before: 'Managed switch', after: 'Switch' }],
+    });
+  });
+
+  test('should total the line commercials and check them against the booked revenue', async () => {
+    mockedPrisma.opportunity.findUnique.mockResolvedValue({
+      id: 'opp-1',
+      opportunityNumber: 'OPP-1',
+      bookedDate: null,
+      bookedGrossRevenue: 2400,
+      pipelineGrossRevenue: 0,
+      margin: 0.2,
+      purchaseProducts: [
+        { id: 'line-1', quantity: 10, unitPrice: 200, discount: null, totalValue: null, lineMargin: 0.2, product: versions[2] },
+        { id: 'line-2', quantity: 1, unitPrice: null, discount: null, totalValue: 400, lineMargin: null, product: versions[2] },
+      ],
+    });
+    mockedPrisma.product.findMany.mockResolvedValue(versions);
+
+    const resolved = await new ProductCatalogService().resolveOpportunityLines('opp-1');
+
+    expect(resolved.lines.map(line => line.totalValue)).toEqual([2000, 400]);
+    expect(resolved.totals).toEqual({ lines: 2, pricedLines: 2, quantity: 11, totalValue: 2400, margin: 0.2 });
+    expect(resolved.revenueCheck).toEqual({
+      revenueField: 'bookedGrossRevenue',
+      revenue: 2400,
+      lineTotal: 2400,
+      difference: 0,
+      consistent: true,
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Test suite for fuzzy account matching in opportunity imports
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { AccountMatchReviewService } from '../../../lib/services/import/account-match-review.service';
+import {
+  AccountMatchingService,
+  DEFAULT_ACCOUNT_MATCH_THRESHOLDS,
+  normalizeCompanyName,
+} from '../../../lib/services/import/account-matching.service';
+import { OpportunityImportService } from '../../../lib/services/import/opportunity-import.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    importValidationRule: { findMany: jest.fn().mockResolvedValue([]) },
+    fieldLineage: { createMany: jest.fn() },
+    exchangeRate: { findMany: jest.fn().mockResolvedValue([]) },
+    companyAccount: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    opportunity: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    accountMatchReview: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const accounts = [
+  { id: 'acc-acme', name: 'ACME Corporation, Inc.', domain: 'acme.com', website: null, accountNumber: 'A-1' },
+  { id: 'acc-globex', name: 'Globex Systems', domain: null, website: 'https://www.globex.io', accountNumber: 'A-2' },
+];
+
+describe('account matching', () => {
+  test('should normalize case, punctuation and legal suffixes', () => {
+    expect(normalizeCompanyName('ACME Corporation, Inc.')).toBe('acme');
+    expect(normalizeCompanyName('Acme Corp')).toBe('acme');
+    expect(normalizeCompanyName('The Smith & Sons L.L.C.')).toBe('smith and sons');
+  });
+
+  test('should grade candidates by domain and name similarity', () => {
+    const service = new AccountMatchingService();
+    const rank = (name: string, domain?: string) =>
+      service.rankCandidates(accounts, normalizeCompanyName(name), domain, DEFAULT_ACCOUNT_MATCH_THRESHOLDS);
+
+    expect(rank('Acme Corp')).toMatchObject({ confidence: 'high', matchedBy: 'name', account: { id: 'acc-acme' } });
+    expect(rank('GX Holdings', 'globex.io')).toMatchObject({ confidence: 'high', matchedBy: 'domain', account: { id: 'acc-globex' } });
+    expect(rank('Globex')).toMatchObject({ confidence: 'review', matchedBy: 'similarity', account: { id: 'acc-globex' } });
+    expect(rank('Initech')).toEqual({ confidence: 'none', score: expect.any(Number), normalizedName: 'initech' });
+  });
+
+  test('should look up exact domain and name matches before widening to name tokens', async () => {
+    const service = new AccountMatchingService();
+    mockedPrisma.companyAccount.findMany.mockReset();
+    mockedPrisma.companyAccount.findMany.mockResolvedValueOnce([accounts[1]]);
+
+    await expect(service.matchAccount({ name: 'GX Holdings', domain: 'www.globex.io' }))
+      .resolves.toMatchObject({ confidence: 'high', matchedBy: 'domain', account: { id: 'acc-globex' } });
+    // An exact match needs no token lookup
+    expect(mockedPrisma.companyAccount.findMany).toHaveBeenCalledTimes(1);
+    expect(mockedPrisma.companyAccount.findMany.mock.calls[0][0].where.OR).toEqual(expect.arrayContaining([
+      { domain: { equals: 'globex.io', mode: 'insensitive' } },
+      { name: { equals: 'GX Holdings', mode: 'insensitive' } },
+    ]));
+
+    mockedPrisma.companyAccount.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([accounts[0]]);
+
+    await expect(service.matchAccount({ name: 'Acme Corp' }))
+      .resolves.toMatchObject({ confidence: 'high', matchedBy: 'name', account: { id: 'acc-acme' } });
+    expect(mockedPrisma.companyAccount.findMany).toHaveBeenCalledTimes(3);
+    expect(mockedPrisma.companyAccount.findMany.mock.calls[2][0]).toMatchObject({
+      where: { OR: [{ name: { contains: 'acme', mode: 'insensitive' } }, { name: { startsWith: 'acme', mode: 'insensitive' } }] },
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+    });
+  });
+
+  test('should link, hold for review or create accounts by match confidence', async () => {
+    mockedPrisma.companyAccount.findMany.mockResolvedValue(accounts);
+    mockedPrisma.companyAccount.create.mockResolvedValue({ id: 'acc-initech' });
+    mockedPrisma.opportunity.findUnique.mockResolvedValue(null);
+    mockedPrisma.opportunity.create.mockImplementation(async ({ data }) => ({ id: `opp-${data.opportunityNumber}` }));
+    mockedPrisma.accountMatchReview.findFirst.mockResolvedValue(null);
+
+    const csv = [
+      'opportunity_number,customer_name',
+      'OPP-1,Acme Corp',
+      'OPP-2,Globex',
+      'OPP-3,Initech',
+    ].join('\n');
+
+    const result = await new OpportunityImportService().importFromCsv(Buffer.from(csv), 'opportunities.csv', {
+      createMissingAccounts: true,
+      linkProducts: false,
+    });
+
+    expect(result).toMatchObject({ created: 2, accountsCreated: 1, heldForReview: 1 });
+    expect(mockedPrisma.opportunity.create.mock.calls.map(([{ data }]) => [data.opportunityNumber, data.accountId]))
+      .toEqual([['OPP-1', 'acc-acme'], ['OPP-3', 'acc-initech']]);
+    expect(mockedPrisma.accountMatchReview.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        customerName: 'Globex',
+        candidateAccountId: 'acc-globex',
+        opportunities: [expect.objectContaining({ opportunityNumber: 'OPP-2' })],
+      }),
+    });
+  });
+
+  test('should list and resolve only the reviews of the user who ran the import', async () => {
+    const service = new AccountMatchReviewService();
+    mockedPrisma.accountMatchReview.findMany.mockResolvedValue([]);
+    mockedPrisma.accountMatchReview.count.mockResolvedValue(0);
+    mockedPrisma.companyAccount.findMany.mockResolvedValue([]);
+
+    await service.listReviews('user-1', { page: 1, pageSize: 20 });
+    expect(mockedPrisma.accountMatchReview.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: undefined, jobId: undefined, job: { userId: 'user-1' } },
+    }));
+
+    // Another user's review is not found, and so cannot be claimed
+    mockedPrisma.accountMatchReview.updateMany.mockResolvedValue({ count: 0 });
+    mockedPrisma.accountMatchReview.findFirst.mockResolvedValue(null);
+
+    await expect(service.claimReview('review-1', 'user-2', 'CONFIRMED')).rejects.toThrow('not found');
+    expect(mockedPrisma.accountMatchReview.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'review-1', status: 'PENDING', job: { userId: 'user-2' } },
+    }));
+  });
+});
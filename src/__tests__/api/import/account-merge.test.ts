@@ -0,0 +1,208 @@
+/**
+ * Test suite for merging duplicate accounts
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { AccountMergeService } from '../../../lib/services/import/account-merge.service';
+
+const mockSetPayload = jest.fn();
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    companyAccount: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    opportunity: { findMany: jest.fn(), updateMany: jest.fn() },
+    contact: { findMany: jest.fn(), updateMany: jest.fn() },
+    technology: { findMany: jest.fn(), updateMany: jest.fn() },
+    insight: { findMany: jest.fn(), updateMany: jest.fn() },
+    vectorChunk: { findMany: jest.fn(), updateMany: jest.fn() },
+    document: { findMany: jest.fn(), updateMany: jest.fn() },
+    accountMatchReview: { findMany: jest.fn(), updateMany: jest.fn() },
+    accountMerge: { create: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    fieldLineage: { createMany: jest.fn() },
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/services/vector', () => ({
+  getVectorStore: () => ({ setPayload: mockSetPayload }),
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>> & {
+  $transaction: jest.Mock;
+  $queryRaw: jest.Mock;
+};
+
+const account = (overrides: Record<string, unknown>) => ({
+  name: 'Acme',
+  accountNumber: null,
+  domain: null,
+  website: null,
+  industry: null,
+  metadata: null,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+describe('AccountMergeService', () => {
+  const service = new AccountMergeService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.$transaction.mockImplementation(async (callback) => callback(mockedPrisma));
+    for (const model of ['opportunity', 'contact', 'technology', 'insight', 'vectorChunk', 'document', 'accountMatchReview']) {
+      mockedPrisma[model].findMany.mockResolvedValue([]);
+    }
+  });
+
+  test('should rank likely duplicate pairs and suggest the account with more records as survivor', async () => {
+    const summary = (id: string, name: string, domain: string | null, opportunities = 0) => ({
+      id,
+      name,
+      accountNumber: null,
+      domain,
+      website: null,
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      _count: { opportunities, contacts: 0 },
+    });
+    mockedPrisma.companyAccount.findMany.mockResolvedValue([
+      summary('acme-1', 'Acme Corporation', 'acme.com', 3),
+      summary('acme-2', 'ACME Inc.', 'www.acme.com'),
+      summary('globex-1', 'Globex Systems', null),
+      summary('globex-2', 'Globex', null, 5),
+      summary('initech', 'Initech', 'initech.com'),
+    ]);
+
+    const { pairs, total } = await service.findDuplicateCandidates();
+
+    expect(total).toBe(2);
+    expect(pairs.map(({ accounts, score, matchedBy, suggestedSurvivorId }) => ({
+      ids: accounts.map(({ id }) => id),
+      score,
+      matchedBy,
+      suggestedSurvivorId,
+    }))).toEqual([
+      { ids: ['acme-1', 'acme-2'], score: 1, matchedBy: 'domain', suggestedSurvivorId: 'acme-1' },
+      { ids: ['globex-1', 'globex-2'], score: 0.667, matchedBy: 'similarity', suggestedSurvivorId: 'globex-2' },
+    ]);
+  });
+
+  test('should move the duplicate\'s records to the survivor with the chosen field values', async () => {
+    const survivor = account({ id: 'acc-1', name: 'Acme Corporation', accountNumber: 'ACC-1', industry: 'Software' });
+    const merged = account({
+      id: 'acc-2',
+      name: 'ACME Inc.',
+      accountNumber: 'OPP-STUB-9',
+      domain: 'acme.com',
+      industry: 'Manufacturing',
+    });
+    mockedPrisma.companyAccount.findUnique.mockImplementation(async ({ where }) => {
+      if (where.id === 'acc-1' && !mockedPrisma.companyAccount.delete.mock.calls.length) return survivor;
+      if (where.id === 'acc-2') return merged;
+      // Payload sync reads the survivor after the merge
+      return {
+        id: 'acc-1',
+        name: 'Acme Corporation',
+        accountNumber: 'ACC-1',
+        vectorChunks: [{ qdrantPointId: 'point-1' }, { qdrantPointId: 'point-2' }],
+      };
+    });
+    mockedPrisma.opportunity.findMany.mockResolvedValue([{ id: 'opp-1' }, { id: 'opp-2' }]);
+    mockedPrisma.vectorChunk.findMany.mockResolvedValue([{ id: 'chunk-2' }]);
+    mockedPrisma.accountMerge.create.mockImplementation(async ({ data }) => ({
+      id: 'merge-1',
+      createdAt: new Date(),
+      undoneAt: null,
+      ...data,
+    }));
+
+    const result = await service.mergeAccounts('user-1', {
+      survivorId: 'acc-1',
+      mergedId: 'acc-2',
+      fields: { industry: 'merged' },
+    });
+
+    expect(mockedPrisma.opportunity.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['opp-1', 'opp-2'] } },
+      data: { accountId: 'acc-1' },
+    });
+    expect(mockedPrisma.vectorChunk.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['chunk-2'] } },
+      data: { accountId: 'acc-1' },
+    });
+    expect(mockedPrisma.companyAccount.delete).toHaveBeenCalledWith({ where: { id: 'acc-2' } });
+    // The duplicate is locked before the records to move are read, inside the same transaction
+    expect(mockedPrisma.$queryRaw.mock.calls[0][1]).toBe('acc-2');
+    expect(mockedPrisma.$queryRaw.mock.invocationCallOrder[0])
+      .toBeLessThan(mockedPrisma.opportunity.findMany.mock.invocationCallOrder[0]);
+    // Name and account number conflict and stay; industry was chosen; the domain fills a gap
+    expect(mockedPrisma.companyAccount.update).toHaveBeenCalledWith({
+      where: { id: 'acc-1' },
+      data: { domain: 'acme.com', industry: 'Manufacturing', updatedAt: expect.any(Date) },
+    });
+    expect(mockedPrisma.accountMerge.create.mock.calls[0][0].data).toMatchObject({
+      survivorBefore: { domain: null, industry: 'Software' },
+      fieldChoices: { name: 'survivor', accountNumber: 'survivor', domain: 'merged', industry: 'merged' },
+      userId: 'user-1',
+    });
+    expect(mockSetPayload).toHaveBeenCalledWith(['point-1', 'point-2'], {
+      accountId: 'acc-1',
+      accountName: 'Acme Corporation',
+      accountNumber: 'ACC-1',
+    });
+    expect(result).toMatchObject({
+      merge: { id: 'merge-1', mergedAccountName: 'ACME Inc.', moved: { opportunities: 2, vectorChunks: 1 } },
+      vectorPointsUpdated: 2,
+      errors: [],
+    });
+  });
+
+  test('should recreate the duplicate and move its records back when a merge is undone', async () => {
+    mockedPrisma.accountMerge.findUnique.mockResolvedValue({
+      id: 'merge-1',
+      survivorId: 'acc-1',
+      mergedAccountId: 'acc-2',
+      mergedAccount: { id: 'acc-2', name: 'ACME Inc.', domain: 'acme.com', metadata: null, createdAt: '2024-01-01T00:00:00.000Z' },
+      survivorBefore: { domain: null },
+      fieldChoices: { domain: 'merged' },
+      movedRecords: { opportunities: ['opp-1'], contacts: ['contact-1'] },
+      userId: 'user-1',
+      createdAt: new Date(),
+      undoneAt: null,
+    });
+    mockedPrisma.companyAccount.findUnique.mockResolvedValue({ id: 'acc-1', name: 'Acme', vectorChunks: [] });
+    mockedPrisma.accountMerge.update.mockImplementation(async ({ data }) => ({
+      ...(await mockedPrisma.accountMerge.findUnique.mock.results[0].value),
+      ...data,
+    }));
+
+    const result = await service.undoMerge('merge-1', 'user-2');
+
+    expect(mockedPrisma.companyAccount.update).toHaveBeenCalledWith({
+      where: { id: 'acc-1' },
+      data: { domain: null, updatedAt: expect.any(Date) },
+    });
+    expect(mockedPrisma.companyAccount.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ id: 'acc-2', domain: 'acme.com', createdAt: new Date('2024-01-01T00:00:00.000Z') }),
+    });
+    expect(mockedPrisma.opportunity.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['opp-1'] }, accountId: 'acc-1' },
+      data: { accountId: 'acc-2' },
+    });
+    expect(mockedPrisma.contact.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['contact-1'] }, accountId: 'acc-1' },
+      data: { accountId: 'acc-2' },
+    });
+    expect(result.merge.undoneAt).toEqual(expect.any(Date));
+
+    mockedPrisma.accountMerge.findUnique.mockResolvedValue({ id: 'merge-1', undoneAt: new Date() });
+    await expect(service.undoMerge('merge-1', 'user-2')).rejects.toThrow('already been undone');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Test suite for importing ZIP asset packs
+ */
+
+import { DocumentScope } from '@prisma/client';
+import AdmZip from 'adm-zip';
+
+import { prisma } from '../../../lib/prisma';
+import { expandAssetArchive, mapAssetFolder } from '../../../lib/services/import/asset-archive';
+import { AssetImportService } from '../../../lib/services/import/asset-import.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    companyAccount: { findUnique: jest.fn() },
+    document: { create: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/services/chunking', () => ({
+  getChunkingService: () => ({ processDocument: jest.fn() }),
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const buildArchive = (files: Record<string, string | Buffer>): Buffer => {
+  const zip = new AdmZip();
+  for (const [entryName, content] of Object.entries(files)) {
+    zip.addFile(entryName, Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8'));
+  }
+  return zip.toBuffer();
+};
+
+const archiveUpload = (buffer: Buffer, data: { category?: string; scope?: DocumentScope } = {}) => ({
+  fileName: 'q3-pack.zip',
+  originalName: 'q3-pack.zip',
+  buffer,
+  fileSize: buffer.length,
+  mimeType: 'application/zip',
+  accountId: 'acc-acme',
+  ...data,
+});
+
+describe('Asset archives', () => {
+  test('should map folder names to categories, innermost recognized folder first', () => {
+    expect(mapAssetFolder('Q3 Pack/Case-Studies/Retail')).toEqual({ category: 'Case Study', scope: DocumentScope.CASE_STUDIES });
+    expect(mapAssetFolder('sales_decks/Proposals')).toEqual({ category: 'Proposal', scope: DocumentScope.PROPOSALS });
+    expect(mapAssetFolder('DataSheets')).toEqual({ category: 'Data Sheet', scope: DocumentScope.DATA_SHEETS });
+    expect(mapAssetFolder('Misc/2024')).toBeNull();
+    expect(mapAssetFolder('.')).toBeNull();
+  });
+
+  test('should skip unsafe paths, system files, nested archives and oversized files', () => {
+    const zip = new AdmZip(buildArchive({
+      'Case Studies/acme.md': '# Acme rollout\n\nThe network refresh cut outages by half.',
+      'Training/setup.txt': 'Setup guide for the edge switches.',
+      '__MACOSX/Case Studies/._acme.md': 'resource fork',
+      '.DS_Store': 'finder',
+      'old/pack.zip': buildArchive({ 'inner.txt': 'inner' }),
+      'Data Sheets/large.txt': 'x'.repeat(4096),
+      'safe.txt': 'placeholder',
+    }));
+    // adm-zip sanitizes names when adding files, so the unsafe path is set on the entry afterwards
+    const unsafe = zip.getEntry('safe.txt');
+    if (unsafe) unsafe.entryName = '../../etc/cron.d/job.txt';
+
+    const contents = expandAssetArchive(
+      { ...archiveUpload(zip.toBuffer()), category: 'Sales Asset', scope: DocumentScope.SALES_ASSETS },
+      { maxEntries: 10, maxEntrySize: 1024, maxTotalSize: 1024 * 1024, maxCompressionRatio: 100 }
+    );
+
+    expect(contents.assets.map(asset => [asset.fileName, asset.mimeType, asset.category, asset.scope, asset.accountId])).toEqual([
+      ['Case Studies/acme.md', 'text/markdown', 'Case Study', DocumentScope.CASE_STUDIES, 'acc-acme'],
+      ['Training/setup.txt', 'text/plain', 'Training Material', DocumentScope.TRAINING, 'acc-acme'],
+    ]);
+    expect(contents.skipped).toEqual(expect.arrayContaining([
+      { file: '../../etc/cron.d/job.txt', reason: 'Path points outside the archive' },
+      { file: 'Data Sheets/large.txt', reason: 'File size (4KB) exceeds limit (1KB)' },
+      { file: 'old/pack.zip', reason: 'Nested archives are not expanded' },
+    ]));
+    expect(contents.skipped).toHaveLength(3);
+  });
+
+  test('should reject archives that are unreadable or expand beyond the total limit', () => {
+    expect(() => expandAssetArchive(archiveUpload(Buffer.from('not a zip')))).toThrow('Archive could not be read');
+
+    const bomb = buildArchive({ 'a.txt': 'a'.repeat(4096), 'b.txt': 'b'.repeat(4096) });
+    expect(() => expandAssetArchive(
+      archiveUpload(bomb),
+      { maxEntries: 10, maxEntrySize: 8192, maxTotalSize: 6000, maxCompressionRatio: 100 }
+    )).toThrow('Archive expands to 8KB, more than the limit of 6KB');
+  });
+});
+
+describe('AssetImportService archive import', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    let created = 0;
+    mockedPrisma.document.create.mockImplementation(async ({ data }) => ({ id: `doc-${++created}`, ...data }));
+  });
+
+  test('should import an uploaded archive as one batch with a result per entry', async () => {
+    const archive = buildArchive({
+      'Case Studies/acme.md': '# Acme rollout\n\nThe network refresh cut outages by half.',
+      'Notes/pricing.txt': 'Pricing for the edge switches starts at 400 per unit.',
+      'Logos/acme.png': Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]),
+    });
+
+    const result = await new AssetImportService().importAsset(
+      archiveUpload(archive, { scope: DocumentScope.SALES_ASSETS }),
+      'user-1'
+    );
+
+    expect(result).toMatchObject({ total: 3, imported: 2, failed: 0, skipped: 1, documentIds: ['doc-1', 'doc-2'] });
+    expect(result.files).toEqual([
+      { file: 'Logos/acme.png', status: 'skipped', errors: [], warnings: ['Unsupported file type: application/octet-stream'] },
+      {
+        file: 'Case Studies/acme.md',
+        status: 'imported',
+        documentId: 'doc-1',
+        category: 'Case Study',
+        scope: DocumentScope.CASE_STUDIES,
+        errors: [],
+        warnings: [],
+      },
+      {
+        file: 'Notes/pricing.txt',
+        status: 'imported',
+        documentId: 'doc-2',
+        category: undefined,
+        scope: DocumentScope.SALES_ASSETS,
+        errors: [],
+        warnings: [],
+      },
+    ]);
+    expect(mockedPrisma.document.create.mock.calls.map(([{ data }]) => [data.fileName, data.fileType, data.category, data.scope, data.accountId])).toEqual([
+      ['Case Studies/acme.md', 'md', 'Case Study', DocumentScope.CASE_STUDIES, 'acc-acme'],
+      ['Notes/pricing.txt', 'txt', undefined, DocumentScope.SALES_ASSETS, 'acc-acme'],
+    ]);
+  });
+
+  test('should report an unreadable archive as a failed file', async () => {
+    const result = await new AssetImportService().importAssetBatch([archiveUpload(Buffer.from('not a zip'))], 'user-1');
+
+    expect(result).toMatchObject({ total: 1, imported: 0, failed: 1, skipped: 0 });
+    expect(result.errors[0]).toEqual({ file: 'q3-pack.zip', error: expect.stringContaining('Archive could not be read') });
+    expect(mockedPrisma.document.create).not.toHaveBeenCalled();
+  });
+});
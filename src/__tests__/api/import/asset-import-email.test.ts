@@ -0,0 +1,95 @@
+/**
+ * Test suite for linking imported emails to accounts and contacts
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { AssetImportService } from '../../../lib/services/import/asset-import.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    companyAccount: { findUnique: jest.fn(), findMany: jest.fn() },
+    contact: { findMany: jest.fn() },
+    document: { create: jest.fn(), update: jest.fn() },
+    documentContact: { createMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/services/chunking', () => ({
+  getChunkingService: () => ({ processDocument: jest.fn() }),
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const eml = (from: string, to: string) => Buffer.from([
+  `From: ${from}`,
+  `To: ${to}`,
+  'Cc: cfo@acme.com',
+  'Subject: Pricing',
+  '',
+  'Please send the quote.',
+  '',
+  'On Mon, Mar 4, 2024 at 9:00 AM Someone Else <someone@other.com> wrote:',
+  '> Earlier message',
+].join('\r\n'));
+
+const importEmail = (buffer: Buffer, data: { accountId?: string } = {}) =>
+  new AssetImportService().importAsset({
+    fileName: 'pricing.eml',
+    originalName: 'pricing.eml',
+    buffer,
+    fileSize: buffer.length,
+    mimeType: 'message/rfc822',
+    ...data,
+  }, 'user-1');
+
+describe('AssetImportService email linking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.document.create.mockImplementation(async ({ data }) => ({ id: 'doc-1', ...data, accountId: data.accountId ?? null }));
+  });
+
+  test('should link the email to the account of the sender domain and to the known contacts', async () => {
+    mockedPrisma.contact.findMany.mockResolvedValue([
+      { id: 'contact-jane', email: 'Jane.Doe@Mail.Acme.com', accountId: 'acc-acme' },
+      { id: 'contact-cfo', email: 'cfo@acme.com', accountId: 'acc-acme' },
+    ]);
+    mockedPrisma.companyAccount.findMany.mockResolvedValue([
+      { id: 'acc-acme', domain: 'acme.com', website: null },
+    ]);
+
+    const result = await importEmail(eml('Jane Doe <jane.doe@mail.acme.com>', 'bob@northstar.io'));
+
+    expect(result).toMatchObject({ imported: 1, warnings: [] });
+    expect(mockedPrisma.contact.findMany.mock.calls[0][0].where).toEqual({
+      email: { in: ['jane.doe@mail.acme.com', 'bob@northstar.io', 'cfo@acme.com'], mode: 'insensitive' },
+    });
+    expect(mockedPrisma.document.update).toHaveBeenCalledWith({
+      where: { id: 'doc-1' },
+      data: { accountId: 'acc-acme' },
+    });
+    expect(mockedPrisma.documentContact.createMany).toHaveBeenCalledWith({
+      data: [
+        { documentId: 'doc-1', contactId: 'contact-jane', role: 'from' },
+        { documentId: 'doc-1', contactId: 'contact-cfo', role: 'cc' },
+      ],
+      skipDuplicates: true,
+    });
+  });
+
+  test('should keep the account given with the import and warn when no domain matches', async () => {
+    mockedPrisma.contact.findMany.mockResolvedValue([]);
+    mockedPrisma.companyAccount.findMany.mockResolvedValue([]);
+
+    const given = await importEmail(eml('jane@acme.com', 'bob@northstar.io'), { accountId: 'acc-given' });
+    expect(mockedPrisma.document.create.mock.calls[0][0].data.accountId).toBe('acc-given');
+    expect(mockedPrisma.companyAccount.findMany).not.toHaveBeenCalled();
+    expect(given.warnings).toEqual([]);
+
+    const unmatched = await importEmail(eml('jane@unknown.com', 'bob@northstar.io'));
+    expect(unmatched.imported).toBe(1);
+    expect(unmatched.warnings).toEqual([
+      { file: 'pricing.eml', warning: 'No account matches the email domains of the sender or recipients' },
+    ]);
+    expect(mockedPrisma.documentContact.createMany).not.toHaveBeenCalled();
+  });
+});
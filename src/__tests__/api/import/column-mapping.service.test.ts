@@ -0,0 +1,136 @@
+/**
+ * Test suite for Column Mapping Service
+ */
+
+import {
+  ColumnMappingProfile,
+  ColumnMappingService,
+  resolveTargetField,
+} from '../../../lib/services/import/column-mapping.service';
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const buildProfile = (overrides: Partial<ColumnMappingProfile> = {}): ColumnMappingProfile => ({
+  id: 'profile-1',
+  name: 'Salesforce export',
+  entityType: 'accounts',
+  description: null,
+  mappings: [
+    { sourceColumn: 'Account Title', targetField: 'name', transforms: ['trim'] },
+    { sourceColumn: 'Web', targetField: 'domain', transforms: ['lower'] },
+  ],
+  isDefault: false,
+  lastUsedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  userId: 'user-1',
+  ...overrides,
+});
+
+describe('ColumnMappingService', () => {
+  const service = new ColumnMappingService();
+
+  describe('applyMappings', () => {
+    test('should rename mapped columns and keep unmapped ones', () => {
+      const row = { 'Account Title': '  Acme Corp ', Web: 'ACME.COM', Region: 'West' };
+
+      const mapped = service.applyMappings(row, buildProfile().mappings);
+
+      expect(mapped).toEqual({ name: 'Acme Corp', domain: 'acme.com', Region: 'West' });
+    });
+
+    test('should match source columns ignoring case and separators', () => {
+      const mapped = service.applyMappings(
+        { account_title: 'Acme' },
+        [{ sourceColumn: 'Account Title', targetField: 'name' }]
+      );
+
+      expect(mapped).toEqual({ name: 'Acme' });
+    });
+  });
+
+  describe('transformValue', () => {
+    test('should apply transforms in order', () => {
+      expect(service.transformValue('  hello   world ', { transforms: ['collapse_whitespace', 'title'] }))
+        .toBe('Hello World');
+      expect(service.transformValue('$1,250.50', { transforms: ['number'] })).toBe(1250.5);
+      expect(service.transformValue('Yes', { transforms: ['boolean'] })).toBe(true);
+    });
+
+    test('should parse dates using the configured format', () => {
+      expect(service.transformValue('05/03/2024', { transforms: ['date'], dateFormat: 'DD/MM/YYYY' }))
+        .toBe('2024-03-05');
+      expect(service.transformValue('05/03/2024', { transforms: ['date'], dateFormat: 'MM/DD/YYYY' }))
+        .toBe('2024-05-03');
+    });
+
+    test('should leave unparseable dates unchanged', () => {
+      expect(service.transformValue('31/02/2024', { transforms: ['date'], dateFormat: 'DD/MM/YYYY' }))
+        .toBe('31/02/2024');
+    });
+  });
+
+  describe('validateMappings', () => {
+    test('should reject unknown fields and duplicate columns', () => {
+      const errors = service.validateMappings('products', [
+        { sourceColumn: 'SKU', targetField: 'itemNumber' },
+        { sourceColumn: 'sku', targetField: 'itemDescription' },
+        { sourceColumn: 'Colour', targetField: 'color' },
+      ]);
+
+      expect(errors).toEqual([
+        'Column "sku" is mapped more than once',
+        'Unknown products field "color" for column "Colour"',
+      ]);
+    });
+  });
+
+  describe('suggestMappings', () => {
+    test('should suggest fields by exact name and similarity', () => {
+      const suggestions = service.suggestMappings('accounts', ['Company Name', 'Industry', 'Favourite Colour']);
+
+      expect(suggestions).toEqual([
+        { sourceColumn: 'Company Name', targetField: 'name', confidence: 0.85, matchedBy: 'similarity' },
+        { sourceColumn: 'Industry', targetField: 'industry', confidence: 1, matchedBy: 'exact' },
+        { sourceColumn: 'Favourite Colour', targetField: null, confidence: 0, matchedBy: 'none' },
+      ]);
+    });
+
+    test('should prefer columns remembered by saved profiles', () => {
+      const suggestions = service.suggestMappings('accounts', ['Account Title', 'Web'], [buildProfile()]);
+
+      expect(suggestions.map(s => [s.targetField, s.matchedBy])).toEqual([
+        ['name', 'profile'],
+        ['domain', 'profile'],
+      ]);
+      expect(suggestions[1].transforms).toEqual(['lower']);
+    });
+
+    test('should not assign the same field twice', () => {
+      const suggestions = service.suggestMappings('accounts', ['name', 'Company Name']);
+
+      expect(suggestions[0].targetField).toBe('name');
+      expect(suggestions[1].targetField).toBeNull();
+    });
+  });
+
+  describe('rankProfiles', () => {
+    test('should rank profiles by column coverage', () => {
+      const partial = buildProfile({ id: 'profile-2', name: 'Partial' });
+      partial.mappings = [...partial.mappings, { sourceColumn: 'Owner', targetField: 'crmOwner' }];
+
+      const matches = service.rankProfiles(['Account Title', 'Web'], [partial, buildProfile()]);
+
+      expect(matches.map(m => [m.profileId, m.coverage])).toEqual([
+        ['profile-1', 1],
+        ['profile-2', 0.67],
+      ]);
+    });
+  });
+
+  test('should resolve camelCase and snake_case headers to target fields', () => {
+    expect(resolveTargetField('products', 'item_number')).toBe('itemNumber');
+    expect(resolveTargetField('products', 'ItemNumber')).toBe('itemNumber');
+    expect(resolveTargetField('products', 'unknown')).toBeUndefined();
+  });
+});
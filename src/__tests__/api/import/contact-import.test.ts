@@ -0,0 +1,85 @@
+/**
+ * Test suite for contact imports
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { ContactImportService } from '../../../lib/services/import/contact-import.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    importValidationRule: { findMany: jest.fn().mockResolvedValue([]) },
+    fieldLineage: { createMany: jest.fn() },
+    companyAccount: {
+      findUnique: jest.fn(),
+    },
+    contact: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const accounts = [
+  { id: 'acc-acme', name: 'Acme', accountNumber: 'A-1', domain: 'acme.com' },
+  { id: 'acc-globex', name: 'Globex', accountNumber: 'A-2', domain: 'globex.io' },
+];
+
+describe('contact import', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.companyAccount.findUnique.mockImplementation(async ({ where }) =>
+      accounts.find(account =>
+        (where.id && account.id === where.id) ||
+        (where.accountNumber && account.accountNumber === where.accountNumber) ||
+        (where.domain && account.domain === where.domain)
+      ) || null
+    );
+    mockedPrisma.contact.create.mockImplementation(async ({ data }) => ({ id: `contact-${data.name}` }));
+  });
+
+  test('should link contacts by account number, account domain and work email domain', async () => {
+    mockedPrisma.contact.findFirst.mockResolvedValue(null);
+
+    const csv = [
+      'first_name,last_name,email,account_number,account_domain',
+      'Ann,Lee,ann@example.org,A-1,',
+      'Bo,Chen,,,https://www.globex.io/',
+      'Cy,Diaz,cy@acme.com,,',
+      'Di,Eng,di@gmail.com,,',
+    ].join('\n');
+
+    const result = await new ContactImportService().importFromCsv(Buffer.from(csv), 'contacts.csv');
+
+    expect(result).toMatchObject({ total: 4, created: 3, failed: 1 });
+    expect(mockedPrisma.contact.create.mock.calls.map(([{ data }]) => [data.name, data.accountId])).toEqual([
+      ['Ann Lee', 'acc-acme'],
+      ['Bo Chen', 'acc-globex'],
+      ['Cy Diaz', 'acc-acme'],
+    ]);
+    expect(result.errors).toEqual([
+      { row: 4, contact: 'Di Eng', error: 'No account found for email di@gmail.com' },
+    ]);
+  });
+
+  test('should detect duplicates by email and update them when asked', async () => {
+    mockedPrisma.contact.findFirst.mockResolvedValue({ id: 'contact-1', name: 'Ann Lee', email: 'ann@acme.com' });
+    mockedPrisma.contact.update.mockResolvedValue({ id: 'contact-1' });
+    const csv = Buffer.from('name,email,title\nAnn Lee,ANN@acme.com,CIO\n');
+
+    const skipped = await new ContactImportService().importFromCsv(csv, 'contacts.csv', { skipDuplicates: true });
+    expect(skipped).toMatchObject({ created: 0, skipped: 1, duplicates: 1 });
+    expect(mockedPrisma.contact.findFirst).toHaveBeenCalledWith({
+      where: { email: { equals: 'ann@acme.com', mode: 'insensitive' } },
+    });
+
+    const updated = await new ContactImportService().importFromCsv(csv, 'contacts.csv', { updateExisting: true });
+    expect(updated).toMatchObject({ updated: 1, contactIds: ['contact-1'] });
+    expect(mockedPrisma.contact.update).toHaveBeenCalledWith({
+      where: { id: 'contact-1' },
+      data: expect.objectContaining({ title: 'CIO', accountId: 'acc-acme' }),
+    });
+  });
+});
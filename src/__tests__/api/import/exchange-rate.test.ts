@@ -0,0 +1,162 @@
+/**
+ * Test suite for exchange rates and multi-currency opportunity revenue
+ */
+
+import { prisma } from '../../../lib/prisma';
+import {
+  createCurrencyConverter,
+  ExchangeRateService,
+  findRate,
+  normalizeCurrencyCode,
+} from '../../../lib/services/import/exchange-rate.service';
+import { OpportunityImportService } from '../../../lib/services/import/opportunity-import.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    importValidationRule: { findMany: jest.fn().mockResolvedValue([]) },
+    fieldLineage: { createMany: jest.fn() },
+    exchangeRate: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    opportunity: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const rate = (fromCurrency: string, toCurrency: string, value: number, effectiveDate: string) => ({
+  fromCurrency,
+  toCurrency,
+  rate: value,
+  effectiveDate: new Date(effectiveDate),
+});
+
+const rates = [
+  rate('CAD', 'USD', 0.75, '2024-01-01'),
+  rate('CAD', 'USD', 0.73, '2024-06-01'),
+  rate('USD', 'EUR', 0.9, '2024-01-01'),
+];
+
+describe('exchange rates', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should use the latest rate effective on the date, inverted or crossed when needed', () => {
+    expect(normalizeCurrencyCode(' cad ')).toBe('CAD');
+    expect(normalizeCurrencyCode('€')).toBe('EUR');
+    expect(normalizeCurrencyCode('dollars')).toBeNull();
+
+    expect(findRate(rates, 'CAD', 'USD', new Date('2024-03-15'), 'USD')).toBe(0.75);
+    expect(findRate(rates, 'CAD', 'USD', new Date('2024-07-01'), 'USD')).toBe(0.73);
+    expect(findRate(rates, 'EUR', 'USD', new Date('2024-03-15'), 'USD')).toBeCloseTo(1 / 0.9);
+    expect(findRate(rates, 'CAD', 'EUR', new Date('2024-03-15'), 'USD')).toBeCloseTo(0.675);
+    expect(findRate(rates, 'CAD', 'USD', new Date('2023-12-31'), 'USD')).toBeNull();
+    expect(findRate(rates, 'GBP', 'USD', new Date('2024-03-15'), 'USD')).toBeNull();
+
+    const converter = createCurrencyConverter(rates, 'USD');
+    expect(converter.convert(100000, 'CAD', new Date('2024-03-15'))).toBe(75000);
+    expect(converter.convert(100000, 'USD', new Date('2020-01-01'))).toBe(100000);
+    expect(converter.convert(100000, 'GBP', new Date('2024-03-15'))).toBeNull();
+  });
+
+  test('should import rates from CSV, replacing the rate of a pair and date already set', async () => {
+    mockedPrisma.exchangeRate.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'rate-eur' });
+    mockedPrisma.exchangeRate.upsert.mockImplementation(async ({ create }) => ({ id: 'rate', ...create }));
+
+    const csv = [
+      'from_currency,to_currency,rate,effective_date',
+      'cad,USD,0.74,2024-03-01',
+      'EUR,USD,1.08,2024-03-01',
+      'CANADIAN,USD,0.74,2024-03-01',
+      'GBP,USD,-1,',
+    ].join('\n');
+
+    const result = await new ExchangeRateService().importFromCsv(Buffer.from(csv), 'rates.csv');
+
+    expect(result).toMatchObject({ total: 4, created: 1, updated: 1, failed: 2 });
+    expect(result.errors).toEqual([
+      { row: 3, error: 'From currency "CANADIAN" is not a three-letter ISO 4217 code' },
+      { row: 4, error: 'Rate must be a positive number; Effective date is required' },
+    ]);
+    expect(mockedPrisma.exchangeRate.upsert.mock.calls[0][0]).toEqual({
+      where: {
+        fromCurrency_toCurrency_effectiveDate: {
+          fromCurrency: 'CAD',
+          toCurrency: 'USD',
+          effectiveDate: new Date('2024-03-01'),
+        },
+      },
+      create: {
+        fromCurrency: 'CAD',
+        toCurrency: 'USD',
+        rate: 0.74,
+        effectiveDate: new Date('2024-03-01'),
+        source: 'import',
+      },
+      update: { rate: 0.74, source: 'import' },
+    });
+  });
+
+  test('should keep the currency of imported opportunities and warn when it has no rate', async () => {
+    mockedPrisma.exchangeRate.findMany.mockResolvedValue(rates);
+    mockedPrisma.opportunity.findUnique.mockResolvedValue(null);
+    mockedPrisma.opportunity.create.mockImplementation(async ({ data }) => ({ id: `opp-${data.opportunityNumber}`, ...data }));
+
+    const csv = [
+      'opportunity_number,customer_name,account_id,booked_gross_revenue,currency,booked_date',
+      'OPP-1,Maple Ltd,acc-1,100000,cad,2024-03-15',
+      'OPP-2,Thames plc,acc-2,50000,GBP,2024-03-15',
+      'OPP-3,Nowhere Inc,acc-3,1000,dollars,2024-03-15',
+      'OPP-4,Acme,acc-4,2000,,2024-03-15',
+    ].join('\n');
+
+    const result = await new OpportunityImportService().importFromCsv(Buffer.from(csv), 'opportunities.csv', {
+      linkProducts: false,
+    });
+
+    expect(mockedPrisma.opportunity.create.mock.calls.map(([{ data }]) => [data.opportunityNumber, data.currency]))
+      .toEqual([['OPP-1', 'CAD'], ['OPP-2', 'GBP'], ['OPP-4', 'USD']]);
+    expect(result.errors).toEqual([
+      { row: 3, opportunity: 'OPP-3', error: 'Currency "dollars" is not a three-letter ISO 4217 code' },
+    ]);
+    expect(result.warnings.filter(({ warning }) => warning.startsWith('No exchange rate'))).toEqual([
+      {
+        row: 2,
+        opportunity: 'OPP-2',
+        warning: 'No exchange rate from GBP to USD on 2024-03-15; revenue stays unconverted in reports',
+      },
+    ]);
+  });
+
+  test('should sum pipeline and booked revenue in the reporting currency', async () => {
+    mockedPrisma.exchangeRate.findMany.mockResolvedValue(rates);
+    mockedPrisma.opportunity.count.mockResolvedValue(3);
+    mockedPrisma.opportunity.groupBy.mockResolvedValue([]);
+    mockedPrisma.opportunity.findMany.mockResolvedValue([
+      { pipelineGrossRevenue: 0, bookedGrossRevenue: 100000, currency: 'CAD', bookedDate: new Date('2024-03-15'), estimatedCloseDate: null },
+      { pipelineGrossRevenue: 20000, bookedGrossRevenue: 0, currency: 'USD', bookedDate: null, estimatedCloseDate: new Date('2024-09-30') },
+      { pipelineGrossRevenue: 5000, bookedGrossRevenue: 0, currency: 'GBP', bookedDate: null, estimatedCloseDate: null },
+    ]);
+
+    const stats = await new OpportunityImportService().getImportStats('month');
+
+    expect(stats).toMatchObject({
+      totalOpportunities: 3,
+      pipelineValue: 20000,
+      bookedValue: 75000,
+      reportingCurrency: 'USD',
+      unconvertedOpportunities: 1,
+    });
+  });
+});
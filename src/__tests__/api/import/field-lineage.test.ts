@@ -0,0 +1,100 @@
+/**
+ * Test suite for per-field lineage of imported records
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { AccountImportService } from '../../../lib/services/import/account-import.service';
+import { FieldLineageService } from '../../../lib/services/import/field-lineage.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    importValidationRule: { findMany: jest.fn().mockResolvedValue([]) },
+    fieldLineage: { createMany: jest.fn(), findMany: jest.fn() },
+    companyAccount: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/services/chunking', () => ({
+  getChunkingService: () => ({}),
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+describe('field lineage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should record written fields only, as text', async () => {
+    await new FieldLineageService().recordFields(
+      'opportunities',
+      'opp-1',
+      {
+        opportunityNumber: 'OPP-1',
+        bookedDate: new Date('2024-03-01T00:00:00.000Z'),
+        bookedGrossRevenue: 1200,
+        description: null,
+        region: undefined,
+        importHash: 'abc',
+        updatedAt: new Date(),
+      },
+      { source: 'manual', userId: 'user-1' }
+    );
+
+    const { data } = mockedPrisma.fieldLineage.createMany.mock.calls[0][0];
+    expect(data.map(({ field, value }: { field: string; value: string | null }) => [field, value])).toEqual([
+      ['opportunityNumber', 'OPP-1'],
+      ['bookedDate', '2024-03-01T00:00:00.000Z'],
+      ['bookedGrossRevenue', '1200'],
+      ['description', null],
+    ]);
+    expect(data[0]).toMatchObject({ entityType: 'opportunities', recordId: 'opp-1', source: 'manual', userId: 'user-1' });
+  });
+
+  test('should record the file and row every imported account field came from', async () => {
+    mockedPrisma.companyAccount.findFirst.mockResolvedValue(null);
+    mockedPrisma.companyAccount.findUnique.mockImplementation(async ({ where }) =>
+      where.domain === 'globex.com' ? { id: 'acc-globex', name: 'Globex' } : null
+    );
+    mockedPrisma.companyAccount.create.mockImplementation(async ({ data }) => ({ id: 'acc-acme', ...data }));
+    mockedPrisma.companyAccount.update.mockImplementation(async ({ where, data }) => ({ id: where.id, ...data }));
+
+    const csv = [
+      'name,domain,recommended_solution',
+      'Acme,acme.com,Contact Center',
+      'Globex,globex.com,Unified Communications',
+    ].join('\n');
+
+    await new AccountImportService().importFromCsv(Buffer.from(csv), 'q3-accounts.csv', {
+      updateExisting: true,
+      deriveTechnologies: false,
+    });
+
+    const entries = mockedPrisma.fieldLineage.createMany.mock.calls.flatMap(([{ data }]) => data);
+    expect(entries.filter(({ field }: { field: string }) => field === 'recommendedSolution')).toEqual([
+      expect.objectContaining({
+        entityType: 'accounts',
+        recordId: 'acc-acme',
+        value: 'Contact Center',
+        source: 'import',
+        sourceFile: 'q3-accounts.csv',
+        rowNumber: 1,
+      }),
+      expect.objectContaining({
+        entityType: 'accounts',
+        recordId: 'acc-globex',
+        value: 'Unified Communications',
+        source: 'import',
+        sourceFile: 'q3-accounts.csv',
+        rowNumber: 2,
+      }),
+    ]);
+    // Generated account numbers are recorded with the rest of the created account
+    expect(entries).toContainEqual(expect.objectContaining({ recordId: 'acc-acme', field: 'accountNumber' }));
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Test suite for resumable, checkpointed imports
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { AccountImportService } from '../../../lib/services/import/account-import.service';
+import { ImportOrchestratorService } from '../../../lib/services/import/import-orchestrator.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    importValidationRule: { findMany: jest.fn().mockResolvedValue([]) },
+    fieldLineage: { createMany: jest.fn() },
+    companyAccount: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    processingJob: {
+      upsert: jest.fn(),
+      update: jest.fn(),
+    },
+    processingStage: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    importSnapshot: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    importRejectedRow: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/queue', () => ({
+  QueueManager: {},
+}));
+
+jest.mock('@/lib/services/chunking', () => ({
+  getChunkingService: () => ({}),
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const csv = [
+  'name,domain',
+  'Acme,acme.com',
+  'Globex,globex.com',
+  'Initech,initech.com',
+  'Umbrella,umbrella.com',
+].join('\n');
+
+describe('AccountImportService checkpoints', () => {
+  const service = new AccountImportService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.companyAccount.findFirst.mockResolvedValue(null);
+    mockedPrisma.companyAccount.create.mockImplementation(async ({ data }) => ({ id: `new-${data.domain}` }));
+  });
+
+  test('should checkpoint after every batch', async () => {
+    mockedPrisma.processingStage.findUnique.mockResolvedValue(null);
+    mockedPrisma.companyAccount.findUnique.mockResolvedValue(null);
+
+    const result = await service.importFromCsv(Buffer.from(csv), 'accounts.csv', {
+      jobId: 'job-1',
+      batchSize: 2,
+    });
+
+    expect(result.created).toBe(4);
+    // The empty start checkpoint, then one per batch
+    expect(mockedPrisma.processingStage.upsert).toHaveBeenCalledTimes(3);
+    // Counters and the last row only: the write does not grow with the rows imported
+    expect(mockedPrisma.processingStage.upsert.mock.calls[2][0].update.checkpoint).toEqual({
+      lastCommittedRow: 4,
+      counters: { created: 4, updated: 0, skipped: 0, failed: 0, duplicates: 0, unchanged: 0 },
+      warnings: [],
+    });
+    expect(mockedPrisma.processingStage.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'COMPLETED' }) })
+    );
+  });
+
+  test('should resume after the last checkpoint without double-counting replayed rows', async () => {
+    mockedPrisma.processingStage.findUnique.mockResolvedValue({
+      checkpoint: {
+        lastCommittedRow: 2,
+        counters: { created: 2, updated: 0, skipped: 0, duplicates: 0 },
+      },
+    });
+    // Snapshots list every account the job wrote, including Initech from the interrupted attempt
+    mockedPrisma.importSnapshot.findMany.mockResolvedValue(
+      ['new-acme.com', 'new-globex.com', 'new-initech.com'].map(recordId => ({ recordId }))
+    );
+    mockedPrisma.importRejectedRow.findMany.mockResolvedValue([]);
+    // Initech was written by the interrupted attempt before it could checkpoint
+    mockedPrisma.companyAccount.findUnique.mockImplementation(async ({ where }) =>
+      where.domain === 'initech.com' ? { id: 'new-initech.com', name: 'Initech', domain: 'initech.com' } : null
+    );
+    mockedPrisma.importSnapshot.findFirst.mockResolvedValue({ action: 'created' });
+
+    const result = await service.importFromCsv(Buffer.from(csv), 'accounts.csv', {
+      jobId: 'job-1',
+      batchSize: 2,
+    });
+
+    expect(mockedPrisma.companyAccount.create).toHaveBeenCalledTimes(1);
+    expect(mockedPrisma.companyAccount.update).not.toHaveBeenCalled();
+    expect(result.created).toBe(4);
+    expect(result.failed).toBe(0);
+    expect(result.accountIds).toEqual(['new-acme.com', 'new-globex.com', 'new-initech.com', 'new-umbrella.com']);
+  });
+
+  test('should report the errors and warnings of the batches committed before a resume', async () => {
+    mockedPrisma.processingStage.findUnique.mockResolvedValue({
+      checkpoint: {
+        lastCommittedRow: 4,
+        counters: { created: 3, failed: 1 },
+        warnings: [{ row: 2, account: 'Globex', warning: 'Domain looks like a personal address' }],
+      },
+    });
+    mockedPrisma.importSnapshot.findMany.mockResolvedValue([]);
+    mockedPrisma.importRejectedRow.findMany.mockResolvedValue([
+      { rowNumber: 3, data: { name: 'Initech', domain: 'initech' }, errors: ['Invalid domain format'] },
+    ]);
+
+    const result = await service.importFromCsv(Buffer.from(csv), 'accounts.csv', {
+      jobId: 'job-1',
+      batchSize: 2,
+    });
+
+    expect(mockedPrisma.companyAccount.create).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ created: 3, failed: 1 });
+    expect(result.errors).toEqual([{ row: 3, account: 'Initech', error: 'Invalid domain format' }]);
+    expect(result.warnings).toEqual([{ row: 2, account: 'Globex', warning: 'Domain looks like a personal address' }]);
+  });
+
+  test('should resume the stages of a retried batch import under the same processing job', async () => {
+    mockedPrisma.processingStage.findUnique.mockResolvedValue({
+      checkpoint: { lastCommittedRow: 4, counters: { created: 4 } },
+    });
+    mockedPrisma.importSnapshot.findMany.mockResolvedValue([]);
+    mockedPrisma.importRejectedRow.findMany.mockResolvedValue([]);
+
+    const result = await new ImportOrchestratorService().executeBatchImport(
+      { accounts: { buffer: Buffer.from(csv), fileName: 'accounts.csv' } },
+      'user-1',
+      { jobId: 'batch-1' }
+    );
+
+    expect(result.jobId).toBe('batch-1');
+    expect(mockedPrisma.processingJob.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'batch-1' } }));
+    expect(mockedPrisma.processingStage.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { jobId_name: { jobId: 'batch-1', name: 'accounts' } } })
+    );
+    expect(mockedPrisma.companyAccount.create).not.toHaveBeenCalled();
+    expect(result.summary.totalCreated).toBe(4);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Test suite for incremental and full-snapshot imports
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { AccountImportService } from '../../../lib/services/import/account-import.service';
+import { hashImportRow } from '../../../lib/services/import/import-delta.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    importValidationRule: { findMany: jest.fn().mockResolvedValue([]) },
+    fieldLineage: { createMany: jest.fn() },
+    companyAccount: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    importSnapshot: {
+      createMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/services/chunking', () => ({
+  getChunkingService: () => ({}),
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const csv = [
+  'name,domain,industry',
+  'Acme,acme.com,Manufacturing',
+  'Globex,globex.com,Energy',
+  'Initech,initech.com,Software',
+].join('\n');
+
+describe('incremental imports', () => {
+  const service = new AccountImportService();
+  const options = { updateExisting: true, incremental: true, deriveTechnologies: false };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.companyAccount.findFirst.mockResolvedValue(null);
+    mockedPrisma.companyAccount.findUnique.mockResolvedValue(null);
+    mockedPrisma.companyAccount.create.mockImplementation(async ({ data }) => ({ id: `new-${data.domain}`, ...data }));
+    mockedPrisma.companyAccount.update.mockImplementation(async ({ where, data }) => ({ id: where.id, ...data }));
+  });
+
+  test('should hash row content regardless of key order and blank values', () => {
+    expect(hashImportRow({ name: 'Acme', domain: 'acme.com', industry: '' }))
+      .toBe(hashImportRow({ domain: 'acme.com', name: 'Acme', region: undefined }));
+    expect(hashImportRow({ name: 'Acme', domain: 'acme.com' }))
+      .not.toBe(hashImportRow({ name: 'Acme', domain: 'acme.io' }));
+  });
+
+  test('should write only new and changed rows', async () => {
+    await service.importFromCsv(Buffer.from(csv), 'accounts.csv', options);
+    const hashes = new Map<string, string>(
+      mockedPrisma.companyAccount.create.mock.calls.map(([{ data }]) => [data.domain, data.importHash])
+    );
+    expect(hashes.size).toBe(3);
+    jest.clearAllMocks();
+
+    // Acme is as last imported, Globex was written from a different row, Initech is new
+    mockedPrisma.companyAccount.findUnique.mockImplementation(async ({ where }) => {
+      if (where.domain === 'acme.com') return { id: 'acc-acme', importHash: hashes.get('acme.com') };
+      if (where.domain === 'globex.com') return { id: 'acc-globex', importHash: 'stale' };
+      return null;
+    });
+
+    const result = await service.importFromCsv(Buffer.from(csv), 'accounts.csv', options);
+
+    expect(result.delta).toEqual({ new: 1, changed: 1, unchanged: 1, removed: 0, removedIds: [] });
+    expect(mockedPrisma.companyAccount.update).toHaveBeenCalledTimes(1);
+    expect(mockedPrisma.companyAccount.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'acc-globex' },
+      data: expect.objectContaining({ importHash: hashes.get('globex.com'), missingFromImportAt: null }),
+    }));
+    expect(result.accountIds).toEqual(['acc-globex', 'new-initech.com']);
+  });
+
+  test('should flag imported accounts a full snapshot no longer contains', async () => {
+    mockedPrisma.companyAccount.findUnique.mockImplementation(async ({ where }) =>
+      where.domain === 'acme.com' ? { id: 'acc-acme', importHash: 'stale' } : null
+    );
+    mockedPrisma.companyAccount.findMany.mockResolvedValue([
+      { id: 'acc-acme' },
+      { id: 'acc-gone' },
+    ]);
+
+    const result = await service.importFromCsv(Buffer.from(csv), 'accounts.csv', {
+      ...options,
+      fullSnapshot: true,
+    });
+
+    expect(mockedPrisma.companyAccount.findMany).toHaveBeenCalledWith({
+      where: { importHash: { not: null }, missingFromImportAt: null },
+      select: { id: true },
+    });
+    expect(mockedPrisma.companyAccount.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['acc-gone'] } },
+      data: { missingFromImportAt: expect.any(Date) },
+    });
+    expect(result.delta).toMatchObject({ new: 2, changed: 1, unchanged: 0, removed: 1, removedIds: ['acc-gone'] });
+  });
+
+  test('should not flag accounts whose rows a full snapshot rejected', async () => {
+    mockedPrisma.companyAccount.findUnique.mockImplementation(async ({ where }) => {
+      if (where.domain === 'acme.com') return { id: 'acc-acme', importHash: 'stale' };
+      if (where.domain === 'globex.com') return { id: 'acc-globex', importHash: 'stale' };
+      return null;
+    });
+    mockedPrisma.companyAccount.update.mockImplementation(async ({ where, data }) => {
+      if (where.id === 'acc-globex') throw new Error('Deadlock detected');
+      return { id: where.id, ...data };
+    });
+    mockedPrisma.companyAccount.findMany.mockResolvedValue([
+      { id: 'acc-acme' },
+      { id: 'acc-globex' },
+      { id: 'acc-gone' },
+    ]);
+
+    const result = await service.importFromCsv(Buffer.from(csv), 'accounts.csv', {
+      ...options,
+      fullSnapshot: true,
+    });
+
+    expect(result.errors).toEqual([{ row: 2, account: 'Globex', error: 'Deadlock detected' }]);
+    expect(mockedPrisma.companyAccount.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['acc-gone'] } },
+      data: { missingFromImportAt: expect.any(Date) },
+    });
+    expect(result.delta).toMatchObject({ removed: 1, removedIds: ['acc-gone'] });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Test suite for import dry-run plans
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { AccountImportService } from '../../../lib/services/import/account-import.service';
+import {
+  createImportPlan,
+  diffFields,
+  recordPlanEntry,
+  truncatePlan,
+} from '../../../lib/services/import/import-plan';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    importValidationRule: { findMany: jest.fn().mockResolvedValue([]) },
+    companyAccount: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/services/chunking', () => ({
+  getChunkingService: () => ({}),
+}));
+
+const mockedAccounts = prisma.companyAccount as unknown as Record<string, jest.Mock>;
+
+describe('Import plan helpers', () => {
+  test('should diff only the fields an import writes', () => {
+    const changes = diffFields(
+      {
+        name: 'Acme',
+        industry: 'Retail',
+        location: 'Austin',
+        bookedDate: new Date('2024-01-01T00:00:00.000Z'),
+      },
+      {
+        name: 'Acme',
+        industry: 'Technology',
+        location: undefined,
+        bookedDate: new Date('2024-01-01T00:00:00.000Z'),
+      }
+    );
+
+    expect(changes).toEqual([{ field: 'industry', before: 'Retail', after: 'Technology' }]);
+  });
+
+  test('should count every entry but cap the listed records', () => {
+    const plan = createImportPlan('products', 1);
+
+    recordPlanEntry(plan, { row: 1, key: 'A', action: 'create' });
+    recordPlanEntry(plan, { row: 2, key: 'B', action: 'create' });
+    recordPlanEntry(plan, { row: 3, key: 'C', action: 'unchanged' });
+
+    expect(plan.summary.toCreate).toBe(2);
+    expect(plan.summary.unchanged).toBe(1);
+    expect(plan.creates.map(record => record.key)).toEqual(['A']);
+    expect(plan.truncated).toBe(true);
+  });
+
+  test('should truncate an uncapped plan without losing counts', () => {
+    const plan = createImportPlan('accounts', 10);
+    ['A', 'B', 'C'].forEach((key, index) => recordPlanEntry(plan, { row: index + 1, key, action: 'create' }));
+
+    const truncated = truncatePlan(plan, 2);
+
+    expect(truncated.creates).toHaveLength(2);
+    expect(truncated.summary.toCreate).toBe(3);
+    expect(truncated.truncated).toBe(true);
+  });
+});
+
+describe('AccountImportService dry run', () => {
+  const service = new AccountImportService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should plan creates, updates and in-file conflicts without writing', async () => {
+    mockedAccounts.findUnique.mockImplementation(async ({ where }) =>
+      where.domain === 'acme.com'
+        ? { id: 'acc-1', name: 'Acme', domain: 'acme.com', industry: 'Retail' }
+        : null
+    );
+    mockedAccounts.findFirst.mockResolvedValue(null);
+
+    const csv = [
+      'name,domain,industry',
+      'Acme,acme.com,Technology',
+      'Globex,globex.com,Energy',
+      'Globex Corp,globex.com,Energy',
+    ].join('\n');
+
+    const result = await service.importFromCsv(Buffer.from(csv), 'accounts.csv', {
+      dryRun: true,
+      updateExisting: true,
+    });
+
+    expect(mockedAccounts.create).not.toHaveBeenCalled();
+    expect(mockedAccounts.update).not.toHaveBeenCalled();
+    expect(result.created).toBe(0);
+    expect(result.plan?.summary).toMatchObject({ total: 3, toCreate: 1, toUpdate: 1, conflicts: 1 });
+    expect(result.plan?.updates[0]).toMatchObject({
+      existingId: 'acc-1',
+      matchedBy: 'domain',
+      changes: [{ field: 'industry', before: 'Retail', after: 'Technology' }],
+    });
+    expect(result.plan?.conflicts[0]).toMatchObject({ row: 3, reason: 'Duplicate of row 2 in this file' });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Test suite for rejected-row reports
+ */
+
+import * as XLSX from 'xlsx';
+
+import { prisma } from '../../../lib/prisma';
+import { ImportRejectionService } from '../../../lib/services/import/import-rejection.service';
+import { readImportBatches } from '../../../lib/services/import/import-source';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    processingJob: { findFirst: jest.fn() },
+    importRejectedRow: { createMany: jest.fn(), findMany: jest.fn(), groupBy: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+describe('rejected-row reports', () => {
+  const service = new ImportRejectionService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.processingJob.findFirst.mockResolvedValue({ id: 'job-1' });
+    mockedPrisma.importRejectedRow.createMany.mockImplementation(async ({ data }) => ({ count: data.length }));
+  });
+
+  test('should keep each rejected source row once with all of its errors', async () => {
+    const rows = [
+      { row: { name: 'Acme' }, rowNumber: 1, source: { 'Company Name': 'Acme' } },
+      { row: { name: '' }, rowNumber: 2, source: { 'Company Name': '' } },
+    ];
+
+    const recorded = await service.recordRejectedRows('job-1', 'accounts', rows, [
+      { row: 2, error: 'Account name is required' },
+      { row: 2, error: 'Missing domain' },
+    ]);
+
+    expect(recorded).toBe(1);
+    expect(mockedPrisma.importRejectedRow.createMany).toHaveBeenCalledWith({
+      data: [{
+        jobId: 'job-1',
+        entityType: 'accounts',
+        rowNumber: 2,
+        data: { 'Company Name': '' },
+        errors: ['Account name is required', 'Missing domain'],
+      }],
+      skipDuplicates: true,
+    });
+    await expect(service.recordRejectedRows(undefined, 'accounts', rows, [{ row: 2, error: 'x' }])).resolves.toBe(0);
+  });
+
+  test('should write rejected rows under their source columns with the reasons appended', async () => {
+    mockedPrisma.importRejectedRow.findMany.mockResolvedValue([
+      { entityType: 'products', rowNumber: 3, data: { 'Item Number': '', Cost: '12' }, errors: ['Item number is required'] },
+      { entityType: 'products', rowNumber: 7, data: { 'Item Number': 'X-1', Notes: 'n' }, errors: ['a', 'b'] },
+    ]);
+
+    const report = await service.buildRejectedRowsReport('job-1', 'user-1', 'csv');
+
+    expect(report).toMatchObject({ fileName: 'import-job-1-rejected-products.csv', rows: 2 });
+    expect(report.content.toString('utf8').split('\n')).toEqual([
+      'Item Number,Cost,Notes,error_row,error_reason',
+      ',12,,3,Item number is required',
+      'X-1,,n,7,a; b',
+    ]);
+
+    // A corrected report is read back without its error columns
+    const batches = [];
+    for await (const batch of readImportBatches(report.content, report.fileName, { batchSize: 10 })) {
+      batches.push(batch);
+    }
+    expect(batches[0].rows[1].source).toEqual({ 'Item Number': 'X-1', Cost: '', Notes: 'n' });
+  });
+
+  test('should put each entity on its own sheet and refuse a mixed CSV', async () => {
+    mockedPrisma.importRejectedRow.findMany.mockResolvedValue([
+      { entityType: 'accounts', rowNumber: 1, data: { name: '' }, errors: ['Account name is required'] },
+      { entityType: 'contacts', rowNumber: 4, data: { email: 'x@gmail.com' }, errors: ['No account found'] },
+    ]);
+
+    const report = await service.buildRejectedRowsReport('job-1', 'user-1', 'xlsx');
+    expect(XLSX.read(report.content, { type: 'buffer' }).SheetNames).toEqual(['accounts', 'contacts']);
+
+    await expect(service.buildRejectedRowsReport('job-1', 'user-1', 'csv')).rejects.toThrow('choose one');
+  });
+
+  test('should not expose another user\'s job', async () => {
+    mockedPrisma.processingJob.findFirst.mockResolvedValue(null);
+
+    await expect(service.buildRejectedRowsReport('job-1', 'user-2', 'csv')).rejects.toThrow('Import job not found');
+    expect(mockedPrisma.importRejectedRow.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Test suite for import undo snapshots
+ */
+
+import { JobStatus } from '@prisma/client';
+
+import { prisma } from '../../../lib/prisma';
+import { ImportSnapshotService } from '../../../lib/services/import/import-snapshot.service';
+
+const mockDeleteByFilter = jest.fn();
+const mockSyncAccountTechnologies = jest.fn();
+const mockAddImportJob = jest.fn();
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    processingJob: { findFirst: jest.fn(), update: jest.fn() },
+    importSnapshot: { create: jest.fn(), findMany: jest.fn(), updateMany: jest.fn() },
+    companyAccount: { update: jest.fn(), findMany: jest.fn(), deleteMany: jest.fn() },
+    product: {
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    opportunity: { update: jest.fn(), findMany: jest.fn(), deleteMany: jest.fn() },
+    purchaseProduct: { update: jest.fn(), findMany: jest.fn(), deleteMany: jest.fn() },
+    contact: { update: jest.fn(), findMany: jest.fn(), deleteMany: jest.fn() },
+    technology: { findMany: jest.fn() },
+    insight: { findMany: jest.fn() },
+    vectorChunk: { findMany: jest.fn() },
+    accountMatchReview: { deleteMany: jest.fn() },
+    fieldLineage: { deleteMany: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/queue', () => ({
+  QueueManager: { addImportJob: (...args: unknown[]) => mockAddImportJob(...args) },
+}));
+
+jest.mock('@/lib/services/vector', () => ({
+  getVectorStore: () => ({ deleteByFilter: mockDeleteByFilter }),
+}));
+
+jest.mock('@/lib/services/import/technology-enrichment.service', () => ({
+  IMPORT_TECHNOLOGY_SOURCE: 'import',
+  getTechnologyEnrichmentService: () => ({ syncAccountTechnologies: mockSyncAccountTechnologies }),
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>> & {
+  $transaction: jest.Mock;
+};
+
+describe('ImportSnapshotService', () => {
+  const service = new ImportSnapshotService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.processingJob.findFirst.mockResolvedValue({
+      id: 'job-1',
+      userId: 'user-1',
+      status: JobStatus.COMPLETED,
+      completedAt: new Date('2026-01-01T10:00:00Z'),
+      undoneAt: null,
+    });
+    for (const model of ['opportunity', 'contact', 'technology', 'insight', 'vectorChunk']) {
+      mockedPrisma[model].findMany.mockResolvedValue([]);
+    }
+    mockedPrisma.companyAccount.deleteMany.mockResolvedValue({ count: 1 });
+    mockedPrisma.opportunity.deleteMany.mockResolvedValue({ count: 1 });
+    mockedPrisma.$transaction.mockResolvedValue([]);
+  });
+
+  test('should keep only the fields an import overwrites in the before-image', async () => {
+    await service.recordUpdated(
+      'job-1',
+      'accounts',
+      { id: 'acc-1', name: 'Acme', industry: 'Retail', metadata: null } as { id: string },
+      ['industry', 'metadata']
+    );
+
+    expect(mockedPrisma.importSnapshot.create).toHaveBeenCalledWith({
+      data: {
+        jobId: 'job-1',
+        entityType: 'accounts',
+        recordId: 'acc-1',
+        action: 'updated',
+        before: { industry: 'Retail', metadata: null },
+      },
+    });
+  });
+
+  test('should not record snapshots without a job', async () => {
+    await service.recordCreated(undefined, 'accounts', 'acc-1');
+
+    expect(mockedPrisma.importSnapshot.create).not.toHaveBeenCalled();
+  });
+
+  test('should restore updated rows and delete only created rows', async () => {
+    mockedPrisma.importSnapshot.findMany.mockResolvedValue([
+      { entityType: 'opportunities', recordId: 'opp-new', action: 'created', before: null },
+      { entityType: 'accounts', recordId: 'acc-new', action: 'created', before: null },
+      { entityType: 'accounts', recordId: 'acc-old', action: 'updated', before: { industry: 'Retail' } },
+    ]);
+    const importedAt = new Date('2026-01-01T09:00:00Z');
+    mockedPrisma.opportunity.findMany.mockResolvedValueOnce([{ id: 'opp-new', updatedAt: importedAt }]);
+    const accounts = [
+      { id: 'acc-new', accountNumber: 'A-100', updatedAt: importedAt },
+      { id: 'acc-old', accountNumber: 'A-200', updatedAt: importedAt },
+    ];
+    mockedPrisma.companyAccount.findMany.mockImplementation(({ where }) =>
+      Promise.resolve(accounts.filter(account => where.id.in.includes(account.id)))
+    );
+
+    const result = await service.undoImport('job-1', 'user-1');
+
+    expect(mockedPrisma.companyAccount.update).toHaveBeenCalledWith({
+      where: { id: 'acc-old' },
+      data: { industry: 'Retail' },
+    });
+    expect(mockedPrisma.companyAccount.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['acc-new'] } } });
+    expect(mockedPrisma.opportunity.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['opp-new'] } } });
+    expect(mockDeleteByFilter).toHaveBeenCalledWith({
+      must: [{ key: 'accountNumber', match: { any: ['A-100', 'acc-new'] } }],
+    });
+    expect(mockSyncAccountTechnologies).toHaveBeenCalledWith(['acc-old']);
+    // The restored account keeps its other vectors; only its account summary is rebuilt
+    expect(mockDeleteByFilter).toHaveBeenCalledWith({
+      must: [
+        { key: 'accountNumber', match: { any: ['A-200', 'acc-old'] } },
+        { key: 'scope', match: { value: 'account' } },
+      ],
+    });
+    expect(mockAddImportJob).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'vectorize', userId: 'user-1', data: { accountIds: ['acc-old'] } }),
+      result.vectorizationJobId
+    );
+    expect(result.restored.accounts).toBe(1);
+    expect(result.deleted).toMatchObject({ accounts: 1, opportunities: 1 });
+    expect(result.conflicts).toEqual([]);
+    expect(result.errors).toEqual([]);
+  });
+
+  test('should leave records written since the import and report them as conflicts', async () => {
+    mockedPrisma.importSnapshot.findMany.mockResolvedValue([
+      { entityType: 'accounts', recordId: 'acc-new', action: 'created', before: null },
+      { entityType: 'accounts', recordId: 'acc-edited', action: 'updated', before: { industry: 'Retail' } },
+      { entityType: 'accounts', recordId: 'acc-merged', action: 'updated', before: { industry: 'Energy' } },
+    ]);
+    // acc-new was edited after the import and acc-merged was merged into another account
+    mockedPrisma.companyAccount.findMany.mockResolvedValue([
+      { id: 'acc-new', updatedAt: new Date('2026-01-02T00:00:00Z') },
+      { id: 'acc-edited', updatedAt: new Date('2026-01-03T00:00:00Z') },
+    ]);
+
+    const result = await service.undoImport('job-1', 'user-1');
+
+    expect(mockedPrisma.companyAccount.update).not.toHaveBeenCalled();
+    expect(mockedPrisma.companyAccount.deleteMany).not.toHaveBeenCalled();
+    expect(mockAddImportJob).not.toHaveBeenCalled();
+    expect(result.conflicts).toEqual([
+      { entityType: 'accounts', recordId: 'acc-new', action: 'created', reason: 'modified' },
+      { entityType: 'accounts', recordId: 'acc-edited', action: 'updated', reason: 'modified' },
+      { entityType: 'accounts', recordId: 'acc-merged', action: 'updated', reason: 'missing' },
+    ]);
+    expect(result.restored.accounts).toBe(0);
+    expect(result.deleted.accounts).toBe(0);
+  });
+
+  test('should keep a created account that holds records the import did not create', async () => {
+    const importedAt = new Date('2026-01-01T09:00:00Z');
+    mockedPrisma.importSnapshot.findMany.mockResolvedValue([
+      { id: 'snap-2', entityType: 'accounts', recordId: 'acc-new', action: 'created', before: null },
+      { id: 'snap-1', entityType: 'accounts', recordId: 'acc-used', action: 'created', before: null },
+    ]);
+    mockedPrisma.companyAccount.findMany.mockImplementation(({ where }) =>
+      Promise.resolve(
+        [
+          { id: 'acc-new', accountNumber: 'A-100', updatedAt: importedAt },
+          { id: 'acc-used', accountNumber: 'A-300', updatedAt: importedAt },
+        ].filter(account => where.id.in.includes(account.id))
+      )
+    );
+    // A contact added by hand after the import does not touch the account's updatedAt
+    mockedPrisma.contact.findMany.mockResolvedValue([{ accountId: 'acc-used' }]);
+
+    const result = await service.undoImport('job-1', 'user-1');
+
+    expect(mockedPrisma.technology.findMany).toHaveBeenCalledWith({
+      where: { accountId: { in: ['acc-new', 'acc-used'] }, source: { not: 'import' } },
+      select: { accountId: true },
+      distinct: ['accountId'],
+    });
+    expect(mockedPrisma.companyAccount.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['acc-new'] } } });
+    expect(mockDeleteByFilter).toHaveBeenCalledWith({
+      must: [{ key: 'accountNumber', match: { any: ['A-100', 'acc-new'] } }],
+    });
+    expect(result.conflicts).toEqual([
+      { entityType: 'accounts', recordId: 'acc-used', action: 'created', reason: 'children' },
+    ]);
+    expect(mockedPrisma.importSnapshot.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['snap-2'] } },
+      data: { restoredAt: expect.any(Date) },
+    });
+    expect(result.undoneAt).toEqual(expect.any(Date));
+  });
+
+  test('should hand the current flag back to the product version an import closed', async () => {
+    const importedAt = new Date('2026-01-01T09:00:00Z');
+    mockedPrisma.importSnapshot.findMany.mockResolvedValue([
+      { entityType: 'products', recordId: 'prod-v2', action: 'created', before: null },
+      { entityType: 'products', recordId: 'prod-v1', action: 'updated', before: { scdEndDate: null, isCurrentRecordFlag: true } },
+    ]);
+    mockedPrisma.product.findMany.mockResolvedValue([
+      { id: 'prod-v2', updatedAt: importedAt },
+      { id: 'prod-v1', updatedAt: importedAt },
+    ]);
+    mockedPrisma.product.findUniqueOrThrow.mockResolvedValue({ itemNumber: 'ITEM-1' });
+    mockedPrisma.product.deleteMany.mockResolvedValue({ count: 1 });
+
+    const result = await service.undoImport('job-1', 'user-1');
+
+    expect(mockedPrisma.product.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['prod-v2'] }, itemNumber: 'ITEM-1', isCurrentRecordFlag: true },
+      data: { isCurrentRecordFlag: false },
+    });
+    expect(mockedPrisma.product.update).toHaveBeenCalledWith({
+      where: { id: 'prod-v1' },
+      data: { scdEndDate: null, isCurrentRecordFlag: true },
+    });
+    expect(mockedPrisma.product.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['prod-v2'] } } });
+    expect(result.restored.products).toBe(1);
+    expect(result.deleted.products).toBe(1);
+  });
+
+  test('should leave the snapshots it could not undo for a second undo to finish', async () => {
+    const importedAt = new Date('2026-01-01T09:00:00Z');
+    mockedPrisma.importSnapshot.findMany.mockResolvedValue([
+      { id: 'snap-3', entityType: 'accounts', recordId: 'acc-new', action: 'created', before: null },
+      { id: 'snap-2', entityType: 'accounts', recordId: 'acc-old', action: 'updated', before: { industry: 'Energy' } },
+      { id: 'snap-1', entityType: 'accounts', recordId: 'acc-old', action: 'updated', before: { industry: 'Retail' } },
+    ]);
+    mockedPrisma.companyAccount.findMany.mockResolvedValue([
+      { id: 'acc-new', updatedAt: importedAt },
+      { id: 'acc-old', updatedAt: importedAt },
+    ]);
+    mockedPrisma.companyAccount.update
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('lock timeout'));
+
+    const result = await service.undoImport('job-1', 'user-1');
+
+    expect(result.errors).toEqual(['Failed to restore accounts acc-old: lock timeout']);
+    expect(result.undoneAt).toBeUndefined();
+    expect(mockedPrisma.importSnapshot.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['snap-2', 'snap-3'] } },
+      data: { restoredAt: expect.any(Date) },
+    });
+    expect(mockedPrisma.processingJob.update).not.toHaveBeenCalled();
+    expect(mockedPrisma.fieldLineage.deleteMany).not.toHaveBeenCalled();
+
+    // The second undo restores only the earliest before-image, and does not take the first undo's
+    // write for a change made since the import
+    jest.clearAllMocks();
+    const firstUndoneAt = new Date('2026-01-05T00:00:00Z');
+    mockedPrisma.importSnapshot.findMany.mockResolvedValue([
+      { id: 'snap-3', entityType: 'accounts', recordId: 'acc-new', action: 'created', restoredAt: firstUndoneAt },
+      { id: 'snap-2', entityType: 'accounts', recordId: 'acc-old', action: 'updated', restoredAt: firstUndoneAt },
+      { id: 'snap-1', entityType: 'accounts', recordId: 'acc-old', action: 'updated', before: { industry: 'Retail' } },
+    ]);
+    mockedPrisma.companyAccount.findMany.mockResolvedValue([
+      { id: 'acc-old', updatedAt: new Date('2026-01-04T23:59:59Z') },
+    ]);
+
+    const retry = await service.undoImport('job-1', 'user-1');
+
+    expect(retry.conflicts).toEqual([]);
+    expect(mockedPrisma.companyAccount.update).toHaveBeenCalledTimes(1);
+    expect(mockedPrisma.companyAccount.update).toHaveBeenCalledWith({
+      where: { id: 'acc-old' },
+      data: { industry: 'Retail' },
+    });
+    expect(mockedPrisma.companyAccount.deleteMany).not.toHaveBeenCalled();
+    expect(mockedPrisma.processingJob.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: { undoneAt: retry.undoneAt, updatedAt: expect.any(Date) },
+    });
+  });
+
+  test('should refuse to undo an import twice', async () => {
+    mockedPrisma.processingJob.findFirst.mockResolvedValue({
+      id: 'job-1',
+      status: JobStatus.COMPLETED,
+      undoneAt: new Date(),
+    });
+
+    await expect(service.undoImport('job-1', 'user-1')).rejects.toThrow('already been undone');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Test suite for streamed import sources
+ */
+
+import { Readable } from 'stream';
+
+import * as XLSX from 'xlsx';
+
+import { readImportBatches } from '../../../lib/services/import/import-source';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+const buildCsv = (rows: number) =>
+  ['name,domain,employees']
+    .concat(Array.from({ length: rows }, (_, i) => `Company ${i + 1},company-${i + 1}.example.com,${i * 10}`))
+    .join('\n');
+
+describe('readImportBatches', () => {
+  test('should yield batches with row numbers and cells as strings', async () => {
+    const batches = [];
+    for await (const batch of readImportBatches(Buffer.from(buildCsv(25)), 'accounts.csv', { batchSize: 10 })) {
+      batches.push(batch);
+    }
+
+    expect(batches.map(batch => batch.rows.length)).toEqual([10, 10, 5]);
+    expect(batches[2].rows[4]).toEqual({
+      row: { name: 'Company 25', domain: 'company-25.example.com', employees: '240' },
+      rowNumber: 25,
+      source: { name: 'Company 25', domain: 'company-25.example.com', employees: '240' },
+    });
+    expect(batches[2].bytesRead).toBe(batches[2].totalBytes);
+  });
+
+  test('should read a large source only as far as the batches consumed', async () => {
+    const buffer = Buffer.from(buildCsv(50000));
+    const batches = readImportBatches(buffer, 'accounts.csv', { batchSize: 100 });
+
+    const first = await batches.next();
+    await batches.return(undefined);
+
+    expect(first.value?.rows).toHaveLength(100);
+    expect(first.value?.bytesRead).toBeLessThan(buffer.length / 2);
+  });
+
+  test('should stream from a readable and apply column mappings', async () => {
+    const csv = 'Company Name,Web Domain\nAcme,acme.com\n';
+    const source = Readable.from([Buffer.from(csv.slice(0, 12)), Buffer.from(csv.slice(12))]);
+
+    const rows = [];
+    for await (const batch of readImportBatches(source, 'accounts.csv', {
+      batchSize: 50,
+      totalBytes: csv.length,
+      columnMappings: [
+        { sourceColumn: 'Company Name', targetField: 'name' },
+        { sourceColumn: 'Web Domain', targetField: 'domain' },
+      ],
+    })) {
+      rows.push(...batch.rows);
+    }
+
+    expect(rows).toEqual([{
+      row: { name: 'Acme', domain: 'acme.com' },
+      rowNumber: 1,
+      source: { 'Company Name': 'Acme', 'Web Domain': 'acme.com' },
+    }]);
+  });
+
+  test('should hand mapped date columns their cells as written', async () => {
+    const csv = 'Opportunity,Close Date\nOPP-1,01/02/2024\n';
+
+    const rows = [];
+    for await (const batch of readImportBatches(Buffer.from(csv), 'opportunities.csv', {
+      batchSize: 50,
+      columnMappings: [
+        { sourceColumn: 'Opportunity', targetField: 'opportunityNumber' },
+        { sourceColumn: 'Close Date', targetField: 'closeDate', transforms: ['date'], dateFormat: 'DD/MM/YYYY' },
+      ],
+    })) {
+      rows.push(...batch.rows);
+    }
+
+    // 1 February, not 2 January as inferring the date type would read it
+    expect(rows[0].row).toEqual({ opportunityNumber: 'OPP-1', closeDate: '2024-02-01' });
+    expect(rows[0].source).toEqual({ Opportunity: 'OPP-1', 'Close Date': '01/02/2024' });
+  });
+
+  test('should read every row of a workbook, past the parser preview limit', async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ['name', 'domain'],
+      ...Array.from({ length: 10005 }, (_, i) => [`Company ${i + 1}`, `company-${i + 1}.example.com`]),
+    ]), 'Accounts');
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+    let count = 0;
+    let last;
+    for await (const batch of readImportBatches(buffer, 'accounts.xlsx', { batchSize: 1000 })) {
+      count += batch.rows.length;
+      last = batch.rows[batch.rows.length - 1];
+    }
+
+    expect(count).toBe(10005);
+    expect(last).toMatchObject({ rowNumber: 10005, row: { name: 'Company 10005' } });
+  });
+
+  test('should reject a workbook that does not parse', async () => {
+    const batches = readImportBatches(Buffer.from('PK\u0003\u0004 not a workbook'), 'accounts.xlsx', { batchSize: 50 });
+
+    await expect(batches.next()).rejects.toThrow('Invalid workbook source');
+  });
+
+  test('should read JSON records from the record path with nested fields as dotted columns', async () => {
+    const json = JSON.stringify({
+      data: {
+        accounts: [
+          { name: 'Acme', address: { city: 'Boston', country: 'US' }, tags: ['retail', 'priority'] },
+          { name: 'Globex', address: { city: 'Austin' }, employees: 1200 },
+        ],
+      },
+      paging: { next: null },
+    });
+
+    const rows = [];
+    for await (const batch of readImportBatches(Buffer.from(json), 'crm-export.json', {
+      batchSize: 1,
+      recordPath: 'data.accounts',
+      columnMappings: [{ sourceColumn: 'address.city', targetField: 'city' }],
+    })) {
+      rows.push(...batch.rows);
+    }
+
+    expect(rows.map(({ row, rowNumber }) => [rowNumber, row.name, row.city, row.tags, row.employees])).toEqual([
+      [1, 'Acme', 'Boston', 'retail, priority', ''],
+      [2, 'Globex', 'Austin', '', '1200'],
+    ]);
+    expect(rows[0].source['address.country']).toBe('US');
+  });
+
+  test('should read newline-delimited JSON from a readable', async () => {
+    const ndjson = '{"itemNumber":"SW-24","price":{"amount":400}}\n{"itemNumber":"SW-48","price":{"amount":700}}\n';
+
+    const rows = [];
+    for await (const batch of readImportBatches(Readable.from([Buffer.from(ndjson)]), 'products.ndjson', { batchSize: 50 })) {
+      rows.push(...batch.rows);
+    }
+
+    expect(rows.map(({ row }) => row)).toEqual([
+      { itemNumber: 'SW-24', 'price.amount': '400' },
+      { itemNumber: 'SW-48', 'price.amount': '700' },
+    ]);
+  });
+
+  test('should reject a JSON source that does not parse', async () => {
+    const batches = readImportBatches(Buffer.from('[{"name": "Acme"'), 'accounts.json', { batchSize: 50 });
+
+    await expect(batches.next()).rejects.toThrow('Invalid JSON source');
+  });
+});
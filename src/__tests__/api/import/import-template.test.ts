@@ -0,0 +1,72 @@
+/**
+ * Test suite for downloadable import templates
+ */
+
+import * as XLSX from 'xlsx';
+
+import { ACCOUNT_COLUMN_ALIASES } from '../../../lib/services/import/account-import.service';
+import { ImportEntityType, resolveTargetField } from '../../../lib/services/import/column-mapping.service';
+import { CONTACT_COLUMN_ALIASES } from '../../../lib/services/import/contact-import.service';
+import { buildImportTemplate, getImportTemplateFields } from '../../../lib/services/import/import-template';
+import {
+  OPPORTUNITY_COLUMN_ALIASES,
+  OPPORTUNITY_PRODUCT_COLUMN_ALIASES,
+} from '../../../lib/services/import/opportunity-import.service';
+import { PRODUCT_COLUMN_ALIASES } from '../../../lib/services/import/product-import.service';
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+jest.mock('@/lib/services/chunking', () => ({
+  getChunkingService: () => ({}),
+}));
+
+const aliasesFor: Record<ImportEntityType, Record<string, string>> = {
+  accounts: ACCOUNT_COLUMN_ALIASES,
+  products: PRODUCT_COLUMN_ALIASES,
+  opportunities: { ...OPPORTUNITY_PRODUCT_COLUMN_ALIASES, ...OPPORTUNITY_COLUMN_ALIASES },
+  contacts: CONTACT_COLUMN_ALIASES,
+};
+
+describe('import templates', () => {
+  test.each(['accounts', 'products', 'opportunities', 'contacts'] as ImportEntityType[])(
+    'should describe every %s column under a header the importer reads back',
+    (entityType) => {
+      for (const { field, column, description } of getImportTemplateFields(entityType)) {
+        // Importers try their alias map first, then the field names ignoring case and punctuation
+        const resolved = aliasesFor[entityType][column.toLowerCase()] || resolveTargetField(entityType, column);
+        expect({ column, resolved }).toEqual({ column, resolved: field });
+        expect(description).not.toBe(field);
+      }
+    }
+  );
+
+  test('should mark required columns and list the other headers a field accepts', () => {
+    const fields = getImportTemplateFields('opportunities');
+
+    expect(fields.filter(({ required }) => required).map(({ column }) => column))
+      .toEqual(['opportunity_number*', 'customer_name*']);
+    expect(fields.find(({ field }) => field === 'customerDomain')).toMatchObject({
+      column: 'customer_domain',
+      aliases: ['account_domain', 'domain', 'website'],
+    });
+    expect(fields.find(({ field }) => field === 'bookedDate')?.type).toBe('date');
+  });
+
+  test('should write example rows as CSV and add a data dictionary to workbooks', () => {
+    const csv = buildImportTemplate('products', 'csv');
+    const [header, firstExample] = csv.content.toString('utf8').split('\n');
+
+    expect(csv).toMatchObject({ fileName: 'products-import-template.csv', contentType: 'text/csv; charset=utf-8' });
+    expect(header.startsWith('item_number*,item_description,item_type_code')).toBe(true);
+    expect(firstExample.startsWith('CX-LIC-100,Contact center agent license')).toBe(true);
+
+    const workbook = XLSX.read(buildImportTemplate('accounts', 'xlsx').content, { type: 'buffer' });
+    expect(workbook.SheetNames).toEqual(['accounts', 'Data Dictionary']);
+    const dictionary = XLSX.utils.sheet_to_json<Record<string, string>>(workbook.Sheets['Data Dictionary']);
+    expect(dictionary.find(row => row.Column === 'name*')).toMatchObject({
+      Required: 'Yes',
+      Type: 'text',
+      'Also accepted as': 'account_name, company_name',
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Test suite for import uploads streamed to temporary files
+ */
+
+import { existsSync, readFileSync } from 'fs';
+
+import {
+  readImportSample,
+  receiveImportUpload,
+  removeImportUpload,
+} from '../../../lib/services/import/import-upload';
+
+const BOUNDARY = 'import-upload-boundary';
+
+const multipartRequest = (parts: Array<{ name: string; value: string; fileName?: string; type?: string }>) =>
+  new Request('http://localhost/api/import/accounts', {
+    method: 'POST',
+    headers: { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` },
+    body: parts
+      .map(part => [
+        `--${BOUNDARY}`,
+        `Content-Disposition: form-data; name="${part.name}"${part.fileName ? `; filename="${part.fileName}"` : ''}`,
+        ...(part.type ? [`Content-Type: ${part.type}`] : []),
+        '',
+        part.value,
+      ].join('\r\n'))
+      .concat(`--${BOUNDARY}--`, '')
+      .join('\r\n'),
+  });
+
+describe('import uploads', () => {
+  test('should write uploaded files to temporary files and remove them afterwards', async () => {
+    const csv = 'name,domain\nAcme,acme.com\n';
+    const upload = await receiveImportUpload(multipartRequest([
+      { name: 'options', value: '{"updateExisting":true}' },
+      { name: 'file', value: csv, fileName: 'accounts.csv', type: 'text/csv' },
+    ]));
+
+    expect(upload.fields).toEqual({ options: '{"updateExisting":true}' });
+    expect(upload.files).toEqual([
+      expect.objectContaining({ field: 'file', name: 'accounts.csv', type: 'text/csv', size: csv.length }),
+    ]);
+    expect(readFileSync(upload.files[0].path, 'utf8')).toBe(csv);
+
+    await removeImportUpload(upload);
+    expect(existsSync(upload.files[0].path)).toBe(false);
+  });
+
+  test('should refuse requests that are not multipart uploads', async () => {
+    const request = new Request('http://localhost/api/import/accounts', { method: 'POST', body: '{}' });
+
+    await expect(receiveImportUpload(request)).rejects.toThrow('Expected a multipart/form-data upload');
+  });
+
+  test('should sample the complete lines at the start of a large CSV file', async () => {
+    // Each row holds a quoted value with a line break, so only row ends may cut the sample
+    const rows = Array.from({ length: 40000 }, (_, i) => `Company ${i},"Line one\nline two"`);
+    const upload = await receiveImportUpload(multipartRequest([
+      { name: 'file', value: ['name,notes', ...rows].join('\n'), fileName: 'accounts.csv', type: 'text/csv' },
+    ]));
+
+    try {
+      const sample = (await readImportSample(upload.files[0]))!.toString('utf8');
+
+      expect(sample.length).toBeLessThanOrEqual(1024 * 1024);
+      expect(sample.length).toBeGreaterThan(1024 * 1024 - 100);
+      expect(sample.endsWith('"Line one\nline two"\n')).toBe(true);
+    } finally {
+      await removeImportUpload(upload);
+    }
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Test suite for configurable import validation rules
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { AccountImportService } from '../../../lib/services/import/account-import.service';
+import {
+  evaluateValidationRules,
+  ImportValidationRule,
+  ImportValidationRuleService,
+} from '../../../lib/services/import/import-validation-rule.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    importValidationRule: { findMany: jest.fn(), create: jest.fn() },
+    fieldLineage: { createMany: jest.fn() },
+    companyAccount: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/services/chunking', () => ({
+  getChunkingService: () => ({}),
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+const rule = (overrides: Partial<ImportValidationRule>): ImportValidationRule => ({
+  id: 'rule-1',
+  entityType: 'accounts',
+  field: 'name',
+  type: 'required',
+  severity: 'error',
+  config: {},
+  message: null,
+  description: null,
+  enabled: true,
+  createdById: 'user-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('import validation rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.importValidationRule.create.mockImplementation(async ({ data }) => ({
+      id: 'rule-new',
+      message: null,
+      description: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...data,
+    }));
+  });
+
+  test('should check required, pattern, enum and cross-field rules', () => {
+    const rules = [
+      rule({ id: 'crm', field: 'crmOwner' }),
+      rule({ id: 'num', field: 'accountNumber', type: 'pattern', config: { pattern: '^ACC-\\d+$' } }),
+      rule({ id: 'size', field: 'size', type: 'enum', severity: 'warning', config: { valueSet: 'companySize' } }),
+      rule({
+        id: 'gem',
+        field: 'gemStatus',
+        type: 'enum',
+        config: { values: ['Gold', 'Silver'] },
+        message: '{field} must be Gold or Silver, not {value}',
+      }),
+      rule({ id: 'rev', field: 'bookedGrossRevenue', type: 'requires', config: { fields: ['bookedDate'] } }),
+    ];
+
+    expect(evaluateValidationRules(rules, {
+      accountNumber: 'X-12',
+      size: 'Huge',
+      gemStatus: 'gold',
+      bookedGrossRevenue: 1200,
+    })).toEqual([
+      { ruleId: 'crm', field: 'crmOwner', severity: 'error', message: 'crmOwner is required' },
+      { ruleId: 'num', field: 'accountNumber', severity: 'error', message: 'accountNumber "X-12" does not match the required format' },
+      {
+        ruleId: 'size',
+        field: 'size',
+        severity: 'warning',
+        message: 'size "Huge" is not one of: startup, small, medium, large, enterprise',
+      },
+      { ruleId: 'rev', field: 'bookedGrossRevenue', severity: 'error', message: 'bookedGrossRevenue requires bookedDate' },
+    ]);
+
+    // Empty values only fail required rules
+    expect(evaluateValidationRules(rules.slice(1), { gemStatus: 'Bronze' })).toEqual([
+      { ruleId: 'gem', field: 'gemStatus', severity: 'error', message: 'gemStatus must be Gold or Silver, not Bronze' },
+    ]);
+  });
+
+  test('should refuse rules for unknown fields or without the settings their type needs', async () => {
+    const service = new ImportValidationRuleService();
+
+    await expect(service.createRule('user-1', { entityType: 'accounts', field: 'revenue', type: 'required' }))
+      .rejects.toThrow('Invalid validation rule');
+    expect(service.validateRule({ entityType: 'products', field: 'itemNumber', type: 'pattern', config: { pattern: '[' } }))
+      .toEqual([expect.stringContaining('Invalid pattern')]);
+    for (const pattern of ['^(a+)+$', '(\\w|\\d)*x', '([A-Z]{2,})*', '(a)\\1']) {
+      expect(service.validateRule({ entityType: 'products', field: 'itemNumber', type: 'pattern', config: { pattern } }))
+        .toEqual([expect.stringContaining('Unsafe pattern')]);
+    }
+    for (const pattern of ['^[A-Z]{2}-[A-Z]+-\\d+$', '^(ACC|OPP)-\\d+$', '^(\\d{3})?[(+*]+$']) {
+      expect(service.validateRule({ entityType: 'products', field: 'itemNumber', type: 'pattern', config: { pattern } }))
+        .toEqual([]);
+    }
+    expect(service.validateRule({ entityType: 'accounts', field: 'size', type: 'enum', config: { valueSet: 'sizes' } }))
+      .toEqual([expect.stringContaining('Unknown value set "sizes"')]);
+    expect(mockedPrisma.importValidationRule.create).not.toHaveBeenCalled();
+
+    const created = await service.createRule('user-1', {
+      entityType: 'opportunities',
+      field: 'bookedGrossRevenue',
+      type: 'requires',
+      config: { fields: ['bookedDate'] },
+    });
+    expect(created).toMatchObject({ id: 'rule-new', severity: 'error', enabled: true, createdById: 'user-1' });
+  });
+
+  test('should reject rows failing error rules and report warning rules during import', async () => {
+    mockedPrisma.importValidationRule.findMany.mockResolvedValue([
+      rule({ id: 'gem', field: 'gemStatus', type: 'enum', config: { values: ['Gold', 'Silver'] } }),
+      rule({ id: 'size', field: 'size', type: 'enum', severity: 'warning', config: { valueSet: 'companySize' } }),
+    ]);
+    mockedPrisma.companyAccount.findUnique.mockResolvedValue(null);
+    mockedPrisma.companyAccount.findFirst.mockResolvedValue(null);
+    mockedPrisma.companyAccount.create.mockImplementation(async ({ data }) => ({ id: `new-${data.domain}` }));
+
+    const csv = [
+      'name,domain,gem_status,size',
+      'Acme,acme.com,Gold,large',
+      'Globex,globex.com,Bronze,large',
+      'Initech,initech.com,Silver,10-50',
+    ].join('\n');
+
+    const result = await new AccountImportService().importFromCsv(Buffer.from(csv), 'accounts.csv', {
+      deriveTechnologies: false,
+    });
+
+    expect(mockedPrisma.importValidationRule.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { entityType: 'accounts', enabled: true },
+    }));
+    expect(result).toMatchObject({ created: 2, failed: 1 });
+    expect(result.errors).toEqual([
+      { row: 2, account: 'Globex', error: 'gemStatus "Bronze" is not one of: Gold, Silver' },
+    ]);
+    expect(result.warnings).toContainEqual({
+      row: 3,
+      account: 'Initech',
+      warning: 'size "10-50" is not one of: startup, small, medium, large, enterprise',
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Test suite for opportunity line items and their revenue rollup
+ */
+
+import { prisma } from '../../../lib/prisma';
+import { OpportunityImportService } from '../../../lib/services/import/opportunity-import.service';
+import {
+  calculateLineTotal,
+  checkRevenueRollup,
+  summarizeLineItems,
+  validateLineItem,
+} from '../../../lib/services/import/opportunity-line-items';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    importValidationRule: { findMany: jest.fn().mockResolvedValue([]) },
+    fieldLineage: { createMany: jest.fn() },
+    exchangeRate: { findMany: jest.fn().mockResolvedValue([]) },
+    opportunity: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    product: { findFirst: jest.fn() },
+    purchaseProduct: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+describe('opportunity line items', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should calculate line totals and compare them with the opportunity revenue', () => {
+    expect(calculateLineTotal({ quantity: 10, unitPrice: 250, discount: 10 })).toBe(2250);
+    expect(calculateLineTotal({ quantity: 10, unitPrice: 250, totalValue: 2000 })).toBe(2000);
+    expect(calculateLineTotal({ quantity: 10 })).toBeUndefined();
+
+    expect(validateLineItem({ quantity: 10, unitPrice: 250, discount: 120, totalValue: 2000 })).toEqual([
+      'Discount should be a percentage between 0 and 100',
+      'Total value 2000 does not match quantity × unit price less discount (-500)',
+    ]);
+
+    const totals = summarizeLineItems([
+      { quantity: 10, unitPrice: 250, discount: 10, lineMargin: 20 },
+      { quantity: 1, totalValue: 750, lineMargin: 40 },
+      { quantity: 2 },
+    ]);
+    expect(totals).toEqual({ lines: 3, pricedLines: 2, quantity: 13, totalValue: 3000, margin: 25 });
+
+    expect(checkRevenueRollup({ bookedGrossRevenue: 0, pipelineGrossRevenue: 3010 }, totals)).toEqual({
+      revenueField: 'pipelineGrossRevenue',
+      revenue: 3010,
+      lineTotal: 3000,
+      difference: -10,
+      consistent: true,
+    });
+    expect(checkRevenueRollup({ bookedGrossRevenue: 5000, pipelineGrossRevenue: 3000 }, totals))
+      .toMatchObject({ revenueField: 'bookedGrossRevenue', difference: -2000, consistent: false });
+    expect(checkRevenueRollup({ bookedGrossRevenue: 5000, pipelineGrossRevenue: 0 }, summarizeLineItems([])))
+      .toBeNull();
+  });
+
+  test('should write line commercials on import and warn when lines disagree with the revenue', async () => {
+    mockedPrisma.opportunity.findUnique.mockImplementation(async ({ where }) =>
+      where.id
+        ? { id: 'opp-1', opportunityNumber: 'OPP-1', bookedGrossRevenue: 0, pipelineGrossRevenue: 10000 }
+        : null
+    );
+    mockedPrisma.opportunity.create.mockResolvedValue({ id: 'opp-1', opportunityNumber: 'OPP-1', accountId: 'acc-1' });
+    mockedPrisma.product.findFirst.mockResolvedValue({ id: 'prod-1', itemNumber: 'SKU-1' });
+    mockedPrisma.purchaseProduct.findUnique.mockResolvedValue(null);
+    mockedPrisma.purchaseProduct.create.mockResolvedValue({ id: 'line-1' });
+    mockedPrisma.purchaseProduct.findMany.mockResolvedValue([
+      { quantity: 20, unitPrice: 500, discount: 15, totalValue: 8500, lineMargin: null },
+    ]);
+
+    const csv = [
+      'opportunity_number,customer_name,account_id,pipeline_gross_revenue,item_number,quantity,unit_price,discount',
+      'OPP-1,Acme,acc-1,10000,SKU-1,20,500,15',
+    ].join('\n');
+
+    const result = await new OpportunityImportService().importFromCsv(Buffer.from(csv), 'opportunities.csv', {
+      linkProducts: true,
+    });
+
+    expect(result).toMatchObject({ created: 1, productsLinked: 1 });
+    expect(mockedPrisma.purchaseProduct.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        opportunityId: 'opp-1',
+        productId: 'prod-1',
+        quantity: 20,
+        unitPrice: 500,
+        discount: 15,
+        totalValue: 8500,
+      }),
+    });
+    expect(result.warnings).toContainEqual({
+      row: 0,
+      opportunity: 'OPP-1',
+      warning: 'Line items total 8500 but pipeline gross revenue is 10000',
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Test suite for deriving technologies from account vendor columns
+ */
+
+import { prisma } from '../../../lib/prisma';
+import {
+  parseVendorField,
+  TechnologyEnrichmentService,
+} from '../../../lib/services/import/technology-enrichment.service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    companyAccount: { findMany: jest.fn() },
+    technology: { createMany: jest.fn(), update: jest.fn(), deleteMany: jest.fn() },
+  },
+}));
+
+const mockedPrisma = prisma as unknown as Record<string, Record<string, jest.Mock>>;
+
+describe('technology enrichment', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.technology.createMany.mockImplementation(async ({ data }) => ({ count: data.length }));
+    mockedPrisma.technology.deleteMany.mockImplementation(async ({ where }) => ({ count: where.id.in.length }));
+  });
+
+  test('should split vendor text into canonical vendor and product names', () => {
+    const technologies = parseVendorField('ms teams / Cisco and inContact; N/A', 'ucVendor', 'unified_communications');
+
+    expect(technologies.map(({ name, vendor, product, confidence }) => ({ name, vendor, product, confidence }))).toEqual([
+      { name: 'Microsoft Teams', vendor: 'Microsoft', product: 'Teams', confidence: 0.9 },
+      { name: 'Cisco', vendor: 'Cisco', product: undefined, confidence: 0.8 },
+      { name: 'NICE CXone', vendor: 'NICE', product: 'CXone', confidence: 0.9 },
+    ]);
+    expect(parseVendorField('Acme Switching', 'enVendor', 'networking')).toMatchObject([
+      { name: 'Acme Switching', category: 'networking', confidence: 0.5 },
+    ]);
+    expect(parseVendorField('none', 'dcVendor', 'data_center')).toEqual([]);
+  });
+
+  test('should add new vendors, keep unchanged ones and remove vendors no longer listed', async () => {
+    mockedPrisma.companyAccount.findMany.mockResolvedValue([
+      {
+        id: 'acc-1',
+        ccVendor: 'Genesys Cloud',
+        ccIntent: 'High',
+        ucVendor: 'Webex',
+        technologies: [
+          {
+            id: 'tech-webex',
+            name: 'Cisco Webex',
+            category: 'unified_communications',
+            confidence: 0.9,
+            metadata: { vendor: 'Cisco', product: 'Webex', sourceField: 'ucVendor', rawValue: 'Webex' },
+          },
+          {
+            id: 'tech-avaya',
+            name: 'Avaya',
+            category: 'contact_center',
+            confidence: 0.8,
+            metadata: { vendor: 'Avaya', sourceField: 'ccVendor', rawValue: 'Avaya' },
+          },
+        ],
+      },
+    ]);
+
+    const result = await new TechnologyEnrichmentService().syncAccountTechnologies(['acc-1', 'acc-1']);
+
+    expect(mockedPrisma.companyAccount.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: { in: ['acc-1'] } },
+    }));
+    expect(mockedPrisma.technology.createMany).toHaveBeenCalledWith({
+      data: [{
+        accountId: 'acc-1',
+        name: 'Genesys Cloud CX',
+        category: 'contact_center',
+        confidence: 0.9,
+        source: 'import',
+        metadata: {
+          vendor: 'Genesys',
+          product: 'Cloud CX',
+          sourceField: 'ccVendor',
+          rawValue: 'Genesys Cloud',
+          intent: 'High',
+        },
+      }],
+    });
+    expect(mockedPrisma.technology.update).not.toHaveBeenCalled();
+    expect(mockedPrisma.technology.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['tech-avaya'] } } });
+    expect(result).toEqual({ accounts: 1, created: 1, updated: 0, removed: 1 });
+  });
+});
@@ -2,14 +2,83 @@
  * Test suite for File Parser Service
  */
 
+import AdmZip from 'adm-zip';
+import * as XLSX from 'xlsx';
+
 import { 
   FileParserService, 
   fileParserService, 
   FileParserUtils,
   QuickParse,
   CsvParser,
-  PdfParser
-} from '../../lib/services/parsers';
+  ExcelParser,
+  PdfParser,
+  DocxParser,
+  PptxParser,
+  ParserSandbox
+} from '../../../lib/services/parsers';
+
+const buildWorkbook = (sheets: Record<string, unknown[][]>, bookType: 'xlsx' | 'xls' = 'xlsx'): Buffer => {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return XLSX.write(workbook, { type: 'buffer', bookType }) as Buffer;
+};
+
+// Office package from part paths and XML, padded with an incompressible thumbnail to pass the size checks
+const buildOfficePackage = (parts: Record<string, string>): Buffer => {
+  const zip = new AdmZip();
+  for (const [partPath, xml] of Object.entries(parts)) {
+    zip.addFile(partPath, Buffer.from(xml, 'utf8'));
+  }
+  let seed = 1;
+  zip.addFile('docProps/thumbnail.jpeg', Buffer.from(Array.from({ length: 2048 }, () => (seed = (seed * 48271) % 2147483647) & 0xff)));
+  return zip.toBuffer();
+};
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const P = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const relationships = (targets: Array<[string, string]>) =>
+  `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${targets
+    .map(([type, target], index) => `<Relationship Id="rId${index + 1}" Type="${type}" Target="${target}"/>`)
+    .join('')}</Relationships>`;
+const wordParagraph = (text: string) => `<w:p><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+const slideShape = (paragraphs: string[], placeholder = '') =>
+  `<p:sp><p:nvSpPr><p:nvPr>${placeholder}</p:nvPr></p:nvSpPr><p:txBody>${paragraphs
+    .map(text => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`)
+    .join('')}</p:txBody></p:sp>`;
+const slide = (shapes: string) => `<p:sld ${P}><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></p:sld>`;
+
+// One page per entry, each a list of [x, y, text] runs in 10pt Helvetica
+const buildPdf = (pages: Array<Array<[number, number, string]>>): Buffer => {
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ...pages.flatMap((runs, index) => {
+      const content = runs.map(([x, y, text]) => `BT /F1 10 Tf ${x} ${y} Td (${text}) Tj ET`).join('\n');
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${pageIds[index] + 1} 0 R /Resources << /Font << /F1 3 0 R >> >> >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      ];
+    }),
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return Buffer.from(pdf, 'latin1');
+};
 
 describe('FileParserService', () => {
   describe('Service Initialization', () => {
@@ -19,7 +88,7 @@ describe('FileParserService', () => {
       
       expect(stats.registeredParsers).toBeGreaterThan(0);
       expect(stats.supportedMimeTypes).toBeGreaterThan(0);
-      expect(stats.parsers).toHaveLength(4); // CSV, PDF, DOCX, PPTX
+      expect(stats.parsers).toHaveLength(10); // CSV, Excel, PDF, DOCX, PPTX, Markdown, HTML, text, email, JSON
     });
 
     test('should support common MIME types', () => {
@@ -29,6 +98,12 @@ describe('FileParserService', () => {
       expect(supportedTypes).toContain('application/pdf');
       expect(supportedTypes).toContain('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
       expect(supportedTypes).toContain('application/vnd.openxmlformats-officedocument.presentationml.presentation');
+      expect(supportedTypes).toContain('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      expect(supportedTypes).toContain('application/vnd.ms-excel');
+      expect(supportedTypes).toContain('text/markdown');
+      expect(supportedTypes).toContain('text/html');
+      expect(supportedTypes).toContain('text/plain');
+      expect(supportedTypes).toContain('message/rfc822');
     });
 
     test('should check file type support', () => {
@@ -83,7 +158,10 @@ describe('FileParserService', () => {
     test('should handle empty CSV', async () => {
       const buffer = Buffer.from('');
       
-      await expect(QuickParse.csv(buffer, 'empty.csv')).rejects.toThrow();
+      await expect(QuickParse.csv(buffer, 'empty.csv')).resolves.toMatchObject({
+        blocks: [],
+        metadata: { errors: ['Empty file'] },
+      });
     });
 
     test('should handle CSV with custom delimiter', async () => {
@@ -101,6 +179,558 @@ describe('FileParserService', () => {
     });
   });
 
+  describe('Excel Parser', () => {
+    test('should parse every sheet of a workbook', async () => {
+      const buffer = buildWorkbook({
+        Accounts: [['name', 'employees'], ['Acme', 120], ['Globex', 45]],
+        Notes: [['note'], ['Renewal due']],
+      });
+
+      const result = await QuickParse.excel(buffer, 'accounts.xlsx');
+
+      expect(result.metadata.errors).toHaveLength(0);
+      const tableBlocks = result.blocks.filter(block => block.content.type === 'table');
+      expect(tableBlocks).toHaveLength(2);
+      expect(tableBlocks.map(block => block.metadata.sheetName)).toEqual(['Accounts', 'Notes']);
+
+      const accounts = tableBlocks[0];
+      if (accounts.content.type === 'table') {
+        expect(accounts.content.headers).toEqual(['name', 'employees']);
+        expect(accounts.content.rows).toEqual([['Acme', '120'], ['Globex', '45']]);
+      }
+    });
+
+    test('should restrict parsing to selected sheets', async () => {
+      const buffer = buildWorkbook({
+        First: [['a'], [1]],
+        Second: [['b'], [2]],
+      });
+
+      const result = await QuickParse.excel(buffer, 'book.xlsx', { sheets: ['second'] });
+      const tableBlocks = result.blocks.filter(block => block.content.type === 'table');
+
+      expect(tableBlocks).toHaveLength(1);
+      expect(tableBlocks[0].metadata.sheetName).toBe('Second');
+    });
+
+    test('should skip title rows when detecting the header row', async () => {
+      const buffer = buildWorkbook({
+        Report: [['Quarterly Export'], [], ['sku', 'price', 'active'], ['A-1', 10, true], ['A-2', 12.5, false]],
+      });
+
+      const result = await QuickParse.excel(buffer, 'report.xlsx');
+      const records = FileParserUtils.tableBlocksToRecords(result);
+
+      expect(records).toEqual([
+        { sku: 'A-1', price: '10', active: 'true' },
+        { sku: 'A-2', price: '12.5', active: 'false' },
+      ]);
+    });
+
+    test('should parse legacy XLS workbooks', async () => {
+      const buffer = buildWorkbook({ Sheet1: [['name'], ['Initech']] }, 'xls');
+
+      const result = await QuickParse.excel(buffer, 'legacy.xls');
+      const records = FileParserUtils.tableBlocksToRecords(result);
+
+      expect(records).toEqual([{ name: 'Initech' }]);
+    });
+
+    test('should dispatch tabular files by content', async () => {
+      const workbook = buildWorkbook({ Sheet1: [['name', 'city'], ['Acme', 'NYC']] });
+      const csv = Buffer.from('name,city\nAcme,NYC');
+
+      expect(FileParserUtils.isSpreadsheet(workbook, 'data.xlsx')).toBe(true);
+      expect(FileParserUtils.isSpreadsheet(csv, 'data.csv')).toBe(false);
+
+      const fromWorkbook = FileParserUtils.tableBlocksToRecords(await QuickParse.tabular(workbook, 'data.xlsx', { hasHeaders: true }));
+      const fromCsv = FileParserUtils.tableBlocksToRecords(await QuickParse.tabular(csv, 'data.csv', { hasHeaders: true }));
+      expect(fromWorkbook).toEqual(fromCsv);
+    });
+  });
+
+  describe('Markdown, HTML and Text Parsers', () => {
+    const outline = (result: Awaited<ReturnType<typeof QuickParse.auto>>) =>
+      result.blocks.map(block => {
+        switch (block.content.type) {
+          case 'heading':
+            return ['heading', block.content.level, block.content.text];
+          case 'list':
+            return ['list', block.content.ordered, block.content.items];
+          case 'table':
+            return ['table', block.content.headers, block.content.rows];
+          default:
+            return ['text', block.content.text];
+        }
+      });
+
+    test('should parse Markdown into headings, lists, tables and text', async () => {
+      const markdown = [
+        '---',
+        'title: Playbook',
+        '---',
+        '# Discovery Playbook',
+        '',
+        'Use this **before** the first [call](https://wiki/calls).',
+        '',
+        'Qualification',
+        '-------------',
+        '',
+        '1. Confirm budget',
+        '2. Identify the `champion`',
+        '   - Check LinkedIn',
+        '',
+        '| Stage | Owner |',
+        '| ----- | ----- |',
+        '| Qualify | AE |',
+        '',
+        '```sql',
+        'select * from accounts;',
+        '```',
+      ].join('\n');
+
+      const result = await QuickParse.markdown(Buffer.from(markdown), 'playbook.md');
+
+      expect(result.metadata.errors).toHaveLength(0);
+      expect(outline(result)).toEqual([
+        ['heading', 1, 'Discovery Playbook'],
+        ['text', 'Use this before the first call.'],
+        ['heading', 2, 'Qualification'],
+        ['list', true, ['Confirm budget', 'Identify the champion', 'Check LinkedIn']],
+        ['table', ['Stage', 'Owner'], [['Qualify', 'AE']]],
+        ['text', 'select * from accounts;'],
+      ]);
+      expect(result.blocks[1].metadata.lineNumber).toBe(6);
+      expect(result.blocks[5].title).toBe('Code (sql)');
+    });
+
+    test('should parse the main content of an HTML page without its navigation', async () => {
+      const html = `<!DOCTYPE html>
+        <html><head><title>Pricing FAQ</title><style>h2 { color: red; }</style></head>
+        <body>
+          <nav><ul><li>Home</li><li>Spaces</li></ul></nav>
+          <div class="breadcrumbs">Wiki &gt; Sales</div>
+          <main>
+            <h2>Discounts &amp; approvals</h2>
+            <p>Deals over <b>20%</b> need<br>VP approval.</p>
+            <ol><li>Draft quote</li><li>Submit for approval</li></ol>
+            <table><tr><th>Tier</th><th>Max discount</th></tr><tr><td>Gold</td><td>25%</td></tr></table>
+            <script>track();</script>
+          </main>
+          <footer>© Example Corp</footer>
+        </body></html>`;
+
+      const result = await QuickParse.html(Buffer.from(html), 'pricing.html');
+
+      expect(result.metadata.errors).toHaveLength(0);
+      expect(outline(result)).toEqual([
+        ['heading', 1, 'Pricing FAQ'],
+        ['heading', 2, 'Discounts & approvals'],
+        ['text', 'Deals over 20% need\nVP approval.'],
+        ['list', true, ['Draft quote', 'Submit for approval']],
+        ['table', ['Tier', 'Max discount'], [['Gold', '25%']]],
+      ]);
+    });
+
+    test('should find structure in plain-text notes', async () => {
+      const text = [
+        'ACCOUNT NOTES',
+        '',
+        'Met with the IT director about the refresh.',
+        'They want pricing by Friday.',
+        '',
+        'Next steps:',
+        '- Send quote',
+        '- Book demo',
+        '',
+        'Product\tQty',
+        'Switch\t40',
+      ].join('\n');
+
+      const result = await QuickParse.text(Buffer.from(text), 'notes.txt');
+
+      expect(outline(result)).toEqual([
+        ['heading', 1, 'ACCOUNT NOTES'],
+        ['text', 'Met with the IT director about the refresh. They want pricing by Friday.'],
+        ['list', false, ['Send quote', 'Book demo']],
+        ['table', ['Product', 'Qty'], [['Switch', '40']]],
+      ]);
+      expect(result.blocks[2].title).toBe('Next steps');
+    });
+
+    test('should route Markdown, HTML and text files by extension', async () => {
+      expect(FileParserUtils.detectMimeType(Buffer.from('# Title'), 'page.md')).toBe('text/markdown');
+      expect(FileParserUtils.detectMimeType(Buffer.from('<!doctype html><p>Hi</p>'), 'export')).toBe('text/html');
+      expect(FileParserUtils.detectMimeType(Buffer.from('Call notes'), 'notes.txt')).toBe('text/plain');
+
+      const result = await QuickParse.auto(Buffer.from('## Overview\n\nText'), 'page.md');
+      expect(outline(result)).toEqual([['heading', 2, 'Overview'], ['text', 'Text']]);
+    });
+  });
+
+  describe('Email Parser', () => {
+    test('should put the headers in block metadata and split the quoted reply chain', async () => {
+      const eml = [
+        'From: "Jane Doe" <Jane.Doe@acme.com>',
+        'To: sales@northstar.io, Bob <bob@northstar.io>',
+        'Cc: cfo@acme.com',
+        'Date: Tue, 05 Mar 2024 10:00:00 +0000',
+        'Subject: =?UTF-8?Q?Re:_Pricing_for_the_refresh_=E2=80=93_Q2?=',
+        'Message-ID: <abc123@acme.com>',
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Thanks, we can go ahead with 40 switches =E2=80=93 please send the final q=',
+        'uote.',
+        '',
+        'On Mon, Mar 4, 2024 at 9:00 AM Bob Smith <bob@northstar.io> wrote:',
+        '> Here is the revised pricing.',
+        '>',
+        '> -----Original Message-----',
+        '> From: Jane Doe <jane.doe@acme.com>',
+        '> Sent: Friday, March 1, 2024 4:00 PM',
+        '> To: bob@northstar.io',
+        '> Subject: Pricing for the refresh',
+        '>',
+        '> Can you price 40 switches?',
+      ].join('\r\n');
+
+      const result = await QuickParse.eml(Buffer.from(eml), 'reply.eml');
+
+      expect(result.metadata.errors).toEqual([]);
+      expect(result.blocks.map(block => [block.title, block.rawText, block.metadata.email?.quoteDepth])).toEqual([
+        ['Re: Pricing for the refresh – Q2', 'Thanks, we can go ahead with 40 switches – please send the final quote.', 0],
+        ['Quoted message from Bob Smith', 'Here is the revised pricing.', 1],
+        ['Quoted message from Jane Doe', 'Can you price 40 switches?', 2],
+      ]);
+      expect(result.blocks[0].metadata.email).toEqual({
+        from: 'jane.doe@acme.com',
+        fromName: 'Jane Doe',
+        to: ['sales@northstar.io', 'bob@northstar.io'],
+        cc: ['cfo@acme.com'],
+        date: new Date('2024-03-05T10:00:00Z'),
+        subject: 'Re: Pricing for the refresh – Q2',
+        messageId: 'abc123@acme.com',
+        quoteDepth: 0,
+      });
+      expect(result.blocks[2].metadata.email).toMatchObject({
+        from: 'jane.doe@acme.com',
+        to: ['bob@northstar.io'],
+        subject: 'Pricing for the refresh',
+      });
+    });
+
+    test('should read HTML-only bodies and parse attachments with their own parsers', async () => {
+      const attachedEmail = [
+        'From: cfo@acme.com',
+        'To: jane.doe@acme.com',
+        'Subject: Budget',
+        '',
+        'Budget approved for Q2.',
+      ].join('\r\n');
+      const eml = [
+        'From: jane.doe@acme.com',
+        'To: bob@northstar.io',
+        'Subject: Requirements',
+        'Content-Type: multipart/mixed; boundary="outer"',
+        '',
+        'This is a multi-part message in MIME format.',
+        '--outer',
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        '<p>See the attached requirements.</p><blockquote><p>Please share your requirements.</p></blockquote>',
+        '--outer',
+        'Content-Type: text/markdown; name="requirements.md"',
+        'Content-Disposition: attachment; filename="requirements.md"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('# Requirements\n\n- 40 switches\n- PoE').toString('base64'),
+        '--outer',
+        'Content-Type: message/rfc822',
+        'Content-Disposition: attachment; filename="budget.eml"',
+        '',
+        attachedEmail,
+        '--outer',
+        'Content-Type: image/png; name="logo.png"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        'iVBORw0KGgo=',
+        '--outer--',
+      ].join('\r\n');
+
+      const result = await QuickParse.eml(Buffer.from(eml), 'requirements.eml');
+
+      expect(result.blocks.map(block => [block.metadata.source, block.rawText, block.metadata.email?.from])).toEqual([
+        [undefined, 'See the attached requirements.', 'jane.doe@acme.com'],
+        [undefined, 'Please share your requirements.', undefined],
+        ['requirements.md', 'Requirements', 'jane.doe@acme.com'],
+        ['requirements.md', '40 switches\nPoE', 'jane.doe@acme.com'],
+        ['budget.eml', 'Budget approved for Q2.', 'cfo@acme.com'],
+      ]);
+      expect(result.metadata.warnings).toEqual(['Attachment "logo.png" was skipped: image/png is not supported']);
+      expect(FileParserUtils.detectMimeType(Buffer.from(attachedEmail), 'budget.eml')).toBe('message/rfc822');
+    });
+  });
+
+  describe('JSON Parser', () => {
+    const tableOf = (result: Awaited<ReturnType<typeof QuickParse.json>>) =>
+      result.blocks.find(block => block.content.type === 'table');
+
+    test('should find the records of an API response and flatten nested fields', async () => {
+      const response = {
+        meta: { total: 2 },
+        results: [
+          { id: 1, name: 'Acme', owner: { name: 'Jane Doe', team: { region: 'East' } }, tags: ['retail'], notes: null },
+          { id: 2, name: 'Globex', contacts: [{ email: 'cfo@globex.com' }] },
+        ],
+      };
+
+      const result = await QuickParse.json(Buffer.from(JSON.stringify(response, null, 2)), 'accounts.json', { maxDepth: 2 });
+
+      expect(result.metadata.errors).toEqual([]);
+      expect(tableOf(result)?.title).toBe('Records: results');
+      expect(FileParserUtils.tableBlocksToRecords(result)).toEqual([
+        { id: '1', name: 'Acme', 'owner.name': 'Jane Doe', 'owner.team': '{"region":"East"}', tags: 'retail', notes: '', contacts: '' },
+        { id: '2', name: 'Globex', 'owner.name': '', 'owner.team': '', tags: '', notes: '', contacts: '[{"email":"cfo@globex.com"}]' },
+      ]);
+    });
+
+    test('should read NDJSON pages through a record path and skip invalid lines', async () => {
+      const ndjson = [
+        JSON.stringify({ page: 1, items: [{ sku: 'SW-24' }, { sku: 'SW-48' }] }),
+        '{"page": 2, "items": [',
+        JSON.stringify({ page: 3, items: [{ sku: 'AP-10' }] }),
+      ].join('\n');
+
+      const result = await QuickParse.json(Buffer.from(ndjson), 'export.ndjson', { recordPath: 'items' });
+
+      expect(FileParserUtils.tableBlocksToRecords(result).map(record => record.sku)).toEqual(['SW-24', 'SW-48', 'AP-10']);
+      expect(result.metadata.warnings).toContain('Line 2 is not valid JSON and was skipped');
+    });
+
+    test('should route JSON files by extension and content', async () => {
+      const records = Buffer.from('[{"name": "Acme", "domain": "acme.com"}]');
+
+      expect(FileParserUtils.detectMimeType(records, 'export.json')).toBe('application/json');
+      expect(FileParserUtils.isJson(records, 'export.txt')).toBe(false);
+      expect(FileParserUtils.isJson(records, 'export')).toBe(true);
+      expect(FileParserUtils.isJson(Buffer.from('name,domain\nAcme,acme.com'), 'export.csv')).toBe(false);
+
+      const result = await QuickParse.auto(records, 'export.json');
+      expect(FileParserUtils.tableBlocksToRecords(result)).toEqual([{ name: 'Acme', domain: 'acme.com' }]);
+    });
+  });
+
+  describe('PDF Parser', () => {
+    const pricingPdf = buildPdf([
+      [
+        [72, 720, 'Network refresh proposal'],
+        [72, 690, 'The quote below covers hardware for both offices and is valid for thirty days.'],
+      ],
+      [
+        [72, 720, 'Pricing'],
+        [72, 690, 'Product'], [250, 690, 'Qty'], [350, 690, 'Unit price'],
+        [72, 675, 'Switch 24-port'], [250, 675, '40'], [350, 675, '1,200'],
+        [72, 663, 'with PoE+'],
+        [72, 648, 'Router'], [250, 648, '2'], [350, 648, '3,400'],
+        [72, 633, 'Support'], [350, 633, '900'],
+        [72, 600, 'Prices exclude tax and shipping.'],
+      ],
+    ]);
+
+    test('should turn column-aligned text into table blocks with page numbers', async () => {
+      const result = await QuickParse.pdf(pricingPdf, 'proposal.pdf');
+
+      expect(result.metadata.errors).toEqual([]);
+      const tables = result.blocks.filter(block => block.content.type === 'table');
+      expect(tables).toHaveLength(1);
+      expect(tables[0].content).toMatchObject({
+        type: 'table',
+        headers: ['Product', 'Qty', 'Unit price'],
+        rows: [
+          ['Switch 24-port with PoE+', '40', '1,200'],
+          ['Router', '2', '3,400'],
+          ['Support', '', '900'],
+        ],
+      });
+      expect(tables[0].metadata.pageNumber).toBe(2);
+
+      const texts = result.blocks.slice(1).map(block => [block.content.type, block.rawText, block.metadata.pageNumber]);
+      expect(texts).toEqual([
+        ['text', 'Network refresh proposal The quote below covers hardware for both offices and is valid for thirty days.', 1],
+        ['heading', 'Pricing', 2],
+        ['table', expect.any(String), 2],
+        ['text', 'Prices exclude tax and shipping.', 2],
+      ]);
+    });
+
+    test('should leave tables as text when table extraction is off', async () => {
+      const result = await QuickParse.pdf(pricingPdf, 'proposal.pdf', { extractTables: false });
+
+      expect(result.metadata.errors).toEqual([]);
+      expect(result.blocks.some(block => block.content.type === 'table')).toBe(false);
+      expect(result.blocks.map(block => block.rawText).join('\n')).toContain('Switch 24-port');
+    });
+  });
+
+  describe('Office notes, comments, headers and footers', () => {
+    const docx = buildOfficePackage({
+      '[Content_Types].xml': '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>',
+      '_rels/.rels': relationships([[`${REL}/officeDocument`, 'word/document.xml']]),
+      'word/document.xml': `<w:document ${W}><w:body>${wordParagraph('Implementation plan for the network refresh')}<w:p><w:r><w:t xml:space="preserve">The rollout starts with the </w:t></w:r><w:commentRangeStart w:id="0"/><w:r><w:t>Boston office</w:t></w:r><w:commentRangeEnd w:id="0"/><w:r><w:commentReference w:id="0"/></w:r><w:r><w:t xml:space="preserve"> in April.</w:t></w:r></w:p></w:body></w:document>`,
+      'word/comments.xml': `<w:comments ${W}><w:comment w:id="0" w:author="Jane Doe" w:date="2024-03-05T10:00:00Z">${wordParagraph('Confirm the date with facilities &amp; IT.')}</w:comment></w:comments>`,
+      'word/header1.xml': `<w:hdr ${W}>${wordParagraph('Northstar – Confidential')}</w:hdr>`,
+      'word/header2.xml': `<w:hdr ${W}>${wordParagraph('Northstar – Confidential')}</w:hdr>`,
+      'word/footer1.xml': `<w:ftr ${W}>${wordParagraph('Proposal v2')}</w:ftr>`,
+    });
+
+    const pptx = buildOfficePackage({
+      'ppt/presentation.xml': `<p:presentation ${P}><p:sldIdLst><p:sldId id="256" r:id="rId1"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>`,
+      'ppt/_rels/presentation.xml.rels': relationships([[`${REL}/slide`, 'slides/slide2.xml'], [`${REL}/slide`, 'slides/slide1.xml']]),
+      'ppt/slides/slide1.xml': slide(slideShape(['Agenda', 'Pricing and rollout'])),
+      'ppt/slides/_rels/slide1.xml.rels': relationships([
+        [`${REL}/notesSlide`, '../notesSlides/notesSlide1.xml'],
+        [`${REL}/comments`, '../comments/comment1.xml'],
+      ]),
+      'ppt/notesSlides/notesSlide1.xml': slide(
+        slideShape([], '<p:ph type="sldImg"/>') +
+        slideShape(['Open with the outage they had in March.', 'Then move to pricing.'], '<p:ph type="body" idx="1"/>') +
+        slideShape(['1'], '<p:ph type="sldNum" sz="quarter" idx="5"/>')
+      ),
+      'ppt/comments/comment1.xml': `<p:cmLst ${P}><p:cm authorId="0" dt="2024-03-05T10:00:00" idx="1"><p:pos x="10" y="10"/><p:text>Add the Q2 timeline</p:text></p:cm></p:cmLst>`,
+      'ppt/commentAuthors.xml': `<p:cmAuthorLst ${P}><p:cmAuthor id="0" name="Bob Smith" initials="BS" lastIdx="1" clrIdx="0"/></p:cmAuthorLst>`,
+      'ppt/slides/slide2.xml': slide(slideShape(['Northstar network refresh'])),
+      'ppt/slides/_rels/slide2.xml.rels': relationships([['http://schemas.microsoft.com/office/2018/10/relationships/comments', '../comments/modernComment_101.xml']]),
+      'ppt/comments/modernComment_101.xml': '<p188:cmLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:p188="http://schemas.microsoft.com/office/powerpoint/2018/8/main"><p188:cm id="{C1}" authorId="{A1}" created="2024-03-05T10:00:00"><p188:replyLst><p188:reply id="{R1}" authorId="{A2}" created="2024-03-06T10:00:00"><p188:txBody><a:p><a:r><a:t>Done</a:t></a:r></a:p></p188:txBody></p188:reply></p188:replyLst><p188:txBody><a:p><a:r><a:t>Use the customer logo</a:t></a:r></a:p></p188:txBody></p188:cm></p188:cmLst>',
+      'ppt/authors.xml': '<p188:authorLst xmlns:p188="http://schemas.microsoft.com/office/powerpoint/2018/8/main"><p188:author id="{A1}" name="Jane Doe" initials="JD" userId="jane"/><p188:author id="{A2}" name="Bob Smith" initials="BS" userId="bob"/></p188:authorLst>',
+      'ppt/slideLayouts/slideLayout1.xml': slide(slideShape(['Click to edit Master title style'])),
+    });
+
+    test('should emit DOCX headers, footers and comments as their own parts', async () => {
+      const result = await QuickParse.docx(docx, 'plan.docx');
+
+      expect(result.metadata.errors).toEqual([]);
+      expect(result.blocks.map(block => [block.metadata.part, block.title, block.rawText, block.metadata.paragraphNumber]).slice(1)).toEqual([
+        ['header', 'Header', 'Northstar – Confidential', undefined],
+        [undefined, undefined, 'Implementation plan for the network refresh', 1],
+        [undefined, undefined, 'The rollout starts with the Boston office in April.', 2],
+        ['footer', 'Footer', 'Proposal v2', undefined],
+        ['comment', 'Comment by Jane Doe on "Boston office"', 'Confirm the date with facilities & IT.', 2],
+      ]);
+      expect(result.blocks[5].metadata.author).toBe('Jane Doe');
+
+      const withoutExtras = await QuickParse.docx(docx, 'plan.docx', { extractHeaders: false, extractFooters: false, extractComments: false });
+      expect(withoutExtras.blocks.some(block => block.metadata.part)).toBe(false);
+
+      await expect(DocxParser.getParserInfo(docx)).resolves.toEqual({ commentCount: 1, headerCount: 1, footerCount: 1 });
+    });
+
+    test('should emit PPTX speaker notes and legacy and threaded comments with their slide numbers', async () => {
+      const result = await QuickParse.pptx(pptx, 'deck.pptx');
+
+      expect(result.blocks.map(block => [block.metadata.part, block.metadata.slideNumber, block.title, block.rawText])).toEqual([
+        [undefined, undefined, 'Extracted PPTX Content (Fallback)', 'Northstar network refresh\nAgenda\nPricing and rollout'],
+        ['comment', 1, 'Comment by Jane Doe', 'Use the customer logo'],
+        ['comment', 1, 'Comment by Bob Smith', 'Done'],
+        ['notes', 2, 'Slide 2 Notes', 'Open with the outage they had in March.\nThen move to pricing.'],
+        ['comment', 2, 'Comment by Bob Smith', 'Add the Q2 timeline'],
+      ]);
+
+      await expect(PptxParser.getParserInfo(pptx)).resolves.toEqual({ slideCount: 2, notesCount: 1, commentCount: 3 });
+    });
+  });
+
+  describe('Parser Isolation', () => {
+    const csvBuffer = Buffer.from('name,age\nJohn,30\nJane,25');
+    const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+    test('should parse built-in formats in a worker and stop it on timeout', async () => {
+      const service = new FileParserService();
+
+      const result = await service.parseFromBuffer(csvBuffer, 'people.csv', 'text/csv');
+      expect(result.blocks[0].rawText).toContain('John');
+
+      await expect(
+        service.parseFromBuffer(csvBuffer, 'people.csv', 'text/csv', { timeout: 1 })
+      ).rejects.toMatchObject({
+        code: 'PARSING_ERROR',
+        message: 'Parsing timeout after 1ms',
+        details: { reason: 'timeout' },
+      });
+    });
+
+    test('should report a worker out of memory as a corrupted file', async () => {
+      const service = new FileParserService({ isolation: { maxMemoryMb: 4 } });
+
+      await expect(
+        service.parseFromBuffer(csvBuffer, 'people.csv', 'text/csv')
+      ).rejects.toMatchObject({
+        code: 'CORRUPTED_FILE',
+        details: { reason: 'memory', maxMemoryMb: 4 },
+      });
+    });
+
+    test('should reject OOXML files that decompress far beyond their size', async () => {
+      const bomb = buildOfficePackage({
+        'word/document.xml': `<w:document ${W}><w:body>${'<w:p/>'.repeat(500000)}</w:body></w:document>`,
+      });
+
+      await expect(
+        new FileParserService().parseFromBuffer(bomb, 'bomb.docx', DOCX_MIME)
+      ).rejects.toMatchObject({
+        code: 'CORRUPTED_FILE',
+        message: expect.stringContaining('times its compressed size'),
+      });
+
+      await expect(
+        new FileParserService({ archiveLimits: { maxUncompressedSize: 1000 } }).parseFromBuffer(
+          buildOfficePackage({ 'word/document.xml': `<w:document ${W}><w:body>${wordParagraph('Short')}</w:body></w:document>` }),
+          'small.docx',
+          DOCX_MIME
+        )
+      ).rejects.toMatchObject({ code: 'CORRUPTED_FILE' });
+    });
+
+    test('should run registered parsers in-process', async () => {
+      const service = new FileParserService();
+      const csvParser = new CsvParser();
+      const parseSpy = jest.spyOn(csvParser, 'parseFromBuffer');
+      service.registerParser('csv', csvParser);
+
+      const result = await service.parseFromBuffer(csvBuffer, 'people.csv', 'text/csv');
+      expect(result.blocks[0].rawText).toContain('Jane');
+      expect(parseSpy).toHaveBeenCalled();
+    });
+
+    test('should refuse to parse without limits when isolation is enabled and the worker script is missing', async () => {
+      const resolveSpy = jest.spyOn(ParserSandbox, 'resolveWorkerScript').mockReturnValue(null);
+
+      try {
+        await expect(
+          new FileParserService({ isolation: { enabled: true } }).parseFromBuffer(csvBuffer, 'people.csv', 'text/csv')
+        ).rejects.toMatchObject({
+          code: 'PARSING_ERROR',
+          details: { reason: 'unavailable' },
+        });
+
+        // Without the worker script the default is to parse in-process, as a bundled server does
+        const result = await new FileParserService().parseFromBuffer(csvBuffer, 'people.csv', 'text/csv');
+        expect(result.blocks[0].rawText).toContain('John');
+      } finally {
+        resolveSpy.mockRestore();
+      }
+    });
+
+    test('should parse with the default service', async () => {
+      const result = await fileParserService.parseFromBuffer(csvBuffer, 'people.csv', 'text/csv');
+      expect(result.blocks[0].rawText).toContain('Jane');
+
+      const detected = await QuickParse.auto(csvBuffer, 'people.csv');
+      expect(detected.blocks[0].rawText).toContain('John');
+    });
+  });
+
   describe('FileParserUtils', () => {
     test('should detect MIME type from file content', () => {
       const csvBuffer = Buffer.from('name,age\nJohn,30');
@@ -176,7 +806,10 @@ describe('FileParserService', () => {
       
       await expect(
         QuickParse.pdf(corruptedPdf, 'corrupted.pdf')
-      ).rejects.toThrow();
+      ).resolves.toMatchObject({
+        blocks: [],
+        metadata: { errors: [expect.stringContaining('valid PDF signature')] },
+      });
     });
   });
 
@@ -306,13 +939,28 @@ describe('Individual Parsers', () => {
     });
   });
 
+  describe('Excel Parser Validation', () => {
+    test('should validate workbook signatures', async () => {
+      const parser = new ExcelParser();
+      const validXlsx = buildWorkbook({ Sheet1: [['a'], [1]] });
+      const invalidXlsx = Buffer.from('name,age\nJohn,30');
+      const xlsxType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+      await expect(parser.validateFile(validXlsx, xlsxType)).resolves.not.toThrow();
+      await expect(parser.validateFile(invalidXlsx, xlsxType)).rejects.toThrow();
+    });
+  });
+
   describe('PDF Parser Validation', () => {
     test('should validate PDF files', async () => {
       const parser = new PdfParser();
-      const validPdf = Buffer.from('%PDF-1.4\n');
+      // Only the signature, version and size are checked, so a padded header passes
+      const validPdf = Buffer.from(`%PDF-1.4\n%${'x'.repeat(256)}\n`);
+      const truncatedPdf = Buffer.from('%PDF-1.4\n');
       const invalidPdf = Buffer.from('not a pdf');
       
       await expect(parser.validateFile(validPdf, 'application/pdf')).resolves.not.toThrow();
+      await expect(parser.validateFile(truncatedPdf, 'application/pdf')).rejects.toThrow('too small');
       await expect(parser.validateFile(invalidPdf, 'application/pdf')).rejects.toThrow();
     });
 
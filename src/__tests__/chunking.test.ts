@@ -210,6 +210,29 @@ describe('Document Chunker Service', () => {
     expect(tableChunk?.text).toContain('Revenue')
   })
 
+  test('should leave out excluded document parts', async () => {
+    const withComment: TParserResult = {
+      ...sampleParserResult,
+      blocks: [
+        ...sampleParserResult.blocks,
+        {
+          id: 'comment_1',
+          title: 'Comment by Jane Doe',
+          content: { type: 'text', text: 'Check these numbers with finance before sending the proposal to the customer.' },
+          metadata: { part: 'comment', author: 'Jane Doe' },
+          rawText: 'Check these numbers with finance before sending the proposal to the customer.',
+        },
+      ],
+    }
+
+    const all = await documentChunker.chunkDocument(withComment)
+    expect(all.chunks.some(chunk => chunk.metadata.part === 'comment')).toBe(true)
+
+    const withoutComments = await documentChunker.chunkDocument(withComment, { excludeParts: ['comment'] })
+    expect(withoutComments.chunks.some(chunk => chunk.blockId === 'comment_1')).toBe(false)
+    expect(withoutComments.chunks.some(chunk => chunk.blockType === 'heading')).toBe(true)
+  })
+
   test('should get chunking statistics', async () => {
     const stats = await documentChunker.getChunkingStats(sampleParserResult)
     
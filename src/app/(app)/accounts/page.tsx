@@ -13,6 +13,7 @@ import {
 } from 'lucide-react'
 import React from 'react'
 
+import { FieldLineagePopover } from '@/components/accounts/FieldLineagePopover'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
@@ -226,9 +227,10 @@ export default function AccountsPage() {
                   <h3 className="text-h4 text-foreground mb-1 truncate">
                     {account.name}
                   </h3>
-                  <p className="text-sm text-muted-foreground">
-                    {account.industry}
-                  </p>
+                  <div className="flex items-center space-x-1 text-sm text-muted-foreground">
+                    <span>{account.industry}</span>
+                    <FieldLineagePopover accountId={account.id} field="industry" label="Industry" />
+                  </div>
                 </div>
                 
                 <div className="flex items-center space-x-2">
@@ -255,6 +257,7 @@ export default function AccountsPage() {
                   <Badge className={cn('text-xs', getSizeColor(account.size))}>
                     {account.size}
                   </Badge>
+                  <FieldLineagePopover accountId={account.id} field="size" label="Size" />
                   <span>•</span>
                   <Users className="h-4 w-4 flex-shrink-0" />
                   <span>{account.employees?.toLocaleString()} employees</span>
@@ -263,11 +266,13 @@ export default function AccountsPage() {
                 <div className="flex items-center space-x-2 text-sm text-muted-foreground">
                   <MapPin className="h-4 w-4 flex-shrink-0" />
                   <span>{account.location}</span>
+                  <FieldLineagePopover accountId={account.id} field="location" label="Location" />
                 </div>
                 
                 <div className="flex items-center space-x-2 text-sm text-muted-foreground">
                   <Globe className="h-4 w-4 flex-shrink-0" />
                   <span className="truncate">{account.website}</span>
+                  <FieldLineagePopover accountId={account.id} field="website" label="Website" />
                 </div>
               </div>
 
@@ -5,7 +5,10 @@ import React from 'react'
 
 import { Badge } from '@/components/ui/badge'
 import { Card } from '@/components/ui/card'
+import { AccountMatchReviewQueue } from '@/components/upload/AccountMatchReviewQueue'
 import { FileUploadZone } from '@/components/upload/FileUploadZone'
+import { ImportPreview } from '@/components/upload/ImportPreview'
+import { ImportTemplates } from '@/components/upload/ImportTemplates'
 
 const supportedFormats = [
   {
@@ -46,15 +49,21 @@ export default function UploadPage() {
         </p>
       </div>
 
+      <ImportTemplates />
+
       <FileUploadZone
         maxFiles={10}
         maxFileSize={50 * 1024 * 1024}
-        acceptedTypes={['.pdf', '.docx', '.doc', '.xlsx', '.xls', '.csv', '.txt', '.json']}
+        acceptedTypes={['.pdf', '.docx', '.doc', '.xlsx', '.xls', '.csv', '.txt', '.md', '.html', '.htm', '.eml', '.json']}
         onFilesSelected={(files) => {
           console.log('Files selected:', files)
         }}
       />
 
+      <ImportPreview />
+
+      <AccountMatchReviewQueue />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <Card>
           <div className="p-6">
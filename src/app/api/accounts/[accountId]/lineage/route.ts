@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth } from '@/lib/middleware/auth';
+import { NotFoundError, withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { prisma } from '@/lib/prisma';
+import { getFieldLineageService } from '@/lib/services/import';
+import { accountLineageQuerySchema } from '@/lib/validations/account';
+
+interface RouteContext {
+  params: Promise<{ accountId: string }>;
+}
+
+// GET /api/accounts/[accountId]/lineage - Where the account's field values came from
+const getHandler = (accountId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const url = new URL(req.url);
+      const { field, limit } = accountLineageQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+      const account = await prisma.companyAccount.findUnique({
+        where: { id: accountId },
+        select: { id: true },
+      });
+      if (!account) {
+        throw new NotFoundError('Account');
+      }
+
+      const lineageService = getFieldLineageService();
+
+      if (field) {
+        const history = await lineageService.getFieldHistory('accounts', accountId, field, limit);
+
+        return NextResponse.json({
+          success: true,
+          accountId,
+          field,
+          current: history[0] ?? null,
+          history,
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        accountId,
+        fields: await lineageService.getCurrentLineage('accounts', accountId),
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { accountId } = await context.params;
+  return getHandler(accountId)(req);
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getAccountMergeService } from '@/lib/services/import';
+import { accountDuplicatesQuerySchema } from '@/lib/validations/account';
+
+// GET /api/accounts/duplicates - Pairs of accounts that are probably the same company
+const getHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const url = new URL(req.url);
+      const { minScore, page, pageSize } = accountDuplicatesQuerySchema.parse(
+        Object.fromEntries(url.searchParams.entries())
+      );
+
+      const { pairs, total } = await getAccountMergeService().findDuplicateCandidates({ minScore, page, pageSize });
+
+      return NextResponse.json({
+        success: true,
+        pairs,
+        total,
+        page,
+        pageSize,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest) {
+  return getHandler(req);
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { logger } from '@/lib/logger';
+import { withAuth, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getAccountMergeService } from '@/lib/services/import';
+
+interface RouteContext {
+  params: Promise<{ mergeId: string }>;
+}
+
+// POST /api/accounts/merges/[mergeId]/undo - Undo an account merge
+const postHandler = (mergeId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const result = await getAccountMergeService().undoMerge(mergeId, userId);
+
+      logger.info('Account merge undone', {
+        mergeId,
+        userId,
+        mergedAccountId: result.merge.mergedAccountId,
+      });
+
+      return NextResponse.json({
+        success: result.errors.length === 0,
+        result,
+        message: result.errors.length === 0
+          ? 'Merge undone successfully'
+          : `Merge undone with ${result.errors.length} errors`,
+      });
+    })
+  )
+);
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  const { mergeId } = await context.params;
+  return postHandler(mergeId)(req);
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getAccountMergeService } from '@/lib/services/import';
+import { accountMergePreviewQuerySchema } from '@/lib/validations/account';
+
+// GET /api/accounts/merges/preview - Conflicting fields and records a merge would move
+const getHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const url = new URL(req.url);
+      const { survivorId, mergedId } = accountMergePreviewQuerySchema.parse(
+        Object.fromEntries(url.searchParams.entries())
+      );
+
+      const preview = await getAccountMergeService().previewMerge(survivorId, mergedId);
+
+      return NextResponse.json({
+        success: true,
+        preview,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest) {
+  return getHandler(req);
+}
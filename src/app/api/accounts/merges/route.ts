@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { logger } from '@/lib/logger';
+import { withAuth, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getAccountMergeService } from '@/lib/services/import';
+import { accountMergeQuerySchema, accountMergeSchema } from '@/lib/validations/account';
+
+// GET /api/accounts/merges - List account merges, optionally those of one account
+const getHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const url = new URL(req.url);
+      const { accountId } = accountMergeQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+      const merges = await getAccountMergeService().listMerges(accountId);
+
+      return NextResponse.json({
+        success: true,
+        merges,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest) {
+  return getHandler(req);
+}
+
+// POST /api/accounts/merges - Merge a duplicate account into a surviving one
+const postHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const body = await req.json();
+      const data = accountMergeSchema.parse(body);
+
+      const result = await getAccountMergeService().mergeAccounts(userId, data);
+
+      logger.info('Accounts merged', {
+        mergeId: result.merge.id,
+        survivorId: data.survivorId,
+        mergedId: data.mergedId,
+        userId,
+      });
+
+      return NextResponse.json({
+        success: result.errors.length === 0,
+        result,
+        message: result.errors.length === 0
+          ? 'Accounts merged successfully'
+          : `Accounts merged with ${result.errors.length} errors`,
+      }, { status: 201 });
+    })
+  )
+);
+
+export async function POST(req: NextRequest) {
+  return postHandler(req);
+}
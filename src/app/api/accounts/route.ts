@@ -4,6 +4,7 @@ import { withAuth, getUserId } from '@/lib/middleware/auth';
 import { withErrorHandler } from '@/lib/middleware/error-handler';
 import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
 import { prisma } from '@/lib/prisma';
+import { getFieldLineageService } from '@/lib/services/import';
 import { createAccountSchema, accountQuerySchema } from '@/lib/validations/account';
 
 // GET /api/accounts - List accounts with search and filtering
@@ -223,6 +224,12 @@ const postHandler = withErrorHandler(
         },
       });
 
+      // Every field entered here is a manual edit
+      await getFieldLineageService().recordFields('accounts', account.id, data, {
+        source: 'manual',
+        userId: getUserId(req),
+      });
+
       return NextResponse.json(account, { status: 201 });
     })
   )
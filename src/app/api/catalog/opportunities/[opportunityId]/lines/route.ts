@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getProductCatalogService } from '@/lib/services/catalog/product-catalog.service';
+
+interface RouteContext {
+  params: Promise<{ opportunityId: string }>;
+}
+
+// GET /api/catalog/opportunities/[opportunityId]/lines - Resolve product lines against the version current at booking
+const getHandler = (opportunityId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async () => {
+      const resolved = await getProductCatalogService().resolveOpportunityLines(opportunityId);
+
+      return NextResponse.json({
+        success: true,
+        ...resolved,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { opportunityId } = await context.params;
+  return getHandler(opportunityId)(req);
+}
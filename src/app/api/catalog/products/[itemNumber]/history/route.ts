@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getProductCatalogService } from '@/lib/services/catalog/product-catalog.service';
+
+interface RouteContext {
+  params: Promise<{ itemNumber: string }>;
+}
+
+// GET /api/catalog/products/[itemNumber]/history - List every version of an item with its changed fields
+const getHandler = (itemNumber: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async () => {
+      const history = await getProductCatalogService().getVersionHistory(itemNumber);
+
+      return NextResponse.json({
+        success: true,
+        ...history,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { itemNumber } = await context.params;
+  return getHandler(itemNumber)(req);
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getProductCatalogService } from '@/lib/services/catalog/product-catalog.service';
+import { productCatalogQuerySchema } from '@/lib/validations/catalog';
+
+// GET /api/catalog/products - List the product catalog, optionally as of a past date
+const getHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const url = new URL(req.url);
+      const query = productCatalogQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+      const catalog = await getProductCatalogService().getCatalog(query);
+
+      return NextResponse.json({
+        success: true,
+        ...catalog,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest) {
+  return getHandler(req);
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getImportService } from '@/lib/services/import';
+import { accountMatchResolveSchema } from '@/lib/validations/import';
+
+interface RouteContext {
+  params: Promise<{ reviewId: string }>;
+}
+
+// POST /api/import/account-matches/[reviewId] - Confirm or reject a match and write the held opportunities
+const postHandler = (reviewId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const body = await req.json();
+      const decision = accountMatchResolveSchema.parse(body);
+
+      const resolution = await getImportService().resolveAccountMatch(reviewId, userId, decision);
+
+      return NextResponse.json({
+        success: resolution.result.errors.length === 0,
+        ...resolution,
+        message: decision.action === 'confirm'
+          ? `Linked ${resolution.result.created + resolution.result.updated} opportunities to the matched account`
+          : `Created a new account for ${resolution.result.created + resolution.result.updated} opportunities`,
+      });
+    })
+  )
+);
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  const { reviewId } = await context.params;
+  return postHandler(reviewId)(req);
+}
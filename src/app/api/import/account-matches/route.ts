@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getImportService } from '@/lib/services/import';
+import { accountMatchReviewQuerySchema } from '@/lib/validations/import';
+
+// GET /api/import/account-matches - List fuzzy account matches held for review from the user's imports
+const getHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const url = new URL(req.url);
+      const query = accountMatchReviewQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+      const reviews = await getImportService().listAccountMatchReviews(userId, query);
+
+      return NextResponse.json({
+        success: true,
+        ...reviews,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest) {
+  return getHandler(req);
+}
@@ -329,6 +329,11 @@ function getTypeDescription(mimeType: string): string {
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'Word Documents - Great for proposals and documentation',
     'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'PowerPoint Presentations - Perfect for sales decks and training materials',
     'text/plain': 'Text Files - Simple text documents',
+    'text/markdown': 'Markdown Files - Exported wiki pages and notes',
+    'text/html': 'HTML Pages - Exported wiki and intranet pages',
+    'message/rfc822': 'Email Messages - Customer correspondence saved as .eml, linked to accounts by sender domain',
+    'application/zip': 'ZIP Archives - Asset packs, imported file by file with folders mapped to categories',
+    'application/x-zip-compressed': 'ZIP Archives - Asset packs, imported file by file with folders mapped to categories',
     'text/csv': 'CSV Files - Structured data files',
     'application/vnd.ms-excel': 'Excel Files (Legacy) - Spreadsheet data',
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'Excel Files - Spreadsheet data',
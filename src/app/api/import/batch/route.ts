@@ -1,9 +1,16 @@
+import { readFile } from 'fs/promises';
+
 import { NextRequest, NextResponse } from 'next/server';
 
 import { withAuth, getUserId } from '@/lib/middleware/auth';
 import { withErrorHandler } from '@/lib/middleware/error-handler';
 import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
-import { getImportService } from '@/lib/services/import';
+import {
+  getImportService,
+  maxImportFileSize,
+  receiveImportUpload,
+  removeImportUpload,
+} from '@/lib/services/import';
 import { batchImportRequestSchema, ImportValidation } from '@/lib/validations/import';
 import { logger } from '@/lib/logger';
 
@@ -12,11 +19,11 @@ const postHandler = withErrorHandler(
   withAccountsRateLimit(
     withAuth(async (req) => {
       const userId = getUserId(req);
+      // Written to temporary files as they arrive, so large uploads never have to fit in memory
+      const upload = await receiveImportUpload(req);
       
       try {
-        // Parse multipart form data
-        const formData = await req.formData();
-        const optionsJson = formData.get('options') as string;
+        const optionsJson = upload.fields.options;
         
         // Parse options
         let options = {};
@@ -37,15 +44,14 @@ const postHandler = withErrorHandler(
         const validationErrors: string[] = [];
 
         // Handle accounts file
-        const accountsFile = formData.get('accountsFile') as File;
-        const accountsOptionsJson = formData.get('accountsOptions') as string;
+        const accountsFile = upload.files.find(file => file.field === 'accountsFile');
+        const accountsOptionsJson = upload.fields.accountsOptions;
         
         if (accountsFile) {
-          const fileValidation = ImportValidation.validateFileUpload(accountsFile);
+          const fileValidation = ImportValidation.validateFileUpload(accountsFile, { maxFileSize: maxImportFileSize(accountsFile) });
           if (!fileValidation.valid) {
             validationErrors.push(`Accounts file invalid: ${fileValidation.errors.join(', ')}`);
           } else {
-            const buffer = Buffer.from(await accountsFile.arrayBuffer());
             let accountsOptions = {};
             
             if (accountsOptionsJson) {
@@ -57,7 +63,7 @@ const postHandler = withErrorHandler(
             }
 
             batchData.accounts = {
-              buffer,
+              filePath: accountsFile.path,
               fileName: accountsFile.name,
               options: accountsOptions,
             };
@@ -65,15 +71,14 @@ const postHandler = withErrorHandler(
         }
 
         // Handle products file
-        const productsFile = formData.get('productsFile') as File;
-        const productsOptionsJson = formData.get('productsOptions') as string;
+        const productsFile = upload.files.find(file => file.field === 'productsFile');
+        const productsOptionsJson = upload.fields.productsOptions;
         
         if (productsFile) {
-          const fileValidation = ImportValidation.validateFileUpload(productsFile);
+          const fileValidation = ImportValidation.validateFileUpload(productsFile, { maxFileSize: maxImportFileSize(productsFile) });
           if (!fileValidation.valid) {
             validationErrors.push(`Products file invalid: ${fileValidation.errors.join(', ')}`);
           } else {
-            const buffer = Buffer.from(await productsFile.arrayBuffer());
             let productsOptions = {};
             
             if (productsOptionsJson) {
@@ -85,7 +90,7 @@ const postHandler = withErrorHandler(
             }
 
             batchData.products = {
-              buffer,
+              filePath: productsFile.path,
               fileName: productsFile.name,
               options: productsOptions,
             };
@@ -93,15 +98,14 @@ const postHandler = withErrorHandler(
         }
 
         // Handle opportunities file
-        const opportunitiesFile = formData.get('opportunitiesFile') as File;
-        const opportunitiesOptionsJson = formData.get('opportunitiesOptions') as string;
+        const opportunitiesFile = upload.files.find(file => file.field === 'opportunitiesFile');
+        const opportunitiesOptionsJson = upload.fields.opportunitiesOptions;
         
         if (opportunitiesFile) {
-          const fileValidation = ImportValidation.validateFileUpload(opportunitiesFile);
+          const fileValidation = ImportValidation.validateFileUpload(opportunitiesFile, { maxFileSize: maxImportFileSize(opportunitiesFile) });
           if (!fileValidation.valid) {
             validationErrors.push(`Opportunities file invalid: ${fileValidation.errors.join(', ')}`);
           } else {
-            const buffer = Buffer.from(await opportunitiesFile.arrayBuffer());
             let opportunitiesOptions = {};
             
             if (opportunitiesOptionsJson) {
@@ -113,16 +117,43 @@ const postHandler = withErrorHandler(
             }
 
             batchData.opportunities = {
-              buffer,
+              filePath: opportunitiesFile.path,
               fileName: opportunitiesFile.name,
               options: opportunitiesOptions,
             };
           }
         }
 
+        // Handle contacts file
+        const contactsFile = upload.files.find(file => file.field === 'contactsFile');
+        const contactsOptionsJson = upload.fields.contactsOptions;
+        
+        if (contactsFile) {
+          const fileValidation = ImportValidation.validateFileUpload(contactsFile, { maxFileSize: maxImportFileSize(contactsFile) });
+          if (!fileValidation.valid) {
+            validationErrors.push(`Contacts file invalid: ${fileValidation.errors.join(', ')}`);
+          } else {
+            let contactsOptions = {};
+            
+            if (contactsOptionsJson) {
+              try {
+                contactsOptions = JSON.parse(contactsOptionsJson);
+              } catch (error) {
+                validationErrors.push('Invalid contacts options format');
+              }
+            }
+
+            batchData.contacts = {
+              filePath: contactsFile.path,
+              fileName: contactsFile.name,
+              options: contactsOptions,
+            };
+          }
+        }
+
         // Handle assets files
-        const assetFiles = formData.getAll('assetFiles') as File[];
-        const assetMetadataJson = formData.get('assetMetadata') as string;
+        const assetFiles = upload.files.filter(file => file.field === 'assetFiles');
+        const assetMetadataJson = upload.fields.assetMetadata;
         
         if (assetFiles && assetFiles.length > 0) {
           const importService = getImportService();
@@ -149,7 +180,8 @@ const postHandler = withErrorHandler(
               continue;
             }
 
-            const buffer = Buffer.from(await file.arrayBuffer());
+            // Assets are parsed whole, within the smaller upload limit
+            const buffer = await readFile(file.path);
             assetImportData.push({
               fileName: file.name,
               originalName: file.name,
@@ -201,6 +233,17 @@ const postHandler = withErrorHandler(
           processingTime: result.totalProcessingTime,
         });
 
+        // Dry runs return the plan only; no job is created
+        if (result.dryRun) {
+          return NextResponse.json({
+            success: true,
+            dryRun: true,
+            plans: result.plans,
+            result,
+            message: `Dry run ${result.overallStatus}. ${result.summary.totalCreated} records would be created and ${result.summary.totalUpdated} updated.`,
+          }, { status: 200 });
+        }
+
         // Return success response
         return NextResponse.json({
           success: true,
@@ -220,6 +263,8 @@ const postHandler = withErrorHandler(
           },
           { status: 500 }
         );
+      } finally {
+        await removeImportUpload(upload);
       }
     })
   )
@@ -344,6 +389,11 @@ const getValidateHandler = withErrorHandler(
                 required: false,
                 description: 'Sales opportunities data',
               },
+              contacts: {
+                fileTypes: ['CSV'],
+                required: false,
+                description: 'Account contacts, linked by account number, domain or email domain',
+              },
               assets: {
                 fileTypes: ['PDF', 'DOCX', 'PPTX', 'TXT'],
                 required: false,
@@ -353,6 +403,7 @@ const getValidateHandler = withErrorHandler(
             },
             processingOrder: [
               'accounts (creates account records)',
+              'contacts (links to accounts)',
               'products (creates product catalog)',
               'opportunities (links to accounts and products)',
               'assets (processes and vectorizes documents)',
@@ -365,9 +416,10 @@ const getValidateHandler = withErrorHandler(
               validateRelationships: 'Validate data relationships',
               rollbackOnError: 'Rollback all changes if any step fails',
               continueOnError: 'Continue processing other types if one fails',
+              dryRun: 'Return a per-record plan of creates, updates, conflicts and orphans without writing',
             },
             recommendations: [
-              'Import accounts first if opportunities reference them',
+              'Import accounts first if contacts or opportunities reference them',
               'Import products before opportunities if they contain product data',
               'Enable vector creation for better search capabilities',
               'Use batch processing for large datasets',
@@ -0,0 +1,233 @@
+import { createReadStream } from 'fs';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { logger } from '@/lib/logger';
+import { withAuth, getUserId } from '@/lib/middleware/auth';
+import { NotFoundError, ValidationError, withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import {
+  getColumnMappingService,
+  getImportService,
+  maxImportFileSize,
+  readImportSample,
+  receiveImportUpload,
+  removeImportUpload,
+  type ColumnMapping,
+} from '@/lib/services/import';
+import { contactImportRequestSchema, ImportValidation } from '@/lib/validations/import';
+
+// POST /api/import/contacts - Import contacts from CSV and link them to accounts
+const postHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      // Written to a temporary file as it arrives, so a large upload never has to fit in memory
+      const upload = await receiveImportUpload(req);
+      
+      try {
+        const file = upload.files.find(uploaded => uploaded.field === 'file');
+        const optionsJson = upload.fields.options;
+
+        if (!file) {
+          return NextResponse.json(
+            { error: 'Bad Request', message: 'File is required' },
+            { status: 400 }
+          );
+        }
+
+        // Validate file
+        const fileValidation = ImportValidation.validateFileUpload(file, { maxFileSize: maxImportFileSize(file) });
+        if (!fileValidation.valid) {
+          return NextResponse.json(
+            { 
+              error: 'Bad Request', 
+              message: 'Invalid file',
+              details: fileValidation.errors,
+            },
+            { status: 400 }
+          );
+        }
+
+        // Parse options
+        let options: { mappingProfileId?: string; columnMappings?: ColumnMapping[]; recordPath?: string } = {};
+        if (optionsJson) {
+          try {
+            const parsedOptions = JSON.parse(optionsJson);
+            options = contactImportRequestSchema.parse({ options: parsedOptions }).options || {};
+          } catch (error) {
+            return NextResponse.json(
+              { error: 'Bad Request', message: 'Invalid options format' },
+              { status: 400 }
+            );
+          }
+        }
+
+        // Resolve the selected mapping profile and any inline column mappings
+        let columnMappings;
+        try {
+          columnMappings = await getColumnMappingService().resolveMappings(userId, 'contacts', options);
+        } catch (error) {
+          return NextResponse.json(
+            {
+              error: error instanceof NotFoundError ? 'Not Found' : 'Bad Request',
+              message: error instanceof Error ? error.message : 'Invalid column mappings',
+              details: error instanceof ValidationError ? error.details : undefined,
+            },
+            { status: error instanceof NotFoundError ? 404 : 400 }
+          );
+        }
+
+        // Validate the structure of CSV and JSON files, from the first rows of a large file
+        const sample = ['text/csv', 'application/csv', 'application/json', 'application/x-ndjson'].includes(file.type)
+          ? await readImportSample(file)
+          : null;
+        if (sample) {
+          try {
+            const importService = getImportService();
+            const validation = await importService.validateImportData('contacts', sample, file.name, columnMappings, options.recordPath);
+            
+            if (!validation.valid) {
+              return NextResponse.json(
+                { 
+                  error: 'Bad Request', 
+                  message: 'Invalid CSV structure',
+                  details: validation.errors,
+                  warnings: validation.warnings,
+                  preview: validation.preview,
+                },
+                { status: 400 }
+              );
+            }
+          } catch (error) {
+            logger.error('Contact import validation failed', {
+              error: error instanceof Error ? error : String(error),
+              fileName: file.name,
+            });
+            return NextResponse.json(
+              { error: 'Bad Request', message: 'Failed to validate CSV file' },
+              { status: 400 }
+            );
+          }
+        }
+
+        // Start import process
+        const importService = getImportService();
+        
+        logger.info('Starting contact import', {
+          fileName: file.name,
+          fileSize: file.size,
+          userId,
+          options,
+        });
+
+        // Tracked under a processing job so the import can be undone later
+        const result = await importService.orchestrator.executeTrackedImport(
+          'contacts',
+          file.name,
+          userId,
+          (jobId) => importService.importContacts(
+            createReadStream(file.path),
+            file.name,
+            { ...options, columnMappings, jobId, sourceSize: file.size },
+            // Progress callback could be used for WebSocket updates
+            undefined
+          )
+        );
+
+        logger.info('Contact import completed', {
+          fileName: file.name,
+          userId,
+          result: {
+            total: result.total,
+            created: result.created,
+            updated: result.updated,
+            failed: result.failed,
+            processingTime: result.processingTime,
+          },
+        });
+
+        // Return success response
+        return NextResponse.json({
+          success: true,
+          result,
+          message: `Successfully imported ${result.created} contacts, updated ${result.updated} contacts`,
+        }, { status: 200 });
+
+      } catch (error) {
+        logger.error('Contact import failed', { error: error instanceof Error ? error : String(error), userId });
+        
+        return NextResponse.json(
+          { 
+            error: 'Internal Server Error', 
+            message: 'Import failed',
+            details: error instanceof Error ? error.message : 'Unknown error',
+          },
+          { status: 500 }
+        );
+      } finally {
+        await removeImportUpload(upload);
+      }
+    })
+  )
+);
+
+export async function POST(req: NextRequest) {
+  return postHandler(req);
+}
+
+// GET /api/import/contacts/validate - Describe the expected contact CSV columns
+const getValidateHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      try {
+        const url = new URL(req.url);
+        const fileName = url.searchParams.get('fileName');
+        
+        if (!fileName) {
+          return NextResponse.json(
+            { error: 'Bad Request', message: 'fileName parameter is required' },
+            { status: 400 }
+          );
+        }
+
+        // This endpoint expects the file to be uploaded separately and validated
+        // In a real implementation, you might store the file temporarily and validate it
+        // For now, we'll return the expected structure
+        
+        return NextResponse.json({
+          valid: true,
+          expectedFields: {
+            required: ['name', 'contact_name', 'full_name', 'first_name'],
+            accountReference: ['account_id', 'account_number', 'account_domain', 'email'],
+            optional: ['last_name', 'title', 'department', 'linkedin'],
+          },
+          recommendations: [
+            'Include an email field; duplicates are detected by email',
+            'Provide an account number or account domain for contacts with personal email addresses',
+            'Import accounts first so every contact has an account to link to',
+          ],
+        });
+
+      } catch (error) {
+        logger.error('Contact validation endpoint error', { error: error instanceof Error ? error : String(error) });
+        return NextResponse.json(
+          { error: 'Internal Server Error', message: 'Validation failed' },
+          { status: 500 }
+        );
+      }
+    })
+  )
+);
+
+export async function GET(req: NextRequest) {
+  const url = new URL(req.url);
+  if (url.pathname.endsWith('/validate')) {
+    return getValidateHandler(req);
+  }
+  
+  return NextResponse.json(
+    { error: 'Not Found', message: 'Endpoint not found' },
+    { status: 404 }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getExchangeRateService } from '@/lib/services/import';
+
+interface RouteContext {
+  params: Promise<{ rateId: string }>;
+}
+
+// DELETE /api/import/exchange-rates/[rateId] - Delete an exchange rate
+const deleteHandler = (rateId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      await getExchangeRateService().deleteRate(rateId, userId);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Exchange rate deleted successfully',
+        rateId,
+      });
+    })
+  )
+);
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const { rateId } = await context.params;
+  return deleteHandler(rateId)(req);
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { REPORTING_CURRENCY } from '@/lib/config/currency-config';
+import { withAuth } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getExchangeRateService } from '@/lib/services/import';
+import { exchangeRateCreateSchema, exchangeRateQuerySchema } from '@/lib/validations/import';
+
+// GET /api/import/exchange-rates - List exchange rates, newest first within each currency pair
+const getHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const url = new URL(req.url);
+      const query = exchangeRateQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+      const rates = await getExchangeRateService().listRates(query);
+
+      return NextResponse.json({
+        success: true,
+        reportingCurrency: REPORTING_CURRENCY,
+        rates,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest) {
+  return getHandler(req);
+}
+
+// POST /api/import/exchange-rates - Set the rate of a currency pair from a date
+const postHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const body = await req.json();
+      const data = exchangeRateCreateSchema.parse(body);
+
+      const rate = await getExchangeRateService().setRate(data);
+
+      return NextResponse.json(rate, { status: 201 });
+    })
+  )
+);
+
+export async function POST(req: NextRequest) {
+  return postHandler(req);
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { logger } from '@/lib/logger';
+import { withAuth, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getExchangeRateService } from '@/lib/services/import';
+import { ImportValidation } from '@/lib/validations/import';
+
+// POST /api/import/exchange-rates/upload - Import exchange rates from a CSV or Excel file
+const postHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const formData = await req.formData();
+      const file = formData.get('file') as File;
+
+      if (!file) {
+        return NextResponse.json(
+          { error: 'Bad Request', message: 'File is required' },
+          { status: 400 }
+        );
+      }
+
+      const fileValidation = ImportValidation.validateFileUpload(file);
+      if (!fileValidation.valid) {
+        return NextResponse.json(
+          {
+            error: 'Bad Request',
+            message: 'Invalid file',
+            details: fileValidation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const buffer = Buffer.from(await file.arrayBuffer());
+      const result = await getExchangeRateService().importFromCsv(buffer, file.name);
+
+      logger.info('Exchange rate import completed', {
+        fileName: file.name,
+        userId,
+        created: result.created,
+        updated: result.updated,
+        failed: result.failed,
+      });
+
+      return NextResponse.json({
+        success: result.failed === 0,
+        result,
+        message: result.failed === 0
+          ? 'Exchange rates imported successfully'
+          : `Exchange rates imported with ${result.failed} errors`,
+      });
+    })
+  )
+);
+
+export async function POST(req: NextRequest) {
+  return postHandler(req);
+}
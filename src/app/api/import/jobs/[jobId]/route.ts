@@ -5,6 +5,7 @@ import { withErrorHandler } from '@/lib/middleware/error-handler';
 import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
 import { getImportService } from '@/lib/services/import';
 import { logger } from '@/lib/logger';
+import { rejectedRowsDownloadQuerySchema } from '@/lib/validations/import';
 
 interface RouteParams {
   params: {
@@ -75,6 +76,28 @@ const getHandler = withErrorHandler(
   )
 );
 
+// GET /api/import/jobs/[jobId]?download=rejected - Download the source rows the import rejected
+const getRejectedRowsHandler = (jobId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const url = new URL(req.url);
+      const query = rejectedRowsDownloadQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+      const report = await getImportService().getRejectedRowsReport(jobId, userId, query.format, query.entity);
+
+      logger.info('Rejected rows downloaded', { jobId, userId, format: query.format, rows: report.rows });
+
+      return new NextResponse(new Uint8Array(report.content), {
+        headers: {
+          'Content-Type': report.contentType,
+          'Content-Disposition': `attachment; filename="${report.fileName}"`,
+        },
+      });
+    })
+  )
+);
+
 // DELETE /api/import/jobs/[jobId] - Cancel import job
 const deleteHandler = withErrorHandler(
   withAccountsRateLimit(
@@ -123,6 +146,11 @@ const deleteHandler = withErrorHandler(
 );
 
 export async function GET(req: NextRequest, context: RouteParams) {
+  if (new URL(req.url).searchParams.has('download')) {
+    const { jobId } = await context.params;
+    return getRejectedRowsHandler(jobId)(req);
+  }
+
   return getHandler(req, context);
 }
 
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { logger } from '@/lib/logger';
+import { withAuth, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getImportService } from '@/lib/services/import';
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+// POST /api/import/jobs/[jobId]/undo - Undo a finished import
+const postHandler = (jobId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const result = await getImportService().undoImport(jobId, userId);
+
+      logger.info('Import job undone', {
+        jobId,
+        userId,
+        restored: result.restored,
+        deleted: result.deleted,
+      });
+
+      return NextResponse.json({
+        success: result.errors.length === 0,
+        result,
+        message: !result.undoneAt
+          ? `Import partly undone with ${result.errors.length} errors; undo it again to finish`
+          : result.errors.length === 0
+            ? 'Import undone successfully'
+            : `Import undone with ${result.errors.length} errors`,
+      });
+    })
+  )
+);
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  const { jobId } = await context.params;
+  return postHandler(jobId)(req);
+}
@@ -33,7 +33,7 @@ const getHandler = withErrorHandler(
         const where: any = {
           userId, // Only show user's own jobs
           type: {
-            in: ['IMPORT_ACCOUNTS', 'IMPORT_PRODUCTS', 'IMPORT_OPPORTUNITIES', 'IMPORT_ASSETS'],
+            in: ['IMPORT_ACCOUNTS', 'IMPORT_PRODUCTS', 'IMPORT_OPPORTUNITIES', 'IMPORT_CONTACTS', 'IMPORT_ASSETS'],
           },
         };
         
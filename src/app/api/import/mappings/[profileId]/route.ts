@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getColumnMappingService } from '@/lib/services/import';
+import { mappingProfileUpdateSchema } from '@/lib/validations/import';
+
+interface RouteContext {
+  params: Promise<{ profileId: string }>;
+}
+
+// GET /api/import/mappings/[profileId] - Get a column-mapping profile
+const getHandler = (profileId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const profile = await getColumnMappingService().getProfile(profileId, userId);
+
+      return NextResponse.json(profile);
+    })
+  )
+);
+
+// PUT /api/import/mappings/[profileId] - Update a column-mapping profile
+const putHandler = (profileId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const body = await req.json();
+      const data = mappingProfileUpdateSchema.parse(body);
+
+      const profile = await getColumnMappingService().updateProfile(profileId, userId, data);
+
+      return NextResponse.json(profile);
+    })
+  )
+);
+
+// DELETE /api/import/mappings/[profileId] - Delete a column-mapping profile
+const deleteHandler = (profileId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      await getColumnMappingService().deleteProfile(profileId, userId);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Mapping profile deleted successfully',
+        profileId,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { profileId } = await context.params;
+  return getHandler(profileId)(req);
+}
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const { profileId } = await context.params;
+  return putHandler(profileId)(req);
+}
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const { profileId } = await context.params;
+  return deleteHandler(profileId)(req);
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getColumnMappingService, IMPORT_TARGET_FIELDS, REQUIRED_TARGET_FIELDS } from '@/lib/services/import';
+import { mappingProfileCreateSchema, mappingProfileQuerySchema } from '@/lib/validations/import';
+
+// GET /api/import/mappings - List saved column-mapping profiles
+const getHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const url = new URL(req.url);
+      const { entityType } = mappingProfileQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+      const profiles = await getColumnMappingService().listProfiles(userId, entityType);
+
+      return NextResponse.json({
+        success: true,
+        profiles,
+        targetFields: entityType ? { [entityType]: IMPORT_TARGET_FIELDS[entityType] } : IMPORT_TARGET_FIELDS,
+        requiredFields: entityType ? { [entityType]: REQUIRED_TARGET_FIELDS[entityType] } : REQUIRED_TARGET_FIELDS,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest) {
+  return getHandler(req);
+}
+
+// POST /api/import/mappings - Save a new column-mapping profile
+const postHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const userId = getUserId(req);
+      const body = await req.json();
+      const data = mappingProfileCreateSchema.parse(body);
+
+      const profile = await getColumnMappingService().createProfile(userId, data);
+
+      return NextResponse.json(profile, { status: 201 });
+    })
+  )
+);
+
+export async function POST(req: NextRequest) {
+  return postHandler(req);
+}
@@ -1,9 +1,19 @@
+import { createReadStream } from 'fs';
+
 import { NextRequest, NextResponse } from 'next/server';
 
 import { withAuth, getUserId } from '@/lib/middleware/auth';
-import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { NotFoundError, ValidationError, withErrorHandler } from '@/lib/middleware/error-handler';
 import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
-import { getImportService } from '@/lib/services/import';
+import {
+  getColumnMappingService,
+  getImportService,
+  maxImportFileSize,
+  readImportSample,
+  receiveImportUpload,
+  removeImportUpload,
+  type ColumnMapping,
+} from '@/lib/services/import';
 import { opportunityImportRequestSchema, ImportValidation } from '@/lib/validations/import';
 import { logger } from '@/lib/logger';
 
@@ -12,12 +22,12 @@ const postHandler = withErrorHandler(
   withAccountsRateLimit(
     withAuth(async (req) => {
       const userId = getUserId(req);
+      // Written to a temporary file as it arrives, so a large upload never has to fit in memory
+      const upload = await receiveImportUpload(req);
       
       try {
-        // Parse multipart form data
-        const formData = await req.formData();
-        const file = formData.get('file') as File;
-        const optionsJson = formData.get('options') as string;
+        const file = upload.files.find(uploaded => uploaded.field === 'file');
+        const optionsJson = upload.fields.options;
 
         if (!file) {
           return NextResponse.json(
@@ -27,7 +37,7 @@ const postHandler = withErrorHandler(
         }
 
         // Validate file
-        const fileValidation = ImportValidation.validateFileUpload(file);
+        const fileValidation = ImportValidation.validateFileUpload(file, { maxFileSize: maxImportFileSize(file) });
         if (!fileValidation.valid) {
           return NextResponse.json(
             { 
@@ -40,7 +50,7 @@ const postHandler = withErrorHandler(
         }
 
         // Parse options
-        let options = {};
+        let options: { mappingProfileId?: string; columnMappings?: ColumnMapping[]; recordPath?: string } = {};
         if (optionsJson) {
           try {
             const parsedOptions = JSON.parse(optionsJson);
@@ -53,14 +63,29 @@ const postHandler = withErrorHandler(
           }
         }
 
-        // Convert file to buffer
-        const buffer = Buffer.from(await file.arrayBuffer());
+        // Resolve the selected mapping profile and any inline column mappings
+        let columnMappings;
+        try {
+          columnMappings = await getColumnMappingService().resolveMappings(userId, 'opportunities', options);
+        } catch (error) {
+          return NextResponse.json(
+            {
+              error: error instanceof NotFoundError ? 'Not Found' : 'Bad Request',
+              message: error instanceof Error ? error.message : 'Invalid column mappings',
+              details: error instanceof ValidationError ? error.details : undefined,
+            },
+            { status: error instanceof NotFoundError ? 404 : 400 }
+          );
+        }
 
-        // Validate CSV structure if it's a CSV file
-        if (file.type === 'text/csv' || file.type === 'application/csv') {
+        // Validate the structure of CSV and JSON files, from the first rows of a large file
+        const sample = ['text/csv', 'application/csv', 'application/json', 'application/x-ndjson'].includes(file.type)
+          ? await readImportSample(file)
+          : null;
+        if (sample) {
           try {
             const importService = getImportService();
-            const validation = await importService.validateImportData('opportunities', buffer, file.name);
+            const validation = await importService.validateImportData('opportunities', sample, file.name, columnMappings, options.recordPath);
             
             if (!validation.valid) {
               return NextResponse.json(
@@ -93,12 +118,18 @@ const postHandler = withErrorHandler(
           options,
         });
 
-        const result = await importService.importOpportunities(
-          buffer,
+        // Tracked under a processing job so the import can be undone later
+        const result = await importService.orchestrator.executeTrackedImport(
+          'opportunities',
           file.name,
-          options,
-          // Progress callback could be used for WebSocket updates
-          undefined
+          userId,
+          (jobId) => importService.importOpportunities(
+            createReadStream(file.path),
+            file.name,
+            { ...options, columnMappings, jobId, sourceSize: file.size },
+            // Progress callback could be used for WebSocket updates
+            undefined
+          )
         );
 
         logger.info('Opportunity import completed', {
@@ -111,6 +142,7 @@ const postHandler = withErrorHandler(
             failed: result.failed,
             accountsCreated: result.accountsCreated,
             productsLinked: result.productsLinked,
+            heldForReview: result.heldForReview,
             processingTime: result.processingTime,
           },
         });
@@ -119,7 +151,8 @@ const postHandler = withErrorHandler(
         return NextResponse.json({
           success: true,
           result,
-          message: `Successfully imported ${result.created} opportunities, updated ${result.updated} opportunities. Created ${result.accountsCreated} accounts and linked ${result.productsLinked} products.`,
+          message: `Successfully imported ${result.created} opportunities, updated ${result.updated} opportunities. Created ${result.accountsCreated} accounts and linked ${result.productsLinked} products.` +
+            (result.heldForReview > 0 ? ` ${result.heldForReview} opportunities are held for account match review.` : ''),
         }, { status: 200 });
 
       } catch (error) {
@@ -133,6 +166,8 @@ const postHandler = withErrorHandler(
           },
           { status: 500 }
         );
+      } finally {
+        await removeImportUpload(upload);
       }
     })
   )
@@ -45,6 +45,9 @@ const getHandler = withErrorHandler(
             case 'opportunities':
               typeStats = await importService.opportunityImport.getImportStats(timeRange);
               break;
+            case 'contacts':
+              typeStats = await importService.contactImport.getImportStats(timeRange);
+              break;
             case 'assets':
               typeStats = await importService.assetImport.getImportStats(timeRange);
               break;
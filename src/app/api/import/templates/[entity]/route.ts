@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { buildImportTemplate } from '@/lib/services/import';
+import { importEntityTypeSchema, importTemplateQuerySchema } from '@/lib/validations/import';
+
+interface RouteContext {
+  params: Promise<{ entity: string }>;
+}
+
+// GET /api/import/templates/[entity]?format=csv|xlsx - Download an import template
+const getHandler = (entity: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const entityType = importEntityTypeSchema.parse(entity);
+      const url = new URL(req.url);
+      const { format } = importTemplateQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+      const template = buildImportTemplate(entityType, format);
+
+      return new NextResponse(new Uint8Array(template.content), {
+        headers: {
+          'Content-Type': template.contentType,
+          'Content-Disposition': `attachment; filename="${template.fileName}"`,
+        },
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { entity } = await context.params;
+  return getHandler(entity)(req);
+}
@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { withAuth, getUserId } from '@/lib/middleware/auth';
-import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { NotFoundError, ValidationError, withErrorHandler } from '@/lib/middleware/error-handler';
 import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
-import { getImportService } from '@/lib/services/import';
-import { importValidationRequestSchema, ImportValidation } from '@/lib/validations/import';
+import { getColumnMappingService, getImportService, type ColumnMapping } from '@/lib/services/import';
+import { importOptionsSchemas, importValidationRequestSchema, ImportValidation } from '@/lib/validations/import';
 import { logger } from '@/lib/logger';
 
 // POST /api/import/validate - Validate CSV file before import
@@ -18,6 +18,11 @@ const postHandler = withErrorHandler(
         const formData = await req.formData();
         const file = formData.get('file') as File;
         const typeParam = formData.get('type') as string;
+        const mappingProfileParam = formData.get('mappingProfileId') as string | null;
+        const columnMappingsJson = formData.get('columnMappings') as string | null;
+        const dryRunParam = formData.get('dryRun') as string | null;
+        const maxPlanRecordsParam = formData.get('maxPlanRecords') as string | null;
+        const optionsJson = formData.get('options') as string | null;
 
         if (!file) {
           return NextResponse.json(
@@ -34,20 +39,61 @@ const postHandler = withErrorHandler(
         }
 
         // Validate type parameter
-        let type: 'accounts' | 'products' | 'opportunities';
+        let type: 'accounts' | 'products' | 'opportunities' | 'contacts';
         try {
-          const parsed = importValidationRequestSchema.parse({ type: typeParam });
+          const parsed = importValidationRequestSchema.pick({ type: true }).parse({ type: typeParam });
           type = parsed.type;
         } catch (error) {
           return NextResponse.json(
-            { error: 'Bad Request', message: 'Invalid type. Must be accounts, products, or opportunities' },
+            { error: 'Bad Request', message: 'Invalid type. Must be accounts, products, opportunities, or contacts' },
             { status: 400 }
           );
         }
 
+        // Parse mapping selection
+        let mappingOptions: { mappingProfileId?: string; columnMappings?: ColumnMapping[] };
+        let dryRun = false;
+        let maxPlanRecords: number | undefined;
+        try {
+          const parsed = importValidationRequestSchema.parse({
+            type,
+            mappingProfileId: mappingProfileParam || undefined,
+            columnMappings: columnMappingsJson ? JSON.parse(columnMappingsJson) : undefined,
+            dryRun: dryRunParam === 'true',
+            maxPlanRecords: maxPlanRecordsParam ? Number(maxPlanRecordsParam) : undefined,
+          });
+          mappingOptions = { mappingProfileId: parsed.mappingProfileId, columnMappings: parsed.columnMappings };
+          dryRun = parsed.dryRun;
+          maxPlanRecords = parsed.maxPlanRecords;
+        } catch (error) {
+          return NextResponse.json(
+            { error: 'Bad Request', message: 'Invalid column mappings format' },
+            { status: 400 }
+          );
+        }
+
+        // Parse import options used to plan the dry run
+        let importOptions = {};
+        if (dryRun && optionsJson) {
+          try {
+            importOptions = importOptionsSchemas[type].parse(JSON.parse(optionsJson));
+          } catch (error) {
+            return NextResponse.json(
+              { error: 'Bad Request', message: 'Invalid options format' },
+              { status: 400 }
+            );
+          }
+        }
+
         // Basic file validation
         const fileValidation = ImportValidation.validateFileUpload(file, {
-          allowedMimeTypes: ['text/csv', 'application/csv', 'text/comma-separated-values'],
+          allowedMimeTypes: [
+            'text/csv',
+            'application/csv',
+            'text/comma-separated-values',
+            'application/vnd.ms-excel',
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          ],
         });
 
         if (!fileValidation.valid) {
@@ -58,11 +104,32 @@ const postHandler = withErrorHandler(
           });
         }
 
+        // Resolve mappings so the preview shows rows as they will be imported
+        const mappingService = getColumnMappingService();
+        let columnMappings: ColumnMapping[] | undefined;
+        try {
+          columnMappings = await mappingService.resolveMappings(userId, type, mappingOptions);
+        } catch (error) {
+          return NextResponse.json(
+            {
+              error: error instanceof NotFoundError ? 'Not Found' : 'Bad Request',
+              message: error instanceof Error ? error.message : 'Invalid column mappings',
+              details: error instanceof ValidationError ? error.details : undefined,
+            },
+            { status: error instanceof NotFoundError ? 404 : 400 }
+          );
+        }
+
         // Convert file to buffer and validate structure
         const buffer = Buffer.from(await file.arrayBuffer());
         
         const importService = getImportService();
-        const validation = await importService.validateImportData(type, buffer, file.name);
+        const validation = await importService.validateImportData(type, buffer, file.name, columnMappings);
+
+        // Suggest mappings from saved profiles and header similarity
+        const profiles = await mappingService.listProfiles(userId, type);
+        const mappingSuggestions = mappingService.suggestMappings(type, validation.headers, profiles);
+        const matchingProfiles = mappingService.rankProfiles(validation.headers, profiles);
 
         // Get recommended field mappings if valid
         let fieldMappings = {};
@@ -74,6 +141,20 @@ const postHandler = withErrorHandler(
           structureValidation = ImportValidation.validateCsvStructure(headers, type);
         }
 
+        // Plan the import against existing records without writing
+        let plan;
+        if (dryRun && validation.valid) {
+          const dryRunOptions = { ...importOptions, columnMappings, dryRun: true, maxPlanRecords };
+          const dryRunResult = type === 'accounts'
+            ? await importService.importAccounts(buffer, file.name, dryRunOptions)
+            : type === 'products'
+              ? await importService.importProducts(buffer, file.name, dryRunOptions)
+              : type === 'contacts'
+                ? await importService.importContacts(buffer, file.name, dryRunOptions)
+                : await importService.importOpportunities(buffer, file.name, dryRunOptions);
+          plan = dryRunResult.plan;
+        }
+
         logger.info('CSV validation completed', {
           fileName: file.name,
           type,
@@ -94,8 +175,14 @@ const postHandler = withErrorHandler(
             ...fileValidation.warnings,
           ],
           preview: validation.preview,
+          headers: validation.headers,
           totalRows: validation.totalRows,
+          rowIssues: validation.rowIssues,
           fieldMappings,
+          columnMappings: columnMappings || [],
+          mappingSuggestions,
+          matchingProfiles,
+          plan,
           recommendations: getRecommendations(type, validation, structureValidation),
           estimatedProcessingTime: estimation(validation.totalRows, type),
         });
@@ -225,7 +312,14 @@ const getTemplatesHandler = withErrorHandler(
               'mappedSolutionArea',
               'mappedSegment',
               'mappedCapability',
-              'itemCategory'
+              'itemCategory',
+              'quantity',
+              'unitPrice',
+              'discount',
+              'totalValue',
+              'lineMargin',
+              'currency',
+              'lineCurrency'
             ],
             sampleData: {
               opportunityNumber: 'OPP-2024-001',
@@ -238,15 +332,37 @@ const getTemplatesHandler = withErrorHandler(
               estimatedCloseDate: '2024-12-31',
             },
           },
+
+          contacts: {
+            requiredFields: ['name'],
+            recommendedFields: ['email', 'accountNumber', 'title'],
+            optionalFields: [
+              'firstName',
+              'lastName',
+              'department',
+              'linkedIn',
+              'accountId',
+              'accountDomain'
+            ],
+            sampleData: {
+              name: 'Jane Doe',
+              email: 'jane.doe@acme.com',
+              title: 'VP of IT',
+              department: 'Information Technology',
+              accountNumber: 'ACC-001',
+            },
+          },
         };
 
         return NextResponse.json({
           success: true,
           templates,
+          // CSV by default; add ?format=xlsx for a workbook with a data dictionary
           downloadLinks: {
-            accounts: '/api/import/validate/templates/accounts.csv',
-            products: '/api/import/validate/templates/products.csv',
-            opportunities: '/api/import/validate/templates/opportunities.csv',
+            accounts: '/api/import/templates/accounts',
+            products: '/api/import/templates/products',
+            opportunities: '/api/import/templates/opportunities',
+            contacts: '/api/import/templates/contacts',
           },
           generalGuidelines: [
             'Use UTF-8 encoding for CSV files',
@@ -285,7 +401,7 @@ export async function GET(req: NextRequest) {
 
 // Helper functions
 function getRecommendations(
-  type: 'accounts' | 'products' | 'opportunities',
+  type: 'accounts' | 'products' | 'opportunities' | 'contacts',
   validation: any,
   structureValidation: any
 ): string[] {
@@ -323,6 +439,13 @@ function getRecommendations(
         recommendations.push('Product data detected. Consider importing products first for better linking.');
       }
       break;
+
+    case 'contacts':
+      if (!validation.preview.some((row: Record<string, unknown>) => row.email)) {
+        recommendations.push('Include an email field for duplicate detection and linking by company domain.');
+      }
+      recommendations.push('Import accounts first so every contact has an account to link to.');
+      break;
   }
 
   return recommendations;
@@ -334,6 +457,7 @@ function estimation(totalRows: number, type: string): number {
     accounts: 50, // ms per row
     products: 30,
     opportunities: 100,
+    contacts: 40,
   };
 
   const base = (baseTimePerRow as any)[type] || 50;
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth, withRoles, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getImportValidationRuleService } from '@/lib/services/import';
+import { validationRuleUpdateSchema } from '@/lib/validations/import';
+
+interface RouteContext {
+  params: Promise<{ ruleId: string }>;
+}
+
+// GET /api/import/validation-rules/[ruleId] - Get a validation rule
+const getHandler = (ruleId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async () => {
+      const rule = await getImportValidationRuleService().getRule(ruleId);
+
+      return NextResponse.json(rule);
+    })
+  )
+);
+
+// PUT /api/import/validation-rules/[ruleId] - Update a validation rule, admins only
+const putHandler = (ruleId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withRoles(['admin'])(async (req) => {
+      const body = await req.json();
+      const data = validationRuleUpdateSchema.parse(body);
+
+      const rule = await getImportValidationRuleService().updateRule(ruleId, data);
+
+      return NextResponse.json(rule);
+    })
+  )
+);
+
+// DELETE /api/import/validation-rules/[ruleId] - Delete a validation rule, admins only
+const deleteHandler = (ruleId: string) => withErrorHandler(
+  withAccountsRateLimit(
+    withRoles(['admin'])(async (req) => {
+      const userId = getUserId(req);
+      await getImportValidationRuleService().deleteRule(ruleId, userId);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Validation rule deleted successfully',
+        ruleId,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { ruleId } = await context.params;
+  return getHandler(ruleId)(req);
+}
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  const { ruleId } = await context.params;
+  return putHandler(ruleId)(req);
+}
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const { ruleId } = await context.params;
+  return deleteHandler(ruleId)(req);
+}
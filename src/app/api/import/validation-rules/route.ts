@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuth, withRoles, getUserId } from '@/lib/middleware/auth';
+import { withErrorHandler } from '@/lib/middleware/error-handler';
+import { withAccountsRateLimit } from '@/lib/middleware/rate-limit';
+import { getImportValidationRuleService, IMPORT_VALUE_SETS } from '@/lib/services/import';
+import { validationRuleCreateSchema, validationRuleQuerySchema } from '@/lib/validations/import';
+
+// GET /api/import/validation-rules - List the validation rules imports apply
+const getHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withAuth(async (req) => {
+      const url = new URL(req.url);
+      const { entityType, enabled } = validationRuleQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+      const rules = await getImportValidationRuleService().listRules(entityType, enabled);
+
+      return NextResponse.json({
+        success: true,
+        rules,
+        valueSets: IMPORT_VALUE_SETS,
+      });
+    })
+  )
+);
+
+export async function GET(req: NextRequest) {
+  return getHandler(req);
+}
+
+// POST /api/import/validation-rules - Add a validation rule, admins only
+const postHandler = withErrorHandler(
+  withAccountsRateLimit(
+    withRoles(['admin'])(async (req) => {
+      const userId = getUserId(req);
+      const body = await req.json();
+      const data = validationRuleCreateSchema.parse(body);
+
+      const rule = await getImportValidationRuleService().createRule(userId, data);
+
+      return NextResponse.json(rule, { status: 201 });
+    })
+  )
+);
+
+export async function POST(req: NextRequest) {
+  return postHandler(req);
+}
@@ -21,6 +21,11 @@ const ALLOWED_TYPES = [
   'application/pdf',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'text/markdown',
+  'text/x-markdown',
+  'text/html',
+  'text/plain',
+  'message/rfc822',
 ];
 
 // POST /api/upload - Simple file upload
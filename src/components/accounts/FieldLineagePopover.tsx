@@ -0,0 +1,116 @@
+'use client'
+
+import { Info, Loader2 } from 'lucide-react'
+import React, { useEffect, useRef, useState } from 'react'
+
+import { Card } from '@/components/ui/card'
+import { accountService, type FieldLineageEntry, type FieldLineageResponse } from '@/services/accountService'
+
+const sourceLabels: Record<FieldLineageEntry['source'], string> = {
+  import: 'Import',
+  ai_normalization: 'AI normalization',
+  manual: 'Manual edit',
+}
+
+const describeEntry = (entry: FieldLineageEntry) => {
+  const parts = [sourceLabels[entry.source]]
+  if (entry.sourceFile) parts.push(entry.sourceFile)
+  if (entry.rowNumber) parts.push(`row ${entry.rowNumber}`)
+  return parts.join(' · ')
+}
+
+interface FieldLineagePopoverProps {
+  accountId: string
+  field: string
+  label: string
+}
+
+export function FieldLineagePopover({ accountId, field, label }: FieldLineagePopoverProps) {
+  const [open, setOpen] = useState(false)
+  const [lineage, setLineage] = useState<FieldLineageResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open || lineage) return
+
+    setLoading(true)
+    setError(null)
+    accountService.getFieldLineage(accountId, field)
+      .then(setLineage)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load the field history'))
+      .finally(() => setLoading(false))
+  }, [open, lineage, accountId, field])
+
+  useEffect(() => {
+    if (!open) return
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  return (
+    <div ref={containerRef} className="relative inline-flex">
+      <button
+        type="button"
+        aria-label={`Where did ${label} come from?`}
+        onClick={(event) => {
+          event.stopPropagation()
+          setOpen(!open)
+        }}
+        className="text-muted-foreground/60 hover:text-foreground transition-colors"
+      >
+        <Info className="h-3 w-3" />
+      </button>
+
+      {open && (
+        <Card className="absolute left-0 top-5 z-20 w-72 shadow-lg" onClick={(event) => event.stopPropagation()}>
+          <div className="p-4 space-y-3 text-xs">
+            <p className="text-sm font-medium text-foreground">Where did {label} come from?</p>
+
+            {loading && (
+              <div className="flex items-center space-x-2 text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                <span>Loading...</span>
+              </div>
+            )}
+
+            {error && <p className="text-error-600">{error}</p>}
+
+            {lineage && !lineage.current && (
+              <p className="text-muted-foreground">No recorded source for this field.</p>
+            )}
+
+            {lineage?.current && (
+              <div className="space-y-1">
+                <p className="text-foreground">{describeEntry(lineage.current)}</p>
+                {lineage.current.jobId && (
+                  <p className="text-muted-foreground">Import job {lineage.current.jobId}</p>
+                )}
+                <p className="text-muted-foreground">{new Date(lineage.current.createdAt).toLocaleString()}</p>
+              </div>
+            )}
+
+            {lineage && lineage.history.length > 1 && (
+              <div className="pt-3 border-t border-border space-y-2">
+                <p className="text-muted-foreground">Earlier values</p>
+                {lineage.history.slice(1).map((entry) => (
+                  <div key={entry.id}>
+                    <p className="text-foreground truncate">{entry.value ?? '(empty)'}</p>
+                    <p className="text-muted-foreground">
+                      {describeEntry(entry)} · {new Date(entry.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { Check, GitMerge, Loader2, Plus, RefreshCw } from 'lucide-react'
+import React, { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { importService, type AccountMatchReview } from '@/services/importService'
+
+const matchedByLabels: Record<AccountMatchReview['matchedBy'], string> = {
+  name: 'same name',
+  domain: 'same domain',
+  similarity: 'similar name',
+}
+
+export function AccountMatchReviewQueue() {
+  const [reviews, setReviews] = useState<AccountMatchReview[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [resolving, setResolving] = useState<string | null>(null)
+
+  const loadReviews = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await importService.getAccountMatchReviews()
+      setReviews(response.reviews)
+      setTotal(response.total)
+    } catch (error) {
+      toast.error('Could not load account matches', {
+        description: error instanceof Error ? error.message : (error as { message?: string })?.message,
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadReviews()
+  }, [loadReviews])
+
+  const handleResolve = async (review: AccountMatchReview, action: 'confirm' | 'reject') => {
+    setResolving(review.id)
+    try {
+      const resolution = await importService.resolveAccountMatch(review.id, action)
+      const written = resolution.result.created + resolution.result.updated
+      toast.success(action === 'confirm' ? 'Match confirmed' : 'New account created', {
+        description: `${written} of ${review.opportunityCount} opportunities imported for ${review.customerName}`,
+      })
+      setReviews((current) => current.filter((item) => item.id !== review.id))
+      setTotal((current) => current - 1)
+    } catch (error) {
+      toast.error('Could not resolve the match', {
+        description: error instanceof Error ? error.message : (error as { message?: string })?.message,
+      })
+    } finally {
+      setResolving(null)
+    }
+  }
+
+  return (
+    <Card>
+      <div className="p-6 space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-h3 text-foreground mb-1">
+              Account Match Review
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Opportunity customers that probably match an existing account. Confirm to link them,
+              or reject to create a new account.
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadReviews} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {!loading && reviews.length === 0 && (
+          <div className="text-center py-6">
+            <GitMerge className="h-8 w-8 text-muted-foreground/50 mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">No matches waiting for review</p>
+          </div>
+        )}
+
+        {reviews.length > 0 && (
+          <div className="rounded-lg border divide-y">
+            {reviews.map((review) => (
+              <div key={review.id} className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-foreground truncate">{review.customerName}</span>
+                    <span className="text-xs text-muted-foreground">→</span>
+                    <span className="text-sm text-foreground truncate">
+                      {review.candidateAccount?.name ?? 'Deleted account'}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <Badge variant="outline" className="text-xs">
+                      {Math.round(review.score * 100)}% · {matchedByLabels[review.matchedBy]}
+                    </Badge>
+                    {review.candidateAccount?.domain && <span>{review.candidateAccount.domain}</span>}
+                    <span>
+                      {review.opportunityCount} {review.opportunityCount === 1 ? 'opportunity' : 'opportunities'} held
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <Button
+                    size="sm"
+                    onClick={() => handleResolve(review, 'confirm')}
+                    disabled={resolving !== null || !review.candidateAccount}
+                  >
+                    {resolving === review.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Check className="h-4 w-4 mr-2" />
+                    )}
+                    Same account
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleResolve(review, 'reject')}
+                    disabled={resolving !== null}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    New account
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {total > reviews.length && (
+          <p className="text-xs text-muted-foreground">
+            Showing {reviews.length} of {total} matches, highest scores first
+          </p>
+        )}
+      </div>
+    </Card>
+  )
+}
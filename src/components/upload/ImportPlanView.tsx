@@ -0,0 +1,158 @@
+'use client'
+
+import { AlertTriangle, ArrowRight, Link2Off, Plus, RefreshCw } from 'lucide-react'
+import React from 'react'
+
+import { Badge } from '@/components/ui/badge'
+
+import type { ImportPlan, ImportPlanRecord } from '@/lib/services/import/import-plan'
+
+interface ImportPlanViewProps {
+  plan: ImportPlan
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function PlanSection({
+  title,
+  icon: Icon,
+  count,
+  children,
+}: {
+  title: string
+  icon: React.ComponentType<{ className?: string }>
+  count: number
+  children: React.ReactNode
+}) {
+  if (count === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Icon className="h-4 w-4 text-muted-foreground" />
+        <h4 className="text-sm font-medium text-foreground">{title}</h4>
+        <Badge variant="outline" className="text-xs">{count}</Badge>
+      </div>
+      <div className="max-h-72 overflow-y-auto rounded-lg border divide-y">
+        {children}
+      </div>
+    </div>
+  )
+}
+
+function RecordLinks({ record }: { record: ImportPlanRecord }) {
+  if (!record.links?.length) return null
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {record.links.map((link) => (
+        <Badge
+          key={`${link.entityType}-${link.key}`}
+          variant={link.status === 'create' || link.status === 'review' ? 'warning' : 'secondary'}
+          className="text-xs"
+        >
+          {link.entityType === 'accounts' ? 'Account' : 'Product'} {link.key}
+          {link.status === 'create' && ' (new)'}
+          {link.status === 'pending' && ' (in this import)'}
+          {link.status === 'review' && ` (needs review, score ${link.score})`}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+export function ImportPlanView({ plan }: ImportPlanViewProps) {
+  const { summary } = plan
+  const counts = [
+    { label: 'Create', value: summary.toCreate, variant: 'success' as const },
+    { label: 'Update', value: summary.toUpdate, variant: 'default' as const },
+    { label: 'Unchanged', value: summary.unchanged, variant: 'secondary' as const },
+    { label: 'Skipped', value: summary.skipped, variant: 'secondary' as const },
+    { label: 'Conflicts', value: summary.conflicts, variant: 'error' as const },
+    { label: 'Orphans', value: summary.orphans, variant: 'warning' as const },
+    { label: 'Invalid', value: summary.invalid, variant: 'error' as const },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {counts.map((count) => (
+          <Badge key={count.label} variant={count.variant}>
+            {count.label}: {count.value}
+          </Badge>
+        ))}
+      </div>
+
+      {plan.truncated && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {plan.maxRecords} records of each section.
+        </p>
+      )}
+
+      <PlanSection title="New records" icon={Plus} count={plan.creates.length}>
+        {plan.creates.map((record) => (
+          <div key={`create-${record.row}`} className="p-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-foreground">{record.key}</span>
+              <span className="text-xs text-muted-foreground">Row {record.row}</span>
+            </div>
+            <RecordLinks record={record} />
+          </div>
+        ))}
+      </PlanSection>
+
+      <PlanSection title="Updates" icon={RefreshCw} count={plan.updates.length}>
+        {plan.updates.map((record) => (
+          <div key={`update-${record.row}`} className="p-3 space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-foreground">{record.key}</span>
+              <span className="text-xs text-muted-foreground">
+                Row {record.row}{record.matchedBy && ` · matched by ${record.matchedBy}`}
+              </span>
+            </div>
+            {record.reason && (
+              <p className="text-xs text-muted-foreground">{record.reason}</p>
+            )}
+            {record.changes?.map((change) => (
+              <div key={change.field} className="flex items-center space-x-2 text-xs">
+                <span className="w-40 flex-shrink-0 font-mono text-muted-foreground">{change.field}</span>
+                <span className="truncate text-error-700 line-through">{formatValue(change.before)}</span>
+                <ArrowRight className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                <span className="truncate text-success-700">{formatValue(change.after)}</span>
+              </div>
+            ))}
+            <RecordLinks record={record} />
+          </div>
+        ))}
+      </PlanSection>
+
+      <PlanSection title="Conflicts" icon={AlertTriangle} count={plan.conflicts.length}>
+        {plan.conflicts.map((record) => (
+          <div key={`conflict-${record.row}`} className="p-3 flex items-center justify-between">
+            <div>
+              <span className="text-sm font-medium text-foreground">{record.key}</span>
+              <p className="text-xs text-muted-foreground">{record.reason}</p>
+            </div>
+            <span className="text-xs text-muted-foreground">Row {record.row}</span>
+          </div>
+        ))}
+      </PlanSection>
+
+      <PlanSection title="Unresolved references" icon={Link2Off} count={plan.orphans.length}>
+        {plan.orphans.map((orphan, index) => (
+          <div key={`orphan-${orphan.row}-${index}`} className="p-3 flex items-center justify-between">
+            <div>
+              <span className="text-sm font-medium text-foreground">{orphan.key}</span>
+              <p className="text-xs text-muted-foreground">{orphan.reason}</p>
+            </div>
+            <span className="text-xs text-muted-foreground">Row {orphan.row}</span>
+          </div>
+        ))}
+      </PlanSection>
+    </div>
+  )
+}
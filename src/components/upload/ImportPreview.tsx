@@ -0,0 +1,148 @@
+'use client'
+
+import { Eye, Loader2 } from 'lucide-react'
+import React, { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  importService,
+  type ImportEntityType,
+  type ImportPreviewOptions,
+  type ImportPreviewResponse,
+} from '@/services/importService'
+
+import { ImportPlanView } from './ImportPlanView'
+
+const optionLabels: Array<{
+  key: keyof ImportPreviewOptions
+  label: string
+  types: ImportEntityType[]
+}> = [
+  { key: 'updateExisting', label: 'Update existing records', types: ['accounts', 'products', 'opportunities', 'contacts'] },
+  { key: 'skipDuplicates', label: 'Skip duplicates', types: ['accounts', 'products', 'opportunities', 'contacts'] },
+  { key: 'enableSCD', label: 'Keep product history (SCD)', types: ['products'] },
+  { key: 'createMissingAccounts', label: 'Create missing accounts', types: ['opportunities'] },
+  { key: 'linkProducts', label: 'Link products', types: ['opportunities'] },
+]
+
+export function ImportPreview() {
+  const [type, setType] = useState<ImportEntityType>('accounts')
+  const [file, setFile] = useState<File | null>(null)
+  const [options, setOptions] = useState<ImportPreviewOptions>({
+    updateExisting: false,
+    skipDuplicates: true,
+    linkProducts: true,
+  })
+  const [preview, setPreview] = useState<ImportPreviewResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const handlePreview = async () => {
+    if (!file) return
+
+    setLoading(true)
+    try {
+      const response = await importService.previewImport(file, type, options)
+      setPreview(response)
+      if (!response.valid) {
+        toast.error('File failed validation', {
+          description: response.errors[0],
+        })
+      }
+    } catch (error) {
+      toast.error('Preview failed', {
+        description: error instanceof Error ? error.message : (error as { message?: string })?.message,
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <div className="p-6 space-y-6">
+        <div>
+          <h2 className="text-h3 text-foreground mb-1">
+            Preview Import
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            See which records a spreadsheet would create, update or conflict with before importing it.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Record type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ImportEntityType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="accounts">Accounts</SelectItem>
+                <SelectItem value="products">Products</SelectItem>
+                <SelectItem value="opportunities">Opportunities</SelectItem>
+                <SelectItem value="contacts">Contacts</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="previewFile">File</Label>
+            <Input
+              id="previewFile"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null)
+                setPreview(null)
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-x-6 gap-y-2">
+          {optionLabels
+            .filter((option) => option.types.includes(type))
+            .map((option) => (
+              <div key={option.key} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`preview-${option.key}`}
+                  checked={!!options[option.key]}
+                  onCheckedChange={(checked) =>
+                    setOptions((current) => ({ ...current, [option.key]: !!checked }))
+                  }
+                />
+                <Label htmlFor={`preview-${option.key}`} className="text-sm cursor-pointer">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+        </div>
+
+        <Button onClick={handlePreview} disabled={!file || loading}>
+          {loading ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Eye className="h-4 w-4 mr-2" />
+          )}
+          Preview changes
+        </Button>
+
+        {preview && !preview.valid && (
+          <ul className="space-y-1">
+            {preview.errors.map((error) => (
+              <li key={error} className="text-sm text-error-700">{error}</li>
+            ))}
+          </ul>
+        )}
+
+        {preview?.plan && <ImportPlanView plan={preview.plan} />}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { Download } from 'lucide-react'
+import React from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+
+const templates = [
+  { entity: 'accounts', label: 'Accounts' },
+  { entity: 'products', label: 'Products' },
+  { entity: 'opportunities', label: 'Opportunities' },
+  { entity: 'contacts', label: 'Contacts' },
+]
+
+export function ImportTemplates() {
+  return (
+    <Card>
+      <div className="p-6 space-y-4">
+        <div>
+          <h2 className="text-h3 text-foreground mb-1">
+            Import Templates
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Start from the columns each importer accepts. Columns marked * are required; the Excel
+            template also includes a data dictionary describing every column.
+          </p>
+        </div>
+        <div className="space-y-3">
+          {templates.map(({ entity, label }) => (
+            <div key={entity} className="flex items-center justify-between">
+              <span className="text-sm font-medium text-foreground">{label}</span>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/import/templates/${entity}?format=csv`} download>
+                    <Download className="h-4 w-4 mr-2" />
+                    CSV
+                  </a>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/import/templates/${entity}?format=xlsx`} download>
+                    <Download className="h-4 w-4 mr-2" />
+                    Excel
+                  </a>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,7 @@
+/**
+ * Currency Configuration
+ * Reporting currency that opportunity revenue in other currencies is converted to
+ */
+
+// ISO 4217 code of the reporting currency
+export const REPORTING_CURRENCY = (process.env.REPORTING_CURRENCY || 'USD').trim().toUpperCase()
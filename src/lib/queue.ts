@@ -42,9 +42,9 @@ export interface DataExportJobData {
 }
 
 export interface ImportJobData {
-  type: 'accounts' | 'products' | 'opportunities' | 'assets' | 'batch';
+  type: 'accounts' | 'products' | 'opportunities' | 'contacts' | 'assets' | 'batch' | 'vectorize';
   userId: string;
-  data: any; // BatchImportData or specific import data
+  data: any; // BatchImportData, specific import data, or { accountIds } to vectorize
   options: any; // Import options
   metadata?: any;
 }
@@ -0,0 +1,265 @@
+import { Prisma, Product } from '@prisma/client';
+
+import { NotFoundError } from '@/lib/middleware/error-handler';
+import { prisma } from '@/lib/prisma';
+import { getConversionDate, getExchangeRateService } from '@/lib/services/import/exchange-rate.service';
+import { diffFields, ImportFieldChange } from '@/lib/services/import/import-plan';
+import {
+  calculateLineTotal,
+  checkRevenueRollup,
+  summarizeLineItems,
+} from '@/lib/services/import/opportunity-line-items';
+
+export interface ProductCatalogQuery {
+  asOf?: Date; // Catalog as it stood at this moment; the current catalog when omitted
+  search?: string;
+  category?: string;
+  manufacturer?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface ProductVersion extends Product {
+  validFrom: Date | null;
+  validTo: Date | null;
+  isCurrent: boolean;
+  changes: ImportFieldChange[]; // Fields that differ from the previous version
+}
+
+export type PurchaseLineResolution = 'booked_date' | 'current' | 'linked';
+
+export interface ResolvedPurchaseLine {
+  id: string;
+  gpRevenueCategory: string | null;
+  mappedSolutionArea: string | null;
+  mappedSegment: string | null;
+  mappedCapability: string | null;
+  itemCategory: string | null;
+  quantity: number | null;
+  unitPrice: number | null;
+  discount: number | null;
+  totalValue: number | null; // Given or calculated net value
+  lineMargin: number | null;
+  currency: string; // The line's own currency, else the opportunity's
+  itemNumber: string;
+  linkedProduct: Product; // Version the line was linked to at import
+  product: Product; // Version current when the opportunity was booked
+  resolvedBy: PurchaseLineResolution;
+  changes: ImportFieldChange[]; // How the booked version differs from the linked one
+}
+
+// Product fields that can change from one SCD version to the next
+export const PRODUCT_VERSION_FIELDS = [
+  'itemDescription',
+  'itemTypeCode',
+  'itemTypeDescription',
+  'productType',
+  'itemRevenueCategory',
+  'itemManufacturer',
+  'itemCategory',
+  'itemLineOfBusiness',
+  'itemSubcategory',
+  'itemClass',
+  'portfolio',
+  'currentCost',
+  'offer',
+  'practice',
+  'solutionSegment',
+  'businessSegment',
+  'manufacturerPractice',
+  'manufacturerItemCategory',
+  'growthCategory',
+];
+
+const VERSION_ORDER: Prisma.ProductOrderByWithRelationInput[] = [
+  { scdStartDate: { sort: 'asc', nulls: 'first' } },
+  { createdAt: 'asc' },
+];
+
+/**
+ * Whether a version was the current one at a moment: versions are valid from their
+ * start date up to, but not including, their end date
+ */
+export function isVersionValidAt(version: Pick<Product, 'scdStartDate' | 'scdEndDate'>, date: Date): boolean {
+  return (!version.scdStartDate || version.scdStartDate <= date) &&
+    (!version.scdEndDate || version.scdEndDate > date);
+}
+
+/**
+ * Filter matching the versions that were current at a moment
+ */
+function validAt(date: Date): Prisma.ProductWhereInput {
+  return {
+    AND: [
+      { OR: [{ scdStartDate: null }, { scdStartDate: { lte: date } }] },
+      { OR: [{ scdEndDate: null }, { scdEndDate: { gt: date } }] },
+    ],
+  };
+}
+
+export class ProductCatalogService {
+  /**
+   * List the catalog, either as it is now or as it stood at `asOf`
+   */
+  async getCatalog(query: ProductCatalogQuery) {
+    const where: Prisma.ProductWhereInput = {
+      AND: [
+        query.asOf ? validAt(query.asOf) : { isCurrentRecordFlag: true },
+        query.search
+          ? {
+              OR: [
+                { itemNumber: { contains: query.search, mode: 'insensitive' } },
+                { itemDescription: { contains: query.search, mode: 'insensitive' } },
+              ],
+            }
+          : {},
+        query.category ? { itemCategory: { equals: query.category, mode: 'insensitive' } } : {},
+        query.manufacturer ? { itemManufacturer: { equals: query.manufacturer, mode: 'insensitive' } } : {},
+      ],
+    };
+
+    const [products, total] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        orderBy: { itemNumber: 'asc' },
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize,
+      }),
+      prisma.product.count({ where }),
+    ]);
+
+    return {
+      asOf: query.asOf ?? null,
+      products,
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  /**
+   * Every version of an item, oldest first, with the fields each version changed
+   */
+  async getVersionHistory(itemNumber: string) {
+    const versions = await prisma.product.findMany({
+      where: { itemNumber },
+      orderBy: VERSION_ORDER,
+    });
+
+    if (versions.length === 0) {
+      throw new NotFoundError('Product');
+    }
+
+    const history: ProductVersion[] = versions.map((version, index) => ({
+      ...version,
+      validFrom: version.scdStartDate,
+      validTo: version.scdEndDate,
+      isCurrent: version.isCurrentRecordFlag,
+      changes: index === 0 ? [] : diffFields(versions[index - 1], version, PRODUCT_VERSION_FIELDS),
+    }));
+
+    return {
+      itemNumber,
+      currentVersionId: versions.find(version => version.isCurrentRecordFlag)?.id ?? null,
+      changedFields: [...new Set(history.flatMap(version => version.changes.map(change => change.field)))],
+      versions: history,
+    };
+  }
+
+  /**
+   * The product lines of an opportunity, each resolved to the version of its item that was
+   * current on the opportunity's booked date. Unbooked opportunities resolve to the current version.
+   * Line totals are checked against the opportunity's booked, or else pipeline, revenue, and
+   * converted to the reporting currency; figures without a rate for the date are null.
+   */
+  async resolveOpportunityLines(opportunityId: string) {
+    const opportunity = await prisma.opportunity.findUnique({
+      where: { id: opportunityId },
+      include: { purchaseProducts: { include: { product: true } } },
+    });
+
+    if (!opportunity) {
+      throw new NotFoundError('Opportunity');
+    }
+
+    const itemNumbers = [...new Set(opportunity.purchaseProducts.map(line => line.product.itemNumber))];
+    const versions = itemNumbers.length > 0
+      ? await prisma.product.findMany({
+          where: { itemNumber: { in: itemNumbers } },
+          orderBy: VERSION_ORDER,
+        })
+      : [];
+
+    const bookedDate = opportunity.bookedDate;
+    const lines: ResolvedPurchaseLine[] = opportunity.purchaseProducts.map(line => {
+      const itemVersions = versions.filter(version => version.itemNumber === line.product.itemNumber);
+      let resolvedBy: PurchaseLineResolution = bookedDate ? 'booked_date' : 'current';
+      let product = bookedDate
+        ? itemVersions.find(version => isVersionValidAt(version, bookedDate))
+        : itemVersions.find(version => version.isCurrentRecordFlag);
+
+      // Booked before the item's first recorded version, or no version is current
+      if (!product) {
+        product = line.product;
+        resolvedBy = 'linked';
+      }
+
+      return {
+        id: line.id,
+        gpRevenueCategory: line.gpRevenueCategory,
+        mappedSolutionArea: line.mappedSolutionArea,
+        mappedSegment: line.mappedSegment,
+        mappedCapability: line.mappedCapability,
+        itemCategory: line.itemCategory,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        discount: line.discount,
+        totalValue: calculateLineTotal(line) ?? null,
+        lineMargin: line.lineMargin,
+        currency: line.currency || opportunity.currency,
+        itemNumber: line.product.itemNumber,
+        linkedProduct: line.product,
+        product,
+        resolvedBy,
+        changes: product.id === line.product.id ? [] : diffFields(line.product, product, PRODUCT_VERSION_FIELDS),
+      };
+    });
+
+    // Totals are in the opportunity's currency; the reporting figures convert them on its conversion date
+    const converter = await getExchangeRateService().getConverter();
+    const conversionDate = getConversionDate(opportunity);
+    const totals = summarizeLineItems(opportunity.purchaseProducts, (amount, currency) =>
+      converter.convert(amount, currency, conversionDate, opportunity.currency)
+    );
+
+    return {
+      opportunityId: opportunity.id,
+      opportunityNumber: opportunity.opportunityNumber,
+      bookedDate,
+      bookedGrossRevenue: opportunity.bookedGrossRevenue,
+      pipelineGrossRevenue: opportunity.pipelineGrossRevenue,
+      margin: opportunity.margin,
+      currency: opportunity.currency,
+      lines,
+      totals,
+      revenueCheck: checkRevenueRollup(opportunity, totals),
+      reporting: {
+        currency: converter.reportingCurrency,
+        conversionDate,
+        bookedGrossRevenue: converter.convert(opportunity.bookedGrossRevenue, opportunity.currency, conversionDate),
+        pipelineGrossRevenue: converter.convert(opportunity.pipelineGrossRevenue, opportunity.currency, conversionDate),
+        lineTotal: converter.convert(totals.totalValue, opportunity.currency, conversionDate),
+      },
+    };
+  }
+}
+
+// Singleton instance
+let productCatalogService: ProductCatalogService | null = null;
+
+export function getProductCatalogService(): ProductCatalogService {
+  if (!productCatalogService) {
+    productCatalogService = new ProductCatalogService();
+  }
+  return productCatalogService;
+}
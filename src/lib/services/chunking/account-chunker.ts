@@ -30,6 +30,9 @@ export interface AccountData {
   opportunities?: Array<{
     name: string
     value?: number
+    currency?: string // ISO 4217 code of value; dollars when omitted
+    reportingValue?: number // value converted to the reporting currency
+    reportingCurrency?: string
     stage?: string
     probability?: number
   }>
@@ -392,13 +395,41 @@ export class AccountChunkerService {
   private formatOpportunities(opportunities: AccountData['opportunities']): string {
     if (!opportunities) return ''
 
-    return opportunities.map(opp => {
+    const lines = opportunities.map(opp => {
       const parts = [`- ${opp.name}`]
-      if (opp.value) parts.push(`Value: $${opp.value.toLocaleString()}`)
+      if (opp.value) parts.push(`Value: ${this.formatAmount(opp.value, opp.currency)}`)
+      if (opp.value && opp.reportingValue !== undefined && opp.reportingCurrency && opp.reportingCurrency !== opp.currency) {
+        parts.push(`Value (${opp.reportingCurrency}): ${this.formatAmount(opp.reportingValue, opp.reportingCurrency)}`)
+      }
       if (opp.stage) parts.push(`Stage: ${opp.stage}`)
       if (opp.probability) parts.push(`Probability: ${opp.probability}%`)
       return parts.join(' | ')
-    }).join('\n')
+    })
+
+    // Totals only add up in one currency, so they use the converted values
+    const converted = opportunities.flatMap(opp =>
+      opp.reportingValue !== undefined && opp.reportingCurrency
+        ? [{ value: opp.reportingValue, currency: opp.reportingCurrency }]
+        : []
+    )
+    if (converted.length > 0) {
+      const reportingCurrency = converted[0].currency
+      const total = converted.reduce((sum, opp) => sum + opp.value, 0)
+      const unconverted = opportunities.length - converted.length
+      lines.push(
+        `Total value (${reportingCurrency}): ${this.formatAmount(total, reportingCurrency)}` +
+        (unconverted > 0 ? ` (excludes ${unconverted} without an exchange rate)` : '')
+      )
+    }
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Format an amount with its currency code, or as dollars when it has none
+   */
+  private formatAmount(value: number, currency?: string): string {
+    return currency ? `${currency} ${value.toLocaleString()}` : `$${value.toLocaleString()}`
   }
 
   /**
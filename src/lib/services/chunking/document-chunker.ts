@@ -3,7 +3,7 @@
  * Process parsed documents from file parsers and maintain document structure
  */
 
-import { TParserResult, TParsedBlock } from '../parsers/file-parser.interface'
+import { TDocumentPart, TParserResult, TParsedBlock } from '../parsers/file-parser.interface'
 import { TextSplitterService, TextChunk, TextSplitterOptions, getTextSplitter } from './text-splitter'
 import { logger } from '../../logger'
 import crypto from 'crypto'
@@ -33,6 +33,7 @@ export interface DocumentChunkingOptions extends TextSplitterOptions {
   mergeSmallBlocks?: boolean
   minBlockSize?: number
   maxBlockSize?: number
+  excludeParts?: TDocumentPart[] // e.g. ['comment'] to leave reviewer comments out of the index
 }
 
 export interface DocumentChunkingResult {
@@ -81,6 +82,9 @@ export class DocumentChunkerService {
       // Process each block
       for (let i = 0; i < parserResult.blocks.length; i++) {
         const block = parserResult.blocks[i]
+        if (options.excludeParts?.includes(block.metadata.part || 'body')) {
+          continue
+        }
         
         try {
           const blockChunks = await this.chunkBlock(
@@ -374,6 +378,9 @@ export class DocumentChunkerService {
       'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
       'text/plain': 'txt',
+      'text/markdown': 'md',
+      'text/html': 'html',
+      'message/rfc822': 'eml',
     }
 
     return typeMap[fileType] || 'unknown'
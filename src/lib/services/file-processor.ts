@@ -8,6 +8,8 @@ import mammoth from 'mammoth';
 import pdf from 'pdf-parse';
 import * as XLSX from 'xlsx';
 
+import { QuickParse } from '@/lib/services/parsers';
+
 // File processing result interface
 export interface ProcessingResult {
   accountsFound: number;
@@ -30,6 +32,11 @@ export class FileProcessor {
     'application/pdf': 'pdf',
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
     'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+    'text/markdown': 'md',
+    'text/x-markdown': 'md',
+    'text/html': 'html',
+    'text/plain': 'txt',
+    'message/rfc822': 'eml',
   };
 
   static isSupported(fileType: string): boolean {
@@ -64,6 +71,13 @@ export class FileProcessor {
         case 'application/vnd.openxmlformats-officedocument.presentationml.presentation':
           extractedData = await this.processPptx(filePath);
           break;
+        case 'text/markdown':
+        case 'text/x-markdown':
+        case 'text/html':
+        case 'text/plain':
+        case 'message/rfc822':
+          extractedData = await this.processText(filePath, fileType);
+          break;
         default:
           throw new Error(`Unsupported file type: ${fileType}`);
       }
@@ -138,6 +152,34 @@ export class FileProcessor {
     }));
   }
 
+  private static async processText(filePath: string, fileType: string): Promise<Record<string, unknown>[]> {
+    const buffer = await fs.readFile(filePath);
+    const fileName = path.basename(filePath);
+    let result;
+    switch (fileType) {
+      case 'text/html':
+        result = await QuickParse.html(buffer, fileName);
+        break;
+      case 'text/plain':
+        result = await QuickParse.text(buffer, fileName);
+        break;
+      case 'message/rfc822':
+        result = await QuickParse.eml(buffer, fileName);
+        break;
+      default:
+        result = await QuickParse.markdown(buffer, fileName);
+    }
+
+    // One record per heading, paragraph, list, table or message, in document order
+    return result.blocks.map((block, index) => ({
+      blockNumber: index + 1,
+      type: block.content.type,
+      ...(block.content.type === 'heading' && { level: block.content.level }),
+      ...(block.metadata.email && { from: block.metadata.email.from, quoteDepth: block.metadata.email.quoteDepth }),
+      content: block.rawText || '',
+    }));
+  }
+
   private static async processPptx(filePath: string): Promise<any[]> {
     // For PPTX, we'll use a similar approach to Excel since they're both Office formats
     try {
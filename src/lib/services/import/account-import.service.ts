@@ -4,9 +4,30 @@ import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { getChunkingService } from '@/lib/services/chunking';
-import { QuickParse } from '@/lib/services/parsers';
 import { TParserResult } from '@/lib/services/parsers/file-parser.interface';
 
+import { ColumnMapping, resolveTargetField } from './column-mapping.service';
+import { getConversionDate, getExchangeRateService } from './exchange-rate.service';
+import { FieldLineageOrigin, getFieldLineageService } from './field-lineage.service';
+import { getImportCheckpointService } from './import-checkpoint.service';
+import {
+  createImportDelta,
+  getImportDeltaService,
+  hashImportRow,
+  ImportDelta,
+  isUnchangedRecord,
+} from './import-delta.service';
+import { createImportPlan, diffFields, ImportPlan, recordPlanEntry } from './import-plan';
+import { getImportRejectionService } from './import-rejection.service';
+import { getImportSnapshotService } from './import-snapshot.service';
+import { ImportSource, ImportSourceRow, readImportBatches } from './import-source';
+import {
+  evaluateValidationRules,
+  getImportValidationRuleService,
+  ImportValidationRule,
+} from './import-validation-rule.service';
+import { getTechnologyEnrichmentService, TechnologySyncResult } from './technology-enrichment.service';
+
 export interface AccountImportData {
   accountNumber?: string;
   name: string;
@@ -47,6 +68,16 @@ export interface AccountImportOptions {
   createChunks?: boolean;
   storeVectors?: boolean;
   validateDomains?: boolean;
+  deriveTechnologies?: boolean; // Sync Technology rows from the vendor columns after import (default true)
+  incremental?: boolean; // Leave accounts whose row content has not changed since the last import untouched
+  fullSnapshot?: boolean; // The file holds every account; flag imported accounts it no longer contains
+  sheetName?: string; // Worksheet to read when importing from an Excel workbook
+  recordPath?: string; // Dotted path to the records when importing JSON, e.g. "data.items"
+  columnMappings?: ColumnMapping[]; // Resolved mapping profile applied before field transformation
+  dryRun?: boolean; // Build an import plan instead of writing
+  maxPlanRecords?: number; // Cap on records listed per plan section
+  jobId?: string; // Processing job that records undo snapshots and resume checkpoints
+  sourceSize?: number; // Byte length of a streamed source, for progress
 }
 
 export interface AccountImportResult {
@@ -67,26 +98,79 @@ export interface AccountImportResult {
     warning: string;
   }>;
   accountIds: string[];
+  technologies?: TechnologySyncResult;
+  delta?: ImportDelta; // New, changed, unchanged and removed rows of incremental and full-snapshot imports
   processingTime: number;
+  plan?: ImportPlan;
 }
 
 export interface AccountImportProgress {
-  stage: 'parsing' | 'validation' | 'importing' | 'chunking' | 'vectorizing' | 'completed';
+  stage: 'parsing' | 'validation' | 'importing' | 'enriching' | 'chunking' | 'vectorizing' | 'completed';
   processed: number;
   total: number;
   currentAccount?: string;
+  bytesRead?: number; // Source bytes read so far, while streaming
+  totalBytes?: number; // Source size, when known
   errors: number;
   warnings: number;
 }
 
+// Source column names mapped onto account fields, besides the field names themselves
+export const ACCOUNT_COLUMN_ALIASES: Record<string, string> = {
+  'account_number': 'accountNumber',
+  'account_name': 'name',
+  'company_name': 'name',
+  'account_domain': 'domain',
+  'company_domain': 'domain',
+  'account_industry': 'industry',
+  'company_industry': 'industry',
+  'account_size': 'size',
+  'company_size': 'size',
+  'account_location': 'location',
+  'company_location': 'location',
+  'account_description': 'description',
+  'company_description': 'description',
+  'account_website': 'website',
+  'company_website': 'website',
+  'gem_status': 'gemStatus',
+  'gem_index': 'gemIndex',
+  'crm_owner': 'crmOwner',
+  'target_solutions': 'targetSolutions',
+  'battle_card_notes': 'battleCardNotes',
+  'competitor_research': 'competitorResearch',
+  'recommended_solution': 'recommendedSolution',
+  'cc_intent': 'ccIntent',
+  'cc_vendor': 'ccVendor',
+  'uc_intent': 'ucIntent',
+  'uc_vendor': 'ucVendor',
+  'dc_intent': 'dcIntent',
+  'dc_vendor': 'dcVendor',
+  'en_intent': 'enIntent',
+  'en_vendor': 'enVendor',
+  'sx_intent': 'sxIntent',
+  'sx_vendor': 'sxVendor',
+  'final_customer_segment': 'finalCustomerSegment',
+  'ce_customer_segment': 'ceCustomerSegment',
+  'program_category': 'programCategory',
+};
+
 export class AccountImportService {
   private readonly chunkingService = getChunkingService();
+  private readonly snapshotService = getImportSnapshotService();
+  private readonly checkpointService = getImportCheckpointService();
+  private readonly rejectionService = getImportRejectionService();
+  private readonly deltaService = getImportDeltaService();
+  private readonly validationRuleService = getImportValidationRuleService();
+  private readonly lineageService = getFieldLineageService();
+  private readonly technologyService = getTechnologyEnrichmentService();
+  private readonly exchangeRateService = getExchangeRateService();
 
   /**
-   * Import accounts from CSV buffer
+   * Import accounts from a CSV or Excel source. CSV rows are streamed, validated and
+   * written batch by batch, so memory stays bounded whatever the file size.
    */
   async importFromCsv(
-    buffer: Buffer,
+    source: ImportSource,
     fileName: string,
     options: AccountImportOptions = {},
     onProgress?: (progress: AccountImportProgress) => void
@@ -106,7 +190,7 @@ export class AccountImportService {
     };
 
     try {
-      // Stage 1: Parse CSV
+      // Stage 1: Open the source
       onProgress?.({
         stage: 'parsing',
         processed: 0,
@@ -115,105 +199,217 @@ export class AccountImportService {
         warnings: 0,
       });
 
-      const parserResult = await QuickParse.csv(buffer, fileName, {
-        hasHeaders: true,
-        inferTypes: true,
-        skipEmptyLines: true,
+      const plan = options.dryRun ? createImportPlan('accounts', options.maxPlanRecords) : undefined;
+      const planSeen = new Map<string, number>();
+      const delta = !plan && (options.incremental || options.fullSnapshot) ? createImportDelta() : undefined;
+      const seenIds: string[] = [];
+
+      // Resume after the last batch an interrupted attempt committed
+      const checkpoint = plan
+        ? null
+        : await this.checkpointService.beginStage<AccountImportResult['warnings'][number]>(options.jobId, 'accounts');
+      if (checkpoint) {
+        result.created = checkpoint.counters.created || 0;
+        result.updated = checkpoint.counters.updated || 0;
+        result.skipped = checkpoint.counters.skipped || 0;
+        result.failed = checkpoint.counters.failed || 0;
+        result.duplicates = checkpoint.counters.duplicates || 0;
+        result.accountIds.push(...await this.snapshotService.getRecordIds(options.jobId, 'accounts'));
+        for (const { row, data, error } of await this.rejectionService.getRejectedErrors(options.jobId, 'accounts')) {
+          result.errors.push({ row, account: data.name || `Row ${row}`, error });
+        }
+        result.warnings.push(...(checkpoint.warnings || []));
+        if (delta) delta.unchanged = checkpoint.counters.unchanged || 0;
+      }
+      // Only the first batch after a checkpoint can hold rows an interrupted attempt already wrote
+      let replay = !!checkpoint;
+
+      // Rules configured for accounts through the validation rules API
+      const rules = await this.validationRuleService.getActiveRules('accounts');
+
+      // Recorded against every field the import writes
+      const origin: FieldLineageOrigin = { source: 'import', sourceFile: fileName, jobId: options.jobId };
+
+      // Stages 2 and 3: Validate and import each batch as it is read
+      const batches = readImportBatches(source, fileName, {
+        batchSize: options.batchSize || 50,
+        sheetName: options.sheetName,
+        recordPath: options.recordPath,
+        columnMappings: options.columnMappings,
+        totalBytes: options.sourceSize,
       });
 
-      const rawData = parserResult.blocks.map(block => block.content.data);
-      result.total = rawData.length;
+      for await (const batch of batches) {
+        result.total += batch.rows.length;
+        const pending = checkpoint
+          ? batch.rows.filter(({ rowNumber }) => rowNumber > checkpoint.lastCommittedRow)
+          : batch.rows;
+        if (checkpoint && options.fullSnapshot && pending.length < batch.rows.length) {
+          // Rows an interrupted attempt committed still count as present in the snapshot
+          const committed = batch.rows.filter(({ rowNumber }) => rowNumber <= checkpoint.lastCommittedRow);
+          seenIds.push(...await this.deltaService.resolveSeenIds(committed, row => this.findExistingAccountId(row)));
+        }
+        if (pending.length === 0) continue;
+
+        const errorsBefore = result.errors.length;
+        const validAccounts: AccountImportData[] = [];
+        const validRowNumbers: number[] = [];
+        for (const { row, rowNumber } of pending) {
+          try {
+            const accountData = this.transformCsvRow(row, rowNumber);
+            const validation = this.validateAccountData(accountData, rowNumber, rules);
+
+            if (validation.errors.length > 0) {
+              result.errors.push(...validation.errors);
+              result.failed++;
+            } else {
+              validAccounts.push(accountData);
+              validRowNumbers.push(rowNumber);
+              if (validation.warnings.length > 0) {
+                result.warnings.push(...validation.warnings);
+              }
+            }
+          } catch (error) {
+            result.errors.push({
+              row: rowNumber,
+              account: String(row.name || `Row ${rowNumber}`),
+              error: error instanceof Error ? error.message : 'Unknown validation error',
+            });
+            result.failed++;
+          }
+        }
 
-      logger.info(`AccountImportService: Parsed ${result.total} accounts from CSV`, {
-        fileName,
-        total: result.total,
-      });
+        if (plan) {
+          // Dry run: add the batch to the plan instead of writing it
+          await this.planAccountImport(validAccounts, validRowNumbers, options, plan, planSeen);
+        } else {
+          const batchResult = await this.importAccountBatch(validAccounts, validRowNumbers, options, origin, replay);
+          replay = false;
+
+          result.created += batchResult.created;
+          result.updated += batchResult.updated;
+          result.skipped += batchResult.skipped;
+          result.duplicates += batchResult.duplicates;
+          result.accountIds.push(...batchResult.accountIds);
+          result.errors.push(...batchResult.errors);
+          if (delta) delta.unchanged += batchResult.unchanged;
+          if (options.fullSnapshot) {
+            // Rejected rows are still in the file: the records they match are not missing
+            const unresolved = new Set(result.errors.slice(errorsBefore).map(({ row }) => row));
+            seenIds.push(...batchResult.seenIds, ...await this.deltaService.resolveSeenIds(
+              pending.filter(({ rowNumber }) => unresolved.has(rowNumber)),
+              row => this.findExistingAccountId(row)
+            ));
+          }
 
-      // Stage 2: Validate and transform data
-      onProgress?.({
-        stage: 'validation',
-        processed: 0,
+          await this.rejectionService.recordRejectedRows(
+            options.jobId,
+            'accounts',
+            pending,
+            result.errors.slice(errorsBefore)
+          );
+          await this.checkpointService.saveCheckpoint(options.jobId, 'accounts', {
+            lastCommittedRow: pending[pending.length - 1].rowNumber,
+            counters: {
+              created: result.created,
+              updated: result.updated,
+              skipped: result.skipped,
+              failed: result.failed,
+              duplicates: result.duplicates,
+              unchanged: delta?.unchanged || 0,
+            },
+            warnings: result.warnings,
+          }, batch.totalBytes ? (batch.bytesRead / batch.totalBytes) * 100 : 0);
+        }
+
+        onProgress?.({
+          stage: plan ? 'validation' : 'importing',
+          processed: result.total,
+          total: result.total,
+          currentAccount: validAccounts[validAccounts.length - 1]?.name,
+          bytesRead: batch.bytesRead,
+          totalBytes: batch.totalBytes,
+          errors: result.errors.length,
+          warnings: result.warnings.length,
+        });
+      }
+
+      // Rows replayed after a checkpoint report accounts the snapshots already listed
+      if (checkpoint) result.accountIds = [...new Set(result.accountIds)];
+
+      logger.info(`AccountImportService: Read ${result.total} accounts`, {
+        fileName,
         total: result.total,
-        errors: 0,
-        warnings: 0,
       });
 
-      const validAccounts: AccountImportData[] = [];
-      for (let i = 0; i < rawData.length; i++) {
-        const row = rawData[i];
-        const rowNumber = i + 1;
-
-        try {
-          const accountData = this.transformCsvRow(row, rowNumber);
-          const validation = this.validateAccountData(accountData, rowNumber);
-          
-          if (validation.errors.length > 0) {
-            result.errors.push(...validation.errors);
-            result.failed++;
-          } else {
-            validAccounts.push(accountData);
-            if (validation.warnings.length > 0) {
-              result.warnings.push(...validation.warnings);
-            }
-          }
-        } catch (error) {
-          result.errors.push({
-            row: rowNumber,
-            account: row.name || `Row ${rowNumber}`,
-            error: error instanceof Error ? error.message : 'Unknown validation error',
-          });
-          result.failed++;
-        }
+      // Dry run: report what would be written and stop
+      if (plan) {
+        result.plan = plan;
+        result.plan.summary.total = result.total;
+        result.plan.summary.invalid = result.failed;
+        result.processingTime = Date.now() - startTime;
 
         onProgress?.({
-          stage: 'validation',
-          processed: i + 1,
+          stage: 'completed',
+          processed: result.total,
           total: result.total,
-          currentAccount: row.name,
           errors: result.errors.length,
           warnings: result.warnings.length,
         });
+
+        return result;
       }
 
-      // Stage 3: Import accounts
-      onProgress?.({
-        stage: 'importing',
-        processed: 0,
-        total: validAccounts.length,
-        errors: result.errors.length,
-        warnings: result.warnings.length,
-      });
+      if (delta) {
+        delta.new = result.created;
+        delta.changed = result.updated;
+        if (options.fullSnapshot) {
+          await this.deltaService.flagMissingRecords(
+            options.jobId,
+            'accounts',
+            [...result.accountIds, ...seenIds],
+            delta
+          );
+        }
+        result.delta = delta;
+      }
 
-      const batchSize = options.batchSize || 50;
-      for (let i = 0; i < validAccounts.length; i += batchSize) {
-        const batch = validAccounts.slice(i, i + batchSize);
-        const batchResult = await this.importAccountBatch(batch, options);
-        
-        result.created += batchResult.created;
-        result.updated += batchResult.updated;
-        result.skipped += batchResult.skipped;
-        result.duplicates += batchResult.duplicates;
-        result.accountIds.push(...batchResult.accountIds);
-        result.errors.push(...batchResult.errors);
+      await this.checkpointService.completeStage(options.jobId, 'accounts');
 
+      // Stage 4: Derive technologies from the vendor columns, before chunking picks them up
+      if (options.deriveTechnologies !== false && result.accountIds.length > 0) {
         onProgress?.({
-          stage: 'importing',
-          processed: Math.min(i + batchSize, validAccounts.length),
-          total: validAccounts.length,
+          stage: 'enriching',
+          processed: result.total,
+          total: result.total,
           errors: result.errors.length,
           warnings: result.warnings.length,
         });
+
+        try {
+          result.technologies = await this.technologyService.syncAccountTechnologies(result.accountIds);
+        } catch (error) {
+          logger.error('AccountImportService: Failed to derive account technologies', {
+            fileName,
+            error: error instanceof Error ? error : String(error),
+          });
+          result.warnings.push({
+            row: 0,
+            account: fileName,
+            warning: `Technologies were not derived: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          });
+        }
       }
 
-      // Stage 4: Generate chunks and vectors if requested
+      // Stage 5: Generate chunks and vectors if requested
       if ((options.createChunks || options.storeVectors) && result.accountIds.length > 0) {
         await this.processAccountVectorization(result.accountIds, options, onProgress);
       }
 
       onProgress?.({
         stage: 'completed',
-        processed: validAccounts.length,
-        total: validAccounts.length,
+        processed: result.total,
+        total: result.total,
         errors: result.errors.length,
         warnings: result.warnings.length,
       });
@@ -239,49 +435,18 @@ export class AccountImportService {
     }
   }
 
+  /**
+   * Transform and validate one source row without importing it
+   */
+  validateRow(row: Record<string, unknown>, rowNumber: number, rules: ImportValidationRule[] = []) {
+    const data = this.transformCsvRow(row, rowNumber);
+    return { data, ...this.validateAccountData(data, rowNumber, rules) };
+  }
+
   /**
    * Transform CSV row to AccountImportData
    */
   private transformCsvRow(row: any, rowNumber: number): AccountImportData {
-    // Map common CSV column names to our schema
-    const columnMapping: Record<string, string> = {
-      'account_number': 'accountNumber',
-      'account_name': 'name',
-      'company_name': 'name',
-      'account_domain': 'domain',
-      'company_domain': 'domain',
-      'account_industry': 'industry',
-      'company_industry': 'industry',
-      'account_size': 'size',
-      'company_size': 'size',
-      'account_location': 'location',
-      'company_location': 'location',
-      'account_description': 'description',
-      'company_description': 'description',
-      'account_website': 'website',
-      'company_website': 'website',
-      'gem_status': 'gemStatus',
-      'gem_index': 'gemIndex',
-      'crm_owner': 'crmOwner',
-      'target_solutions': 'targetSolutions',
-      'battle_card_notes': 'battleCardNotes',
-      'competitor_research': 'competitorResearch',
-      'recommended_solution': 'recommendedSolution',
-      'cc_intent': 'ccIntent',
-      'cc_vendor': 'ccVendor',
-      'uc_intent': 'ucIntent',
-      'uc_vendor': 'ucVendor',
-      'dc_intent': 'dcIntent',
-      'dc_vendor': 'dcVendor',
-      'en_intent': 'enIntent',
-      'en_vendor': 'enVendor',
-      'sx_intent': 'sxIntent',
-      'sx_vendor': 'sxVendor',
-      'final_customer_segment': 'finalCustomerSegment',
-      'ce_customer_segment': 'ceCustomerSegment',
-      'program_category': 'programCategory',
-    };
-
     const accountData: AccountImportData = {
       name: '', // Required field
     };
@@ -291,11 +456,11 @@ export class AccountImportService {
       if (value === null || value === undefined || value === '') continue;
 
       const normalizedKey = csvKey.toLowerCase().trim();
-      const mappedKey = columnMapping[normalizedKey] || normalizedKey;
+      const mappedKey = ACCOUNT_COLUMN_ALIASES[normalizedKey] || resolveTargetField('accounts', csvKey) || normalizedKey;
 
       if (mappedKey === 'name' || mappedKey === 'accountName' || mappedKey === 'companyName') {
         accountData.name = String(value).trim();
-      } else if (Object.prototype.hasOwnProperty.call(accountData, mappedKey)) {
+      } else if (resolveTargetField('accounts', mappedKey) === mappedKey) {
         (accountData as any)[mappedKey] = String(value).trim();
       }
     }
@@ -309,7 +474,7 @@ export class AccountImportService {
     const additionalFields: Record<string, any> = {};
     for (const [key, value] of Object.entries(row)) {
       const normalizedKey = key.toLowerCase().trim();
-      if (!columnMapping[normalizedKey] && !normalizedKey.includes('name')) {
+      if (!ACCOUNT_COLUMN_ALIASES[normalizedKey] && !resolveTargetField('accounts', key) && !normalizedKey.includes('name')) {
         additionalFields[key] = value;
       }
     }
@@ -326,7 +491,8 @@ export class AccountImportService {
    */
   private validateAccountData(
     data: AccountImportData,
-    rowNumber: number
+    rowNumber: number,
+    rules: ImportValidationRule[] = []
   ): {
     errors: Array<{ row: number; account: string; error: string }>;
     warnings: Array<{ row: number; account: string; warning: string }>;
@@ -370,6 +536,14 @@ export class AccountImportService {
       });
     }
 
+    for (const violation of evaluateValidationRules(rules, data)) {
+      if (violation.severity === 'error') {
+        errors.push({ row: rowNumber, account: accountName, error: violation.message });
+      } else {
+        warnings.push({ row: rowNumber, account: accountName, warning: violation.message });
+      }
+    }
+
     return { errors, warnings };
   }
 
@@ -378,41 +552,72 @@ export class AccountImportService {
    */
   private async importAccountBatch(
     accounts: AccountImportData[],
-    options: AccountImportOptions
-  ): Promise<Omit<AccountImportResult, 'total' | 'processingTime'>> {
+    rowNumbers: number[],
+    options: AccountImportOptions,
+    origin: FieldLineageOrigin,
+    replay = false
+  ): Promise<Omit<AccountImportResult, 'total' | 'processingTime'> & { unchanged: number; seenIds: string[] }> {
     const result = {
       created: 0,
       updated: 0,
       skipped: 0,
       failed: 0,
       duplicates: 0,
+      unchanged: 0,
       errors: [] as Array<{ row: number; account: string; error: string }>,
       accountIds: [] as string[],
+      seenIds: [] as string[], // Matched accounts this batch did not write
     };
 
-    for (const accountData of accounts) {
+    for (let i = 0; i < accounts.length; i++) {
+      const accountData = accounts[i];
+      const row = rowNumbers[i];
+      const importHash = hashImportRow(accountData);
       try {
         // Check for existing account
         const existingAccount = await this.findExistingAccount(accountData);
-        
-        if (existingAccount) {
-          if (options.updateExisting) {
+
+        // A replayed row this job already wrote is counted as before, not written again
+        const recorded = existingAccount && replay
+          ? await this.snapshotService.getRecordedAction(options.jobId, 'accounts', existingAccount.id)
+          : null;
+
+        if (existingAccount && recorded) {
+          result[recorded]++;
+          result.accountIds.push(existingAccount.id);
+        } else if (existingAccount) {
+          if (options.updateExisting && options.incremental && isUnchangedRecord(existingAccount, importHash)) {
+            // Same content as the row that last wrote it: no write, no re-chunking
+            result.unchanged++;
+            result.seenIds.push(existingAccount.id);
+          } else if (options.updateExisting) {
             // Update existing account
+            await this.snapshotService.recordUpdated(
+              options.jobId,
+              'accounts',
+              existingAccount,
+              [...Object.keys(accountData), 'importHash', 'missingFromImportAt', 'updatedAt']
+            );
             const updated = await prisma.companyAccount.update({
               where: { id: existingAccount.id },
               data: {
                 ...accountData,
+                importHash,
+                missingFromImportAt: null,
                 updatedAt: new Date(),
               },
             });
+            await this.lineageService.recordFields('accounts', updated.id, accountData, { ...origin, rowNumber: row });
             result.updated++;
             result.accountIds.push(updated.id);
           } else if (options.skipDuplicates) {
             result.skipped++;
             result.duplicates++;
+            result.seenIds.push(existingAccount.id);
           } else {
+            result.seenIds.push(existingAccount.id);
             result.errors.push({
-              row: 0, // We don't have row context in batch processing
+              row,
               account: accountData.name,
               error: 'Account already exists',
             });
@@ -424,16 +629,24 @@ export class AccountImportService {
             data: {
               ...accountData,
               accountNumber: accountData.accountNumber || this.generateAccountNumber(),
+              importHash,
               createdAt: new Date(),
               updatedAt: new Date(),
             },
           });
+          await this.snapshotService.recordCreated(options.jobId, 'accounts', created.id);
+          await this.lineageService.recordFields(
+            'accounts',
+            created.id,
+            { ...accountData, accountNumber: created.accountNumber },
+            { ...origin, rowNumber: row }
+          );
           result.created++;
           result.accountIds.push(created.id);
         }
       } catch (error) {
         result.errors.push({
-          row: 0,
+          row,
           account: accountData.name,
           error: error instanceof Error ? error.message : 'Unknown database error',
         });
@@ -444,22 +657,100 @@ export class AccountImportService {
     return result;
   }
 
+  /**
+   * Add a batch to a dry-run plan; `seen` carries in-file duplicate detection across batches
+   */
+  private async planAccountImport(
+    accounts: AccountImportData[],
+    rowNumbers: number[],
+    options: AccountImportOptions,
+    plan: ImportPlan,
+    seen: Map<string, number>
+  ): Promise<void> {
+    for (let i = 0; i < accounts.length; i++) {
+      const accountData = accounts[i];
+      const row = rowNumbers[i];
+      const keys = [
+        accountData.domain && `domain:${accountData.domain}`,
+        accountData.accountNumber && `accountNumber:${accountData.accountNumber}`,
+        `name:${accountData.name.toLowerCase()}`,
+      ].filter((key): key is string => !!key);
+
+      const duplicateKey = keys.find(key => seen.has(key));
+      keys.forEach(key => {
+        if (!seen.has(key)) seen.set(key, row);
+      });
+
+      if (duplicateKey) {
+        recordPlanEntry(plan, {
+          row,
+          key: accountData.name,
+          action: 'conflict',
+          matchedBy: duplicateKey.split(':')[0],
+          reason: `Duplicate of row ${seen.get(duplicateKey)} in this file`,
+        });
+        continue;
+      }
+
+      const match = await this.matchExistingAccount(accountData);
+
+      if (!match) {
+        recordPlanEntry(plan, { row, key: accountData.name, action: 'create', data: { ...accountData } });
+      } else if (options.updateExisting) {
+        const changes = diffFields(match.account, accountData);
+        recordPlanEntry(plan, {
+          row,
+          key: accountData.name,
+          action: changes.length > 0 ? 'update' : 'unchanged',
+          existingId: match.account.id,
+          matchedBy: match.matchedBy,
+          changes,
+        });
+      } else {
+        recordPlanEntry(plan, {
+          row,
+          key: accountData.name,
+          action: options.skipDuplicates ? 'skip' : 'conflict',
+          existingId: match.account.id,
+          matchedBy: match.matchedBy,
+          reason: 'Account already exists',
+        });
+      }
+    }
+
+  }
+
   /**
    * Find existing account by domain or name
    */
   private async findExistingAccount(data: AccountImportData) {
+    const match = await this.matchExistingAccount(data);
+    return match?.account ?? null;
+  }
+
+  /**
+   * Id of the existing account a source row matches
+   */
+  private async findExistingAccountId({ row, rowNumber }: ImportSourceRow): Promise<string | undefined> {
+    return (await this.findExistingAccount(this.transformCsvRow(row, rowNumber)))?.id;
+  }
+
+  /**
+   * Find existing account and report which field matched
+   */
+  private async matchExistingAccount(data: AccountImportData) {
     if (data.domain) {
       const existing = await prisma.companyAccount.findUnique({
         where: { domain: data.domain },
       });
-      if (existing) return existing;
+      if (existing) return { account: existing, matchedBy: 'domain' };
     }
 
     if (data.accountNumber) {
       const existing = await prisma.companyAccount.findUnique({
         where: { accountNumber: data.accountNumber },
       });
-      if (existing) return existing;
+      if (existing) return { account: existing, matchedBy: 'accountNumber' };
     }
 
     // Check for similar names
@@ -472,7 +763,14 @@ export class AccountImportService {
       },
     });
 
-    return existing;
+    return existing ? { account: existing, matchedBy: 'name' } : null;
+  }
+
+  /**
+   * Chunk and vectorize accounts again, e.g. once an undo has restored their previous values
+   */
+  async vectorizeAccounts(accountIds: string[], onProgress?: (progress: AccountImportProgress) => void) {
+    await this.processAccountVectorization(accountIds, { storeVectors: true }, onProgress);
   }
 
   /**
@@ -491,6 +789,9 @@ export class AccountImportService {
       warnings: 0,
     });
 
+    // Opportunity values are also given in the reporting currency
+    const converter = await this.exchangeRateService.getConverter();
+
     for (let i = 0; i < accountIds.length; i++) {
       const accountId = accountIds[i];
       
@@ -518,7 +819,17 @@ export class AccountImportService {
           website: account.website,
           contacts: account.contacts,
           technologies: account.technologies,
-          opportunities: account.opportunities,
+          opportunities: account.opportunities.map(opportunity => {
+            const value = opportunity.bookedGrossRevenue || opportunity.pipelineGrossRevenue;
+            return {
+              name: opportunity.opportunityNumber,
+              value,
+              currency: opportunity.currency,
+              reportingValue: converter.convert(value, opportunity.currency, getConversionDate(opportunity)) ?? undefined,
+              reportingCurrency: converter.reportingCurrency,
+              stage: opportunity.oppStage ?? undefined,
+            };
+          }),
         };
 
         // Process chunking and vectorization
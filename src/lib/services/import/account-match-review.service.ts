@@ -0,0 +1,210 @@
+import { AccountMatchReviewStatus, Prisma } from '@prisma/client';
+
+import { logger } from '@/lib/logger';
+import { ConflictError, NotFoundError } from '@/lib/middleware/error-handler';
+import { prisma } from '@/lib/prisma';
+
+import { AccountMatch } from './account-matching.service';
+
+import type { OpportunityImportData, OpportunityImportOptions } from './opportunity-import.service';
+
+// Import options that still apply when held rows are written
+export type AccountMatchReviewImportOptions = Pick<
+  OpportunityImportOptions,
+  'updateExisting' | 'skipDuplicates' | 'linkProducts'
+>;
+
+export interface AccountMatchReviewQuery {
+  status?: AccountMatchReviewStatus;
+  jobId?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface ClaimedAccountMatchReview {
+  id: string;
+  jobId: string | null;
+  customerName: string;
+  customerDomain: string | null;
+  candidateAccountId: string;
+  opportunities: OpportunityImportData[];
+  importOptions: AccountMatchReviewImportOptions;
+}
+
+const DATE_FIELDS = ['bookedDate', 'estimatedCloseDate'] as const;
+
+export class AccountMatchReviewService {
+  /**
+   * Hold an opportunity row until a user decides whether its customer is the matched account.
+   * Rows of one import with the same customer and candidate share a review.
+   */
+  async queueOpportunity(
+    match: AccountMatch,
+    customer: { name: string; domain?: string },
+    opportunity: OpportunityImportData,
+    jobId: string | undefined,
+    importOptions: AccountMatchReviewImportOptions
+  ) {
+    if (!match.account) {
+      throw new Error('A review needs a candidate account');
+    }
+
+    const existing = await prisma.accountMatchReview.findFirst({
+      where: {
+        jobId: jobId ?? null,
+        normalizedName: match.normalizedName,
+        candidateAccountId: match.account.id,
+        status: AccountMatchReviewStatus.PENDING,
+      },
+    });
+
+    if (existing) {
+      // A retried import holds the same rows again; keep one copy of each
+      const held = existing.opportunities as unknown as OpportunityImportData[];
+      if (held.some(row => row.opportunityNumber === opportunity.opportunityNumber)) {
+        return existing;
+      }
+
+      return prisma.accountMatchReview.update({
+        where: { id: existing.id },
+        data: { opportunities: this.toJson([...held, opportunity]) },
+      });
+    }
+
+    return prisma.accountMatchReview.create({
+      data: {
+        jobId,
+        customerName: customer.name,
+        normalizedName: match.normalizedName,
+        customerDomain: customer.domain,
+        candidateAccountId: match.account.id,
+        score: match.score,
+        matchedBy: match.matchedBy || 'similarity',
+        opportunities: this.toJson([opportunity]),
+        importOptions: this.toJson(importOptions),
+      },
+    });
+  }
+
+  /**
+   * List reviews with the account each customer was matched to
+   */
+  async listReviews(userId: string, query: AccountMatchReviewQuery) {
+    // Held rows belong to the user who ran the import
+    const where: Prisma.AccountMatchReviewWhereInput = {
+      status: query.status,
+      jobId: query.jobId,
+      job: { userId },
+    };
+
+    const [reviews, total] = await Promise.all([
+      prisma.accountMatchReview.findMany({
+        where,
+        orderBy: [{ score: 'desc' }, { createdAt: 'asc' }],
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize,
+      }),
+      prisma.accountMatchReview.count({ where }),
+    ]);
+
+    const accounts = await prisma.companyAccount.findMany({
+      where: { id: { in: [...new Set(reviews.map(review => review.candidateAccountId))] } },
+      select: { id: true, name: true, domain: true, accountNumber: true },
+    });
+    const accountsById = new Map(accounts.map(account => [account.id, account]));
+
+    return {
+      reviews: reviews.map(review => ({
+        ...review,
+        opportunityCount: (review.opportunities as unknown[]).length,
+        candidateAccount: accountsById.get(review.candidateAccountId) || null,
+      })),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  /**
+   * Take a pending review of the user's own import for resolution; only one caller can claim it
+   */
+  async claimReview(
+    reviewId: string,
+    userId: string,
+    status: 'CONFIRMED' | 'REJECTED'
+  ): Promise<ClaimedAccountMatchReview> {
+    const claimed = await prisma.accountMatchReview.updateMany({
+      where: { id: reviewId, status: AccountMatchReviewStatus.PENDING, job: { userId } },
+      data: {
+        status: AccountMatchReviewStatus[status],
+        reviewedBy: userId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    const review = await prisma.accountMatchReview.findFirst({ where: { id: reviewId, job: { userId } } });
+    if (!review) {
+      throw new NotFoundError('Account match review');
+    }
+    if (claimed.count === 0) {
+      throw new ConflictError('Account match review has already been resolved');
+    }
+
+    return {
+      id: review.id,
+      jobId: review.jobId,
+      customerName: review.customerName,
+      customerDomain: review.customerDomain,
+      candidateAccountId: review.candidateAccountId,
+      opportunities: (review.opportunities as unknown as OpportunityImportData[]).map(row => this.reviveDates(row)),
+      importOptions: (review.importOptions as AccountMatchReviewImportOptions | null) || {},
+    };
+  }
+
+  /**
+   * Record the account the held rows were written against
+   */
+  async completeReview(reviewId: string, resolvedAccountId: string) {
+    await prisma.accountMatchReview.update({
+      where: { id: reviewId },
+      data: { resolvedAccountId },
+    });
+  }
+
+  /**
+   * Return a claimed review to the queue after its rows failed to be written
+   */
+  async releaseReview(reviewId: string) {
+    await prisma.accountMatchReview.update({
+      where: { id: reviewId },
+      data: { status: AccountMatchReviewStatus.PENDING, reviewedBy: null, reviewedAt: null },
+    });
+
+    logger.warn('AccountMatchReviewService: Review returned to the queue', { reviewId });
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+  }
+
+  // Dates are stored as strings once held rows go through Json
+  private reviveDates(row: OpportunityImportData): OpportunityImportData {
+    const revived = { ...row };
+    for (const field of DATE_FIELDS) {
+      if (revived[field]) {
+        revived[field] = new Date(revived[field] as Date);
+      }
+    }
+    return revived;
+  }
+}
+
+// Singleton instance
+let accountMatchReviewService: AccountMatchReviewService | null = null;
+
+export function getAccountMatchReviewService(): AccountMatchReviewService {
+  if (!accountMatchReviewService) {
+    accountMatchReviewService = new AccountMatchReviewService();
+  }
+  return accountMatchReviewService;
+}
@@ -0,0 +1,240 @@
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+
+export interface AccountMatchThresholds {
+  autoLink: number; // Scores at or above this link to the account without review
+  review: number; // Scores at or above this, but below autoLink, are queued for review
+}
+
+export type AccountMatchConfidence = 'high' | 'review' | 'none';
+
+export interface AccountMatchCandidate {
+  id: string;
+  name: string;
+  domain?: string | null;
+  website?: string | null;
+  accountNumber?: string | null;
+}
+
+export interface AccountMatch {
+  confidence: AccountMatchConfidence;
+  score: number;
+  matchedBy?: 'domain' | 'name' | 'similarity';
+  account?: AccountMatchCandidate;
+  normalizedName: string;
+}
+
+export const DEFAULT_ACCOUNT_MATCH_THRESHOLDS: AccountMatchThresholds = {
+  autoLink: 0.9,
+  review: 0.6,
+};
+
+// Trailing words that only describe the legal form of a company
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'llc', 'llp', 'lp', 'ltd', 'limited',
+  'plc', 'gmbh', 'ag', 'sa', 'sas', 'srl', 'spa', 'nv', 'bv', 'pty', 'pte', 'oy', 'ab', 'kk',
+]);
+
+const MAX_CANDIDATES = 50;
+
+/**
+ * Normalize a company name for matching: lower case, no punctuation and no legal suffixes,
+ * so "ACME Corporation, Inc." and "Acme Corp" both become "acme"
+ */
+export function normalizeCompanyName(name: string): string {
+  const tokens = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  if (tokens[0] === 'the' && tokens.length > 1) {
+    tokens.shift();
+  }
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+
+  return tokens.join(' ');
+}
+
+/**
+ * Reduce a domain or website URL to its host, without "www."
+ */
+export function normalizeDomain(value: string): string {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#:]/)[0];
+}
+
+/**
+ * Similarity of two normalized names, 0-1: the better of the shared-token and
+ * shared-character-pair (bigram) Dice coefficients
+ */
+export function scoreNameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  return Math.max(dice(a.split(' '), b.split(' ')), dice(bigrams(a), bigrams(b)));
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/ /g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.push(compact.slice(i, i + 2));
+  }
+  return pairs;
+}
+
+function dice(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  a.forEach(item => counts.set(item, (counts.get(item) || 0) + 1));
+
+  let shared = 0;
+  for (const item of b) {
+    const count = counts.get(item) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(item, count - 1);
+    }
+  }
+
+  return (2 * shared) / (a.length + b.length);
+}
+
+export class AccountMatchingService {
+  /**
+   * Find the account a customer most probably is, by domain first and then by name
+   */
+  async matchAccount(
+    customer: { name: string; domain?: string },
+    thresholds: Partial<AccountMatchThresholds> = {}
+  ): Promise<AccountMatch> {
+    const limits = { ...DEFAULT_ACCOUNT_MATCH_THRESHOLDS, ...thresholds };
+    const normalizedName = normalizeCompanyName(customer.name);
+    const domain = customer.domain ? normalizeDomain(customer.domain) : undefined;
+
+    const candidates = await this.findCandidates(customer.name, normalizedName, domain);
+    return this.rankCandidates(candidates, normalizedName, domain, limits);
+  }
+
+  /**
+   * Score candidates against a normalized name and domain and return the best match
+   */
+  rankCandidates(
+    candidates: AccountMatchCandidate[],
+    normalizedName: string,
+    domain: string | undefined,
+    thresholds: AccountMatchThresholds
+  ): AccountMatch {
+    let best: AccountMatch = { confidence: 'none', score: 0, normalizedName };
+
+    for (const candidate of candidates) {
+      const candidateDomains = [candidate.domain, candidate.website]
+        .filter((value): value is string => !!value)
+        .map(normalizeDomain);
+
+      let score: number;
+      let matchedBy: AccountMatch['matchedBy'];
+      if (domain && candidateDomains.includes(domain)) {
+        score = 1;
+        matchedBy = 'domain';
+      } else {
+        const candidateName = normalizeCompanyName(candidate.name);
+        score = scoreNameSimilarity(normalizedName, candidateName);
+        matchedBy = score === 1 ? 'name' : 'similarity';
+      }
+
+      // A domain match outranks an identical name
+      const better = score > best.score || (score === best.score && matchedBy === 'domain' && best.matchedBy !== 'domain');
+      if (better) {
+        best = { confidence: 'none', score, matchedBy, account: candidate, normalizedName };
+      }
+    }
+
+    if (best.score >= thresholds.autoLink) {
+      best.confidence = 'high';
+    } else if (best.score >= thresholds.review) {
+      best.confidence = 'review';
+    } else {
+      return { confidence: 'none', score: best.score, normalizedName };
+    }
+
+    best.score = Math.round(best.score * 1000) / 1000;
+    return best;
+  }
+
+  /**
+   * Load accounts with the same domain or name first; only when there are none, widen to accounts
+   * sharing a name token or the start of the name, in a stable order
+   */
+  private async findCandidates(
+    name: string,
+    normalizedName: string,
+    domain?: string
+  ): Promise<AccountMatchCandidate[]> {
+    const select = { id: true, name: true, domain: true, website: true, accountNumber: true };
+
+    const exactConditions: Prisma.CompanyAccountWhereInput[] = [
+      { name: { equals: name.trim(), mode: 'insensitive' } },
+    ];
+    if (normalizedName) {
+      exactConditions.push({ name: { equals: normalizedName, mode: 'insensitive' } });
+    }
+    if (domain) {
+      exactConditions.push({ domain: { equals: domain, mode: 'insensitive' } });
+      exactConditions.push({ website: { contains: domain, mode: 'insensitive' } });
+    }
+
+    // Exact matches score 1, so no token match can outrank them
+    const exact = await prisma.companyAccount.findMany({
+      where: { OR: exactConditions },
+      select,
+      orderBy: { id: 'asc' },
+      take: MAX_CANDIDATES,
+    });
+    if (exact.length > 0) return exact;
+
+    const tokens = normalizedName
+      .split(' ')
+      .filter(token => token.length >= 3)
+      .sort((a, b) => b.length - a.length)
+      .slice(0, 3);
+
+    const conditions: Prisma.CompanyAccountWhereInput[] = tokens.map(token => ({
+      name: { contains: token, mode: 'insensitive' },
+    }));
+    if (normalizedName) {
+      // Catches typos later in the name, and names too short to have tokens
+      conditions.push({ name: { startsWith: normalizedName.slice(0, 4), mode: 'insensitive' } });
+    }
+    if (conditions.length === 0) return [];
+
+    return prisma.companyAccount.findMany({
+      where: { OR: conditions },
+      select,
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      take: MAX_CANDIDATES,
+    });
+  }
+}
+
+// Singleton instance
+let accountMatchingService: AccountMatchingService | null = null;
+
+export function getAccountMatchingService(): AccountMatchingService {
+  if (!accountMatchingService) {
+    accountMatchingService = new AccountMatchingService();
+  }
+  return accountMatchingService;
+}
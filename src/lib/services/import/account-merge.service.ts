@@ -0,0 +1,574 @@
+import { AccountMatchReviewStatus, CompanyAccount, Prisma } from '@prisma/client';
+
+import { logger } from '@/lib/logger';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/middleware/error-handler';
+import { prisma } from '@/lib/prisma';
+import { getVectorStore } from '@/lib/services/vector';
+
+import {
+  AccountMatch,
+  DEFAULT_ACCOUNT_MATCH_THRESHOLDS,
+  normalizeCompanyName,
+  normalizeDomain,
+  scoreNameSimilarity,
+} from './account-matching.service';
+import { getFieldLineageService } from './field-lineage.service';
+
+export type AccountMergeChoice = 'survivor' | 'merged';
+
+// Account fields a merge reconciles; the others stay as the survivor has them
+export const MERGEABLE_ACCOUNT_FIELDS = [
+  'name', 'accountNumber', 'domain', 'industry', 'size', 'location', 'description', 'website',
+  'gemStatus', 'gemIndex', 'crmOwner', 'targetSolutions', 'battleCardNotes', 'competitorResearch',
+  'recommendedSolution', 'ccIntent', 'ccVendor', 'ucIntent', 'ucVendor', 'dcIntent', 'dcVendor',
+  'enIntent', 'enVendor', 'sxIntent', 'sxVendor', 'finalCustomerSegment', 'ceCustomerSegment',
+  'programCategory',
+] as const;
+
+export type MergeableAccountField = (typeof MERGEABLE_ACCOUNT_FIELDS)[number];
+
+export type AccountMergeFieldChoices = Partial<Record<MergeableAccountField, AccountMergeChoice>>;
+
+// Records a merge moves from the duplicate to the survivor, and undo moves back
+export interface AccountMergeMovedRecords {
+  opportunities: string[];
+  contacts: string[];
+  technologies: string[];
+  insights: string[];
+  vectorChunks: string[];
+  documents: string[];
+  accountMatchReviews: string[]; // Pending reviews that suggested the duplicate
+}
+
+export interface AccountMergeConflict {
+  field: MergeableAccountField;
+  survivorValue: string;
+  mergedValue: string;
+}
+
+export interface AccountSummary {
+  id: string;
+  name: string;
+  accountNumber: string | null;
+  domain: string | null;
+  website: string | null;
+}
+
+export interface AccountMergePreview {
+  survivor: AccountSummary;
+  merged: AccountSummary;
+  conflicts: AccountMergeConflict[]; // Both accounts have a different value; the survivor's is kept unless chosen otherwise
+  filledFromMerged: MergeableAccountField[]; // Only the duplicate has a value; the survivor takes it
+  moving: Record<keyof AccountMergeMovedRecords, number>;
+}
+
+export interface AccountMergeRecord {
+  id: string;
+  survivorId: string;
+  mergedAccountId: string;
+  mergedAccountName: string;
+  fieldChoices: AccountMergeFieldChoices;
+  moved: Record<keyof AccountMergeMovedRecords, number>;
+  userId: string | null;
+  createdAt: Date;
+  undoneAt: Date | null;
+}
+
+export interface AccountMergeResult {
+  merge: AccountMergeRecord;
+  vectorPointsUpdated: number;
+  errors: string[];
+}
+
+export interface DuplicateAccount extends AccountSummary {
+  opportunityCount: number;
+  contactCount: number;
+  createdAt: Date;
+}
+
+export interface DuplicateAccountPair {
+  score: number;
+  matchedBy: NonNullable<AccountMatch['matchedBy']>;
+  accounts: [DuplicateAccount, DuplicateAccount];
+  suggestedSurvivorId: string; // The account with more opportunities and contacts, or the older one
+}
+
+// Accounts sharing a key this common are not compared through it; other keys still pair them
+const MAX_BLOCK_SIZE = 200;
+
+// Columns the duplicate snapshot stores as ISO strings and undo turns back into dates
+const ACCOUNT_DATE_FIELDS = ['createdAt', 'updatedAt', 'normalizedSummaryCreatedAt', 'missingFromImportAt'];
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+const emptyMoved = (): AccountMergeMovedRecords => ({
+  opportunities: [],
+  contacts: [],
+  technologies: [],
+  insights: [],
+  vectorChunks: [],
+  documents: [],
+  accountMatchReviews: [],
+});
+
+const countMoved = (moved: AccountMergeMovedRecords) =>
+  Object.fromEntries(
+    Object.entries(moved).map(([key, ids]) => [key, ids.length])
+  ) as Record<keyof AccountMergeMovedRecords, number>;
+
+export class AccountMergeService {
+  private readonly lineageService = getFieldLineageService();
+
+  /**
+   * Pairs of accounts that are probably the same company, best match first. Accounts are only
+   * compared when they share a domain, a name word or the start of the name.
+   */
+  async findDuplicateCandidates(
+    options: { minScore?: number; page?: number; pageSize?: number } = {}
+  ): Promise<{ pairs: DuplicateAccountPair[]; total: number }> {
+    const minScore = options.minScore ?? DEFAULT_ACCOUNT_MATCH_THRESHOLDS.review;
+    const page = options.page ?? 1;
+    const pageSize = options.pageSize ?? 20;
+
+    const rows = await prisma.companyAccount.findMany({
+      select: {
+        id: true,
+        name: true,
+        accountNumber: true,
+        domain: true,
+        website: true,
+        createdAt: true,
+        _count: { select: { opportunities: true, contacts: true } },
+      },
+    });
+
+    const accounts = rows.map(({ _count, ...account }) => ({
+      account: { ...account, opportunityCount: _count.opportunities, contactCount: _count.contacts },
+      normalizedName: normalizeCompanyName(account.name),
+      domains: [account.domain, account.website]
+        .filter((value): value is string => !!value)
+        .map(normalizeDomain),
+    }));
+
+    const blocks = new Map<string, number[]>();
+    const addToBlock = (key: string, index: number) => {
+      const block = blocks.get(key) || [];
+      if (block[block.length - 1] !== index) block.push(index);
+      blocks.set(key, block);
+    };
+    accounts.forEach(({ normalizedName, domains }, index) => {
+      domains.forEach(domain => addToBlock(`domain:${domain}`, index));
+      normalizedName
+        .split(' ')
+        .filter(token => token.length >= 3)
+        .forEach(token => addToBlock(`token:${token}`, index));
+      if (normalizedName) addToBlock(`prefix:${normalizedName.slice(0, 4)}`, index);
+    });
+
+    const compared = new Set<string>();
+    const pairs: DuplicateAccountPair[] = [];
+    for (const block of blocks.values()) {
+      if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue;
+
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const key = `${block[i]}:${block[j]}`;
+          if (compared.has(key)) continue;
+          compared.add(key);
+
+          const a = accounts[block[i]];
+          const b = accounts[block[j]];
+          const sameDomain = a.domains.some(domain => b.domains.includes(domain));
+          const score = sameDomain ? 1 : scoreNameSimilarity(a.normalizedName, b.normalizedName);
+          if (score < minScore) continue;
+
+          const first = a.account;
+          const second = b.account;
+          const firstWeight = first.opportunityCount + first.contactCount;
+          const secondWeight = second.opportunityCount + second.contactCount;
+          const firstSurvives = firstWeight !== secondWeight
+            ? firstWeight > secondWeight
+            : first.createdAt <= second.createdAt;
+
+          pairs.push({
+            score: Math.round(score * 1000) / 1000,
+            matchedBy: sameDomain ? 'domain' : score === 1 ? 'name' : 'similarity',
+            accounts: [first, second],
+            suggestedSurvivorId: firstSurvives ? first.id : second.id,
+          });
+        }
+      }
+    }
+
+    pairs.sort((a, b) => b.score - a.score || a.accounts[0].name.localeCompare(b.accounts[0].name));
+
+    return {
+      pairs: pairs.slice((page - 1) * pageSize, page * pageSize),
+      total: pairs.length,
+    };
+  }
+
+  /**
+   * What merging one account into another would change, without changing it
+   */
+  async previewMerge(survivorId: string, mergedId: string): Promise<AccountMergePreview> {
+    const { survivor, merged } = await this.loadPair(survivorId, mergedId);
+    const { conflicts, filledFromMerged } = this.compareFields(survivor, merged);
+
+    const [opportunities, contacts, technologies, insights, vectorChunks, documents, accountMatchReviews] = await Promise.all([
+      prisma.opportunity.count({ where: { accountId: mergedId } }),
+      prisma.contact.count({ where: { accountId: mergedId } }),
+      prisma.technology.count({ where: { accountId: mergedId } }),
+      prisma.insight.count({ where: { accountId: mergedId } }),
+      prisma.vectorChunk.count({ where: { accountId: mergedId } }),
+      prisma.document.count({ where: { accountId: mergedId } }),
+      prisma.accountMatchReview.count({
+        where: { candidateAccountId: mergedId, status: AccountMatchReviewStatus.PENDING },
+      }),
+    ]);
+
+    return {
+      survivor: this.toSummary(survivor),
+      merged: this.toSummary(merged),
+      conflicts,
+      filledFromMerged,
+      moving: { opportunities, contacts, technologies, insights, vectorChunks, documents, accountMatchReviews },
+    };
+  }
+
+  /**
+   * Merge a duplicate into the surviving account: the survivor takes the chosen field values,
+   * the duplicate's records move to it and the duplicate is deleted. Fields without a choice keep
+   * the survivor's value, or take the duplicate's where the survivor has none.
+   */
+  async mergeAccounts(
+    userId: string,
+    input: { survivorId: string; mergedId: string; fields?: AccountMergeFieldChoices }
+  ): Promise<AccountMergeResult> {
+    const { survivor, merged } = await this.loadPair(input.survivorId, input.mergedId);
+
+    const unknownFields = Object.keys(input.fields || {})
+      .filter(field => !(MERGEABLE_ACCOUNT_FIELDS as readonly string[]).includes(field));
+    if (unknownFields.length > 0) {
+      throw new ValidationError('Invalid merge fields', {
+        errors: unknownFields.map(field => `Field "${field}" cannot be merged`),
+      });
+    }
+
+    const survivorValues = survivor as unknown as Record<string, unknown>;
+    const mergedValues = merged as unknown as Record<string, unknown>;
+    const fieldChoices: AccountMergeFieldChoices = {};
+    const updates: Record<string, unknown> = {};
+    const survivorBefore: Record<string, unknown> = {};
+    for (const field of MERGEABLE_ACCOUNT_FIELDS) {
+      const survivorValue = survivorValues[field];
+      const mergedValue = mergedValues[field];
+      if (survivorValue === mergedValue || (isEmpty(survivorValue) && isEmpty(mergedValue))) continue;
+
+      const choice = input.fields?.[field] ?? (isEmpty(survivorValue) ? 'merged' : 'survivor');
+      // Only the survivor has a value and nobody asked to clear it
+      if (isEmpty(mergedValue) && choice === 'survivor') continue;
+
+      fieldChoices[field] = choice;
+      if (choice === 'merged') {
+        updates[field] = mergedValue;
+        survivorBefore[field] = survivorValue;
+      }
+    }
+
+    const { record, moved } = await prisma.$transaction(async (tx) => {
+      // Lock the duplicate so no record is attached to it between the read below and its delete,
+      // which would cascade to that record instead of moving it
+      await tx.$queryRaw`SELECT "id" FROM "public"."CompanyAccount" WHERE "id" = ${merged.id} FOR UPDATE`;
+
+      const [opportunities, contacts, technologies, insights, vectorChunks, documents, accountMatchReviews] = await Promise.all([
+        tx.opportunity.findMany({ where: { accountId: merged.id }, select: { id: true } }),
+        tx.contact.findMany({ where: { accountId: merged.id }, select: { id: true } }),
+        tx.technology.findMany({ where: { accountId: merged.id }, select: { id: true } }),
+        tx.insight.findMany({ where: { accountId: merged.id }, select: { id: true } }),
+        tx.vectorChunk.findMany({ where: { accountId: merged.id }, select: { id: true } }),
+        tx.document.findMany({ where: { accountId: merged.id }, select: { id: true } }),
+        tx.accountMatchReview.findMany({
+          where: { candidateAccountId: merged.id, status: AccountMatchReviewStatus.PENDING },
+          select: { id: true },
+        }),
+      ]);
+      const ids = (rows: Array<{ id: string }>) => rows.map(({ id }) => id);
+      const moved: AccountMergeMovedRecords = {
+        opportunities: ids(opportunities),
+        contacts: ids(contacts),
+        technologies: ids(technologies),
+        insights: ids(insights),
+        vectorChunks: ids(vectorChunks),
+        documents: ids(documents),
+        accountMatchReviews: ids(accountMatchReviews),
+      };
+
+      await this.moveRecords(tx, moved, survivor.id);
+
+      // The duplicate goes first, so the survivor can take its domain or account number
+      await tx.companyAccount.delete({ where: { id: merged.id } });
+      if (Object.keys(updates).length > 0) {
+        await tx.companyAccount.update({
+          where: { id: survivor.id },
+          data: { ...updates, updatedAt: new Date() },
+        });
+      }
+
+      const created = await tx.accountMerge.create({
+        data: {
+          survivorId: survivor.id,
+          mergedAccountId: merged.id,
+          mergedAccount: JSON.parse(JSON.stringify(merged)) as Prisma.InputJsonObject,
+          survivorBefore: JSON.parse(JSON.stringify(survivorBefore)) as Prisma.InputJsonObject,
+          fieldChoices: fieldChoices as Prisma.InputJsonObject,
+          movedRecords: moved as unknown as Prisma.InputJsonObject,
+          userId,
+        },
+      });
+      return { record: created, moved };
+    });
+
+    // Values taken from the duplicate were picked by the user
+    await this.lineageService.recordFields('accounts', survivor.id, updates, { source: 'manual', userId });
+
+    const errors: string[] = [];
+    const vectorPointsUpdated = await this.syncVectorPayloads([survivor.id], errors);
+
+    logger.info('AccountMergeService: Accounts merged', {
+      mergeId: record.id,
+      survivorId: survivor.id,
+      mergedAccountId: merged.id,
+      moved: countMoved(moved),
+      userId,
+    });
+
+    return { merge: this.toRecord(record), vectorPointsUpdated, errors };
+  }
+
+  /**
+   * Undo a merge: recreate the duplicate under its old id, move back the records the merge moved
+   * and restore the survivor fields it overwrote. Records added to the survivor since stay there.
+   */
+  async undoMerge(mergeId: string, userId: string): Promise<AccountMergeResult> {
+    const existing = await prisma.accountMerge.findUnique({ where: { id: mergeId } });
+    if (!existing) {
+      throw new NotFoundError('Account merge');
+    }
+    if (existing.undoneAt) {
+      throw new ConflictError('This merge has already been undone');
+    }
+
+    const survivor = await prisma.companyAccount.findUnique({ where: { id: existing.survivorId } });
+    if (!survivor) {
+      throw new ConflictError('The surviving account no longer exists');
+    }
+
+    const snapshot = existing.mergedAccount as Record<string, unknown>;
+    const mergedAccount: Record<string, unknown> = { ...snapshot, metadata: snapshot.metadata ?? Prisma.DbNull };
+    for (const field of ACCOUNT_DATE_FIELDS) {
+      if (typeof snapshot[field] === 'string') mergedAccount[field] = new Date(snapshot[field] as string);
+    }
+    const survivorBefore = existing.survivorBefore as Record<string, unknown>;
+    const moved = { ...emptyMoved(), ...(existing.movedRecords as unknown as Partial<AccountMergeMovedRecords>) };
+
+    const record = await prisma.$transaction(async (tx) => {
+      // The survivor gives back the duplicate's domain or account number before it is recreated
+      if (Object.keys(survivorBefore).length > 0) {
+        await tx.companyAccount.update({
+          where: { id: survivor.id },
+          data: { ...survivorBefore, updatedAt: new Date() },
+        });
+      }
+      await tx.companyAccount.create({
+        data: mergedAccount as unknown as Prisma.CompanyAccountCreateInput,
+      });
+      await this.moveRecords(tx, moved, existing.mergedAccountId, survivor.id);
+
+      return tx.accountMerge.update({
+        where: { id: mergeId },
+        data: { undoneAt: new Date() },
+      });
+    }).catch((error: unknown) => {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Another account now uses the merged account\'s domain or account number');
+      }
+      throw error;
+    });
+
+    await this.lineageService.recordFields('accounts', survivor.id, survivorBefore, { source: 'manual', userId });
+
+    const errors: string[] = [];
+    const vectorPointsUpdated = await this.syncVectorPayloads([survivor.id, existing.mergedAccountId], errors);
+
+    logger.info('AccountMergeService: Merge undone', {
+      mergeId,
+      survivorId: survivor.id,
+      mergedAccountId: existing.mergedAccountId,
+      userId,
+    });
+
+    return { merge: this.toRecord(record), vectorPointsUpdated, errors };
+  }
+
+  /**
+   * Merges an account took part in, newest first
+   */
+  async listMerges(accountId?: string, limit = 50): Promise<AccountMergeRecord[]> {
+    const merges = await prisma.accountMerge.findMany({
+      where: accountId ? { OR: [{ survivorId: accountId }, { mergedAccountId: accountId }] } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return merges.map(merge => this.toRecord(merge));
+  }
+
+  private async loadPair(survivorId: string, mergedId: string) {
+    if (survivorId === mergedId) {
+      throw new ValidationError('An account cannot be merged into itself');
+    }
+
+    const [survivor, merged] = await Promise.all([
+      prisma.companyAccount.findUnique({ where: { id: survivorId } }),
+      prisma.companyAccount.findUnique({ where: { id: mergedId } }),
+    ]);
+    if (!survivor || !merged) {
+      throw new NotFoundError('Account');
+    }
+
+    return { survivor, merged };
+  }
+
+  private compareFields(survivor: CompanyAccount, merged: CompanyAccount) {
+    const survivorValues = survivor as unknown as Record<string, unknown>;
+    const mergedValues = merged as unknown as Record<string, unknown>;
+    const conflicts: AccountMergeConflict[] = [];
+    const filledFromMerged: MergeableAccountField[] = [];
+
+    for (const field of MERGEABLE_ACCOUNT_FIELDS) {
+      const survivorValue = survivorValues[field];
+      const mergedValue = mergedValues[field];
+      if (isEmpty(mergedValue) || survivorValue === mergedValue) continue;
+
+      if (isEmpty(survivorValue)) {
+        filledFromMerged.push(field);
+      } else {
+        conflicts.push({ field, survivorValue: String(survivorValue), mergedValue: String(mergedValue) });
+      }
+    }
+
+    return { conflicts, filledFromMerged };
+  }
+
+  /**
+   * Point the recorded records at another account; `fromId` limits the move to records still on it
+   */
+  private async moveRecords(
+    tx: Prisma.TransactionClient,
+    moved: AccountMergeMovedRecords,
+    toId: string,
+    fromId?: string
+  ) {
+    const where = (ids: string[]) => ({ id: { in: ids }, ...(fromId && { accountId: fromId }) });
+
+    await tx.opportunity.updateMany({ where: where(moved.opportunities), data: { accountId: toId } });
+    await tx.contact.updateMany({ where: where(moved.contacts), data: { accountId: toId } });
+    await tx.technology.updateMany({ where: where(moved.technologies), data: { accountId: toId } });
+    await tx.insight.updateMany({ where: where(moved.insights), data: { accountId: toId } });
+    await tx.vectorChunk.updateMany({ where: where(moved.vectorChunks), data: { accountId: toId } });
+    await tx.document.updateMany({ where: where(moved.documents), data: { accountId: toId } });
+    await tx.accountMatchReview.updateMany({
+      where: {
+        id: { in: moved.accountMatchReviews },
+        status: AccountMatchReviewStatus.PENDING,
+        ...(fromId && { candidateAccountId: fromId }),
+      },
+      data: { candidateAccountId: toId },
+    });
+  }
+
+  /**
+   * Point the Qdrant payloads of the accounts' vector chunks at the account they now belong to
+   */
+  private async syncVectorPayloads(accountIds: string[], errors: string[]): Promise<number> {
+    let updated = 0;
+
+    for (const accountId of accountIds) {
+      const account = await prisma.companyAccount.findUnique({
+        where: { id: accountId },
+        select: {
+          id: true,
+          name: true,
+          accountNumber: true,
+          vectorChunks: { where: { qdrantPointId: { not: null } }, select: { qdrantPointId: true } },
+        },
+      });
+      const pointIds = (account?.vectorChunks || [])
+        .map(({ qdrantPointId }) => qdrantPointId)
+        .filter((id): id is string => !!id);
+      if (!account || pointIds.length === 0) continue;
+
+      try {
+        await getVectorStore().setPayload(pointIds, {
+          accountId: account.id,
+          accountName: account.name,
+          ...(account.accountNumber && { accountNumber: account.accountNumber }),
+        });
+        updated += pointIds.length;
+      } catch (error) {
+        errors.push(
+          `Failed to update vector payloads of account ${account.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return updated;
+  }
+
+  private toSummary(account: CompanyAccount): AccountSummary {
+    return {
+      id: account.id,
+      name: account.name,
+      accountNumber: account.accountNumber,
+      domain: account.domain,
+      website: account.website,
+    };
+  }
+
+  private toRecord(merge: {
+    id: string;
+    survivorId: string;
+    mergedAccountId: string;
+    mergedAccount: Prisma.JsonValue;
+    fieldChoices: Prisma.JsonValue;
+    movedRecords: Prisma.JsonValue;
+    userId: string | null;
+    createdAt: Date;
+    undoneAt: Date | null;
+  }): AccountMergeRecord {
+    const moved = { ...emptyMoved(), ...(merge.movedRecords as unknown as Partial<AccountMergeMovedRecords>) };
+
+    return {
+      id: merge.id,
+      survivorId: merge.survivorId,
+      mergedAccountId: merge.mergedAccountId,
+      mergedAccountName: String((merge.mergedAccount as { name?: string } | null)?.name ?? ''),
+      fieldChoices: (merge.fieldChoices ?? {}) as AccountMergeFieldChoices,
+      moved: countMoved(moved),
+      userId: merge.userId,
+      createdAt: merge.createdAt,
+      undoneAt: merge.undoneAt,
+    };
+  }
+}
+
+// Singleton instance
+let accountMergeService: AccountMergeService | null = null;
+
+export function getAccountMergeService(): AccountMergeService {
+  if (!accountMergeService) {
+    accountMergeService = new AccountMergeService();
+  }
+  return accountMergeService;
+}
@@ -0,0 +1,192 @@
+/**
+ * Asset Archive
+ * Expands an uploaded ZIP of assets into one import entry per file, in memory, so a pack of
+ * PDFs, decks and docs imports as a single batch
+ */
+
+import path from 'path';
+
+import { DocumentScope } from '@prisma/client';
+import AdmZip from 'adm-zip';
+
+import { FileParserUtils } from '@/lib/services/parsers';
+
+import type { AssetImportData } from './asset-import.service';
+
+export const ASSET_ARCHIVE_MIME_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+export interface AssetArchiveLimits {
+  maxEntries: number;
+  maxEntrySize: number; // Uncompressed bytes of one file
+  maxTotalSize: number; // Uncompressed bytes of all files
+  maxCompressionRatio: number; // Uncompressed to compressed size of one file
+}
+
+export interface AssetArchiveSkippedEntry {
+  file: string;
+  reason: string;
+}
+
+export interface AssetArchiveContents {
+  assets: AssetImportData[];
+  skipped: AssetArchiveSkippedEntry[];
+}
+
+export const DEFAULT_ASSET_ARCHIVE_LIMITS: AssetArchiveLimits = {
+  maxEntries: 500,
+  maxEntrySize: 50 * 1024 * 1024,
+  maxTotalSize: 500 * 1024 * 1024,
+  maxCompressionRatio: 100,
+};
+
+// Below this size a high compression ratio is harmless, e.g. a short but repetitive text file
+const MIN_RATIO_CHECK_SIZE = 1024 * 1024;
+
+// Operating system metadata that archivers add next to the files
+const SYSTEM_FILES = ['__MACOSX', 'Thumbs.db', 'desktop.ini'];
+
+// Folder names recognized as document categories, with the labels content detection uses
+const FOLDER_CATEGORIES: Array<{ pattern: RegExp; category: string; scope: DocumentScope }> = [
+  { pattern: /\b(case stud|customer stor|success stor|reference)/, category: 'Case Study', scope: DocumentScope.CASE_STUDIES },
+  { pattern: /\b(data ?sheet|spec sheet|specification)/, category: 'Data Sheet', scope: DocumentScope.DATA_SHEETS },
+  { pattern: /\b(proposal|quot|rfp|rfi|tender)/, category: 'Proposal', scope: DocumentScope.PROPOSALS },
+  { pattern: /\b(training|tutorial|enablement|onboarding)/, category: 'Training Material', scope: DocumentScope.TRAINING },
+  { pattern: /\b(technical|tech docs?|manual|white ?paper|documentation)/, category: 'Technical Documentation', scope: DocumentScope.TECHNICAL_DOCS },
+  { pattern: /\b(sales|deck|pitch|battle ?card|brochure|collateral|marketing)/, category: 'Sales Asset', scope: DocumentScope.SALES_ASSETS },
+];
+
+/**
+ * Whether an upload is an asset pack rather than a document; Office files are ZIP packages
+ * too, so this goes by declared type and extension, not by content
+ */
+export function isAssetArchive(data: Pick<AssetImportData, 'fileName' | 'mimeType'>): boolean {
+  return ASSET_ARCHIVE_MIME_TYPES.includes(data.mimeType) || data.fileName.toLowerCase().endsWith('.zip');
+}
+
+/**
+ * Read the files of an archive as import entries. Each entry keeps its path in the archive as
+ * file name, gets its MIME type from its content, and the category and scope of the innermost
+ * recognized folder, else those given with the archive. Unsafe paths, oversized files and
+ * nested archives are skipped; an archive that is unreadable or too large as a whole throws.
+ */
+export function expandAssetArchive(
+  archive: AssetImportData,
+  limits: AssetArchiveLimits = DEFAULT_ASSET_ARCHIVE_LIMITS
+): AssetArchiveContents {
+  let entries: AdmZip.IZipEntry[];
+  try {
+    entries = new AdmZip(archive.buffer).getEntries().filter(entry => !entry.isDirectory);
+  } catch (error) {
+    throw new Error(`Archive could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (entries.length > limits.maxEntries) {
+    throw new Error(`Archive has ${entries.length} files, more than the limit of ${limits.maxEntries}`);
+  }
+
+  const declaredSize = entries.reduce((sum, entry) => sum + entry.header.size, 0);
+  if (declaredSize > limits.maxTotalSize) {
+    throw new Error(`Archive expands to ${formatSize(declaredSize)}, more than the limit of ${formatSize(limits.maxTotalSize)}`);
+  }
+
+  const contents: AssetArchiveContents = { assets: [], skipped: [] };
+  let totalSize = 0;
+
+  for (const entry of entries) {
+    const entryPath = normalizeEntryPath(entry.entryName);
+    if (!entryPath) {
+      contents.skipped.push({ file: entry.entryName, reason: 'Path points outside the archive' });
+      continue;
+    }
+    if (isSystemFile(entryPath)) continue;
+
+    const skip = (reason: string) => contents.skipped.push({ file: entryPath, reason });
+
+    if (isAssetArchive({ fileName: entryPath, mimeType: '' })) {
+      skip('Nested archives are not expanded');
+      continue;
+    }
+
+    const { size, compressedSize } = entry.header;
+    if (size > limits.maxEntrySize) {
+      skip(`File size (${formatSize(size)}) exceeds limit (${formatSize(limits.maxEntrySize)})`);
+      continue;
+    }
+    if (size > MIN_RATIO_CHECK_SIZE && size / Math.max(compressedSize, 1) > limits.maxCompressionRatio) {
+      skip(`File expands to ${Math.round(size / Math.max(compressedSize, 1))} times its compressed size`);
+      continue;
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = entry.getData();
+    } catch (error) {
+      skip(`File could not be extracted: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      continue;
+    }
+
+    // The sizes checked above are declared by the archive and may not be the real ones
+    if (buffer.length > limits.maxEntrySize) {
+      skip(`File size (${formatSize(buffer.length)}) exceeds limit (${formatSize(limits.maxEntrySize)})`);
+      continue;
+    }
+    totalSize += buffer.length;
+    if (totalSize > limits.maxTotalSize) {
+      throw new Error(`Archive expands to more than the limit of ${formatSize(limits.maxTotalSize)}`);
+    }
+
+    const folder = mapAssetFolder(path.posix.dirname(entryPath));
+    contents.assets.push({
+      fileName: entryPath,
+      originalName: entryPath,
+      buffer,
+      fileSize: buffer.length,
+      mimeType: FileParserUtils.detectMimeType(buffer, entryPath),
+      accountId: archive.accountId,
+      accountNumber: archive.accountNumber,
+      category: folder?.category ?? archive.category,
+      scope: folder?.scope ?? archive.scope,
+      metadata: { ...archive.metadata, archive: archive.originalName, archivePath: entryPath },
+    });
+  }
+
+  return contents;
+}
+
+/**
+ * Category and scope of the innermost folder of a path whose name is recognized,
+ * e.g. "Q3 Pack/Case Studies/Retail" maps to Case Study
+ */
+export function mapAssetFolder(folderPath: string): { category: string; scope: DocumentScope } | null {
+  const folders = folderPath.split('/').filter(folder => folder && folder !== '.').reverse();
+
+  for (const folder of folders) {
+    const name = folder.toLowerCase().replace(/[_\-.]+/g, ' ');
+    const match = FOLDER_CATEGORIES.find(({ pattern }) => pattern.test(name));
+    if (match) return { category: match.category, scope: match.scope };
+  }
+
+  return null;
+}
+
+/**
+ * Entry path with forward slashes and without empty or "." segments; null for absolute
+ * paths and paths that climb out of the archive with ".."
+ */
+function normalizeEntryPath(entryName: string): string | null {
+  const normalized = entryName.replace(/\\/g, '/');
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) return null;
+
+  const segments = normalized.split('/').filter(segment => segment && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) return null;
+
+  return segments.join('/');
+}
+
+function isSystemFile(entryPath: string): boolean {
+  return entryPath.split('/').some(segment => segment.startsWith('.') || SYSTEM_FILES.includes(segment));
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)}KB` : `${Math.round(bytes / 1024 / 1024)}MB`;
+}
@@ -4,9 +4,17 @@ import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { getChunkingService } from '@/lib/services/chunking';
-import { QuickParse } from '@/lib/services/parsers';
+import { fileParserService } from '@/lib/services/parsers';
 import { TParserResult } from '@/lib/services/parsers/file-parser.interface';
 
+import { normalizeDomain } from './account-matching.service';
+import {
+  DEFAULT_ASSET_ARCHIVE_LIMITS,
+  expandAssetArchive,
+  isAssetArchive,
+  type AssetArchiveLimits,
+} from './asset-archive';
+
 export interface AssetImportData {
   fileName: string;
   originalName: string;
@@ -30,6 +38,7 @@ export interface AssetImportOptions {
   extractMetadata?: boolean;
   maxFileSize?: number;
   allowedMimeTypes?: string[];
+  archiveLimits?: Partial<Omit<AssetArchiveLimits, 'maxEntrySize'>>; // Files are limited by maxFileSize
   chunkingOptions?: {
     chunkSize?: number;
     chunkOverlap?: number;
@@ -53,9 +62,20 @@ export interface AssetImportResult {
     warning: string;
   }>;
   documentIds: string[];
+  files?: AssetImportFileResult[]; // Per file of a batch, archive entries included
   processingTime: number;
 }
 
+export interface AssetImportFileResult {
+  file: string;
+  status: 'imported' | 'failed' | 'skipped';
+  documentId?: string;
+  category?: string;
+  scope?: DocumentScope;
+  errors: string[];
+  warnings: string[];
+}
+
 export interface AssetImportProgress {
   stage: 'uploading' | 'parsing' | 'processing' | 'chunking' | 'vectorizing' | 'completed';
   processed: number;
@@ -73,9 +93,14 @@ export class AssetImportService {
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
     'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
     'text/plain': 'txt',
+    'text/markdown': 'md',
+    'text/html': 'html',
     'text/csv': 'csv',
     'application/vnd.ms-excel': 'xls',
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+    'message/rfc822': 'eml',
+    'application/zip': 'zip',
+    'application/x-zip-compressed': 'zip',
   };
 
   /**
@@ -87,6 +112,11 @@ export class AssetImportService {
     options: AssetImportOptions = {},
     onProgress?: (progress: AssetImportProgress) => void
   ): Promise<AssetImportResult> {
+    // An archive is a pack of assets, imported as one batch
+    if (isAssetArchive(data)) {
+      return this.importAssetBatch([data], userId, options, onProgress);
+    }
+
     const startTime = Date.now();
     const result: AssetImportResult = {
       total: 1,
@@ -154,6 +184,16 @@ export class AssetImportService {
       // Update document with parsing results
       await this.updateDocumentWithParserResult(document.id, parserResult, data, options);
 
+      if (data.mimeType === 'message/rfc822') {
+        const link = await this.linkEmailToAccount(document.id, document.accountId, parserResult);
+        if (!link.accountId) {
+          result.warnings.push({
+            file: data.fileName,
+            warning: 'No account matches the email domains of the sender or recipients',
+          });
+        }
+      }
+
       // Stage 3: Process metadata and categorization
       onProgress?.({
         stage: 'processing',
@@ -166,7 +206,7 @@ export class AssetImportService {
       });
 
       if (options.detectCategory || options.extractMetadata) {
-        await this.processDocumentMetadata(document.id, parserResult, options);
+        await this.processDocumentMetadata(document.id, parserResult, data, options);
       }
 
       // Stage 4: Generate chunks if requested
@@ -256,25 +296,27 @@ export class AssetImportService {
   }
 
   /**
-   * Import multiple assets in batch
+   * Import multiple assets in batch; archives are expanded into their files first
    */
   async importAssetBatch(
-    assets: AssetImportData[],
+    uploads: AssetImportData[],
     userId: string,
     options: AssetImportOptions = {},
     onProgress?: (progress: AssetImportProgress) => void
   ): Promise<AssetImportResult> {
     const startTime = Date.now();
+    const { assets, files } = this.expandArchives(uploads, options);
     const result: AssetImportResult = {
-      total: assets.length,
+      total: assets.length + files.length,
       imported: 0,
-      failed: 0,
-      skipped: 0,
+      failed: files.filter(file => file.status === 'failed').length,
+      skipped: files.filter(file => file.status === 'skipped').length,
       chunksGenerated: 0,
       vectorsStored: 0,
-      errors: [],
-      warnings: [],
+      errors: files.flatMap(file => file.errors.map(error => ({ file: file.file, error }))),
+      warnings: files.flatMap(file => file.warnings.map(warning => ({ file: file.file, warning }))),
       documentIds: [],
+      files,
       processingTime: 0,
     };
 
@@ -320,6 +362,19 @@ export class AssetImportService {
       const batchResults = await Promise.all(batchPromises);
 
       // Aggregate batch results
+      batchResults.forEach((batchResult, batchIndex) => {
+        const asset = batch[batchIndex];
+        result.files?.push({
+          file: asset.fileName,
+          status: batchResult.imported > 0 ? 'imported' : batchResult.failed > 0 ? 'failed' : 'skipped',
+          documentId: batchResult.documentIds[0],
+          category: asset.category,
+          scope: asset.scope,
+          errors: batchResult.errors.map(({ error }) => error),
+          warnings: batchResult.warnings.map(({ warning }) => warning),
+        });
+      });
+
       for (const batchResult of batchResults) {
         result.imported += batchResult.imported;
         result.failed += batchResult.failed;
@@ -346,12 +401,77 @@ export class AssetImportService {
       total: result.total,
       imported: result.imported,
       failed: result.failed,
+      skipped: result.skipped,
       processingTime: result.processingTime,
     });
 
     return result;
   }
 
+  /**
+   * Replace archives with the files they contain. Entries that are skipped, of an unsupported
+   * type, or in an archive that cannot be read are returned as file results instead.
+   */
+  private expandArchives(
+    uploads: AssetImportData[],
+    options: AssetImportOptions
+  ): { assets: AssetImportData[]; files: AssetImportFileResult[] } {
+    const limits: AssetArchiveLimits = {
+      ...DEFAULT_ASSET_ARCHIVE_LIMITS,
+      ...options.archiveLimits,
+      maxEntrySize: options.maxFileSize || DEFAULT_ASSET_ARCHIVE_LIMITS.maxEntrySize,
+    };
+    const allowedTypes = options.allowedMimeTypes || Object.keys(this.SUPPORTED_TYPES);
+    const assets: AssetImportData[] = [];
+    const files: AssetImportFileResult[] = [];
+
+    for (const upload of uploads) {
+      if (!isAssetArchive(upload)) {
+        assets.push(upload);
+        continue;
+      }
+
+      try {
+        const contents = expandAssetArchive(upload, limits);
+
+        for (const entry of contents.assets) {
+          if (!allowedTypes.includes(entry.mimeType)) {
+            files.push({
+              file: entry.fileName,
+              status: 'skipped',
+              errors: [],
+              warnings: [`Unsupported file type: ${entry.mimeType}`],
+            });
+            continue;
+          }
+          assets.push(entry);
+        }
+
+        files.push(...contents.skipped.map(({ file, reason }): AssetImportFileResult => ({
+          file,
+          status: 'skipped',
+          errors: [],
+          warnings: [reason],
+        })));
+
+        logger.info('AssetImportService: Archive expanded', {
+          fileName: upload.fileName,
+          entries: contents.assets.length,
+          skipped: contents.skipped.length,
+        });
+      } catch (error) {
+        files.push({
+          file: upload.fileName,
+          status: 'failed',
+          errors: [error instanceof Error ? error.message : 'Unknown archive error'],
+          warnings: [],
+        });
+      }
+    }
+
+    return { assets, files };
+  }
+
   /**
    * Validate asset before import
    */
@@ -426,6 +546,7 @@ export class AssetImportService {
         title: data.title,
         category: data.category,
         scope: data.scope || DocumentScope.GENERAL,
+        accountId,
         userId,
         uploadedAt: new Date(),
         createdAt: new Date(),
@@ -440,17 +561,11 @@ export class AssetImportService {
    * Parse asset using appropriate parser
    */
   private async parseAsset(data: AssetImportData): Promise<TParserResult> {
+    if (fileParserService.isSupported(data.mimeType)) {
+      return await fileParserService.parseFromBuffer(data.buffer, data.fileName, data.mimeType);
+    }
+
     switch (data.mimeType) {
-      case 'application/pdf':
-        return await QuickParse.pdf(data.buffer, data.fileName);
-      case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-        return await QuickParse.docx(data.buffer, data.fileName);
-      case 'application/vnd.openxmlformats-officedocument.presentationml.presentation':
-        return await QuickParse.pptx(data.buffer, data.fileName);
-      case 'text/csv':
-      case 'application/vnd.ms-excel':
-      case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
-        return await QuickParse.csv(data.buffer, data.fileName);
       default:
         // For text files and others, create a basic parser result
         const content = data.buffer.toString('utf-8');
@@ -512,17 +627,127 @@ export class AssetImportService {
     });
   }
 
+  /**
+   * Link an imported email to the contacts that sent and received it, and to the account of the
+   * sender's email domain, else of the first recipient domain or matched contact that has one.
+   * An account given with the import is kept. Quoted replies and attached emails are not
+   * considered, as they may come from other conversations.
+   */
+  private async linkEmailToAccount(
+    documentId: string,
+    accountId: string | null,
+    parserResult: TParserResult
+  ): Promise<{ accountId: string | null; contactIds: string[] }> {
+    const email = parserResult.blocks
+      .map(block => block.metadata)
+      .find(metadata => metadata.email?.quoteDepth === 0 && !metadata.source)?.email;
+    if (!email) return { accountId, contactIds: [] };
+
+    const participants: Array<{ address: string; role: 'from' | 'to' | 'cc' }> = [
+      ...(email.from ? [{ address: email.from, role: 'from' as const }] : []),
+      ...email.to.map(address => ({ address, role: 'to' as const })),
+      ...email.cc.map(address => ({ address, role: 'cc' as const })),
+    ];
+    if (participants.length === 0) return { accountId, contactIds: [] };
+
+    const addresses = Array.from(new Set(participants.map(({ address }) => address)));
+    const contacts = await prisma.contact.findMany({
+      where: { email: { in: addresses, mode: 'insensitive' } },
+      select: { id: true, email: true, accountId: true },
+    });
+    const contactsByAddress = new Map<string, typeof contacts>();
+    for (const contact of contacts) {
+      const address = (contact.email || '').toLowerCase();
+      contactsByAddress.set(address, [...(contactsByAddress.get(address) || []), contact]);
+    }
+
+    let linkedAccountId = accountId;
+    if (!linkedAccountId) {
+      linkedAccountId = await this.findAccountByEmailDomain(addresses)
+        ?? participants
+          .flatMap(({ address }) => contactsByAddress.get(address) || [])
+          .map(contact => contact.accountId)[0]
+        ?? null;
+
+      if (linkedAccountId) {
+        await prisma.document.update({
+          where: { id: documentId },
+          data: { accountId: linkedAccountId },
+        });
+      }
+    }
+
+    const links = participants.flatMap(({ address, role }) =>
+      (contactsByAddress.get(address) || []).map(contact => ({ documentId, contactId: contact.id, role }))
+    );
+    if (links.length > 0) {
+      await prisma.documentContact.createMany({ data: links, skipDuplicates: true });
+    }
+
+    logger.info('AssetImportService: Email linked', {
+      documentId,
+      accountId: linkedAccountId,
+      contacts: links.length,
+    });
+
+    return {
+      accountId: linkedAccountId,
+      contactIds: Array.from(new Set(links.map(({ contactId }) => contactId))),
+    };
+  }
+
+  /**
+   * Account whose domain or website is the domain of the first address that has one; a
+   * subdomain such as mail.acme.com also matches acme.com
+   */
+  private async findAccountByEmailDomain(addresses: string[]): Promise<string | null> {
+    const domainsByAddress = addresses.map(address => {
+      const domain = normalizeDomain(address.split('@')[1] || '');
+      const labels = domain.split('.');
+      return labels
+        .slice(0, Math.max(labels.length - 1, 0))
+        .map((_, index) => labels.slice(index).join('.'));
+    });
+    const domains = Array.from(new Set(domainsByAddress.flat())).filter(domain => domain.includes('.'));
+    if (domains.length === 0) return null;
+
+    const accounts = await prisma.companyAccount.findMany({
+      where: {
+        OR: [
+          { domain: { in: domains, mode: 'insensitive' } },
+          ...domains.map(domain => ({ website: { contains: domain, mode: 'insensitive' as const } })),
+        ],
+      },
+      select: { id: true, domain: true, website: true },
+    });
+
+    for (const candidates of domainsByAddress) {
+      for (const domain of candidates) {
+        const account = accounts.find(({ domain: accountDomain, website }) =>
+          [accountDomain, website]
+            .filter((value): value is string => !!value)
+            .some(value => normalizeDomain(value) === domain)
+        );
+        if (account) return account.id;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Process document metadata and categorization
    */
   private async processDocumentMetadata(
     documentId: string,
     parserResult: TParserResult,
+    data: AssetImportData,
     options: AssetImportOptions
   ) {
     const updateData: any = {};
 
-    if (options.detectCategory) {
+    // A category given with the import, or by the folder of an archive entry, is kept
+    if (options.detectCategory && !data.category) {
       // Simple category detection based on content
       const content = parserResult.blocks
         .map(block => block.rawText || '')
@@ -0,0 +1,605 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '@/lib/logger';
+import {
+  ConflictError,
+  isUniqueConstraintError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/middleware/error-handler';
+import { prisma } from '@/lib/prisma';
+
+export type ImportEntityType = 'accounts' | 'products' | 'opportunities' | 'contacts';
+
+export type ColumnValueTransform =
+  | 'trim'
+  | 'upper'
+  | 'lower'
+  | 'title'
+  | 'collapse_whitespace'
+  | 'number'
+  | 'boolean'
+  | 'date';
+
+export type ColumnDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY' | 'YYYYMMDD';
+
+export interface ColumnMapping {
+  sourceColumn: string;
+  targetField: string;
+  transforms?: ColumnValueTransform[];
+  dateFormat?: ColumnDateFormat; // Source format used by the "date" transform
+}
+
+export interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  entityType: ImportEntityType;
+  description: string | null;
+  mappings: ColumnMapping[];
+  isDefault: boolean;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  userId: string;
+}
+
+export interface ColumnMappingProfileInput {
+  name: string;
+  entityType: ImportEntityType;
+  description?: string;
+  mappings: ColumnMapping[];
+  isDefault?: boolean;
+}
+
+export interface ColumnMappingSuggestion {
+  sourceColumn: string;
+  targetField: string | null;
+  confidence: number; // 0.0-1.0
+  matchedBy: 'profile' | 'exact' | 'similarity' | 'none';
+  transforms?: ColumnValueTransform[];
+  dateFormat?: ColumnDateFormat;
+}
+
+export interface ColumnMappingProfileMatch {
+  profileId: string;
+  name: string;
+  matchedColumns: number;
+  coverage: number; // Share of the profile's source columns present in the file
+}
+
+export interface ResolveColumnMappingsOptions {
+  mappingProfileId?: string;
+  columnMappings?: ColumnMapping[];
+}
+
+// Product purchase fields that can appear on opportunity rows
+export const OPPORTUNITY_PRODUCT_FIELDS: readonly string[] = [
+  'itemNumber', 'gpRevenueCategory', 'mappedSolutionArea', 'mappedSegment', 'mappedCapability',
+  'itemCategory', 'quantity', 'unitPrice', 'discount', 'totalValue', 'lineMargin', 'lineCurrency',
+];
+
+// Fields each entity importer accepts as mapping targets
+export const IMPORT_TARGET_FIELDS: Record<ImportEntityType, readonly string[]> = {
+  accounts: [
+    'accountNumber', 'name', 'domain', 'industry', 'size', 'location', 'description', 'website',
+    'gemStatus', 'gemIndex', 'crmOwner', 'targetSolutions', 'battleCardNotes', 'competitorResearch',
+    'recommendedSolution', 'ccIntent', 'ccVendor', 'ucIntent', 'ucVendor', 'dcIntent', 'dcVendor',
+    'enIntent', 'enVendor', 'sxIntent', 'sxVendor', 'finalCustomerSegment', 'ceCustomerSegment',
+    'programCategory',
+  ],
+  products: [
+    'itemNumber', 'itemDescription', 'itemTypeCode', 'itemTypeDescription', 'productType',
+    'itemRevenueCategory', 'itemManufacturer', 'itemCategory', 'itemLineOfBusiness', 'itemSubcategory',
+    'itemClass', 'portfolio', 'currentCost', 'scdStartDate', 'scdEndDate', 'isCurrentRecordFlag', 'offer',
+    'practice', 'solutionSegment', 'businessSegment', 'manufacturerPractice', 'manufacturerItemCategory',
+    'growthCategory',
+  ],
+  opportunities: [
+    'opportunityNumber', 'customerName', 'oppStage', 'salesPerson', 'salesDirector', 'bookedGrossRevenue',
+    'pipelineGrossRevenue', 'margin', 'currency', 'bookedDate', 'estimatedCloseDate', 'accountId', 'accountNumber',
+    'accountName', ...OPPORTUNITY_PRODUCT_FIELDS,
+  ],
+  contacts: [
+    'name', 'firstName', 'lastName', 'email', 'title', 'department', 'linkedIn', 'accountId', 'accountNumber',
+    'accountDomain',
+  ],
+};
+
+export const REQUIRED_TARGET_FIELDS: Record<ImportEntityType, readonly string[]> = {
+  accounts: ['name'],
+  products: ['itemNumber'],
+  opportunities: ['opportunityNumber', 'customerName'],
+  contacts: ['name'],
+};
+
+const SUGGESTION_THRESHOLD = 0.6;
+
+/**
+ * Normalize a column header or field name for comparison
+ */
+export function normalizeColumnName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find the canonical target field matching a header, ignoring case and separators
+ */
+export function resolveTargetField(entityType: ImportEntityType, header: string): string | undefined {
+  const normalized = normalizeColumnName(header);
+  return IMPORT_TARGET_FIELDS[entityType].find(field => normalizeColumnName(field) === normalized);
+}
+
+export class ColumnMappingService {
+  /**
+   * List a user's mapping profiles, most recently used first
+   */
+  async listProfiles(userId: string, entityType?: ImportEntityType): Promise<ColumnMappingProfile[]> {
+    const profiles = await prisma.importMappingProfile.findMany({
+      where: {
+        userId,
+        ...(entityType && { entityType }),
+      },
+      orderBy: [
+        { isDefault: 'desc' },
+        { lastUsedAt: { sort: 'desc', nulls: 'last' } },
+        { name: 'asc' },
+      ],
+    });
+
+    return profiles.map(profile => this.toProfile(profile));
+  }
+
+  /**
+   * Get a single mapping profile owned by the user
+   */
+  async getProfile(profileId: string, userId: string): Promise<ColumnMappingProfile> {
+    const profile = await prisma.importMappingProfile.findFirst({
+      where: { id: profileId, userId },
+    });
+
+    if (!profile) {
+      throw new NotFoundError('Mapping profile');
+    }
+
+    return this.toProfile(profile);
+  }
+
+  /**
+   * Create a named mapping profile
+   */
+  async createProfile(userId: string, input: ColumnMappingProfileInput): Promise<ColumnMappingProfile> {
+    this.assertValidMappings(input.entityType, input.mappings);
+
+    try {
+      const profile = await prisma.$transaction(async (tx) => {
+        if (input.isDefault) {
+          await tx.importMappingProfile.updateMany({
+            where: { userId, entityType: input.entityType, isDefault: true },
+            data: { isDefault: false },
+          });
+        }
+
+        return tx.importMappingProfile.create({
+          data: {
+            userId,
+            name: input.name.trim(),
+            entityType: input.entityType,
+            description: input.description,
+            mappings: input.mappings as unknown as Prisma.InputJsonValue,
+            isDefault: input.isDefault ?? false,
+          },
+        });
+      });
+
+      logger.info('ColumnMappingService: Created mapping profile', {
+        profileId: profile.id,
+        entityType: profile.entityType,
+        userId,
+      });
+
+      return this.toProfile(profile);
+    } catch (error) {
+      throw this.normalizeWriteError(error, input.name);
+    }
+  }
+
+  /**
+   * Update a mapping profile owned by the user
+   */
+  async updateProfile(
+    profileId: string,
+    userId: string,
+    input: Partial<Omit<ColumnMappingProfileInput, 'entityType'>>
+  ): Promise<ColumnMappingProfile> {
+    const existing = await this.getProfile(profileId, userId);
+
+    if (input.mappings) {
+      this.assertValidMappings(existing.entityType, input.mappings);
+    }
+
+    try {
+      const profile = await prisma.$transaction(async (tx) => {
+        if (input.isDefault) {
+          await tx.importMappingProfile.updateMany({
+            where: { userId, entityType: existing.entityType, isDefault: true, id: { not: profileId } },
+            data: { isDefault: false },
+          });
+        }
+
+        return tx.importMappingProfile.update({
+          where: { id: profileId },
+          data: {
+            ...(input.name !== undefined && { name: input.name.trim() }),
+            ...(input.description !== undefined && { description: input.description }),
+            ...(input.mappings && { mappings: input.mappings as unknown as Prisma.InputJsonValue }),
+            ...(input.isDefault !== undefined && { isDefault: input.isDefault }),
+          },
+        });
+      });
+
+      return this.toProfile(profile);
+    } catch (error) {
+      throw this.normalizeWriteError(error, input.name ?? existing.name);
+    }
+  }
+
+  /**
+   * Delete a mapping profile owned by the user
+   */
+  async deleteProfile(profileId: string, userId: string): Promise<void> {
+    await this.getProfile(profileId, userId);
+    await prisma.importMappingProfile.delete({ where: { id: profileId } });
+
+    logger.info('ColumnMappingService: Deleted mapping profile', { profileId, userId });
+  }
+
+  /**
+   * Resolve the mappings to apply for an import.
+   * Inline mappings override the selected profile column by column; without either,
+   * the user's default profile for the entity is used.
+   */
+  async resolveMappings(
+    userId: string,
+    entityType: ImportEntityType,
+    options: ResolveColumnMappingsOptions = {}
+  ): Promise<ColumnMapping[] | undefined> {
+    let profile: ColumnMappingProfile | null = null;
+
+    if (options.mappingProfileId) {
+      profile = await this.getProfile(options.mappingProfileId, userId);
+      if (profile.entityType !== entityType) {
+        throw new ValidationError(
+          `Mapping profile "${profile.name}" is for ${profile.entityType}, not ${entityType}`
+        );
+      }
+    } else if (!options.columnMappings?.length) {
+      const defaultProfile = await prisma.importMappingProfile.findFirst({
+        where: { userId, entityType, isDefault: true },
+      });
+      profile = defaultProfile ? this.toProfile(defaultProfile) : null;
+    }
+
+    if (options.columnMappings?.length) {
+      this.assertValidMappings(entityType, options.columnMappings);
+    }
+
+    const inline = options.columnMappings || [];
+    const overridden = new Set(inline.map(mapping => normalizeColumnName(mapping.sourceColumn)));
+    const mappings = [
+      ...(profile?.mappings || []).filter(mapping => !overridden.has(normalizeColumnName(mapping.sourceColumn))),
+      ...inline,
+    ];
+
+    if (profile) {
+      await prisma.importMappingProfile.update({
+        where: { id: profile.id },
+        data: { lastUsedAt: new Date() },
+      });
+    }
+
+    return mappings.length > 0 ? mappings : undefined;
+  }
+
+  /**
+   * Check mappings against the entity's target fields
+   */
+  validateMappings(entityType: ImportEntityType, mappings: ColumnMapping[]): string[] {
+    const errors: string[] = [];
+    const targetFields = IMPORT_TARGET_FIELDS[entityType];
+    const seenSources = new Set<string>();
+    const seenTargets = new Set<string>();
+
+    for (const mapping of mappings) {
+      const source = normalizeColumnName(mapping.sourceColumn);
+
+      if (!source) {
+        errors.push('Source column is required');
+        continue;
+      }
+
+      if (!targetFields.includes(mapping.targetField)) {
+        errors.push(`Unknown ${entityType} field "${mapping.targetField}" for column "${mapping.sourceColumn}"`);
+      }
+
+      if (seenSources.has(source)) {
+        errors.push(`Column "${mapping.sourceColumn}" is mapped more than once`);
+      }
+
+      if (seenTargets.has(mapping.targetField)) {
+        errors.push(`Field "${mapping.targetField}" is mapped from more than one column`);
+      }
+
+      if (mapping.dateFormat && !mapping.transforms?.includes('date')) {
+        errors.push(`Column "${mapping.sourceColumn}" has a date format but no date transform`);
+      }
+
+      seenSources.add(source);
+      seenTargets.add(mapping.targetField);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Rename mapped columns to their target fields and apply value transforms.
+   * Columns without a mapping are passed through untouched.
+   */
+  applyMappings(row: Record<string, unknown>, mappings: ColumnMapping[]): Record<string, unknown> {
+    const output: Record<string, unknown> = { ...row };
+    const keysByColumn = new Map(Object.keys(row).map(key => [normalizeColumnName(key), key]));
+
+    for (const mapping of mappings) {
+      const sourceKey = keysByColumn.get(normalizeColumnName(mapping.sourceColumn));
+      if (sourceKey === undefined) continue;
+
+      const value = this.transformValue(row[sourceKey], mapping);
+      delete output[sourceKey];
+      output[mapping.targetField] = value;
+    }
+
+    return output;
+  }
+
+  /**
+   * Apply a mapping's transforms to a single cell value
+   */
+  transformValue(value: unknown, mapping: Pick<ColumnMapping, 'transforms' | 'dateFormat'>): unknown {
+    if (value === null || value === undefined) return value;
+
+    let result: unknown = value;
+
+    for (const transform of mapping.transforms || []) {
+      const text = String(result);
+
+      switch (transform) {
+        case 'trim':
+          result = text.trim();
+          break;
+        case 'upper':
+          result = text.toUpperCase();
+          break;
+        case 'lower':
+          result = text.toLowerCase();
+          break;
+        case 'title':
+          result = text.toLowerCase().replace(/\b\w/g, char => char.toUpperCase());
+          break;
+        case 'collapse_whitespace':
+          result = text.replace(/\s+/g, ' ').trim();
+          break;
+        case 'number': {
+          const numeric = Number(text.replace(/[^0-9.-]/g, ''));
+          result = text.trim() === '' || isNaN(numeric) ? '' : numeric;
+          break;
+        }
+        case 'boolean':
+          result = ['true', '1', 'yes', 'y', 'active', 'enabled'].includes(text.toLowerCase().trim());
+          break;
+        case 'date':
+          result = this.parseDate(text, mapping.dateFormat) ?? result;
+          break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Suggest a target field for each header.
+   * Columns from saved profiles win, then exact field names, then header similarity.
+   */
+  suggestMappings(
+    entityType: ImportEntityType,
+    headers: string[],
+    profiles: ColumnMappingProfile[] = []
+  ): ColumnMappingSuggestion[] {
+    const savedMappings = new Map<string, ColumnMapping>();
+    for (const profile of profiles.filter(p => p.entityType === entityType)) {
+      for (const mapping of profile.mappings) {
+        const key = normalizeColumnName(mapping.sourceColumn);
+        if (!savedMappings.has(key)) {
+          savedMappings.set(key, mapping);
+        }
+      }
+    }
+
+    const candidates: ColumnMappingSuggestion[] = [];
+    for (const header of headers) {
+      const saved = savedMappings.get(normalizeColumnName(header));
+      if (saved) {
+        candidates.push({
+          sourceColumn: header,
+          targetField: saved.targetField,
+          confidence: 1,
+          matchedBy: 'profile',
+          transforms: saved.transforms,
+          dateFormat: saved.dateFormat,
+        });
+        continue;
+      }
+
+      for (const field of IMPORT_TARGET_FIELDS[entityType]) {
+        const score = this.scoreHeader(header, field);
+        if (score >= SUGGESTION_THRESHOLD) {
+          candidates.push({
+            sourceColumn: header,
+            targetField: field,
+            confidence: Math.round(score * 100) / 100,
+            matchedBy: score === 1 ? 'exact' : 'similarity',
+          });
+        }
+      }
+    }
+
+    // Greedily assign the strongest matches so each header and field is used once
+    const assigned = new Map<string, ColumnMappingSuggestion>();
+    const usedFields = new Set<string>();
+    const priority = { profile: 3, exact: 2, similarity: 1, none: 0 };
+
+    candidates
+      .sort((a, b) => b.confidence - a.confidence || priority[b.matchedBy] - priority[a.matchedBy])
+      .forEach(candidate => {
+        if (assigned.has(candidate.sourceColumn) || usedFields.has(candidate.targetField!)) return;
+        assigned.set(candidate.sourceColumn, candidate);
+        usedFields.add(candidate.targetField!);
+      });
+
+    return headers.map(header => assigned.get(header) ?? {
+      sourceColumn: header,
+      targetField: null,
+      confidence: 0,
+      matchedBy: 'none',
+    });
+  }
+
+  /**
+   * Rank saved profiles by how many of their source columns appear in the headers
+   */
+  rankProfiles(headers: string[], profiles: ColumnMappingProfile[]): ColumnMappingProfileMatch[] {
+    const available = new Set(headers.map(normalizeColumnName));
+
+    return profiles
+      .map(profile => {
+        const matchedColumns = profile.mappings.filter(mapping =>
+          available.has(normalizeColumnName(mapping.sourceColumn))
+        ).length;
+
+        return {
+          profileId: profile.id,
+          name: profile.name,
+          matchedColumns,
+          coverage: profile.mappings.length > 0
+            ? Math.round((matchedColumns / profile.mappings.length) * 100) / 100
+            : 0,
+        };
+      })
+      .filter(match => match.matchedColumns > 0)
+      .sort((a, b) => b.coverage - a.coverage || b.matchedColumns - a.matchedColumns);
+  }
+
+  /**
+   * Score how closely a header resembles a target field name
+   */
+  private scoreHeader(header: string, field: string): number {
+    const a = normalizeColumnName(header);
+    const b = normalizeColumnName(field);
+
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+
+    // Prefixed or suffixed variants, e.g. "company_name" -> name, "cost" -> currentCost
+    if (b.length >= 4 && (a.endsWith(b) || a.startsWith(b))) return 0.85;
+    if (a.length >= 4 && (b.endsWith(a) || b.startsWith(a))) return 0.75;
+
+    return this.diceCoefficient(a, b);
+  }
+
+  /**
+   * Sorensen-Dice similarity over character bigrams
+   */
+  private diceCoefficient(a: string, b: string): number {
+    if (a.length < 2 || b.length < 2) return 0;
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+      const bigram = a.slice(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    let overlap = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+      const bigram = b.slice(i, i + 2);
+      const count = bigrams.get(bigram) || 0;
+      if (count > 0) {
+        bigrams.set(bigram, count - 1);
+        overlap++;
+      }
+    }
+
+    return (2 * overlap) / (a.length + b.length - 2);
+  }
+
+  /**
+   * Parse a date string in the given format into YYYY-MM-DD
+   */
+  private parseDate(value: string, format?: ColumnDateFormat): string | null {
+    const text = value.trim();
+    if (!text) return null;
+
+    const patterns: Record<ColumnDateFormat, { regex: RegExp; order: [number, number, number] }> = {
+      'YYYY-MM-DD': { regex: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: [1, 2, 3] },
+      'MM/DD/YYYY': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: [3, 1, 2] },
+      'DD/MM/YYYY': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: [3, 2, 1] },
+      'DD.MM.YYYY': { regex: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, order: [3, 2, 1] },
+      'YYYYMMDD': { regex: /^(\d{4})(\d{2})(\d{2})$/, order: [1, 2, 3] },
+    };
+
+    if (format) {
+      const { regex, order } = patterns[format];
+      const match = text.match(regex);
+      if (!match) return null;
+
+      const [year, month, day] = order.map(index => Number(match[index]));
+      const date = new Date(Date.UTC(year, month - 1, day));
+      if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+      }
+      return date.toISOString().slice(0, 10);
+    }
+
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+  }
+
+  private assertValidMappings(entityType: ImportEntityType, mappings: ColumnMapping[]) {
+    const errors = this.validateMappings(entityType, mappings);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid column mappings', errors);
+    }
+  }
+
+  private normalizeWriteError(error: unknown, name: string): unknown {
+    if (isUniqueConstraintError(error)) {
+      return new ConflictError(`A mapping profile named "${name}" already exists`);
+    }
+    return error;
+  }
+
+  private toProfile(record: Prisma.ImportMappingProfileGetPayload<object>): ColumnMappingProfile {
+    return {
+      ...record,
+      entityType: record.entityType as ImportEntityType,
+      mappings: Array.isArray(record.mappings) ? (record.mappings as unknown as ColumnMapping[]) : [],
+    };
+  }
+}
+
+// Singleton instance
+let columnMappingService: ColumnMappingService | null = null;
+
+export function getColumnMappingService(): ColumnMappingService {
+  if (!columnMappingService) {
+    columnMappingService = new ColumnMappingService();
+  }
+  return columnMappingService;
+}
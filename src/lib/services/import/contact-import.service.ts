@@ -0,0 +1,869 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+
+import { normalizeDomain } from './account-matching.service';
+import { ColumnMapping, resolveTargetField } from './column-mapping.service';
+import { FieldLineageOrigin, getFieldLineageService } from './field-lineage.service';
+import { getImportCheckpointService } from './import-checkpoint.service';
+import {
+  createImportDelta,
+  getImportDeltaService,
+  hashImportRow,
+  ImportDelta,
+  isUnchangedRecord,
+} from './import-delta.service';
+import {
+  createImportPlan,
+  diffFields,
+  ImportPlan,
+  ImportPlanLink,
+  recordPlanEntry,
+  recordPlanOrphan,
+} from './import-plan';
+import { getImportRejectionService } from './import-rejection.service';
+import { getImportSnapshotService } from './import-snapshot.service';
+import { ImportSource, ImportSourceRow, readImportBatches } from './import-source';
+import {
+  evaluateValidationRules,
+  getImportValidationRuleService,
+  ImportValidationRule,
+} from './import-validation-rule.service';
+
+export interface ContactImportData {
+  name: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  title?: string;
+  department?: string;
+  linkedIn?: string;
+  accountId?: string;
+  accountNumber?: string;
+  accountDomain?: string;
+  metadata?: Prisma.InputJsonObject; // Columns with no contact field
+}
+
+export interface ContactImportOptions {
+  skipDuplicates?: boolean;
+  updateExisting?: boolean;
+  batchSize?: number;
+  linkByEmailDomain?: boolean; // Link to the account whose domain matches a work email
+  incremental?: boolean; // Leave contacts whose row content has not changed since the last import untouched
+  fullSnapshot?: boolean; // The file holds every contact; flag imported contacts it no longer contains
+  sheetName?: string; // Worksheet to read when importing from an Excel workbook
+  recordPath?: string; // Dotted path to the records when importing JSON, e.g. "data.items"
+  columnMappings?: ColumnMapping[]; // Resolved mapping profile applied before field transformation
+  dryRun?: boolean; // Build an import plan instead of writing
+  maxPlanRecords?: number; // Cap on records listed per plan section
+  pendingAccounts?: Array<{ name: string; accountNumber?: string; domain?: string }>; // Accounts a batch dry run would create first
+  jobId?: string; // Processing job that records undo snapshots and resume checkpoints
+  sourceSize?: number; // Byte length of a streamed source, for progress
+}
+
+export interface ContactImportResult {
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  duplicates: number;
+  errors: Array<{
+    row: number;
+    contact: string;
+    error: string;
+  }>;
+  warnings: Array<{
+    row: number;
+    contact: string;
+    warning: string;
+  }>;
+  contactIds: string[];
+  delta?: ImportDelta; // New, changed, unchanged and removed rows of incremental and full-snapshot imports
+  processingTime: number;
+  plan?: ImportPlan;
+}
+
+export interface ContactImportProgress {
+  stage: 'parsing' | 'validation' | 'importing' | 'completed';
+  processed: number;
+  total: number;
+  currentContact?: string;
+  bytesRead?: number; // Source bytes read so far, while streaming
+  totalBytes?: number; // Source size, when known
+  errors: number;
+  warnings: number;
+}
+
+interface LinkedAccount {
+  id: string;
+  name: string;
+}
+
+// Accounts already looked up during one import, keyed by reference
+type AccountLookupCache = Map<string, LinkedAccount | null>;
+
+// Personal mailbox providers never identify the contact's company
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com', 'msn.com',
+  'aol.com', 'icloud.com', 'me.com', 'proton.me', 'protonmail.com', 'gmx.com', 'mail.com',
+]);
+
+// Source column names mapped onto contact fields, besides the field names themselves
+export const CONTACT_COLUMN_ALIASES: Record<string, string> = {
+  'contact_name': 'name',
+  'full_name': 'name',
+  'first_name': 'firstName',
+  'last_name': 'lastName',
+  'email_address': 'email',
+  'contact_email': 'email',
+  'job_title': 'title',
+  'linkedin': 'linkedIn',
+  'linkedin_url': 'linkedIn',
+  'account_id': 'accountId',
+  'account_number': 'accountNumber',
+  'account_domain': 'accountDomain',
+  'company_domain': 'accountDomain',
+  'domain': 'accountDomain',
+};
+
+const CONTACT_WRITE_FIELDS = ['name', 'email', 'title', 'department', 'linkedIn', 'metadata'];
+
+export class ContactImportService {
+  private readonly snapshotService = getImportSnapshotService();
+  private readonly checkpointService = getImportCheckpointService();
+  private readonly rejectionService = getImportRejectionService();
+  private readonly deltaService = getImportDeltaService();
+  private readonly validationRuleService = getImportValidationRuleService();
+  private readonly lineageService = getFieldLineageService();
+
+  /**
+   * Import contacts from a CSV or Excel source. Each contact is linked to an existing
+   * account by account id, account number, account domain or the domain of its email.
+   */
+  async importFromCsv(
+    source: ImportSource,
+    fileName: string,
+    options: ContactImportOptions = {},
+    onProgress?: (progress: ContactImportProgress) => void
+  ): Promise<ContactImportResult> {
+    const startTime = Date.now();
+    const result: ContactImportResult = {
+      total: 0,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      duplicates: 0,
+      errors: [],
+      warnings: [],
+      contactIds: [],
+      processingTime: 0,
+    };
+
+    try {
+      // Stage 1: Open the source
+      onProgress?.({
+        stage: 'parsing',
+        processed: 0,
+        total: 0,
+        errors: 0,
+        warnings: 0,
+      });
+
+      const plan = options.dryRun ? createImportPlan('contacts', options.maxPlanRecords) : undefined;
+      const planSeen = new Map<string, number>();
+      const accountCache: AccountLookupCache = new Map();
+      const delta = !plan && (options.incremental || options.fullSnapshot) ? createImportDelta() : undefined;
+      const seenIds: string[] = [];
+
+      // Resume after the last batch an interrupted attempt committed
+      const checkpoint = plan
+        ? null
+        : await this.checkpointService.beginStage<ContactImportResult['warnings'][number]>(options.jobId, 'contacts');
+      if (checkpoint) {
+        result.created = checkpoint.counters.created || 0;
+        result.updated = checkpoint.counters.updated || 0;
+        result.skipped = checkpoint.counters.skipped || 0;
+        result.failed = checkpoint.counters.failed || 0;
+        result.duplicates = checkpoint.counters.duplicates || 0;
+        result.contactIds.push(...await this.snapshotService.getRecordIds(options.jobId, 'contacts'));
+        for (const { row, data, error } of await this.rejectionService.getRejectedErrors(options.jobId, 'contacts')) {
+          result.errors.push({ row, contact: data.name || data.email || `Row ${row}`, error });
+        }
+        result.warnings.push(...(checkpoint.warnings || []));
+        if (delta) delta.unchanged = checkpoint.counters.unchanged || 0;
+      }
+      // Only the first batch after a checkpoint can hold rows an interrupted attempt already wrote
+      let replay = !!checkpoint;
+
+      // Rules configured for contacts through the validation rules API
+      const rules = await this.validationRuleService.getActiveRules('contacts');
+
+      // Recorded against every field the import writes
+      const origin: FieldLineageOrigin = { source: 'import', sourceFile: fileName, jobId: options.jobId };
+
+      // Stages 2 and 3: Validate and import each batch as it is read
+      const batches = readImportBatches(source, fileName, {
+        batchSize: options.batchSize || 50,
+        sheetName: options.sheetName,
+        recordPath: options.recordPath,
+        columnMappings: options.columnMappings,
+        totalBytes: options.sourceSize,
+      });
+
+      for await (const batch of batches) {
+        result.total += batch.rows.length;
+        const pending = checkpoint
+          ? batch.rows.filter(({ rowNumber }) => rowNumber > checkpoint.lastCommittedRow)
+          : batch.rows;
+        if (checkpoint && options.fullSnapshot && pending.length < batch.rows.length) {
+          // Rows an interrupted attempt committed still count as present in the snapshot
+          const committed = batch.rows.filter(({ rowNumber }) => rowNumber <= checkpoint.lastCommittedRow);
+          seenIds.push(...await this.deltaService.resolveSeenIds(committed, row => this.findExistingContactId(row, options, accountCache)));
+        }
+        if (pending.length === 0) continue;
+
+        const errorsBefore = result.errors.length;
+        const validContacts: ContactImportData[] = [];
+        const validRowNumbers: number[] = [];
+        for (const { row, rowNumber } of pending) {
+          try {
+            const contactData = this.transformCsvRow(row);
+            const validation = this.validateContactData(contactData, rowNumber, rules);
+
+            if (validation.errors.length > 0) {
+              result.errors.push(...validation.errors);
+              result.failed++;
+            } else {
+              validContacts.push(contactData);
+              validRowNumbers.push(rowNumber);
+              if (validation.warnings.length > 0) {
+                result.warnings.push(...validation.warnings);
+              }
+            }
+          } catch (error) {
+            result.errors.push({
+              row: rowNumber,
+              contact: String(row.name || row.email || `Row ${rowNumber}`),
+              error: error instanceof Error ? error.message : 'Unknown validation error',
+            });
+            result.failed++;
+          }
+        }
+
+        if (plan) {
+          // Dry run: add the batch to the plan instead of writing it
+          await this.planContactImport(validContacts, validRowNumbers, options, plan, planSeen, accountCache);
+        } else {
+          const batchResult = await this.importContactBatch(
+            validContacts,
+            validRowNumbers,
+            options,
+            accountCache,
+            origin,
+            replay
+          );
+          replay = false;
+
+          result.created += batchResult.created;
+          result.updated += batchResult.updated;
+          result.skipped += batchResult.skipped;
+          result.failed += batchResult.failed;
+          result.duplicates += batchResult.duplicates;
+          result.contactIds.push(...batchResult.contactIds);
+          result.errors.push(...batchResult.errors);
+          if (delta) delta.unchanged += batchResult.unchanged;
+          if (options.fullSnapshot) {
+            // Rejected rows are still in the file: the records they match are not missing
+            const unresolved = new Set(result.errors.slice(errorsBefore).map(({ row }) => row));
+            seenIds.push(...batchResult.seenIds, ...await this.deltaService.resolveSeenIds(
+              pending.filter(({ rowNumber }) => unresolved.has(rowNumber)),
+              row => this.findExistingContactId(row, options, accountCache)
+            ));
+          }
+
+          await this.rejectionService.recordRejectedRows(
+            options.jobId,
+            'contacts',
+            pending,
+            result.errors.slice(errorsBefore)
+          );
+          await this.checkpointService.saveCheckpoint(options.jobId, 'contacts', {
+            lastCommittedRow: pending[pending.length - 1].rowNumber,
+            counters: {
+              created: result.created,
+              updated: result.updated,
+              skipped: result.skipped,
+              failed: result.failed,
+              duplicates: result.duplicates,
+              unchanged: delta?.unchanged || 0,
+            },
+            warnings: result.warnings,
+          }, batch.totalBytes ? (batch.bytesRead / batch.totalBytes) * 100 : 0);
+        }
+
+        onProgress?.({
+          stage: plan ? 'validation' : 'importing',
+          processed: result.total,
+          total: result.total,
+          currentContact: validContacts[validContacts.length - 1]?.name,
+          bytesRead: batch.bytesRead,
+          totalBytes: batch.totalBytes,
+          errors: result.errors.length,
+          warnings: result.warnings.length,
+        });
+      }
+
+      // Rows replayed after a checkpoint report contacts the snapshots already listed
+      if (checkpoint) result.contactIds = [...new Set(result.contactIds)];
+
+      logger.info(`ContactImportService: Read ${result.total} contacts`, {
+        fileName,
+        total: result.total,
+      });
+
+      // Dry run: report what would be written and stop
+      if (plan) {
+        result.plan = plan;
+        result.plan.summary.total = result.total;
+        result.plan.summary.invalid = result.failed;
+      } else {
+        if (delta) {
+          delta.new = result.created;
+          delta.changed = result.updated;
+          if (options.fullSnapshot) {
+            await this.deltaService.flagMissingRecords(
+              options.jobId,
+              'contacts',
+              [...result.contactIds, ...seenIds],
+              delta
+            );
+          }
+          result.delta = delta;
+        }
+        await this.checkpointService.completeStage(options.jobId, 'contacts');
+      }
+
+      onProgress?.({
+        stage: 'completed',
+        processed: result.total,
+        total: result.total,
+        errors: result.errors.length,
+        warnings: result.warnings.length,
+      });
+
+      result.processingTime = Date.now() - startTime;
+
+      logger.info('ContactImportService: Import completed', {
+        fileName,
+        dryRun: !!plan,
+        result: {
+          total: result.total,
+          created: result.created,
+          updated: result.updated,
+          failed: result.failed,
+          processingTime: result.processingTime,
+        },
+      });
+
+      return result;
+
+    } catch (error) {
+      logger.error('ContactImportService: Import failed', {
+        fileName,
+        error: error instanceof Error ? error : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Transform and validate one source row without importing it
+   */
+  validateRow(row: Record<string, unknown>, rowNumber: number, rules: ImportValidationRule[] = []) {
+    const data = this.transformCsvRow(row);
+    return { data, ...this.validateContactData(data, rowNumber, rules) };
+  }
+
+  /**
+   * Id of the existing contact a source row matches
+   */
+  private async findExistingContactId(
+    { row }: ImportSourceRow,
+    options: ContactImportOptions,
+    accountCache: AccountLookupCache
+  ): Promise<string | undefined> {
+    const data = this.transformCsvRow(row);
+    const link = await this.resolveAccount(data, options, accountCache);
+    if (!link) return undefined;
+
+    return (await this.matchExistingContact(data, link.account.id))?.contact.id;
+  }
+
+  /**
+   * Transform CSV row to ContactImportData
+   */
+  private transformCsvRow(row: Record<string, unknown>): ContactImportData {
+    const contactData: ContactImportData = {
+      name: '', // Required field
+    };
+    const additionalFields: Record<string, Prisma.InputJsonValue> = {};
+
+    for (const [csvKey, value] of Object.entries(row)) {
+      if (value === null || value === undefined || value === '') continue;
+
+      const normalizedKey = csvKey.toLowerCase().trim();
+      const mappedKey = CONTACT_COLUMN_ALIASES[normalizedKey] || resolveTargetField('contacts', csvKey);
+
+      if (mappedKey) {
+        (contactData as unknown as Record<string, string>)[mappedKey] = String(value).trim();
+      } else {
+        additionalFields[csvKey] = value as Prisma.InputJsonValue;
+      }
+    }
+
+    if (!contactData.name && (contactData.firstName || contactData.lastName)) {
+      contactData.name = [contactData.firstName, contactData.lastName].filter(Boolean).join(' ');
+    }
+
+    if (contactData.email) {
+      contactData.email = contactData.email.toLowerCase();
+    }
+
+    if (contactData.accountDomain) {
+      contactData.accountDomain = normalizeDomain(contactData.accountDomain);
+    }
+
+    if (Object.keys(additionalFields).length > 0) {
+      contactData.metadata = additionalFields;
+    }
+
+    return contactData;
+  }
+
+  /**
+   * Validate contact data
+   */
+  private validateContactData(
+    data: ContactImportData,
+    rowNumber: number,
+    rules: ImportValidationRule[] = []
+  ): {
+    errors: Array<{ row: number; contact: string; error: string }>;
+    warnings: Array<{ row: number; contact: string; warning: string }>;
+  } {
+    const errors: Array<{ row: number; contact: string; error: string }> = [];
+    const warnings: Array<{ row: number; contact: string; warning: string }> = [];
+    const contactName = data.name || data.email || `Row ${rowNumber}`;
+
+    // Required field validation
+    if (!data.name || data.name.trim().length === 0) {
+      errors.push({
+        row: rowNumber,
+        contact: contactName,
+        error: 'Contact name is required',
+      });
+    }
+
+    if (!data.accountId && !data.accountNumber && !data.accountDomain && !data.email) {
+      errors.push({
+        row: rowNumber,
+        contact: contactName,
+        error: 'An account id, account number, account domain or email is required to link the contact',
+      });
+    }
+
+    // Email validation
+    if (data.email && !this.isValidEmail(data.email)) {
+      warnings.push({
+        row: rowNumber,
+        contact: contactName,
+        warning: `Invalid email format: ${data.email}`,
+      });
+    }
+
+    // Business rule validations
+    if (data.name && data.name.length > 255) {
+      errors.push({
+        row: rowNumber,
+        contact: contactName,
+        error: 'Contact name exceeds maximum length (255 characters)',
+      });
+    }
+
+    for (const violation of evaluateValidationRules(rules, data)) {
+      if (violation.severity === 'error') {
+        errors.push({ row: rowNumber, contact: contactName, error: violation.message });
+      } else {
+        warnings.push({ row: rowNumber, contact: contactName, warning: violation.message });
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Import a batch of contacts
+   */
+  private async importContactBatch(
+    contacts: ContactImportData[],
+    rowNumbers: number[],
+    options: ContactImportOptions,
+    accountCache: AccountLookupCache,
+    origin: FieldLineageOrigin,
+    replay = false
+  ): Promise<Omit<ContactImportResult, 'total' | 'processingTime' | 'warnings'> & { unchanged: number; seenIds: string[] }> {
+    const result = {
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      duplicates: 0,
+      unchanged: 0,
+      errors: [] as Array<{ row: number; contact: string; error: string }>,
+      contactIds: [] as string[],
+      seenIds: [] as string[], // Matched contacts this batch did not write
+    };
+
+    for (let i = 0; i < contacts.length; i++) {
+      const contactData = contacts[i];
+      const row = rowNumbers[i];
+
+      try {
+        const link = await this.resolveAccount(contactData, options, accountCache);
+        if (!link) {
+          result.errors.push({
+            row,
+            contact: contactData.name,
+            error: `No account found for ${this.describeAccountReference(contactData)}`,
+          });
+          result.failed++;
+          continue;
+        }
+
+        // Check for existing contact
+        const match = await this.matchExistingContact(contactData, link.account.id);
+        const existingContact = match?.contact;
+        const writeData = this.buildContactWriteData(contactData);
+        const importHash = hashImportRow({ ...writeData, accountId: link.account.id });
+
+        // A replayed row this job already wrote is counted as before, not written again
+        const recorded = existingContact && replay
+          ? await this.snapshotService.getRecordedAction(options.jobId, 'contacts', existingContact.id)
+          : null;
+
+        if (existingContact && recorded) {
+          result[recorded]++;
+          result.contactIds.push(existingContact.id);
+        } else if (existingContact) {
+          if (options.updateExisting && options.incremental && isUnchangedRecord(existingContact, importHash)) {
+            // Same content as the row that last wrote it: no write
+            result.unchanged++;
+            result.seenIds.push(existingContact.id);
+          } else if (options.updateExisting) {
+            await this.snapshotService.recordUpdated(
+              options.jobId,
+              'contacts',
+              existingContact,
+              [...Object.keys(writeData), 'accountId', 'importHash', 'missingFromImportAt', 'updatedAt']
+            );
+            const updated = await prisma.contact.update({
+              where: { id: existingContact.id },
+              data: {
+                ...writeData,
+                accountId: link.account.id,
+                importHash,
+                missingFromImportAt: null,
+                updatedAt: new Date(),
+              },
+            });
+            await this.lineageService.recordFields(
+              'contacts',
+              updated.id,
+              { ...writeData, accountId: link.account.id },
+              { ...origin, rowNumber: row }
+            );
+            result.updated++;
+            result.contactIds.push(updated.id);
+          } else if (options.skipDuplicates) {
+            result.skipped++;
+            result.duplicates++;
+            result.seenIds.push(existingContact.id);
+          } else {
+            result.seenIds.push(existingContact.id);
+            result.errors.push({
+              row,
+              contact: contactData.name,
+              error: match?.matchedBy === 'email'
+                ? `Contact with email ${contactData.email} already exists`
+                : 'Contact already exists for this account',
+            });
+            result.failed++;
+          }
+        } else {
+          const created = await prisma.contact.create({
+            data: {
+              ...writeData,
+              accountId: link.account.id,
+              importHash,
+            },
+          });
+          await this.snapshotService.recordCreated(options.jobId, 'contacts', created.id);
+          await this.lineageService.recordFields(
+            'contacts',
+            created.id,
+            { ...writeData, accountId: link.account.id },
+            { ...origin, rowNumber: row }
+          );
+          result.created++;
+          result.contactIds.push(created.id);
+        }
+      } catch (error) {
+        result.errors.push({
+          row,
+          contact: contactData.name,
+          error: error instanceof Error ? error.message : 'Unknown database error',
+        });
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Add a batch to a dry-run plan; `seen` carries in-file duplicate detection across batches
+   */
+  private async planContactImport(
+    contacts: ContactImportData[],
+    rowNumbers: number[],
+    options: ContactImportOptions,
+    plan: ImportPlan,
+    seen: Map<string, number>,
+    accountCache: AccountLookupCache
+  ): Promise<void> {
+    for (let i = 0; i < contacts.length; i++) {
+      const contactData = contacts[i];
+      const row = rowNumbers[i];
+      const key = contactData.email || contactData.name;
+
+      if (contactData.email && seen.has(contactData.email)) {
+        recordPlanEntry(plan, {
+          row,
+          key,
+          action: 'conflict',
+          matchedBy: 'email',
+          reason: `Duplicate of row ${seen.get(contactData.email)} in this file`,
+        });
+        continue;
+      }
+      if (contactData.email) seen.set(contactData.email, row);
+
+      const accountLink = await this.planAccountLink(contactData, options, accountCache);
+      if (!accountLink) {
+        recordPlanOrphan(plan, {
+          row,
+          key,
+          reference: this.describeAccountReference(contactData),
+          reason: 'No matching account; the contact will not be imported',
+        });
+        continue;
+      }
+
+      const match = accountLink.id ? await this.matchExistingContact(contactData, accountLink.id) : null;
+      const writeData = this.buildContactWriteData(contactData);
+
+      if (!match) {
+        recordPlanEntry(plan, {
+          row,
+          key,
+          action: 'create',
+          links: [accountLink],
+          data: { ...writeData, accountId: accountLink.id },
+        });
+      } else if (options.updateExisting) {
+        const changes = diffFields(match.contact, { ...writeData, accountId: accountLink.id });
+        recordPlanEntry(plan, {
+          row,
+          key,
+          action: changes.length > 0 ? 'update' : 'unchanged',
+          existingId: match.contact.id,
+          matchedBy: match.matchedBy,
+          changes,
+          links: [accountLink],
+        });
+      } else {
+        recordPlanEntry(plan, {
+          row,
+          key,
+          action: options.skipDuplicates ? 'skip' : 'conflict',
+          existingId: match.contact.id,
+          matchedBy: match.matchedBy,
+          reason: 'Contact already exists',
+        });
+      }
+    }
+  }
+
+  /**
+   * Resolve the account a contact would link to, including accounts a batch dry run creates first
+   */
+  private async planAccountLink(
+    data: ContactImportData,
+    options: ContactImportOptions,
+    accountCache: AccountLookupCache
+  ): Promise<ImportPlanLink | null> {
+    const link = await this.resolveAccount(data, options, accountCache);
+    if (link) {
+      return { entityType: 'accounts', key: link.account.name, status: 'existing', id: link.account.id };
+    }
+
+    const emailDomain = this.getEmailDomain(data.email, options);
+    const pending = (options.pendingAccounts || []).find(candidate =>
+      (data.accountNumber && candidate.accountNumber === data.accountNumber) ||
+      (candidate.domain && [data.accountDomain, emailDomain].includes(normalizeDomain(candidate.domain)))
+    );
+
+    return pending ? { entityType: 'accounts', key: pending.name, status: 'pending' } : null;
+  }
+
+  /**
+   * Find the account a contact belongs to: by id, account number, account domain, then email domain
+   */
+  private async resolveAccount(
+    data: ContactImportData,
+    options: ContactImportOptions,
+    accountCache: AccountLookupCache
+  ): Promise<{ account: LinkedAccount; matchedBy: string } | null> {
+    const references: Array<[string, string | undefined]> = [
+      ['accountId', data.accountId],
+      ['accountNumber', data.accountNumber],
+      ['domain', data.accountDomain],
+      ['emailDomain', this.getEmailDomain(data.email, options)],
+    ];
+
+    for (const [matchedBy, value] of references) {
+      if (!value) continue;
+
+      const cacheKey = `${matchedBy}:${value}`;
+      if (!accountCache.has(cacheKey)) {
+        accountCache.set(cacheKey, await this.findAccount(matchedBy, value));
+      }
+
+      const account = accountCache.get(cacheKey);
+      if (account) return { account, matchedBy };
+    }
+
+    return null;
+  }
+
+  private async findAccount(matchedBy: string, value: string): Promise<LinkedAccount | null> {
+    const select = { id: true, name: true };
+
+    switch (matchedBy) {
+      case 'accountId':
+        return prisma.companyAccount.findUnique({ where: { id: value }, select });
+      case 'accountNumber':
+        return prisma.companyAccount.findUnique({ where: { accountNumber: value }, select });
+      default:
+        return prisma.companyAccount.findUnique({ where: { domain: value }, select });
+    }
+  }
+
+  /**
+   * Find an existing contact by email, or by name within the account when there is no email
+   */
+  private async matchExistingContact(data: ContactImportData, accountId: string) {
+    if (data.email) {
+      const existing = await prisma.contact.findFirst({
+        where: { email: { equals: data.email, mode: 'insensitive' } },
+      });
+      return existing ? { contact: existing, matchedBy: 'email' } : null;
+    }
+
+    const existing = await prisma.contact.findFirst({
+      where: {
+        accountId,
+        email: null,
+        name: { equals: data.name, mode: 'insensitive' },
+      },
+    });
+    return existing ? { contact: existing, matchedBy: 'name' } : null;
+  }
+
+  private buildContactWriteData(data: ContactImportData) {
+    const writeData: Record<string, unknown> = {};
+    for (const field of CONTACT_WRITE_FIELDS) {
+      const value = (data as unknown as Record<string, unknown>)[field];
+      if (value !== undefined) writeData[field] = value;
+    }
+    return writeData as Pick<ContactImportData, 'name' | 'email' | 'title' | 'department' | 'linkedIn' | 'metadata'>;
+  }
+
+  /**
+   * The company domain of a work email; personal mailboxes have none
+   */
+  private getEmailDomain(email: string | undefined, options: ContactImportOptions): string | undefined {
+    if (!email || options.linkByEmailDomain === false) return undefined;
+
+    const domain = email.split('@')[1];
+    return domain && !FREE_EMAIL_DOMAINS.has(domain) ? normalizeDomain(domain) : undefined;
+  }
+
+  private describeAccountReference(data: ContactImportData): string {
+    if (data.accountId) return `account ${data.accountId}`;
+    if (data.accountNumber) return `account number ${data.accountNumber}`;
+    if (data.accountDomain) return `domain ${data.accountDomain}`;
+    return `email ${data.email}`;
+  }
+
+  /**
+   * Validate email format
+   */
+  private isValidEmail(email: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+  }
+
+  /**
+   * Get import statistics
+   */
+  async getImportStats(timeRange: 'day' | 'week' | 'month' = 'day') {
+    const now = new Date();
+    const startDate = new Date();
+
+    switch (timeRange) {
+      case 'day':
+        startDate.setDate(now.getDate() - 1);
+        break;
+      case 'week':
+        startDate.setDate(now.getDate() - 7);
+        break;
+      case 'month':
+        startDate.setMonth(now.getMonth() - 1);
+        break;
+    }
+
+    const [totalContacts, contactsWithEmail] = await Promise.all([
+      prisma.contact.count({ where: { createdAt: { gte: startDate } } }),
+      prisma.contact.count({ where: { createdAt: { gte: startDate }, email: { not: null } } }),
+    ]);
+
+    return {
+      totalContacts,
+      contactsWithEmail,
+      timeRange,
+    };
+  }
+}
+
+// Singleton instance
+let contactImportService: ContactImportService | null = null;
+
+export function getContactImportService(): ContactImportService {
+  if (!contactImportService) {
+    contactImportService = new ContactImportService();
+  }
+  return contactImportService;
+}
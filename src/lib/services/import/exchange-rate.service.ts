@@ -0,0 +1,311 @@
+import { ExchangeRate } from '@prisma/client';
+
+import { REPORTING_CURRENCY } from '@/lib/config/currency-config';
+import { logger } from '@/lib/logger';
+import { NotFoundError, ValidationError } from '@/lib/middleware/error-handler';
+import { prisma } from '@/lib/prisma';
+
+import { normalizeColumnName } from './column-mapping.service';
+import { ImportSource, readImportBatches } from './import-source';
+
+export interface ExchangeRateInput {
+  fromCurrency: string;
+  toCurrency?: string; // The reporting currency when omitted
+  rate: number; // Units of toCurrency per unit of fromCurrency
+  effectiveDate: Date;
+}
+
+export interface ExchangeRateImportResult {
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  errors: Array<{
+    row: number;
+    error: string;
+  }>;
+  processingTime: number;
+}
+
+export interface CurrencyConverter {
+  reportingCurrency: string;
+  // Amount in toCurrency, the reporting currency by default; null when no rate covers the date
+  convert(amount: number, fromCurrency: string, date: Date, toCurrency?: string): number | null;
+}
+
+type RateRow = Pick<ExchangeRate, 'fromCurrency' | 'toCurrency' | 'rate' | 'effectiveDate'>;
+
+// Symbols seen in extracts in place of a currency code
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  'US$': 'USD',
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+// Source column names mapped onto exchange rate fields, compared without case or separators
+const EXCHANGE_RATE_COLUMNS: Record<string, keyof ExchangeRateInput> = {
+  fromcurrency: 'fromCurrency',
+  currency: 'fromCurrency',
+  from: 'fromCurrency',
+  tocurrency: 'toCurrency',
+  to: 'toCurrency',
+  rate: 'rate',
+  exchangerate: 'rate',
+  effectivedate: 'effectiveDate',
+  effectivefrom: 'effectiveDate',
+  date: 'effectiveDate',
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Upper-case ISO 4217 code of a currency code or symbol; null when it is neither
+ */
+export function normalizeCurrencyCode(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+
+  const text = String(value).trim().toUpperCase();
+  const code = CURRENCY_SYMBOLS[text] || text;
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+/**
+ * Date an opportunity's revenue is converted at: its booked date, else its estimated close date, else today
+ */
+export function getConversionDate(opportunity: { bookedDate?: Date | null; estimatedCloseDate?: Date | null }): Date {
+  return opportunity.bookedDate || opportunity.estimatedCloseDate || new Date();
+}
+
+/**
+ * Latest rate between two currencies effective on or before a date, stored either way round
+ */
+function latestRate(rates: RateRow[], fromCurrency: string, toCurrency: string, date: Date): number | null {
+  let latest: { rate: number; effectiveDate: Date } | null = null;
+
+  for (const row of rates) {
+    if (row.effectiveDate > date) continue;
+
+    let rate: number | null = null;
+    if (row.fromCurrency === fromCurrency && row.toCurrency === toCurrency) {
+      rate = row.rate;
+    } else if (row.fromCurrency === toCurrency && row.toCurrency === fromCurrency && row.rate !== 0) {
+      rate = 1 / row.rate;
+    }
+
+    if (rate !== null && (!latest || row.effectiveDate > latest.effectiveDate)) {
+      latest = { rate, effectiveDate: row.effectiveDate };
+    }
+  }
+
+  return latest?.rate ?? null;
+}
+
+/**
+ * Rate from one currency to another on a date. Pairs without a rate of their own are crossed
+ * through the reporting currency.
+ */
+export function findRate(
+  rates: RateRow[],
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date,
+  pivotCurrency = REPORTING_CURRENCY
+): number | null {
+  if (fromCurrency === toCurrency) return 1;
+
+  const direct = latestRate(rates, fromCurrency, toCurrency, date);
+  if (direct !== null) return direct;
+
+  if (fromCurrency === pivotCurrency || toCurrency === pivotCurrency) return null;
+
+  const toPivot = latestRate(rates, fromCurrency, pivotCurrency, date);
+  const fromPivot = latestRate(rates, pivotCurrency, toCurrency, date);
+  return toPivot !== null && fromPivot !== null ? toPivot * fromPivot : null;
+}
+
+/**
+ * Converter over a set of rates, for converting many amounts without a query each
+ */
+export function createCurrencyConverter(rates: RateRow[], reportingCurrency = REPORTING_CURRENCY): CurrencyConverter {
+  return {
+    reportingCurrency,
+    convert(amount, fromCurrency, date, toCurrency = reportingCurrency) {
+      const rate = findRate(rates, fromCurrency, toCurrency, date, reportingCurrency);
+      return rate === null ? null : roundCurrency(amount * rate);
+    },
+  };
+}
+
+export class ExchangeRateService {
+  /**
+   * List rates, newest first within each currency pair
+   */
+  async listRates(query: { fromCurrency?: string; toCurrency?: string } = {}): Promise<ExchangeRate[]> {
+    return prisma.exchangeRate.findMany({
+      where: {
+        ...(query.fromCurrency && { fromCurrency: query.fromCurrency }),
+        ...(query.toCurrency && { toCurrency: query.toCurrency }),
+      },
+      orderBy: [{ fromCurrency: 'asc' }, { toCurrency: 'asc' }, { effectiveDate: 'desc' }],
+    });
+  }
+
+  /**
+   * Set the rate of a currency pair from a date, replacing the rate already set for that date
+   */
+  async setRate(input: ExchangeRateInput, source: 'manual' | 'import' = 'manual'): Promise<ExchangeRate> {
+    const { fromCurrency, toCurrency, rate, effectiveDate } = this.toRateData(input);
+
+    return prisma.exchangeRate.upsert({
+      where: { fromCurrency_toCurrency_effectiveDate: { fromCurrency, toCurrency, effectiveDate } },
+      create: { fromCurrency, toCurrency, rate, effectiveDate, source },
+      update: { rate, source },
+    });
+  }
+
+  /**
+   * Delete a rate
+   */
+  async deleteRate(rateId: string, userId: string): Promise<void> {
+    const existing = await prisma.exchangeRate.findUnique({ where: { id: rateId } });
+    if (!existing) {
+      throw new NotFoundError('Exchange rate');
+    }
+
+    await prisma.exchangeRate.delete({ where: { id: rateId } });
+
+    logger.info('ExchangeRateService: Deleted exchange rate', {
+      rateId,
+      fromCurrency: existing.fromCurrency,
+      toCurrency: existing.toCurrency,
+      userId,
+    });
+  }
+
+  /**
+   * Import rates from a CSV or Excel source with from currency, rate and effective date columns,
+   * and optionally a to currency. Rows for a pair and date already set replace its rate.
+   */
+  async importFromCsv(source: ImportSource, fileName: string): Promise<ExchangeRateImportResult> {
+    const startTime = Date.now();
+    const result: ExchangeRateImportResult = {
+      total: 0,
+      created: 0,
+      updated: 0,
+      failed: 0,
+      errors: [],
+      processingTime: 0,
+    };
+
+    for await (const batch of readImportBatches(source, fileName, { batchSize: 100 })) {
+      for (const { row, rowNumber } of batch.rows) {
+        result.total++;
+        try {
+          const data = this.toRateData(this.transformRow(row));
+          const existing = await prisma.exchangeRate.findUnique({
+            where: {
+              fromCurrency_toCurrency_effectiveDate: {
+                fromCurrency: data.fromCurrency,
+                toCurrency: data.toCurrency,
+                effectiveDate: data.effectiveDate,
+              },
+            },
+            select: { id: true },
+          });
+
+          await this.setRate(data, 'import');
+          if (existing) {
+            result.updated++;
+          } else {
+            result.created++;
+          }
+        } catch (error) {
+          result.errors.push({
+            row: rowNumber,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          result.failed++;
+        }
+      }
+    }
+
+    result.processingTime = Date.now() - startTime;
+
+    logger.info('ExchangeRateService: Import completed', {
+      fileName,
+      total: result.total,
+      created: result.created,
+      updated: result.updated,
+      failed: result.failed,
+    });
+
+    return result;
+  }
+
+  /**
+   * Converter over every rate in the table
+   */
+  async getConverter(): Promise<CurrencyConverter> {
+    const rates = await prisma.exchangeRate.findMany({
+      select: { fromCurrency: true, toCurrency: true, rate: true, effectiveDate: true },
+    });
+
+    return createCurrencyConverter(rates);
+  }
+
+  /**
+   * Read the rate fields of a source row
+   */
+  private transformRow(row: Record<string, unknown>): Partial<Record<keyof ExchangeRateInput, unknown>> {
+    const data: Partial<Record<keyof ExchangeRateInput, unknown>> = {};
+
+    for (const [column, value] of Object.entries(row)) {
+      const field = EXCHANGE_RATE_COLUMNS[normalizeColumnName(column)];
+      if (field && value !== null && value !== undefined && value !== '') {
+        data[field] = value;
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Check and normalize the fields of a rate
+   */
+  private toRateData(input: Partial<Record<keyof ExchangeRateInput, unknown>>) {
+    const fromCurrency = normalizeCurrencyCode(input.fromCurrency);
+    const toCurrency = input.toCurrency === undefined ? REPORTING_CURRENCY : normalizeCurrencyCode(input.toCurrency);
+    const rate = typeof input.rate === 'number' ? input.rate : parseFloat(String(input.rate));
+    const effectiveDate = input.effectiveDate instanceof Date
+      ? input.effectiveDate
+      : new Date(String(input.effectiveDate));
+
+    const errors: string[] = [];
+    if (!fromCurrency) errors.push(`From currency "${input.fromCurrency ?? ''}" is not a three-letter ISO 4217 code`);
+    if (!toCurrency) errors.push(`To currency "${input.toCurrency}" is not a three-letter ISO 4217 code`);
+    if (fromCurrency && fromCurrency === toCurrency) errors.push('From and to currency must differ');
+    if (!(rate > 0)) errors.push('Rate must be a positive number');
+    if (input.effectiveDate === undefined || isNaN(effectiveDate.getTime())) {
+      errors.push('Effective date is required');
+    }
+
+    if (errors.length > 0 || !fromCurrency || !toCurrency) {
+      throw new ValidationError(errors.join('; '), errors);
+    }
+
+    return { fromCurrency, toCurrency, rate, effectiveDate };
+  }
+}
+
+// Singleton instance
+let exchangeRateService: ExchangeRateService | null = null;
+
+export function getExchangeRateService(): ExchangeRateService {
+  if (!exchangeRateService) {
+    exchangeRateService = new ExchangeRateService();
+  }
+  return exchangeRateService;
+}
@@ -0,0 +1,132 @@
+import { prisma } from '@/lib/prisma';
+
+import { ImportEntityType } from './column-mapping.service';
+
+export type FieldLineageSource = 'import' | 'ai_normalization' | 'manual';
+
+/**
+ * Where a write came from; imports fill the file, job and row, manual edits the user
+ */
+export interface FieldLineageOrigin {
+  source: FieldLineageSource;
+  sourceFile?: string;
+  jobId?: string;
+  rowNumber?: number;
+  userId?: string;
+}
+
+export interface FieldLineageEntry {
+  id: string;
+  entityType: ImportEntityType;
+  recordId: string;
+  field: string;
+  value: string | null;
+  source: FieldLineageSource;
+  sourceFile: string | null;
+  jobId: string | null;
+  rowNumber: number | null;
+  userId: string | null;
+  createdAt: Date;
+}
+
+// Bookkeeping columns every write touches; their source is never in question
+const UNTRACKED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'importHash', 'missingFromImportAt']);
+
+function toLineageValue(value: unknown): string | null {
+  if (value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export class FieldLineageService {
+  /**
+   * Record the source of every field a write set. Fields left undefined were not written and keep
+   * their earlier source.
+   */
+  async recordFields(
+    entityType: ImportEntityType,
+    recordId: string,
+    data: object,
+    origin: FieldLineageOrigin
+  ): Promise<void> {
+    const entries = Object.entries(data)
+      .filter(([field, value]) => value !== undefined && !UNTRACKED_FIELDS.has(field))
+      .map(([field, value]) => ({
+        entityType,
+        recordId,
+        field,
+        value: toLineageValue(value),
+        source: origin.source,
+        sourceFile: origin.sourceFile,
+        jobId: origin.jobId,
+        rowNumber: origin.rowNumber,
+        userId: origin.userId,
+      }));
+
+    if (entries.length === 0) return;
+
+    await prisma.fieldLineage.createMany({ data: entries });
+  }
+
+  /**
+   * The current source of each field of a record: its newest entry
+   */
+  async getCurrentLineage(entityType: ImportEntityType, recordId: string): Promise<Record<string, FieldLineageEntry>> {
+    const entries = await prisma.fieldLineage.findMany({
+      where: { entityType, recordId },
+      orderBy: [{ field: 'asc' }, { createdAt: 'desc' }],
+      distinct: ['field'],
+    });
+
+    return Object.fromEntries(entries.map(entry => [entry.field, this.toEntry(entry)]));
+  }
+
+  /**
+   * Every recorded write of one field, newest first
+   */
+  async getFieldHistory(
+    entityType: ImportEntityType,
+    recordId: string,
+    field: string,
+    limit = 20
+  ): Promise<FieldLineageEntry[]> {
+    const entries = await prisma.fieldLineage.findMany({
+      where: { entityType, recordId, field },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return entries.map(entry => this.toEntry(entry));
+  }
+
+  private toEntry(entry: {
+    id: string;
+    entityType: string;
+    recordId: string;
+    field: string;
+    value: string | null;
+    source: string;
+    sourceFile: string | null;
+    jobId: string | null;
+    rowNumber: number | null;
+    userId: string | null;
+    createdAt: Date;
+  }): FieldLineageEntry {
+    return {
+      ...entry,
+      entityType: entry.entityType as ImportEntityType,
+      source: entry.source as FieldLineageSource,
+    };
+  }
+}
+
+// Singleton instance
+let fieldLineageService: FieldLineageService | null = null;
+
+export function getFieldLineageService(): FieldLineageService {
+  if (!fieldLineageService) {
+    fieldLineageService = new FieldLineageService();
+  }
+  return fieldLineageService;
+}
@@ -0,0 +1,104 @@
+import { JobStatus, Prisma } from '@prisma/client';
+
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+
+export type ImportCheckpointStage = 'accounts' | 'products' | 'opportunities' | 'contacts';
+
+export interface ImportCheckpoint<TWarning = unknown> {
+  lastCommittedRow: number; // Source row of the last record in the last committed batch
+  counters: Record<string, number>;
+  warnings?: TWarning[]; // The first MAX_CHECKPOINT_WARNINGS; errors are kept as rejected rows
+}
+
+// Keeps the checkpoint a fixed size however many rows an import warns about
+const MAX_CHECKPOINT_WARNINGS = 100;
+
+export class ImportCheckpointService {
+  /**
+   * Start a stage of a job. Returns the checkpoint an earlier attempt left, or null on a
+   * first attempt, after recording an empty one so a retry knows rows may already be written.
+   * A checkpoint holds no record ids or errors: a resumed stage reads them back from the job's
+   * snapshots and rejected rows, so each checkpoint write stays the same size.
+   */
+  async beginStage<TWarning>(
+    jobId: string | undefined,
+    stage: ImportCheckpointStage
+  ): Promise<ImportCheckpoint<TWarning> | null> {
+    if (!jobId) return null;
+
+    const record = await prisma.processingStage.findUnique({
+      where: { jobId_name: { jobId, name: stage } },
+      select: { checkpoint: true },
+    });
+
+    if (!record?.checkpoint) {
+      await this.saveCheckpoint(jobId, stage, { lastCommittedRow: 0, counters: {} }, 0);
+      return null;
+    }
+
+    const checkpoint = record.checkpoint as unknown as ImportCheckpoint<TWarning>;
+    logger.info('ImportCheckpointService: Resuming from checkpoint', {
+      jobId,
+      stage,
+      lastCommittedRow: checkpoint.lastCommittedRow,
+    });
+
+    return checkpoint;
+  }
+
+  /**
+   * Persist the state after a committed batch
+   */
+  async saveCheckpoint<TWarning>(
+    jobId: string | undefined,
+    stage: ImportCheckpointStage,
+    checkpoint: ImportCheckpoint<TWarning>,
+    progress: number
+  ) {
+    if (!jobId) return;
+
+    const stored: ImportCheckpoint<TWarning> = {
+      ...checkpoint,
+      warnings: checkpoint.warnings?.slice(0, MAX_CHECKPOINT_WARNINGS),
+    };
+    const data = {
+      status: JobStatus.RUNNING,
+      progress: Math.round(progress),
+      checkpoint: JSON.parse(JSON.stringify(stored)) as Prisma.InputJsonObject,
+      checkpointedAt: new Date(),
+    };
+
+    await prisma.processingStage.upsert({
+      where: { jobId_name: { jobId, name: stage } },
+      create: { ...data, jobId, name: stage, startedAt: new Date() },
+      update: data,
+    });
+  }
+
+  /**
+   * Mark a stage finished; its checkpoint is kept so a retry of the job skips it
+   */
+  async completeStage(jobId: string | undefined, stage: ImportCheckpointStage) {
+    if (!jobId) return;
+
+    await prisma.processingStage.updateMany({
+      where: { jobId, name: stage },
+      data: {
+        status: JobStatus.COMPLETED,
+        progress: 100,
+        completedAt: new Date(),
+      },
+    });
+  }
+}
+
+// Singleton instance
+let importCheckpointService: ImportCheckpointService | null = null;
+
+export function getImportCheckpointService(): ImportCheckpointService {
+  if (!importCheckpointService) {
+    importCheckpointService = new ImportCheckpointService();
+  }
+  return importCheckpointService;
+}
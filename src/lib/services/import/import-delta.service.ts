@@ -0,0 +1,165 @@
+import { createHash } from 'crypto';
+
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+
+import { getImportSnapshotService } from './import-snapshot.service';
+
+import type { ImportSourceRow } from './import-source';
+
+export type ImportDeltaEntity = 'accounts' | 'products' | 'opportunities' | 'contacts';
+
+export interface ImportDelta {
+  new: number;
+  changed: number;
+  unchanged: number; // Matched a record whose stored hash equals the row's, so nothing was written
+  removed: number; // Imported earlier but absent from this full snapshot
+  removedIds: string[]; // Capped at MAX_REMOVED_IDS; `removed` counts them all
+}
+
+// Removed records listed in a result; the rest are found by their missingFromImportAt flag
+const MAX_REMOVED_IDS = 500;
+
+const FLAG_BATCH_SIZE = 1000;
+
+export function createImportDelta(): ImportDelta {
+  return { new: 0, changed: 0, unchanged: 0, removed: 0, removedIds: [] };
+}
+
+/**
+ * Hash of the values an import row would write. Keys are sorted and empty values dropped,
+ * so column order and blank cells do not count as changes.
+ */
+export function hashImportRow(data: object): string {
+  return createHash('sha256').update(stableStringify(data)).digest('hex');
+}
+
+/**
+ * Whether a matched record already holds exactly what the row would write. A record flagged
+ * missing by an earlier full snapshot is written again so the flag clears.
+ */
+export function isUnchangedRecord(
+  existing: { importHash?: string | null; missingFromImportAt?: Date | null },
+  importHash: string
+): boolean {
+  return existing.importHash === importHash && !existing.missingFromImportAt;
+}
+
+function stableStringify(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined && item !== null && item !== '')
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export class ImportDeltaService {
+  private readonly snapshotService = getImportSnapshotService();
+
+  /**
+   * After a full-snapshot import, flag the records earlier imports wrote that this one did not
+   * contain. Records are flagged, not deleted; undoing the import clears the flags again.
+   */
+  async flagMissingRecords(
+    jobId: string | undefined,
+    entityType: ImportDeltaEntity,
+    seenIds: Iterable<string>,
+    delta: ImportDelta
+  ): Promise<void> {
+    const seen = new Set(seenIds);
+    const candidates = await this.findImportedRecordIds(entityType);
+    const missing = candidates.filter(id => !seen.has(id));
+    const flaggedAt = new Date();
+
+    for (let i = 0; i < missing.length; i += FLAG_BATCH_SIZE) {
+      const ids = missing.slice(i, i + FLAG_BATCH_SIZE);
+      await this.snapshotService.recordUpdatedMany(jobId, entityType, ids, { missingFromImportAt: null });
+      await this.flagRecords(entityType, ids, flaggedAt);
+    }
+
+    delta.removed += missing.length;
+    delta.removedIds.push(...missing.slice(0, MAX_REMOVED_IDS - delta.removedIds.length));
+
+    logger.info('ImportDeltaService: Flagged records missing from full snapshot', {
+      jobId,
+      entityType,
+      imported: candidates.length,
+      missing: missing.length,
+    });
+  }
+
+  /**
+   * Ids of the existing records that rows of a full-snapshot import match, for rows whose
+   * outcome did not report one, such as rows an interrupted attempt already committed.
+   * Rows that cannot be read or matched are left out.
+   */
+  async resolveSeenIds(
+    rows: ImportSourceRow[],
+    findExistingId: (row: ImportSourceRow) => Promise<string | null | undefined>
+  ): Promise<string[]> {
+    const ids: string[] = [];
+    for (const row of rows) {
+      try {
+        const id = await findExistingId(row);
+        if (id) ids.push(id);
+      } catch {
+        // Without a readable key the row matches no record
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Ids of records an import wrote and no full snapshot has flagged yet
+   */
+  private async findImportedRecordIds(entityType: ImportDeltaEntity): Promise<string[]> {
+    const where = { importHash: { not: null }, missingFromImportAt: null };
+    const select = { id: true };
+
+    switch (entityType) {
+      case 'accounts':
+        return (await prisma.companyAccount.findMany({ where, select })).map(record => record.id);
+      case 'products':
+        // Closed SCD versions are history, not missing items
+        return (await prisma.product.findMany({ where: { ...where, isCurrentRecordFlag: true }, select }))
+          .map(record => record.id);
+      case 'opportunities':
+        return (await prisma.opportunity.findMany({ where, select })).map(record => record.id);
+      case 'contacts':
+        return (await prisma.contact.findMany({ where, select })).map(record => record.id);
+    }
+  }
+
+  private async flagRecords(entityType: ImportDeltaEntity, ids: string[], flaggedAt: Date) {
+    const args = { where: { id: { in: ids } }, data: { missingFromImportAt: flaggedAt } };
+
+    switch (entityType) {
+      case 'accounts':
+        await prisma.companyAccount.updateMany(args);
+        break;
+      case 'products':
+        await prisma.product.updateMany(args);
+        break;
+      case 'opportunities':
+        await prisma.opportunity.updateMany(args);
+        break;
+      case 'contacts':
+        await prisma.contact.updateMany(args);
+        break;
+    }
+  }
+}
+
+// Singleton instance
+let importDeltaService: ImportDeltaService | null = null;
+
+export function getImportDeltaService(): ImportDeltaService {
+  if (!importDeltaService) {
+    importDeltaService = new ImportDeltaService();
+  }
+  return importDeltaService;
+}
@@ -5,26 +5,27 @@ import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { QueueManager } from '@/lib/queue';
 import { getAccountImportService, AccountImportOptions, AccountImportResult } from './account-import.service';
-import { getProductImportService, ProductImportOptions, ProductImportResult } from './product-import.service';
-import { getOpportunityImportService, OpportunityImportOptions, OpportunityImportResult } from './opportunity-import.service';
 import { getAssetImportService, AssetImportOptions, AssetImportResult } from './asset-import.service';
+import { getContactImportService, ContactImportOptions, ContactImportResult } from './contact-import.service';
+import { DEFAULT_PLAN_MAX_RECORDS, ImportPlan, truncatePlan } from './import-plan';
+import { getImportSnapshotService } from './import-snapshot.service';
+import { openImportSource, type ImportFileData } from './import-source';
+import { getOpportunityImportService, OpportunityImportOptions, OpportunityImportResult } from './opportunity-import.service';
+import { getProductImportService, ProductImportOptions, ProductImportResult } from './product-import.service';
 
 export interface BatchImportData {
-  accounts?: {
-    buffer: Buffer;
-    fileName: string;
+  accounts?: ImportFileData & {
     options?: AccountImportOptions;
   };
-  products?: {
-    buffer: Buffer;
-    fileName: string;
+  products?: ImportFileData & {
     options?: ProductImportOptions;
   };
-  opportunities?: {
-    buffer: Buffer;
-    fileName: string;
+  opportunities?: ImportFileData & {
     options?: OpportunityImportOptions;
   };
+  contacts?: ImportFileData & {
+    options?: ContactImportOptions;
+  };
   assets?: Array<{
     fileName: string;
     originalName: string;
@@ -42,17 +43,28 @@ export interface BatchImportOptions {
   createVectors?: boolean;
   linkRelatedData?: boolean;
   validateRelationships?: boolean;
-  processOrder?: Array<'accounts' | 'products' | 'opportunities' | 'assets'>;
+  processOrder?: Array<'accounts' | 'contacts' | 'products' | 'opportunities' | 'assets'>;
   onProgress?: (progress: BatchImportProgress) => void;
   rollbackOnError?: boolean;
   continueOnError?: boolean;
+  dryRun?: boolean; // Plan every entity import without writing or creating a job
+  jobId?: string; // Processing job to run under; a retry passing the same id resumes each stage from its checkpoint
+  maxPlanRecords?: number;
 }
 
 export interface BatchImportResult {
   jobId: string;
+  dryRun?: boolean;
+  plans?: {
+    accounts?: ImportPlan;
+    products?: ImportPlan;
+    opportunities?: ImportPlan;
+    contacts?: ImportPlan;
+  };
   accounts?: AccountImportResult;
   products?: ProductImportResult;
   opportunities?: OpportunityImportResult;
+  contacts?: ContactImportResult;
   assets?: AssetImportResult;
   totalProcessingTime: number;
   overallStatus: 'completed' | 'partial' | 'failed';
@@ -69,14 +81,14 @@ export interface BatchImportResult {
 
 export interface BatchImportProgress {
   jobId: string;
-  stage: 'initializing' | 'accounts' | 'products' | 'opportunities' | 'assets' | 'insights' | 'completed';
+  stage: 'initializing' | 'accounts' | 'contacts' | 'products' | 'opportunities' | 'assets' | 'insights' | 'completed';
   overall: {
     processed: number;
     total: number;
     percentage: number;
   };
   current: {
-    type: 'accounts' | 'products' | 'opportunities' | 'assets' | 'insights';
+    type: 'accounts' | 'contacts' | 'products' | 'opportunities' | 'assets' | 'insights';
     processed: number;
     total: number;
     percentage: number;
@@ -86,6 +98,7 @@ export interface BatchImportProgress {
     accounts?: Partial<AccountImportResult>;
     products?: Partial<ProductImportResult>;
     opportunities?: Partial<OpportunityImportResult>;
+    contacts?: Partial<ContactImportResult>;
     assets?: Partial<AssetImportResult>;
   };
   errors: number;
@@ -106,7 +119,9 @@ export class ImportOrchestratorService {
   private readonly accountImportService = getAccountImportService();
   private readonly productImportService = getProductImportService();
   private readonly opportunityImportService = getOpportunityImportService();
+  private readonly contactImportService = getContactImportService();
   private readonly assetImportService = getAssetImportService();
+  private readonly snapshotService = getImportSnapshotService();
 
   /**
    * Execute complex batch import
@@ -116,12 +131,17 @@ export class ImportOrchestratorService {
     userId: string,
     options: BatchImportOptions = {}
   ): Promise<BatchImportResult> {
+    if (options.dryRun) {
+      return this.planBatchImport(data, options);
+    }
+
     const startTime = Date.now();
-    const jobId = uuidv4();
+    const jobId = options.jobId || uuidv4();
 
-    // Create processing job
-    const processingJob = await prisma.processingJob.create({
-      data: {
+    // Create processing job, or reopen it when a retry runs under the same id
+    const processingJob = await prisma.processingJob.upsert({
+      where: { id: jobId },
+      create: {
         id: jobId,
         type: ProcessingJobType.IMPORT_ASSETS, // Generic import type
         title: 'Complex Batch Import',
@@ -136,6 +156,12 @@ export class ImportOrchestratorService {
           options,
         },
       },
+      update: {
+        status: JobStatus.RUNNING,
+        startedAt: new Date(),
+        errorMessage: null,
+        failedAt: null,
+      },
     });
 
     const result: BatchImportResult = {
@@ -175,7 +201,7 @@ export class ImportOrchestratorService {
       await this.updateJobProgress(jobId, 0, 'Initializing batch import');
 
       // Determine processing order
-      const processOrder = options.processOrder || ['accounts', 'products', 'opportunities', 'assets'];
+      const processOrder = options.processOrder || ['accounts', 'contacts', 'products', 'opportunities', 'assets'];
       
       // Process each import type in order
       let stepIndex = 0;
@@ -188,14 +214,16 @@ export class ImportOrchestratorService {
 
         try {
           let importResult: any;
+          // Entity files come as a buffer, or on disk to be streamed
+          const entityFile = importType === 'assets' ? undefined : await openImportSource(data[importType]!);
 
           switch (importType) {
             case 'accounts':
               progress.current = { type: 'accounts', processed: 0, total: 1, percentage: 0 };
               importResult = await this.accountImportService.importFromCsv(
-                data.accounts!.buffer,
+                entityFile!.source,
                 data.accounts!.fileName,
-                data.accounts!.options || {},
+                { ...data.accounts!.options, jobId, sourceSize: entityFile!.size },
                 (accountProgress) => {
                   progress.current.processed = accountProgress.processed;
                   progress.current.total = accountProgress.total;
@@ -211,9 +239,9 @@ export class ImportOrchestratorService {
             case 'products':
               progress.current = { type: 'products', processed: 0, total: 1, percentage: 0 };
               importResult = await this.productImportService.importFromCsv(
-                data.products!.buffer,
+                entityFile!.source,
                 data.products!.fileName,
-                data.products!.options || {},
+                { ...data.products!.options, jobId, sourceSize: entityFile!.size },
                 (productProgress) => {
                   progress.current.processed = productProgress.processed;
                   progress.current.total = productProgress.total;
@@ -229,9 +257,9 @@ export class ImportOrchestratorService {
             case 'opportunities':
               progress.current = { type: 'opportunities', processed: 0, total: 1, percentage: 0 };
               importResult = await this.opportunityImportService.importFromCsv(
-                data.opportunities!.buffer,
+                entityFile!.source,
                 data.opportunities!.fileName,
-                data.opportunities!.options || {},
+                { ...data.opportunities!.options, jobId, sourceSize: entityFile!.size },
                 (opportunityProgress) => {
                   progress.current.processed = opportunityProgress.processed;
                   progress.current.total = opportunityProgress.total;
@@ -244,6 +272,24 @@ export class ImportOrchestratorService {
               progress.results.opportunities = importResult;
               break;
 
+            case 'contacts':
+              progress.current = { type: 'contacts', processed: 0, total: 1, percentage: 0 };
+              importResult = await this.contactImportService.importFromCsv(
+                entityFile!.source,
+                data.contacts!.fileName,
+                { ...data.contacts!.options, jobId, sourceSize: entityFile!.size },
+                (contactProgress) => {
+                  progress.current.processed = contactProgress.processed;
+                  progress.current.total = contactProgress.total;
+                  progress.current.percentage = (contactProgress.processed / contactProgress.total) * 100;
+                  progress.current.currentItem = contactProgress.currentContact;
+                  options.onProgress?.(progress);
+                }
+              );
+              result.contacts = importResult;
+              progress.results.contacts = importResult;
+              break;
+
             case 'assets':
               if (data.assets && data.assets.length > 0) {
                 progress.current = { type: 'assets', processed: 0, total: data.assets.length, percentage: 0 };
@@ -388,13 +434,213 @@ export class ImportOrchestratorService {
       });
 
       if (options.rollbackOnError) {
-        await this.rollbackImport(result);
+        await this.rollbackImport(result, userId);
       }
 
       throw error;
     }
   }
 
+  /**
+   * Run a single-entity import under a processing job, so its undo snapshots
+   * have a job to belong to
+   */
+  async executeTrackedImport<T extends { total: number; created: number; updated: number; failed: number; skipped: number }>(
+    type: 'accounts' | 'products' | 'opportunities' | 'contacts',
+    fileName: string,
+    userId: string,
+    runImport: (jobId: string) => Promise<T>
+  ): Promise<T & { jobId: string }> {
+    const jobId = uuidv4();
+    const jobTypes = {
+      accounts: ProcessingJobType.IMPORT_ACCOUNTS,
+      products: ProcessingJobType.IMPORT_PRODUCTS,
+      opportunities: ProcessingJobType.IMPORT_OPPORTUNITIES,
+      contacts: ProcessingJobType.IMPORT_CONTACTS,
+    };
+
+    await prisma.processingJob.create({
+      data: {
+        id: jobId,
+        type: jobTypes[type],
+        title: `Import ${type}`,
+        description: fileName,
+        status: JobStatus.RUNNING,
+        userId,
+        startedAt: new Date(),
+        metadata: { importTypes: [type], fileName },
+      },
+    });
+
+    try {
+      const result = await runImport(jobId);
+
+      await prisma.processingJob.update({
+        where: { id: jobId },
+        data: {
+          status: JobStatus.COMPLETED,
+          progress: 100,
+          totalItems: result.total,
+          processedItems: result.created + result.updated + result.skipped,
+          failedItems: result.failed,
+          completedAt: new Date(),
+          result: {
+            total: result.total,
+            created: result.created,
+            updated: result.updated,
+            failed: result.failed,
+            skipped: result.skipped,
+          },
+        },
+      });
+
+      return { ...result, jobId };
+    } catch (error) {
+      await prisma.processingJob.update({
+        where: { id: jobId },
+        data: {
+          status: JobStatus.FAILED,
+          failedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Dry-run a batch import: plan each entity in order without writing.
+   * Accounts and products the plan would create are passed on so contacts and opportunities can link to them.
+   */
+  private async planBatchImport(
+    data: BatchImportData,
+    options: BatchImportOptions
+  ): Promise<BatchImportResult> {
+    const startTime = Date.now();
+    const maxPlanRecords = options.maxPlanRecords ?? DEFAULT_PLAN_MAX_RECORDS;
+    const result: BatchImportResult = {
+      jobId: uuidv4(),
+      dryRun: true,
+      plans: {},
+      totalProcessingTime: 0,
+      overallStatus: 'completed',
+      errors: [],
+      warnings: [],
+      summary: {
+        totalRecords: 0,
+        totalCreated: 0,
+        totalUpdated: 0,
+        totalFailed: 0,
+        totalSkipped: 0,
+      },
+    };
+
+    const pendingAccounts: Array<{ name: string; accountNumber?: string; domain?: string }> = [];
+    const pendingProducts: string[] = [];
+    const processOrder = options.processOrder || ['accounts', 'contacts', 'products', 'opportunities', 'assets'];
+
+    for (const importType of processOrder) {
+      if (!data[importType]) continue;
+
+      try {
+        const entityFile = importType === 'assets' ? undefined : await openImportSource(data[importType]!);
+        let importResult:
+          | AccountImportResult
+          | ProductImportResult
+          | OpportunityImportResult
+          | ContactImportResult
+          | undefined;
+
+        switch (importType) {
+          case 'accounts':
+            // Plan without a cap so every pending account reaches the opportunity plan
+            importResult = await this.accountImportService.importFromCsv(
+              entityFile!.source,
+              data.accounts!.fileName,
+              { ...data.accounts!.options, dryRun: true, maxPlanRecords: Number.MAX_SAFE_INTEGER }
+            );
+            pendingAccounts.push(...(importResult.plan?.creates || []).map(record => ({
+              name: String(record.data?.name),
+              accountNumber: record.data?.accountNumber as string | undefined,
+              domain: record.data?.domain as string | undefined,
+            })));
+            result.accounts = importResult;
+            break;
+
+          case 'products':
+            importResult = await this.productImportService.importFromCsv(
+              entityFile!.source,
+              data.products!.fileName,
+              { ...data.products!.options, dryRun: true, maxPlanRecords: Number.MAX_SAFE_INTEGER }
+            );
+            pendingProducts.push(...(importResult.plan?.creates || []).map(record => record.key));
+            result.products = importResult;
+            break;
+
+          case 'opportunities':
+            importResult = await this.opportunityImportService.importFromCsv(
+              entityFile!.source,
+              data.opportunities!.fileName,
+              {
+                ...data.opportunities!.options,
+                dryRun: true,
+                maxPlanRecords,
+                pendingAccounts,
+                pendingProducts,
+              }
+            );
+            result.opportunities = importResult;
+            break;
+
+          case 'contacts':
+            importResult = await this.contactImportService.importFromCsv(
+              entityFile!.source,
+              data.contacts!.fileName,
+              { ...data.contacts!.options, dryRun: true, maxPlanRecords, pendingAccounts }
+            );
+            result.contacts = importResult;
+            break;
+
+          case 'assets':
+            result.warnings.push('Assets are not included in dry runs; they are processed when the import runs');
+            break;
+        }
+
+        if (importResult?.plan) {
+          const plan = truncatePlan(importResult.plan, maxPlanRecords);
+          importResult.plan = plan;
+          result.plans![importType as keyof NonNullable<BatchImportResult['plans']>] = plan;
+
+          result.summary.totalRecords += plan.summary.total;
+          result.summary.totalCreated += plan.summary.toCreate;
+          result.summary.totalUpdated += plan.summary.toUpdate;
+          result.summary.totalFailed += plan.summary.invalid + plan.summary.conflicts;
+          result.summary.totalSkipped += plan.summary.skipped + plan.summary.unchanged;
+          result.errors.push(...importResult.errors.map(e => e.error));
+          result.warnings.push(...importResult.warnings.map(w => w.warning));
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown import error';
+        result.errors.push(`${importType} dry run failed: ${errorMessage}`);
+        result.overallStatus = options.continueOnError ? 'partial' : 'failed';
+
+        logger.error(`ImportOrchestratorService: ${importType} dry run failed`, { error: errorMessage, importType });
+
+        if (!options.continueOnError) break;
+      }
+    }
+
+    result.totalProcessingTime = Date.now() - startTime;
+
+    logger.info('ImportOrchestratorService: Dry run completed', {
+      summary: result.summary,
+      processingTime: result.totalProcessingTime,
+    });
+
+    return result;
+  }
+
   /**
    * Queue complex import job for background processing
    */
@@ -469,6 +715,7 @@ export class ImportOrchestratorService {
 
     return {
       id: job.id,
+      userId: job.userId,
       status: job.status,
       progress: job.progress,
       title: job.title,
@@ -620,29 +867,17 @@ export class ImportOrchestratorService {
   }
 
   /**
-   * Rollback import changes
+   * Rollback import changes: restore updated rows from their snapshots and delete only created rows
    */
-  private async rollbackImport(result: BatchImportResult) {
+  private async rollbackImport(result: BatchImportResult, userId: string) {
     try {
       logger.info('ImportOrchestratorService: Starting import rollback', { jobId: result.jobId });
 
-      // Rollback in reverse order of dependencies
-      if (result.opportunities?.opportunityIds) {
-        await prisma.opportunity.deleteMany({
-          where: { id: { in: result.opportunities.opportunityIds } },
-        });
-      }
-
-      if (result.products?.productIds) {
-        await prisma.product.deleteMany({
-          where: { id: { in: result.products.productIds } },
-        });
-      }
-
-      if (result.accounts?.accountIds) {
-        await prisma.companyAccount.deleteMany({
-          where: { id: { in: result.accounts.accountIds } },
-        });
+      const { created, updated } = await this.snapshotService.getSnapshotSummary(result.jobId);
+      const snapshotCount = [...Object.values(created), ...Object.values(updated)].reduce((sum, n) => sum + n, 0);
+      if (snapshotCount > 0) {
+        const undo = await this.snapshotService.undoImport(result.jobId, userId);
+        result.errors.push(...undo.errors.map(error => `Rollback: ${error}`));
       }
 
       if (result.assets?.documentIds) {
@@ -697,7 +932,15 @@ export class ImportOrchestratorService {
     }
 
     const whereClause = {
-      type: { in: [ProcessingJobType.IMPORT_ACCOUNTS, ProcessingJobType.IMPORT_PRODUCTS, ProcessingJobType.IMPORT_OPPORTUNITIES, ProcessingJobType.IMPORT_ASSETS] },
+      type: {
+        in: [
+          ProcessingJobType.IMPORT_ACCOUNTS,
+          ProcessingJobType.IMPORT_PRODUCTS,
+          ProcessingJobType.IMPORT_OPPORTUNITIES,
+          ProcessingJobType.IMPORT_CONTACTS,
+          ProcessingJobType.IMPORT_ASSETS,
+        ],
+      },
       createdAt: { gte: startDate },
       ...(userId && { userId }),
     };
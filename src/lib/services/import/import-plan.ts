@@ -0,0 +1,201 @@
+/**
+ * Import Plan
+ * Dry-run results describing what an import would write, without touching the database
+ */
+
+export type ImportPlanEntityType = 'accounts' | 'products' | 'opportunities' | 'contacts';
+
+export type ImportPlanAction = 'create' | 'update' | 'unchanged' | 'skip' | 'conflict';
+
+export interface ImportFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ImportPlanLink {
+  entityType: 'accounts' | 'products';
+  key: string;
+  status: 'existing' | 'pending' | 'create' | 'review';
+  id?: string;
+  score?: number; // Match confidence of a fuzzy account match held for review
+}
+
+export interface ImportPlanRecord {
+  row: number;
+  key: string;
+  action: ImportPlanAction;
+  existingId?: string;
+  matchedBy?: string;
+  changes?: ImportFieldChange[];
+  links?: ImportPlanLink[];
+  reason?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface ImportPlanOrphan {
+  row: number;
+  key: string;
+  reference: string;
+  reason: string;
+}
+
+export interface ImportPlanSummary {
+  total: number;
+  toCreate: number;
+  toUpdate: number;
+  unchanged: number;
+  skipped: number;
+  conflicts: number;
+  orphans: number;
+  invalid: number;
+}
+
+export interface ImportPlan {
+  entityType: ImportPlanEntityType;
+  summary: ImportPlanSummary;
+  creates: ImportPlanRecord[];
+  updates: ImportPlanRecord[];
+  conflicts: ImportPlanRecord[];
+  orphans: ImportPlanOrphan[];
+  maxRecords: number;
+  truncated: boolean;
+}
+
+export const DEFAULT_PLAN_MAX_RECORDS = 500;
+
+/**
+ * Create an empty plan; only the first `maxRecords` entries of each list are kept
+ */
+export function createImportPlan(
+  entityType: ImportPlanEntityType,
+  maxRecords: number = DEFAULT_PLAN_MAX_RECORDS
+): ImportPlan {
+  return {
+    entityType,
+    summary: {
+      total: 0,
+      toCreate: 0,
+      toUpdate: 0,
+      unchanged: 0,
+      skipped: 0,
+      conflicts: 0,
+      orphans: 0,
+      invalid: 0,
+    },
+    creates: [],
+    updates: [],
+    conflicts: [],
+    orphans: [],
+    maxRecords,
+    truncated: false,
+  };
+}
+
+/**
+ * Count a planned record and keep it in the matching list while under the cap.
+ * Unchanged and skipped records are counted only.
+ */
+export function recordPlanEntry(plan: ImportPlan, record: ImportPlanRecord): void {
+  let list: ImportPlanRecord[] | undefined;
+
+  switch (record.action) {
+    case 'create':
+      plan.summary.toCreate++;
+      list = plan.creates;
+      break;
+    case 'update':
+      plan.summary.toUpdate++;
+      list = plan.updates;
+      break;
+    case 'conflict':
+      plan.summary.conflicts++;
+      list = plan.conflicts;
+      break;
+    case 'unchanged':
+      plan.summary.unchanged++;
+      break;
+    case 'skip':
+      plan.summary.skipped++;
+      break;
+  }
+
+  if (!list) return;
+  if (list.length < plan.maxRecords) {
+    list.push(record);
+  } else {
+    plan.truncated = true;
+  }
+}
+
+/**
+ * Count a reference that cannot be resolved
+ */
+export function recordPlanOrphan(plan: ImportPlan, orphan: ImportPlanOrphan): void {
+  plan.summary.orphans++;
+  if (plan.orphans.length < plan.maxRecords) {
+    plan.orphans.push(orphan);
+  } else {
+    plan.truncated = true;
+  }
+}
+
+/**
+ * Trim plan lists to a new cap, keeping the summary counts intact
+ */
+export function truncatePlan(plan: ImportPlan, maxRecords: number): ImportPlan {
+  const lists = [plan.creates, plan.updates, plan.conflicts, plan.orphans];
+  const truncated = plan.truncated || lists.some(list => list.length > maxRecords);
+
+  return {
+    ...plan,
+    creates: plan.creates.slice(0, maxRecords),
+    updates: plan.updates.slice(0, maxRecords),
+    conflicts: plan.conflicts.slice(0, maxRecords),
+    orphans: plan.orphans.slice(0, maxRecords),
+    maxRecords,
+    truncated,
+  };
+}
+
+/**
+ * Normalize a stored or incoming value so equal values compare equal
+ */
+export function normalizePlanValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object' && typeof (value as { toNumber?: unknown }).toNumber === 'function') {
+    return (value as { toNumber: () => number }).toNumber();
+  }
+  return value;
+}
+
+/**
+ * Field-level differences between an existing record and the data an import would write.
+ * Fields the import does not set (undefined) are left out, as the write would not touch them.
+ */
+export function diffFields(
+  existing: object,
+  incoming: object,
+  fields: string[] = Object.keys(incoming)
+): ImportFieldChange[] {
+  const current = existing as Record<string, unknown>;
+  const next = incoming as Record<string, unknown>;
+  const changes: ImportFieldChange[] = [];
+
+  for (const field of fields) {
+    if (next[field] === undefined) continue;
+
+    const before = normalizePlanValue(current[field]);
+    const after = normalizePlanValue(next[field]);
+    const same = typeof before === 'object' || typeof after === 'object'
+      ? JSON.stringify(before) === JSON.stringify(after)
+      : before === after;
+
+    if (!same) {
+      changes.push({ field, before, after });
+    }
+  }
+
+  return changes;
+}
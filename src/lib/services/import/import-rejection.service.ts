@@ -0,0 +1,190 @@
+import * as XLSX from 'xlsx';
+
+import { NotFoundError, ValidationError } from '@/lib/middleware/error-handler';
+import { prisma } from '@/lib/prisma';
+
+import type { ImportSourceRow } from './import-source';
+
+export type ImportRejectionEntity = 'accounts' | 'products' | 'opportunities' | 'contacts';
+
+export type RejectedRowsReportFormat = 'csv' | 'xlsx';
+
+export interface RejectedRowsReport {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+  rows: number;
+}
+
+export interface RejectedRowSummary {
+  total: number;
+  byEntity: Partial<Record<ImportRejectionEntity, number>>;
+}
+
+// Columns a report adds after the source columns; imports drop them so a corrected report can be re-uploaded
+export const REJECTED_ROW_REPORT_COLUMNS = ['error_row', 'error_reason'];
+
+const CONTENT_TYPES: Record<RejectedRowsReportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export class ImportRejectionService {
+  /**
+   * Keep the source rows a batch rejected, with every error reported against them.
+   * Rows a resumed job already recorded are not recorded twice.
+   */
+  async recordRejectedRows(
+    jobId: string | undefined,
+    entityType: ImportRejectionEntity,
+    rows: ImportSourceRow[],
+    errors: Array<{ row: number; error: string }>
+  ): Promise<number> {
+    if (!jobId || errors.length === 0) return 0;
+
+    const errorsByRow = new Map<number, string[]>();
+    for (const { row, error } of errors) {
+      errorsByRow.set(row, [...(errorsByRow.get(row) || []), error]);
+    }
+
+    const data = rows
+      .filter(({ rowNumber }) => errorsByRow.has(rowNumber))
+      .map(({ rowNumber, source }) => ({
+        jobId,
+        entityType,
+        rowNumber,
+        data: source,
+        errors: errorsByRow.get(rowNumber) || [],
+      }));
+    if (data.length === 0) return 0;
+
+    const { count } = await prisma.importRejectedRow.createMany({ data, skipDuplicates: true });
+    return count;
+  }
+
+  /**
+   * The errors of the rows a job rejected, in row order, with each row's source values;
+   * a resumed import reports them again instead of carrying them in its checkpoint
+   */
+  async getRejectedErrors(
+    jobId: string | undefined,
+    entityType: ImportRejectionEntity
+  ): Promise<Array<{ row: number; data: Record<string, string>; error: string }>> {
+    if (!jobId) return [];
+
+    const rejected = await prisma.importRejectedRow.findMany({
+      where: { jobId, entityType },
+      orderBy: { rowNumber: 'asc' },
+      select: { rowNumber: true, data: true, errors: true },
+    });
+
+    return rejected.flatMap(({ rowNumber, data, errors }) =>
+      errors.map(error => ({ row: rowNumber, data: data as Record<string, string>, error }))
+    );
+  }
+
+  /**
+   * Count a job's rejected rows by entity
+   */
+  async getRejectedRowSummary(jobId: string): Promise<RejectedRowSummary> {
+    const groups = await prisma.importRejectedRow.groupBy({
+      by: ['entityType'],
+      where: { jobId },
+      _count: { id: true },
+    });
+
+    return {
+      total: groups.reduce((sum, group) => sum + group._count.id, 0),
+      byEntity: Object.fromEntries(groups.map(group => [group.entityType, group._count.id])),
+    };
+  }
+
+  /**
+   * Build a file of a job's rejected rows with their original columns, followed by the
+   * source row number and the reasons each was rejected. A workbook holds one sheet per
+   * entity; a CSV holds one entity, so jobs that rejected rows of several need `entityType`.
+   */
+  async buildRejectedRowsReport(
+    jobId: string,
+    userId: string,
+    format: RejectedRowsReportFormat,
+    entityType?: ImportRejectionEntity
+  ): Promise<RejectedRowsReport> {
+    const job = await prisma.processingJob.findFirst({
+      where: { id: jobId, userId },
+      select: { id: true },
+    });
+
+    if (!job) {
+      throw new NotFoundError('Import job');
+    }
+
+    const rejected = await prisma.importRejectedRow.findMany({
+      where: { jobId, ...(entityType ? { entityType } : {}) },
+      orderBy: [{ entityType: 'asc' }, { rowNumber: 'asc' }],
+    });
+
+    if (rejected.length === 0) {
+      throw new NotFoundError('Rejected rows');
+    }
+
+    const sheets = new Map<string, typeof rejected>();
+    for (const row of rejected) {
+      sheets.set(row.entityType, [...(sheets.get(row.entityType) || []), row]);
+    }
+
+    if (format === 'csv' && sheets.size > 1) {
+      throw new ValidationError('Rows of several entities were rejected; choose one to download as CSV', {
+        entities: [...sheets.keys()],
+      });
+    }
+
+    const workbook = XLSX.utils.book_new();
+    for (const [sheetName, rows] of sheets) {
+      XLSX.utils.book_append_sheet(workbook, this.buildSheet(rows), sheetName);
+    }
+
+    const baseName = `import-${jobId}-rejected${sheets.size === 1 ? `-${[...sheets.keys()][0]}` : ''}`;
+    const content = format === 'csv'
+      ? Buffer.from(XLSX.utils.sheet_to_csv(workbook.Sheets[workbook.SheetNames[0]]), 'utf8')
+      : XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+    return {
+      fileName: `${baseName}.${format}`,
+      contentType: CONTENT_TYPES[format],
+      content,
+      rows: rejected.length,
+    };
+  }
+
+  /**
+   * Lay rows out under the union of their source columns, in the order first seen
+   */
+  private buildSheet(rows: Array<{ rowNumber: number; data: unknown; errors: string[] }>): XLSX.WorkSheet {
+    const columns: string[] = [];
+    for (const { data } of rows) {
+      for (const column of Object.keys(data as Record<string, string>)) {
+        if (!columns.includes(column)) columns.push(column);
+      }
+    }
+
+    return XLSX.utils.aoa_to_sheet([
+      [...columns, ...REJECTED_ROW_REPORT_COLUMNS],
+      ...rows.map(({ rowNumber, data, errors }) => [
+        ...columns.map(column => (data as Record<string, string>)[column] ?? ''),
+        rowNumber,
+        errors.join('; '),
+      ]),
+    ]);
+  }
+}
+
+// Singleton instance
+let importRejectionService: ImportRejectionService | null = null;
+
+export function getImportRejectionService(): ImportRejectionService {
+  if (!importRejectionService) {
+    importRejectionService = new ImportRejectionService();
+  }
+  return importRejectionService;
+}
@@ -0,0 +1,557 @@
+import { randomUUID } from 'crypto';
+
+import { AccountMatchReviewStatus, JobStatus, Prisma } from '@prisma/client';
+
+import { logger } from '@/lib/logger';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/middleware/error-handler';
+import { prisma } from '@/lib/prisma';
+import { QueueManager } from '@/lib/queue';
+import { getVectorStore } from '@/lib/services/vector';
+
+import { getTechnologyEnrichmentService, IMPORT_TECHNOLOGY_SOURCE } from './technology-enrichment.service';
+
+export type ImportSnapshotEntity = 'accounts' | 'products' | 'opportunities' | 'purchaseProducts' | 'contacts';
+
+// A record changed since its import finished, which undo leaves as it is
+export interface ImportUndoConflict {
+  entityType: ImportSnapshotEntity;
+  recordId: string;
+  action: 'created' | 'updated';
+  // Written again after the import, deleted (e.g. merged away), or a created account that holds
+  // records the import did not create
+  reason: 'modified' | 'missing' | 'children';
+}
+
+export interface ImportUndoResult {
+  jobId: string;
+  restored: Record<ImportSnapshotEntity, number>;
+  deleted: Record<ImportSnapshotEntity, number>;
+  conflicts: ImportUndoConflict[];
+  vectorsRemovedForAccounts: number;
+  vectorizationJobId?: string; // Queued job that vectorizes the restored accounts again
+  errors: string[];
+  undoneAt?: Date; // Unset while records failed to undo; undoing again finishes them
+}
+
+// Created rows are deleted children-first; a created account still holding other records after that
+// is kept, so cascades never reach records the import did not create
+const DELETE_ORDER: ImportSnapshotEntity[] = ['purchaseProducts', 'opportunities', 'contacts', 'products', 'accounts'];
+
+// Json columns need Prisma.DbNull rather than null when restored
+const JSON_FIELDS: Partial<Record<ImportSnapshotEntity, string[]>> = {
+  accounts: ['metadata'],
+  contacts: ['metadata'],
+};
+
+const emptyCounts = (): Record<ImportSnapshotEntity, number> => ({
+  accounts: 0,
+  products: 0,
+  opportunities: 0,
+  purchaseProducts: 0,
+  contacts: 0,
+});
+
+export class ImportSnapshotService {
+  /**
+   * Record a row created by an import job
+   */
+  async recordCreated(jobId: string | undefined, entityType: ImportSnapshotEntity, recordId: string) {
+    if (!jobId) return;
+
+    await prisma.importSnapshot.create({
+      data: { jobId, entityType, recordId, action: 'created' },
+    });
+  }
+
+  /**
+   * Record the before-image of the fields an import is about to overwrite
+   */
+  async recordUpdated(
+    jobId: string | undefined,
+    entityType: ImportSnapshotEntity,
+    existing: { id: string },
+    fields: string[]
+  ) {
+    if (!jobId) return;
+
+    const current = existing as unknown as Record<string, unknown>;
+    const before: Record<string, unknown> = {};
+    for (const field of fields) {
+      if (field in current) {
+        before[field] = current[field] ?? null;
+      }
+    }
+
+    await prisma.importSnapshot.create({
+      data: {
+        jobId,
+        entityType,
+        recordId: existing.id,
+        action: 'updated',
+        before: JSON.parse(JSON.stringify(before)) as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  /**
+   * Record one before-image for many rows a bulk update is about to overwrite
+   */
+  async recordUpdatedMany(
+    jobId: string | undefined,
+    entityType: ImportSnapshotEntity,
+    recordIds: string[],
+    before: Record<string, unknown>
+  ) {
+    if (!jobId || recordIds.length === 0) return;
+
+    await prisma.importSnapshot.createMany({
+      data: recordIds.map(recordId => ({
+        jobId,
+        entityType,
+        recordId,
+        action: 'updated',
+        before: JSON.parse(JSON.stringify(before)) as Prisma.InputJsonObject,
+      })),
+    });
+  }
+
+  /**
+   * Whether a job already created or updated a record, so a replayed row is not written twice
+   */
+  async getRecordedAction(
+    jobId: string | undefined,
+    entityType: ImportSnapshotEntity,
+    recordId: string
+  ): Promise<'created' | 'updated' | null> {
+    if (!jobId) return null;
+
+    const snapshot = await prisma.importSnapshot.findFirst({
+      where: { jobId, entityType, recordId, restoredAt: null },
+      orderBy: { createdAt: 'asc' },
+      select: { action: true },
+    });
+
+    return (snapshot?.action as 'created' | 'updated' | undefined) ?? null;
+  }
+
+  /**
+   * Ids of the records a job created or updated, for a resumed import to report again
+   */
+  async getRecordIds(
+    jobId: string | undefined,
+    entityType: ImportSnapshotEntity,
+    actions: Array<'created' | 'updated'> = ['created', 'updated']
+  ): Promise<string[]> {
+    if (!jobId) return [];
+
+    const snapshots = await prisma.importSnapshot.findMany({
+      where: { jobId, entityType, action: { in: actions }, restoredAt: null },
+      orderBy: { createdAt: 'asc' },
+      select: { recordId: true },
+    });
+
+    return [...new Set(snapshots.map(snapshot => snapshot.recordId))];
+  }
+
+  /**
+   * Count the snapshots recorded for a job
+   */
+  async getSnapshotSummary(jobId: string) {
+    const groups = await prisma.importSnapshot.groupBy({
+      by: ['entityType', 'action'],
+      where: { jobId },
+      _count: { id: true },
+    });
+
+    const created = emptyCounts();
+    const updated = emptyCounts();
+    for (const group of groups) {
+      const counts = group.action === 'created' ? created : updated;
+      counts[group.entityType as ImportSnapshotEntity] = group._count.id;
+    }
+
+    return { created, updated };
+  }
+
+  /**
+   * Undo an import: restore updated rows to their before-images, delete created rows
+   * and remove the vectors of deleted accounts
+   */
+  async undoImport(jobId: string, userId: string): Promise<ImportUndoResult> {
+    const job = await prisma.processingJob.findFirst({
+      where: { id: jobId, userId },
+    });
+
+    if (!job) {
+      throw new NotFoundError('Import job');
+    }
+
+    if (job.status === JobStatus.RUNNING || job.status === JobStatus.QUEUED) {
+      throw new ConflictError('Cannot undo an import that is still running');
+    }
+
+    if (job.undoneAt) {
+      throw new ConflictError('Import has already been undone');
+    }
+
+    const recorded = await prisma.importSnapshot.findMany({
+      where: { jobId },
+      orderBy: { createdAt: 'desc' },
+    });
+    const snapshots = recorded.filter(snapshot => !snapshot.restoredAt);
+
+    if (snapshots.length === 0) {
+      throw new ValidationError('No undo snapshots were recorded for this import');
+    }
+
+    const result: ImportUndoResult = {
+      jobId,
+      restored: emptyCounts(),
+      deleted: emptyCounts(),
+      conflicts: [],
+      vectorsRemovedForAccounts: 0,
+      errors: [],
+    };
+
+    // A later import, a manual edit or an account merge may have written a record since; undo
+    // leaves those records alone rather than overwrite or delete their newer changes
+    // A record an earlier, partial undo already wrote is compared with when that undo wrote it
+    const finishedAt = job.completedAt ?? job.failedAt ?? job.updatedAt;
+    const writtenAt = new Map<string, Date>();
+    for (const snapshot of recorded) {
+      const key = `${snapshot.entityType}:${snapshot.recordId}`;
+      const since = writtenAt.get(key) ?? finishedAt;
+      if (snapshot.restoredAt && snapshot.restoredAt > since) writtenAt.set(key, snapshot.restoredAt);
+    }
+    result.conflicts = await this.findConflicts(snapshots, finishedAt, writtenAt);
+    const conflicted = new Set(result.conflicts.map(conflict => `${conflict.entityType}:${conflict.recordId}`));
+    const isConflicted = (snapshot: { entityType: string; recordId: string }) =>
+      conflicted.has(`${snapshot.entityType}:${snapshot.recordId}`);
+
+    // Product versions this import opened, which hand the current flag back to the versions it closed
+    const createdProductIds = snapshots
+      .filter(s => s.action === 'created' && s.entityType === 'products')
+      .map(s => s.recordId);
+
+    // Snapshots restored or deleted; any other snapshot is left for a second undo to finish
+    const settledIds: string[] = [];
+
+    // Newest first, so a row updated twice ends on its earliest before-image
+    const restoredAccountIds = new Set<string>();
+    for (const snapshot of snapshots.filter(s => s.action === 'updated' && !isConflicted(s))) {
+      const entityType = snapshot.entityType as ImportSnapshotEntity;
+      try {
+        await this.restoreRecord(entityType, snapshot.recordId, snapshot.before as Record<string, unknown>, createdProductIds);
+        result.restored[entityType]++;
+        settledIds.push(snapshot.id);
+        if (entityType === 'accounts') restoredAccountIds.add(snapshot.recordId);
+      } catch (error) {
+        result.errors.push(
+          `Failed to restore ${entityType} ${snapshot.recordId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    if (restoredAccountIds.size > 0) {
+      const accountIds = [...restoredAccountIds];
+
+      // Restored vendor columns take the technologies derived from them back too
+      try {
+        await getTechnologyEnrichmentService().syncAccountTechnologies(accountIds);
+      } catch (error) {
+        result.errors.push(
+          `Failed to resync account technologies: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+
+      result.vectorizationJobId = await this.queueAccountVectorization(accountIds, userId, jobId, result.errors);
+    }
+
+    for (const entityType of DELETE_ORDER) {
+      let created = snapshots.filter(s => s.action === 'created' && s.entityType === entityType && !isConflicted(s));
+      if (created.length === 0) continue;
+
+      try {
+        if (entityType === 'accounts') {
+          const withChildren = await this.findAccountsWithChildren(created.map(s => s.recordId));
+          for (const recordId of withChildren) {
+            result.conflicts.push({ entityType, recordId, action: 'created', reason: 'children' });
+            conflicted.add(`${entityType}:${recordId}`);
+          }
+          created = created.filter(s => !withChildren.has(s.recordId));
+        }
+
+        const ids = created.map(s => s.recordId);
+        if (ids.length === 0) continue;
+        if (entityType === 'accounts') {
+          result.vectorsRemovedForAccounts = await this.removeAccountVectors(ids, result.errors);
+        }
+        result.deleted[entityType] = await this.deleteRecords(entityType, ids);
+        settledIds.push(...created.map(s => s.id));
+      } catch (error) {
+        result.errors.push(
+          `Failed to delete created ${entityType}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    // Conflicts stay as they are, so the import is undone once every other snapshot is settled
+    const settled = new Set(settledIds);
+    const complete = snapshots.every(s => settled.has(s.id) || isConflicted(s));
+    const restoredAt = new Date();
+
+    const operations: Prisma.PrismaPromise<unknown>[] = [
+      prisma.importSnapshot.updateMany({
+        where: { id: { in: settledIds } },
+        data: { restoredAt },
+      }),
+    ];
+    if (complete) {
+      operations.push(
+        // Rows still held for an account match review are dropped with the rest of the import
+        prisma.accountMatchReview.deleteMany({
+          where: { jobId, status: AccountMatchReviewStatus.PENDING },
+        }),
+        // Fields fall back to the sources recorded before this import
+        prisma.fieldLineage.deleteMany({ where: { jobId } }),
+        prisma.processingJob.update({
+          where: { id: jobId },
+          data: {
+            undoneAt: restoredAt,
+            updatedAt: new Date(),
+          },
+        })
+      );
+    }
+    await prisma.$transaction(operations);
+
+    if (complete) result.undoneAt = restoredAt;
+
+    logger.info('ImportSnapshotService: Import undone', {
+      jobId,
+      userId,
+      restored: result.restored,
+      deleted: result.deleted,
+      conflicts: result.conflicts.length,
+      errors: result.errors.length,
+      complete,
+    });
+
+    return result;
+  }
+
+  /**
+   * Records written since the import finished, or updated by it and since deleted
+   */
+  private async findConflicts(
+    snapshots: Array<{ entityType: string; recordId: string; action: string }>,
+    finishedAt: Date,
+    writtenAt = new Map<string, Date>()
+  ): Promise<ImportUndoConflict[]> {
+    const conflicts: ImportUndoConflict[] = [];
+
+    for (const entityType of DELETE_ORDER) {
+      const actions = new Map<string, 'created' | 'updated'>();
+      for (const snapshot of snapshots.filter(s => s.entityType === entityType)) {
+        actions.set(snapshot.recordId, snapshot.action as 'created' | 'updated');
+      }
+      if (actions.size === 0) continue;
+
+      const records = await this.findUpdatedAt(entityType, [...actions.keys()]);
+      const updatedAt = new Map(records.map(record => [record.id, record.updatedAt]));
+
+      for (const [recordId, action] of actions) {
+        const recordUpdatedAt = updatedAt.get(recordId);
+        if (!recordUpdatedAt) {
+          // A created row already gone needs no undo
+          if (action === 'updated') conflicts.push({ entityType, recordId, action, reason: 'missing' });
+        } else if (recordUpdatedAt > (writtenAt.get(`${entityType}:${recordId}`) ?? finishedAt)) {
+          conflicts.push({ entityType, recordId, action, reason: 'modified' });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Accounts with records the import did not create: its own opportunities and contacts are deleted
+   * before its accounts, and technologies from import columns and account vectors go with the account
+   */
+  private async findAccountsWithChildren(accountIds: string[]): Promise<Set<string>> {
+    const args = { select: { accountId: true }, distinct: ['accountId' as const] };
+    const children = await Promise.all([
+      prisma.opportunity.findMany({ where: { accountId: { in: accountIds } }, ...args }),
+      prisma.contact.findMany({ where: { accountId: { in: accountIds } }, ...args }),
+      prisma.technology.findMany({
+        where: { accountId: { in: accountIds }, source: { not: IMPORT_TECHNOLOGY_SOURCE } },
+        ...args,
+      }),
+      prisma.insight.findMany({ where: { accountId: { in: accountIds } }, ...args }),
+      // Chunks of documents linked to the account, rather than of the account itself
+      prisma.vectorChunk.findMany({ where: { accountId: { in: accountIds }, documentId: { not: null } }, ...args }),
+    ]);
+
+    return new Set(children.flat().flatMap(child => (child.accountId ? [child.accountId] : [])));
+  }
+
+  /**
+   * When rows were last written
+   */
+  private async findUpdatedAt(
+    entityType: ImportSnapshotEntity,
+    ids: string[]
+  ): Promise<Array<{ id: string; updatedAt: Date }>> {
+    const args = { where: { id: { in: ids } }, select: { id: true, updatedAt: true } };
+
+    switch (entityType) {
+      case 'accounts':
+        return prisma.companyAccount.findMany(args);
+      case 'products':
+        return prisma.product.findMany(args);
+      case 'opportunities':
+        return prisma.opportunity.findMany(args);
+      case 'purchaseProducts':
+        return prisma.purchaseProduct.findMany(args);
+      case 'contacts':
+        return prisma.contact.findMany(args);
+    }
+  }
+
+  /**
+   * Write a before-image back to its row
+   */
+  private async restoreRecord(
+    entityType: ImportSnapshotEntity,
+    id: string,
+    before: Record<string, unknown>,
+    createdProductIds: string[] = []
+  ) {
+    const jsonFields = JSON_FIELDS[entityType] || [];
+    const data: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(before)) {
+      data[field] = value === null && jsonFields.includes(field) ? Prisma.DbNull : value;
+    }
+
+    switch (entityType) {
+      case 'accounts':
+        await prisma.companyAccount.update({ where: { id }, data });
+        break;
+      case 'products':
+        if (data.isCurrentRecordFlag === true && createdProductIds.length > 0) {
+          // Only one version of an item may be current, so the version opened by the import steps down first
+          const { itemNumber } = await prisma.product.findUniqueOrThrow({ where: { id }, select: { itemNumber: true } });
+          await prisma.$transaction([
+            prisma.product.updateMany({
+              where: { id: { in: createdProductIds }, itemNumber, isCurrentRecordFlag: true },
+              data: { isCurrentRecordFlag: false },
+            }),
+            prisma.product.update({ where: { id }, data }),
+          ]);
+        } else {
+          await prisma.product.update({ where: { id }, data });
+        }
+        break;
+      case 'opportunities':
+        await prisma.opportunity.update({ where: { id }, data });
+        break;
+      case 'purchaseProducts':
+        await prisma.purchaseProduct.update({ where: { id }, data });
+        break;
+      case 'contacts':
+        await prisma.contact.update({ where: { id }, data });
+        break;
+    }
+  }
+
+  /**
+   * Delete rows an import created
+   */
+  private async deleteRecords(entityType: ImportSnapshotEntity, ids: string[]): Promise<number> {
+    const where = { id: { in: ids } };
+
+    switch (entityType) {
+      case 'accounts':
+        return (await prisma.companyAccount.deleteMany({ where })).count;
+      case 'products':
+        return (await prisma.product.deleteMany({ where })).count;
+      case 'opportunities':
+        return (await prisma.opportunity.deleteMany({ where })).count;
+      case 'purchaseProducts':
+        return (await prisma.purchaseProduct.deleteMany({ where })).count;
+      case 'contacts':
+        return (await prisma.contact.deleteMany({ where })).count;
+    }
+  }
+
+  /**
+   * Replace the account summary vectors of restored accounts: their points still hold the imported
+   * values, so they are removed and a queued job chunks the accounts again
+   */
+  private async queueAccountVectorization(
+    accountIds: string[],
+    userId: string,
+    undoneJobId: string,
+    errors: string[]
+  ): Promise<string | undefined> {
+    await this.removeAccountVectors(accountIds, errors, 'account');
+
+    const vectorizationJobId = randomUUID();
+    try {
+      await QueueManager.addImportJob(
+        {
+          type: 'vectorize',
+          userId,
+          data: { accountIds },
+          options: {},
+          metadata: { jobId: vectorizationJobId, undoneJobId },
+        },
+        vectorizationJobId
+      );
+      return vectorizationJobId;
+    } catch (error) {
+      errors.push(`Failed to queue account vectorization: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Remove Qdrant points for accounts about to be deleted, or only their account summary
+   * points when a scope is given
+   */
+  private async removeAccountVectors(accountIds: string[], errors: string[], scope?: 'account'): Promise<number> {
+    const accounts = await prisma.companyAccount.findMany({
+      where: { id: { in: accountIds } },
+      select: { id: true, accountNumber: true },
+    });
+
+    // Account chunks are keyed by account number, falling back to the id when there is none
+    const accountNumbers = accounts.flatMap(account =>
+      account.accountNumber ? [account.accountNumber, account.id] : [account.id]
+    );
+    if (accountNumbers.length === 0) return 0;
+
+    try {
+      await getVectorStore().deleteByFilter({
+        must: [
+          { key: 'accountNumber', match: { any: accountNumbers } },
+          ...(scope ? [{ key: 'scope', match: { value: scope } }] : []),
+        ],
+      });
+      return accounts.length;
+    } catch (error) {
+      errors.push(`Failed to remove account vectors: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return 0;
+    }
+  }
+}
+
+// Singleton instance
+let importSnapshotService: ImportSnapshotService | null = null;
+
+export function getImportSnapshotService(): ImportSnapshotService {
+  if (!importSnapshotService) {
+    importSnapshotService = new ImportSnapshotService();
+  }
+  return importSnapshotService;
+}
@@ -0,0 +1,184 @@
+/**
+ * Import Source
+ * Reads the rows of an uploaded file in batches, so an import holds one batch in memory at a time
+ */
+
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+
+import { FileParserUtils, QuickParse } from '@/lib/services/parsers';
+
+import { ColumnMapping, getColumnMappingService } from './column-mapping.service';
+import { REJECTED_ROW_REPORT_COLUMNS } from './import-rejection.service';
+
+export type ImportSource = Buffer | Readable;
+
+// An uploaded file, either in memory or on disk
+export interface ImportFileData {
+  buffer?: Buffer;
+  filePath?: string;
+  fileName: string;
+}
+
+export interface ImportSourceRow {
+  row: Record<string, unknown>; // The row after column mapping
+  rowNumber: number;
+  source: Record<string, string>; // The row as read, before column mapping
+}
+
+export interface ImportSourceBatch {
+  rows: ImportSourceRow[];
+  bytesRead: number;
+  totalBytes?: number;
+}
+
+export interface ImportSourceOptions {
+  batchSize: number;
+  sheetName?: string;
+  recordPath?: string; // Dotted path to the records of a JSON source, e.g. "data.accounts"
+  columnMappings?: ColumnMapping[];
+  totalBytes?: number; // Size of a streamed source, when known
+}
+
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls'];
+const JSON_EXTENSIONS = ['.json', '.ndjson', '.jsonl'];
+
+/**
+ * Open an uploaded file for import: a buffer as is, or a stream of a file on disk, so large
+ * files never have to fit in memory
+ */
+export async function openImportSource(data: ImportFileData): Promise<{ source: ImportSource; size?: number }> {
+  if (data.filePath) {
+    const { size } = await stat(data.filePath);
+    return { source: createReadStream(data.filePath), size };
+  }
+  if (!data.buffer) {
+    throw new Error(`No file data for import: ${data.fileName}`);
+  }
+  return { source: data.buffer, size: data.buffer.length };
+}
+
+/**
+ * Read a source in batches of rows. CSV is streamed with backpressure: the next batch is
+ * only read once the caller asks for it. Workbooks and JSON cannot be streamed and are parsed
+ * whole; nested JSON fields become dotted columns such as "address.city".
+ */
+export async function* readImportBatches(
+  source: ImportSource,
+  fileName: string,
+  options: ImportSourceOptions
+): AsyncGenerator<ImportSourceBatch> {
+  const totalBytes = Buffer.isBuffer(source) ? source.length : options.totalBytes;
+  const columnMappingService = getColumnMappingService();
+  const columnMappings = options.columnMappings;
+  // Mapping transforms read cells as written: inference would already have read a DD/MM/YYYY date
+  // as MM/DD/YYYY, or dropped the leading zeros of a code, before the mappings see it
+  const inferTypes = !columnMappings?.length;
+  const mapRow = (row: Record<string, string>): Record<string, unknown> =>
+    columnMappings?.length ? columnMappingService.applyMappings(row, columnMappings) : row;
+  const readRow = (row: Record<string, unknown>, rowNumber: number): ImportSourceRow => {
+    // Cells are strings, as they are when read from parsed table blocks
+    const source = stringifyCells(row);
+    // Re-uploaded rejected-row reports carry error columns that are not part of the data
+    REJECTED_ROW_REPORT_COLUMNS.forEach(column => delete source[column]);
+    return { row: mapRow(source), rowNumber, source };
+  };
+
+  if (isSpreadsheetSource(source, fileName)) {
+    const buffer = Buffer.isBuffer(source) ? source : await readAll(source);
+    const parserResult = await QuickParse.excel(buffer, fileName, {
+      hasHeaders: true,
+      inferTypes,
+      skipEmptyLines: true,
+      sheets: options.sheetName ? [options.sheetName] : undefined,
+      maxRows: 0, // Every row: an import is not a preview
+    });
+    if (parserResult.metadata.errors.length > 0) {
+      throw new Error(`Invalid workbook source: ${parserResult.metadata.errors.join('; ')}`);
+    }
+
+    yield* batchRecords(FileParserUtils.tableBlocksToRecords(parserResult), buffer.length, options.batchSize, readRow);
+    return;
+  }
+
+  if (isJsonSource(source, fileName)) {
+    const buffer = Buffer.isBuffer(source) ? source : await readAll(source);
+    const parserResult = await QuickParse.json(buffer, fileName, {
+      recordPath: options.recordPath,
+      maxRows: 0, // Every record: an import is not a preview
+    });
+    if (parserResult.metadata.errors.length > 0) {
+      throw new Error(`Invalid JSON source: ${parserResult.metadata.errors.join('; ')}`);
+    }
+
+    yield* batchRecords(FileParserUtils.tableBlocksToRecords(parserResult), buffer.length, options.batchSize, readRow);
+    return;
+  }
+
+  let rows: ImportSourceRow[] = [];
+  let bytesRead = 0;
+
+  for await (const event of QuickParse.csvRows(source, { hasHeaders: true, inferTypes, skipEmptyLines: true })) {
+    rows.push(readRow(event.row, event.rowNumber));
+    bytesRead = event.bytesRead;
+
+    if (rows.length >= options.batchSize) {
+      yield { rows, bytesRead, totalBytes };
+      rows = [];
+    }
+  }
+
+  if (rows.length > 0) {
+    yield { rows, bytesRead: totalBytes ?? bytesRead, totalBytes };
+  }
+}
+
+function isSpreadsheetSource(source: ImportSource, fileName: string): boolean {
+  if (Buffer.isBuffer(source)) {
+    return FileParserUtils.isSpreadsheet(source, fileName);
+  }
+  return SPREADSHEET_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+}
+
+function isJsonSource(source: ImportSource, fileName: string): boolean {
+  if (Buffer.isBuffer(source)) {
+    return FileParserUtils.isJson(source, fileName);
+  }
+  return JSON_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+}
+
+/**
+ * Batches of rows parsed whole, with progress estimated from the share of rows read
+ */
+function* batchRecords(
+  records: Record<string, string>[],
+  totalBytes: number,
+  batchSize: number,
+  readRow: (row: Record<string, unknown>, rowNumber: number) => ImportSourceRow
+): Generator<ImportSourceBatch> {
+  for (let i = 0; i < records.length; i += batchSize) {
+    const end = Math.min(i + batchSize, records.length);
+    yield {
+      rows: records.slice(i, end).map((row, index) => readRow(row, i + index + 1)),
+      bytesRead: Math.round((totalBytes * end) / records.length),
+      totalBytes,
+    };
+  }
+}
+
+function stringifyCells(row: Record<string, unknown>): Record<string, string> {
+  const cells: Record<string, string> = {};
+  for (const [key, value] of Object.entries(row)) {
+    cells[key] = value === null || value === undefined ? '' : String(value);
+  }
+  return cells;
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,307 @@
+/**
+ * Import Templates
+ * CSV and XLSX templates built from the columns each entity importer accepts
+ */
+
+import * as XLSX from 'xlsx';
+
+import { ACCOUNT_COLUMN_ALIASES } from './account-import.service';
+import { IMPORT_TARGET_FIELDS, ImportEntityType, REQUIRED_TARGET_FIELDS } from './column-mapping.service';
+import { CONTACT_COLUMN_ALIASES } from './contact-import.service';
+import { OPPORTUNITY_COLUMN_ALIASES, OPPORTUNITY_PRODUCT_COLUMN_ALIASES } from './opportunity-import.service';
+import { PRODUCT_COLUMN_ALIASES } from './product-import.service';
+
+export type ImportTemplateFormat = 'csv' | 'xlsx';
+
+export type ImportTemplateFieldType = 'text' | 'number' | 'date' | 'boolean';
+
+export interface ImportTemplateField {
+  field: string;
+  column: string; // Template header, with REQUIRED_COLUMN_MARKER on required fields
+  required: boolean;
+  type: ImportTemplateFieldType;
+  description: string;
+  aliases: string[]; // Other headers the importer reads into this field
+}
+
+export interface ImportTemplate {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// Header names are compared without punctuation, so imports read `name*` as `name`
+export const REQUIRED_COLUMN_MARKER = '*';
+
+const COLUMN_ALIASES: Record<ImportEntityType, Array<Record<string, string>>> = {
+  accounts: [ACCOUNT_COLUMN_ALIASES],
+  products: [PRODUCT_COLUMN_ALIASES],
+  opportunities: [OPPORTUNITY_COLUMN_ALIASES, OPPORTUNITY_PRODUCT_COLUMN_ALIASES],
+  contacts: [CONTACT_COLUMN_ALIASES],
+};
+
+const CONTENT_TYPES: Record<ImportTemplateFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+type FieldDoc = { type: ImportTemplateFieldType; description: string };
+
+const text = (description: string): FieldDoc => ({ type: 'text', description });
+const number = (description: string): FieldDoc => ({ type: 'number', description });
+const date = (description: string): FieldDoc => ({ type: 'date', description: `${description} (YYYY-MM-DD)` });
+
+const FIELD_DOCS: Record<ImportEntityType, Record<string, FieldDoc>> = {
+  accounts: {
+    accountNumber: text('Your account number; generated when blank. Matches existing accounts'),
+    name: text('Company name. Matches existing accounts when there is no domain or account number'),
+    domain: text('Company web domain, such as acme.com. Matches existing accounts'),
+    industry: text('Industry'),
+    size: text('Company size or employee band'),
+    location: text('Headquarters location'),
+    description: text('Short company description'),
+    website: text('Company website URL'),
+    gemStatus: text('GEM status'),
+    gemIndex: text('GEM index'),
+    crmOwner: text('Account owner in the CRM'),
+    targetSolutions: text('Solutions to position with the account'),
+    battleCardNotes: text('Battle card notes'),
+    competitorResearch: text('Competitor research notes'),
+    recommendedSolution: text('Recommended solution'),
+    ccIntent: text('Contact center buying intent'),
+    ccVendor: text('Current contact center vendors, separated by commas'),
+    ucIntent: text('Unified communications buying intent'),
+    ucVendor: text('Current unified communications vendors, separated by commas'),
+    dcIntent: text('Data center buying intent'),
+    dcVendor: text('Current data center vendors, separated by commas'),
+    enIntent: text('Enterprise networking buying intent'),
+    enVendor: text('Current networking vendors, separated by commas'),
+    sxIntent: text('Software buying intent'),
+    sxVendor: text('Current software vendors, separated by commas'),
+    finalCustomerSegment: text('Final customer segment'),
+    ceCustomerSegment: text('CE customer segment'),
+    programCategory: text('Program category'),
+  },
+  products: {
+    itemNumber: text('Item number (SKU). Matches existing products'),
+    itemDescription: text('Item description'),
+    itemTypeCode: number('Numeric item type code'),
+    itemTypeDescription: text('Item type description'),
+    productType: text('Product type'),
+    itemRevenueCategory: text('Revenue category'),
+    itemManufacturer: text('Manufacturer'),
+    itemCategory: text('Item category'),
+    itemLineOfBusiness: text('Line of business'),
+    itemSubcategory: text('Item subcategory'),
+    itemClass: text('Item class'),
+    portfolio: text('Portfolio'),
+    currentCost: number('Current cost'),
+    scdStartDate: date('Date this version of the product took effect'),
+    scdEndDate: date('Date this version of the product ended'),
+    isCurrentRecordFlag: {
+      type: 'boolean',
+      description: 'Whether this is the current version (true/false, yes/no, 1/0); defaults to true',
+    },
+    offer: text('Offer'),
+    practice: text('Practice'),
+    solutionSegment: text('Solution segment'),
+    businessSegment: text('Business segment'),
+    manufacturerPractice: text('Manufacturer practice'),
+    manufacturerItemCategory: text('Manufacturer item category'),
+    growthCategory: text('Growth category'),
+  },
+  opportunities: {
+    opportunityNumber: text('Opportunity number. Matches existing opportunities'),
+    customerName: text('Customer company name, matched to an account'),
+    customerDomain: text('Customer web domain, used to match the account'),
+    oppStage: text('Sales stage'),
+    salesPerson: text('Sales person'),
+    salesDirector: text('Sales director'),
+    bookedGrossRevenue: number('Booked gross revenue'),
+    pipelineGrossRevenue: number('Pipeline gross revenue'),
+    margin: number('Margin'),
+    currency: text('ISO 4217 code of the revenue, such as USD, CAD or EUR; the reporting currency when blank'),
+    bookedDate: date('Date the opportunity was booked'),
+    estimatedCloseDate: date('Estimated close date'),
+    accountId: text('Id of the account to link, instead of matching by customer'),
+    accountNumber: text('Number of the account to link, instead of matching by customer'),
+    accountName: text('Used as the customer name when customer_name is blank'),
+    itemNumber: text('Item number of a product on the opportunity'),
+    gpRevenueCategory: text('GP revenue category of the product'),
+    mappedSolutionArea: text('Solution area of the product'),
+    mappedSegment: text('Segment of the product'),
+    mappedCapability: text('Capability of the product'),
+    itemCategory: text('Category of the product'),
+    quantity: number('Quantity of the product'),
+    unitPrice: number('Unit price of the product'),
+    discount: number('Discount off the unit price, in percent'),
+    totalValue: number('Net value of the product line; calculated from quantity, unit price and discount when blank'),
+    lineMargin: number('Margin of the product line'),
+    lineCurrency: text("ISO 4217 code of the product line, when it differs from the opportunity's"),
+  },
+  contacts: {
+    name: text('Full name; built from first_name and last_name when blank'),
+    firstName: text('First name'),
+    lastName: text('Last name'),
+    email: text('Email address. Matches existing contacts'),
+    title: text('Job title'),
+    department: text('Department'),
+    linkedIn: text('LinkedIn profile URL'),
+    accountId: text('Id of the account the contact works for'),
+    accountNumber: text('Number of the account the contact works for'),
+    accountDomain: text('Web domain of the account the contact works for'),
+  },
+};
+
+const EXAMPLE_ROWS: Record<ImportEntityType, Array<Record<string, string>>> = {
+  accounts: [
+    {
+      accountNumber: 'ACC-1001',
+      name: 'Acme Manufacturing',
+      domain: 'acme.com',
+      industry: 'Manufacturing',
+      size: '1000-5000',
+      location: 'Chicago, IL',
+      crmOwner: 'Jordan Lee',
+      ccIntent: 'High',
+      ccVendor: 'Genesys Cloud',
+      ucVendor: 'Microsoft Teams, Zoom',
+    },
+    {
+      name: 'Globex Energy',
+      domain: 'globex.com',
+      industry: 'Energy',
+      location: 'Houston, TX',
+      enVendor: 'Cisco',
+    },
+  ],
+  products: [
+    {
+      itemNumber: 'CX-LIC-100',
+      itemDescription: 'Contact center agent license',
+      itemManufacturer: 'Genesys',
+      itemCategory: 'Software',
+      currentCost: '125.00',
+      scdStartDate: '2024-01-01',
+      isCurrentRecordFlag: 'true',
+    },
+    {
+      itemNumber: 'NET-SW-48',
+      itemDescription: '48-port access switch',
+      itemManufacturer: 'Cisco',
+      itemCategory: 'Hardware',
+      currentCost: '2400.00',
+    },
+  ],
+  opportunities: [
+    {
+      opportunityNumber: 'OPP-2024-001',
+      customerName: 'Acme Manufacturing',
+      customerDomain: 'acme.com',
+      oppStage: 'Proposal',
+      salesPerson: 'Jordan Lee',
+      pipelineGrossRevenue: '150000',
+      estimatedCloseDate: '2024-09-30',
+      itemNumber: 'CX-LIC-100',
+      quantity: '500',
+      unitPrice: '300',
+    },
+    {
+      opportunityNumber: 'OPP-2024-002',
+      customerName: 'Globex Energy',
+      oppStage: 'Closed Won',
+      bookedGrossRevenue: '48000',
+      margin: '0.22',
+      bookedDate: '2024-03-15',
+    },
+  ],
+  contacts: [
+    {
+      firstName: 'Dana',
+      lastName: 'Whitfield',
+      email: 'dana.whitfield@acme.com',
+      title: 'VP of Customer Operations',
+      department: 'Operations',
+    },
+    {
+      name: 'Sam Ortiz',
+      email: 'sam.ortiz@gmail.com',
+      title: 'IT Director',
+      accountDomain: 'globex.com',
+    },
+  ],
+};
+
+function toSnakeCase(field: string): string {
+  return field.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * The columns an entity importer reads, in template order, with the other headers it accepts
+ */
+export function getImportTemplateFields(entityType: ImportEntityType): ImportTemplateField[] {
+  const aliasMaps = COLUMN_ALIASES[entityType];
+  const fields = [...IMPORT_TARGET_FIELDS[entityType]];
+  for (const target of aliasMaps.flatMap(aliases => Object.values(aliases))) {
+    if (!fields.includes(target)) fields.push(target);
+  }
+
+  return fields.map(field => {
+    const required = REQUIRED_TARGET_FIELDS[entityType].includes(field);
+    const column = toSnakeCase(field);
+    const doc = FIELD_DOCS[entityType][field] ?? text(field);
+
+    return {
+      field,
+      column: required ? `${column}${REQUIRED_COLUMN_MARKER}` : column,
+      required,
+      type: doc.type,
+      description: doc.description,
+      aliases: [...new Set(aliasMaps.flatMap(aliases =>
+        Object.keys(aliases).filter(alias => aliases[alias] === field && alias !== column)
+      ))],
+    };
+  });
+}
+
+/**
+ * Build an import template: the importer's columns with example rows. A workbook also holds
+ * a data dictionary sheet describing each column.
+ */
+export function buildImportTemplate(entityType: ImportEntityType, format: ImportTemplateFormat): ImportTemplate {
+  const fields = getImportTemplateFields(entityType);
+
+  const template = XLSX.utils.aoa_to_sheet([
+    fields.map(({ column }) => column),
+    ...EXAMPLE_ROWS[entityType].map(example => fields.map(({ field }) => example[field] ?? '')),
+  ]);
+  template['!cols'] = fields.map(({ column }) => ({ wch: Math.max(column.length + 2, 12) }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, template, entityType);
+
+  if (format === 'xlsx') {
+    const dictionary = XLSX.utils.aoa_to_sheet([
+      ['Column', 'Required', 'Type', 'Description', 'Also accepted as'],
+      ...fields.map(({ column, required, type, description, aliases }) => [
+        column,
+        required ? 'Yes' : 'No',
+        type,
+        description,
+        aliases.join(', '),
+      ]),
+    ]);
+    dictionary['!cols'] = [{ wch: 28 }, { wch: 10 }, { wch: 10 }, { wch: 70 }, { wch: 40 }];
+    XLSX.utils.book_append_sheet(workbook, dictionary, 'Data Dictionary');
+  }
+
+  const content = format === 'csv'
+    ? Buffer.from(XLSX.utils.sheet_to_csv(template), 'utf8')
+    : XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+  return {
+    fileName: `${entityType}-import-template.${format}`,
+    contentType: CONTENT_TYPES[format],
+    content,
+  };
+}
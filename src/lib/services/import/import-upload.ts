@@ -0,0 +1,166 @@
+/**
+ * Import Upload
+ * Streams multipart import uploads to temporary files, so an upload never has to fit in memory
+ */
+
+import { randomUUID } from 'crypto';
+import { createWriteStream } from 'fs';
+import { mkdir, open, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { extname, join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import busboy from 'busboy';
+
+import { ValidationError } from '@/lib/middleware/error-handler';
+
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+
+export interface ImportUploadFile {
+  field: string; // Form field the file was sent in
+  name: string;
+  type: string;
+  size: number;
+  path: string; // Temporary file holding the upload
+}
+
+export interface ImportUpload {
+  fields: Record<string, string>;
+  files: ImportUploadFile[];
+}
+
+const IMPORT_UPLOAD_DIR = join(tmpdir(), 'import-uploads');
+const CSV_MIME_TYPES = ['text/csv', 'application/csv', 'text/comma-separated-values'];
+
+// CSV is streamed row by row; workbooks and JSON are parsed whole, so they keep the smaller limit
+export const MAX_STREAMED_IMPORT_FILE_SIZE = 1024 * 1024 * 1024; // 1GB
+export const MAX_PARSED_IMPORT_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+// Structure checks before an import read at most this much of a CSV file
+const IMPORT_SAMPLE_SIZE = 1024 * 1024; // 1MB
+
+/**
+ * Read a multipart upload, writing each file to a temporary file as it arrives.
+ * Call removeImportUpload once the files have been imported.
+ */
+export async function receiveImportUpload(req: Request): Promise<ImportUpload> {
+  const contentType = req.headers.get('content-type');
+  if (!req.body || !contentType?.startsWith('multipart/form-data')) {
+    throw new ValidationError('Expected a multipart/form-data upload');
+  }
+
+  await mkdir(IMPORT_UPLOAD_DIR, { recursive: true });
+
+  const upload: ImportUpload = { fields: {}, files: [] };
+  const writes: Promise<void>[] = [];
+  let failure: unknown;
+
+  const parser = busboy({
+    headers: { 'content-type': contentType },
+    limits: { fileSize: MAX_STREAMED_IMPORT_FILE_SIZE },
+  });
+
+  parser.on('field', (name: string, value: string) => {
+    upload.fields[name] = value;
+  });
+
+  parser.on('file', (field, stream, info) => {
+    const file: ImportUploadFile = {
+      field,
+      name: info.filename,
+      type: info.mimeType,
+      size: 0,
+      path: join(IMPORT_UPLOAD_DIR, `${randomUUID()}${extname(info.filename)}`),
+    };
+    upload.files.push(file);
+
+    const output = createWriteStream(file.path);
+    writes.push(
+      pipeline(stream, output)
+        .then(() => {
+          file.size = output.bytesWritten;
+          if (stream.truncated) {
+            throw new ValidationError(
+              `${file.name} exceeds the ${Math.round(MAX_STREAMED_IMPORT_FILE_SIZE / 1024 / 1024)}MB upload limit`
+            );
+          }
+        })
+        .catch(error => {
+          failure ??= error;
+        })
+    );
+  });
+
+  try {
+    try {
+      await pipeline(Readable.fromWeb(req.body as unknown as NodeReadableStream<Uint8Array>), parser);
+    } catch (error) {
+      throw new ValidationError(`Invalid upload: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    await Promise.all(writes);
+    if (failure) throw failure;
+  } catch (error) {
+    await removeImportUpload(upload);
+    throw error;
+  }
+
+  return upload;
+}
+
+/**
+ * Delete the temporary files of an upload
+ */
+export async function removeImportUpload(upload: ImportUpload): Promise<void> {
+  await Promise.all(upload.files.map(file => rm(file.path, { force: true })));
+}
+
+/**
+ * The largest upload an import of this file accepts
+ */
+export function maxImportFileSize(file: Pick<ImportUploadFile, 'name' | 'type'>): number {
+  return isCsvUpload(file) ? MAX_STREAMED_IMPORT_FILE_SIZE : MAX_PARSED_IMPORT_FILE_SIZE;
+}
+
+/**
+ * The start of an upload, for checking its structure before the import reads it all: the whole
+ * file when small, otherwise the complete CSV lines in the first 1MB. Returns null for a large
+ * JSON file, which cannot be cut short and is checked when the import parses it.
+ */
+export async function readImportSample(file: ImportUploadFile): Promise<Buffer | null> {
+  if (file.size <= IMPORT_SAMPLE_SIZE) {
+    return readFile(file.path);
+  }
+  if (!isCsvUpload(file)) {
+    return null;
+  }
+
+  const handle = await open(file.path);
+  try {
+    const buffer = Buffer.alloc(IMPORT_SAMPLE_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, IMPORT_SAMPLE_SIZE, 0);
+    return buffer.subarray(0, lastLineEnd(buffer.subarray(0, bytesRead)));
+  } finally {
+    await handle.close();
+  }
+}
+
+function isCsvUpload(file: Pick<ImportUploadFile, 'name' | 'type'>): boolean {
+  return CSV_MIME_TYPES.includes(file.type) || file.name.toLowerCase().endsWith('.csv');
+}
+
+/**
+ * Length of a CSV chunk up to its last line break outside a quoted value
+ */
+function lastLineEnd(chunk: Buffer): number {
+  let inQuotes = false;
+  let end = 0;
+  for (let i = 0; i < chunk.length; i++) {
+    if (chunk[i] === 0x22) {
+      inQuotes = !inQuotes; // An escaped quote ("") toggles twice
+    } else if (chunk[i] === 0x0a && !inQuotes) {
+      end = i + 1;
+    }
+  }
+  return end;
+}
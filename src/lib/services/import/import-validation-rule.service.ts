@@ -0,0 +1,401 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '@/lib/logger';
+import { NotFoundError, ValidationError } from '@/lib/middleware/error-handler';
+import { prisma } from '@/lib/prisma';
+import { companySizeSchema } from '@/lib/validations/account';
+
+import { IMPORT_TARGET_FIELDS, ImportEntityType } from './column-mapping.service';
+
+export type ImportValidationRuleType = 'required' | 'pattern' | 'enum' | 'requires';
+
+export type ImportValidationSeverity = 'error' | 'warning';
+
+export interface ImportValidationRuleConfig {
+  pattern?: string; // pattern: regular expression the value must match
+  flags?: string; // pattern: RegExp flags, such as "i"
+  values?: string[]; // enum: allowed values
+  valueSet?: string; // enum: name of a built-in list in IMPORT_VALUE_SETS, instead of values
+  caseSensitive?: boolean; // enum: compare values exactly (default false)
+  fields?: string[]; // requires: fields that must be filled when the rule's field is
+}
+
+export interface ImportValidationRule {
+  id: string;
+  entityType: ImportEntityType;
+  field: string;
+  type: ImportValidationRuleType;
+  severity: ImportValidationSeverity;
+  config: ImportValidationRuleConfig;
+  message: string | null; // Replaces the default message; {field} and {value} are filled in
+  description: string | null;
+  enabled: boolean;
+  createdById: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ImportValidationRuleInput {
+  entityType: ImportEntityType;
+  field: string;
+  type: ImportValidationRuleType;
+  severity?: ImportValidationSeverity;
+  config?: ImportValidationRuleConfig;
+  message?: string | null;
+  description?: string | null;
+  enabled?: boolean;
+}
+
+export interface ImportRuleViolation {
+  ruleId: string;
+  field: string;
+  severity: ImportValidationSeverity;
+  message: string;
+}
+
+// Built-in value lists an enum rule can name instead of listing its values
+export const IMPORT_VALUE_SETS: Record<string, readonly string[]> = {
+  companySize: companySizeSchema.options,
+};
+
+// Compiled patterns, oldest evicted first once the cache is full
+const MAX_CACHED_PATTERNS = 200;
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Compile a rule's pattern, or null when it is unsafe to run (a rule saved before patterns were checked)
+ */
+function compilePattern(pattern: string, flags?: string): RegExp | null {
+  const key = `${flags || ''}/${pattern}`;
+  if (patternCache.has(key)) return patternCache.get(key) ?? null;
+
+  const unsafe = findUnsafePattern(pattern);
+  if (unsafe) {
+    logger.warn('Skipping unsafe import validation pattern', { pattern, reason: unsafe });
+  }
+  // Global and sticky flags would carry lastIndex from one row to the next
+  const regex = unsafe ? null : new RegExp(pattern, flags?.replace(/[gy]/g, ''));
+
+  if (patternCache.size >= MAX_CACHED_PATTERNS) {
+    patternCache.delete(patternCache.keys().next().value as string);
+  }
+  patternCache.set(key, regex);
+  return regex;
+}
+
+/**
+ * Why a pattern could backtrack catastrophically on a crafted value, or null if it cannot.
+ * Rejects backreferences and repeated groups that repeat or alternate inside, such as (a+)+ or (a|ab)*.
+ */
+function findUnsafePattern(pattern: string): string | null {
+  const openGroups: Array<{ repeats: boolean; alternates: boolean }> = [];
+  let group = { repeats: false, alternates: false };
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] || '')) return 'backreferences are not allowed';
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      openGroups.push(group);
+      group = { repeats: false, alternates: false };
+    } else if (char === '|') {
+      group.alternates = true;
+    } else if (char === ')') {
+      const closed = group;
+      group = openGroups.pop() || { repeats: false, alternates: false };
+      if (isRepeatAt(pattern, i + 1) && (closed.repeats || closed.alternates)) {
+        return `the group ending at position ${i + 1} is repeated and ${closed.repeats ? 'repeats' : 'alternates'} inside`;
+      }
+      group.repeats ||= closed.repeats;
+    } else if (isRepeatAt(pattern, i)) {
+      group.repeats = true;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a quantifier that can match more than once (*, +, {n,}, {n,m} with m > 1) starts at index
+ */
+function isRepeatAt(pattern: string, index: number): boolean {
+  const char = pattern[index];
+  if (char === '*' || char === '+') return true;
+  if (char !== '{') return false;
+  const quantifier = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+  if (!quantifier) return false;
+  const max = quantifier[2] ? quantifier[3] : quantifier[1];
+  return max === '' || Number(max) > 1;
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+}
+
+function allowedValues(config: ImportValidationRuleConfig): readonly string[] {
+  return config.valueSet ? IMPORT_VALUE_SETS[config.valueSet] || [] : config.values || [];
+}
+
+/**
+ * Check a transformed import record against rules. Empty values only fail `required` rules;
+ * the other rules check values that are present.
+ */
+export function evaluateValidationRules(rules: ImportValidationRule[], record: object): ImportRuleViolation[] {
+  const values = record as Record<string, unknown>;
+  const violations: ImportRuleViolation[] = [];
+
+  for (const rule of rules) {
+    const text = toText(values[rule.field]);
+    let defaultMessage: string | null = null;
+
+    switch (rule.type) {
+      case 'required':
+        if (!text) defaultMessage = `${rule.field} is required`;
+        break;
+      case 'pattern': {
+        const regex = text && rule.config.pattern ? compilePattern(rule.config.pattern, rule.config.flags) : null;
+        if (regex && !regex.test(text)) {
+          defaultMessage = `${rule.field} "${text}" does not match the required format`;
+        }
+        break;
+      }
+      case 'enum': {
+        const allowed = allowedValues(rule.config);
+        const matches = rule.config.caseSensitive
+          ? allowed.includes(text)
+          : allowed.some(value => value.toLowerCase() === text.toLowerCase());
+        if (text && !matches) {
+          defaultMessage = `${rule.field} "${text}" is not one of: ${allowed.join(', ')}`;
+        }
+        break;
+      }
+      case 'requires': {
+        const missing = (rule.config.fields || []).filter(field => !toText(values[field]));
+        if (text && missing.length > 0) {
+          defaultMessage = `${rule.field} requires ${missing.join(', ')}`;
+        }
+        break;
+      }
+    }
+
+    if (defaultMessage) {
+      violations.push({
+        ruleId: rule.id,
+        field: rule.field,
+        severity: rule.severity,
+        message: rule.message
+          ? rule.message.replace(/\{field\}/g, rule.field).replace(/\{value\}/g, text)
+          : defaultMessage,
+      });
+    }
+  }
+
+  return violations;
+}
+
+export class ImportValidationRuleService {
+  /**
+   * List rules, optionally for one entity
+   */
+  async listRules(entityType?: ImportEntityType, enabled?: boolean): Promise<ImportValidationRule[]> {
+    const rules = await prisma.importValidationRule.findMany({
+      where: {
+        ...(entityType && { entityType }),
+        ...(enabled !== undefined && { enabled }),
+      },
+      orderBy: [{ entityType: 'asc' }, { field: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return rules.map(rule => this.toRule(rule));
+  }
+
+  /**
+   * The enabled rules an import of the entity applies
+   */
+  async getActiveRules(entityType: ImportEntityType): Promise<ImportValidationRule[]> {
+    return this.listRules(entityType, true);
+  }
+
+  /**
+   * Get a single rule
+   */
+  async getRule(ruleId: string): Promise<ImportValidationRule> {
+    const rule = await prisma.importValidationRule.findUnique({ where: { id: ruleId } });
+
+    if (!rule) {
+      throw new NotFoundError('Validation rule');
+    }
+
+    return this.toRule(rule);
+  }
+
+  /**
+   * Create a rule; it applies to imports started after it is saved
+   */
+  async createRule(userId: string, input: ImportValidationRuleInput): Promise<ImportValidationRule> {
+    this.assertValidRule(input);
+
+    const rule = await prisma.importValidationRule.create({
+      data: {
+        entityType: input.entityType,
+        field: input.field,
+        type: input.type,
+        severity: input.severity ?? 'error',
+        config: (input.config ?? {}) as Prisma.InputJsonObject,
+        message: input.message,
+        description: input.description,
+        enabled: input.enabled ?? true,
+        createdById: userId,
+      },
+    });
+
+    logger.info('ImportValidationRuleService: Created validation rule', {
+      ruleId: rule.id,
+      entityType: rule.entityType,
+      field: rule.field,
+      type: rule.type,
+      userId,
+    });
+
+    return this.toRule(rule);
+  }
+
+  /**
+   * Update a rule; the entity it applies to cannot change
+   */
+  async updateRule(
+    ruleId: string,
+    input: Partial<Omit<ImportValidationRuleInput, 'entityType'>>
+  ): Promise<ImportValidationRule> {
+    const existing = await this.getRule(ruleId);
+
+    this.assertValidRule({
+      entityType: existing.entityType,
+      field: input.field ?? existing.field,
+      type: input.type ?? existing.type,
+      config: input.config ?? existing.config,
+    });
+
+    const rule = await prisma.importValidationRule.update({
+      where: { id: ruleId },
+      data: {
+        ...(input.field !== undefined && { field: input.field }),
+        ...(input.type !== undefined && { type: input.type }),
+        ...(input.severity !== undefined && { severity: input.severity }),
+        ...(input.config !== undefined && { config: input.config as Prisma.InputJsonObject }),
+        ...(input.message !== undefined && { message: input.message }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.enabled !== undefined && { enabled: input.enabled }),
+      },
+    });
+
+    return this.toRule(rule);
+  }
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(ruleId: string, userId: string): Promise<void> {
+    await this.getRule(ruleId);
+    await prisma.importValidationRule.delete({ where: { id: ruleId } });
+
+    logger.info('ImportValidationRuleService: Deleted validation rule', { ruleId, userId });
+  }
+
+  /**
+   * Check that a rule names a field of its entity and has the settings its type needs
+   */
+  validateRule(input: Pick<ImportValidationRuleInput, 'entityType' | 'field' | 'type' | 'config'>): string[] {
+    const errors: string[] = [];
+    const fields = IMPORT_TARGET_FIELDS[input.entityType];
+    const config = input.config ?? {};
+
+    if (!fields.includes(input.field)) {
+      errors.push(`Unknown ${input.entityType} field "${input.field}"`);
+    }
+
+    switch (input.type) {
+      case 'pattern':
+        if (!config.pattern) {
+          errors.push('Pattern rules need a pattern');
+        } else {
+          try {
+            new RegExp(config.pattern, config.flags);
+            const unsafe = findUnsafePattern(config.pattern);
+            if (unsafe) errors.push(`Unsafe pattern: ${unsafe}`);
+          } catch (error) {
+            errors.push(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+        break;
+      case 'enum':
+        if (config.valueSet && !IMPORT_VALUE_SETS[config.valueSet]) {
+          errors.push(
+            `Unknown value set "${config.valueSet}"; expected one of: ${Object.keys(IMPORT_VALUE_SETS).join(', ')}`
+          );
+        } else if (!config.valueSet && !config.values?.length) {
+          errors.push('Enum rules need values or a valueSet');
+        }
+        break;
+      case 'requires':
+        if (!config.fields?.length) {
+          errors.push('Requires rules need the fields that must be filled');
+        }
+        for (const field of config.fields || []) {
+          if (!fields.includes(field) || field === input.field) {
+            errors.push(`Invalid required field "${field}"`);
+          }
+        }
+        break;
+    }
+
+    return errors;
+  }
+
+  private assertValidRule(input: Pick<ImportValidationRuleInput, 'entityType' | 'field' | 'type' | 'config'>) {
+    const errors = this.validateRule(input);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid validation rule', { errors });
+    }
+  }
+
+  private toRule(rule: {
+    id: string;
+    entityType: string;
+    field: string;
+    type: string;
+    severity: string;
+    config: Prisma.JsonValue;
+    message: string | null;
+    description: string | null;
+    enabled: boolean;
+    createdById: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): ImportValidationRule {
+    return {
+      ...rule,
+      entityType: rule.entityType as ImportEntityType,
+      type: rule.type as ImportValidationRuleType,
+      severity: rule.severity as ImportValidationSeverity,
+      config: (rule.config ?? {}) as ImportValidationRuleConfig,
+    };
+  }
+}
+
+// Singleton instance
+let importValidationRuleService: ImportValidationRuleService | null = null;
+
+export function getImportValidationRuleService(): ImportValidationRuleService {
+  if (!importValidationRuleService) {
+    importValidationRuleService = new ImportValidationRuleService();
+  }
+  return importValidationRuleService;
+}
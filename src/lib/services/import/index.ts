@@ -3,6 +3,54 @@
  * Comprehensive import services for the C1 Northstar Sales Intelligence Platform
  */
 
+import {
+  AccountImportService,
+  getAccountImportService,
+  type AccountImportOptions,
+  type AccountImportProgress,
+} from './account-import.service';
+import { getAccountMatchReviewService, type AccountMatchReviewQuery } from './account-match-review.service';
+import {
+  AssetImportService,
+  getAssetImportService,
+  type AssetImportData,
+  type AssetImportOptions,
+  type AssetImportProgress,
+} from './asset-import.service';
+import { getColumnMappingService, type ColumnMapping } from './column-mapping.service';
+import {
+  ContactImportService,
+  getContactImportService,
+  type ContactImportOptions,
+  type ContactImportProgress,
+} from './contact-import.service';
+import {
+  ImportOrchestratorService,
+  getImportOrchestratorService,
+  type BatchImportData,
+  type BatchImportOptions,
+} from './import-orchestrator.service';
+import {
+  getImportRejectionService,
+  type ImportRejectionEntity,
+  type RejectedRowsReportFormat,
+} from './import-rejection.service';
+import { getImportSnapshotService } from './import-snapshot.service';
+import { type ImportSource } from './import-source';
+import { getImportValidationRuleService, type ImportValidationRule } from './import-validation-rule.service';
+import {
+  OpportunityImportService,
+  getOpportunityImportService,
+  type OpportunityImportOptions,
+  type OpportunityImportProgress,
+} from './opportunity-import.service';
+import {
+  ProductImportService,
+  getProductImportService,
+  type ProductImportOptions,
+  type ProductImportProgress,
+} from './product-import.service';
+
 // Account Import Service
 export {
   AccountImportService,
@@ -34,6 +82,26 @@ export {
   type ProductPurchaseData,
 } from './opportunity-import.service';
 
+// Opportunity Line Items (line commercials and their revenue rollup)
+export {
+  calculateLineTotal,
+  checkRevenueRollup,
+  summarizeLineItems,
+  type LineItemCommercials,
+  type LineItemTotals,
+  type RevenueRollupCheck,
+} from './opportunity-line-items';
+
+// Contact Import Service
+export {
+  ContactImportService,
+  getContactImportService,
+  type ContactImportData,
+  type ContactImportOptions,
+  type ContactImportResult,
+  type ContactImportProgress,
+} from './contact-import.service';
+
 // Asset Import Service
 export {
   AssetImportService,
@@ -41,9 +109,21 @@ export {
   type AssetImportData,
   type AssetImportOptions,
   type AssetImportResult,
+  type AssetImportFileResult,
   type AssetImportProgress,
 } from './asset-import.service';
 
+export {
+  ASSET_ARCHIVE_MIME_TYPES,
+  DEFAULT_ASSET_ARCHIVE_LIMITS,
+  expandAssetArchive,
+  isAssetArchive,
+  mapAssetFolder,
+  type AssetArchiveLimits,
+  type AssetArchiveContents,
+  type AssetArchiveSkippedEntry,
+} from './asset-archive';
+
 // Import Orchestrator Service
 export {
   ImportOrchestratorService,
@@ -55,11 +135,208 @@ export {
   type ComplexImportJob,
 } from './import-orchestrator.service';
 
+// Column Mapping Service
+export {
+  ColumnMappingService,
+  getColumnMappingService,
+  IMPORT_TARGET_FIELDS,
+  REQUIRED_TARGET_FIELDS,
+  type ColumnMapping,
+  type ColumnMappingProfile,
+  type ColumnMappingProfileInput,
+  type ColumnMappingProfileMatch,
+  type ColumnMappingSuggestion,
+  type ColumnValueTransform,
+  type ImportEntityType,
+} from './column-mapping.service';
+
+// Import Plans (dry runs)
+export {
+  DEFAULT_PLAN_MAX_RECORDS,
+  type ImportFieldChange,
+  type ImportPlan,
+  type ImportPlanAction,
+  type ImportPlanLink,
+  type ImportPlanOrphan,
+  type ImportPlanRecord,
+  type ImportPlanSummary,
+} from './import-plan';
+
+// Import Snapshots (undo)
+export {
+  ImportSnapshotService,
+  getImportSnapshotService,
+  type ImportSnapshotEntity,
+  type ImportUndoResult,
+} from './import-snapshot.service';
+
+// Rejected Rows (downloadable reports of failing source rows)
+export {
+  ImportRejectionService,
+  getImportRejectionService,
+  REJECTED_ROW_REPORT_COLUMNS,
+  type ImportRejectionEntity,
+  type RejectedRowsReport,
+  type RejectedRowsReportFormat,
+  type RejectedRowSummary,
+} from './import-rejection.service';
+
+// Import Templates (downloadable CSV and XLSX templates)
+export {
+  buildImportTemplate,
+  getImportTemplateFields,
+  REQUIRED_COLUMN_MARKER,
+  type ImportTemplate,
+  type ImportTemplateField,
+  type ImportTemplateFieldType,
+  type ImportTemplateFormat,
+} from './import-template';
+
+// Import Sources (streamed rows)
+export {
+  openImportSource,
+  readImportBatches,
+  type ImportFileData,
+  type ImportSource,
+  type ImportSourceBatch,
+  type ImportSourceOptions,
+  type ImportSourceRow,
+} from './import-source';
+
+// Import Uploads (multipart uploads streamed to temporary files)
+export {
+  maxImportFileSize,
+  readImportSample,
+  receiveImportUpload,
+  removeImportUpload,
+  MAX_PARSED_IMPORT_FILE_SIZE,
+  MAX_STREAMED_IMPORT_FILE_SIZE,
+  type ImportUpload,
+  type ImportUploadFile,
+} from './import-upload';
+
+// Account Matching (fuzzy links and the review queue)
+export {
+  AccountMatchingService,
+  getAccountMatchingService,
+  DEFAULT_ACCOUNT_MATCH_THRESHOLDS,
+  normalizeCompanyName,
+  normalizeDomain,
+  scoreNameSimilarity,
+  type AccountMatch,
+  type AccountMatchCandidate,
+  type AccountMatchConfidence,
+  type AccountMatchThresholds,
+} from './account-matching.service';
+export {
+  AccountMatchReviewService,
+  getAccountMatchReviewService,
+  type AccountMatchReviewImportOptions,
+  type AccountMatchReviewQuery,
+  type ClaimedAccountMatchReview,
+} from './account-match-review.service';
+
+// Import Checkpoints (resumable imports)
+export {
+  ImportCheckpointService,
+  getImportCheckpointService,
+  type ImportCheckpoint,
+  type ImportCheckpointStage,
+} from './import-checkpoint.service';
+
+// Import Deltas (incremental and full-snapshot imports)
+export {
+  ImportDeltaService,
+  getImportDeltaService,
+  createImportDelta,
+  hashImportRow,
+  isUnchangedRecord,
+  type ImportDelta,
+  type ImportDeltaEntity,
+} from './import-delta.service';
+
+// Exchange Rates (opportunity revenue converted to the reporting currency)
+export {
+  ExchangeRateService,
+  getExchangeRateService,
+  createCurrencyConverter,
+  findRate,
+  getConversionDate,
+  normalizeCurrencyCode,
+  type CurrencyConverter,
+  type ExchangeRateImportResult,
+  type ExchangeRateInput,
+} from './exchange-rate.service';
+
+// Validation Rules (configurable per-entity row checks)
+export {
+  ImportValidationRuleService,
+  getImportValidationRuleService,
+  evaluateValidationRules,
+  IMPORT_VALUE_SETS,
+  type ImportRuleViolation,
+  type ImportValidationRule,
+  type ImportValidationRuleConfig,
+  type ImportValidationRuleInput,
+  type ImportValidationRuleType,
+  type ImportValidationSeverity,
+} from './import-validation-rule.service';
+
+// Account Merges (duplicate accounts merged into a surviving one)
+export {
+  AccountMergeService,
+  getAccountMergeService,
+  MERGEABLE_ACCOUNT_FIELDS,
+  type AccountMergeChoice,
+  type AccountMergeConflict,
+  type AccountMergeFieldChoices,
+  type AccountMergeMovedRecords,
+  type AccountMergePreview,
+  type AccountMergeRecord,
+  type AccountMergeResult,
+  type DuplicateAccount,
+  type DuplicateAccountPair,
+  type MergeableAccountField,
+} from './account-merge.service';
+
+// Field Lineage (where each imported or edited field value came from)
+export {
+  FieldLineageService,
+  getFieldLineageService,
+  type FieldLineageEntry,
+  type FieldLineageOrigin,
+  type FieldLineageSource,
+} from './field-lineage.service';
+
+// Technology Enrichment (Technology rows from account vendor columns)
+export {
+  TechnologyEnrichmentService,
+  getTechnologyEnrichmentService,
+  deriveAccountTechnologies,
+  parseVendorField,
+  IMPORT_TECHNOLOGY_SOURCE,
+  type DerivedTechnology,
+  type TechnologyCategory,
+  type TechnologySyncResult,
+  type VendorField,
+} from './technology-enrichment.service';
+
+// Row problems found while validating a file before import
+export interface ImportRowIssues {
+  invalidRows: number;
+  errors: Array<{ row: number; error: string }>;
+  warnings: Array<{ row: number; warning: string }>;
+}
+
+// Row errors and warnings listed in a validation response; the rest are counted
+const MAX_REPORTED_ROW_ISSUES = 20;
+
 // Convenience class that provides unified access to all import services
 export class ImportService {
   public readonly accountImport: AccountImportService;
   public readonly productImport: ProductImportService;
   public readonly opportunityImport: OpportunityImportService;
+  public readonly contactImport: ContactImportService;
   public readonly assetImport: AssetImportService;
   public readonly orchestrator: ImportOrchestratorService;
 
@@ -67,6 +344,7 @@ export class ImportService {
     this.accountImport = getAccountImportService();
     this.productImport = getProductImportService();
     this.opportunityImport = getOpportunityImportService();
+    this.contactImport = getContactImportService();
     this.assetImport = getAssetImportService();
     this.orchestrator = getImportOrchestratorService();
   }
@@ -75,30 +353,39 @@ export class ImportService {
    * Quick import methods for single files
    */
   async importAccounts(
-    buffer: Buffer,
+    source: ImportSource,
     fileName: string,
     options?: AccountImportOptions,
     onProgress?: (progress: AccountImportProgress) => void
   ) {
-    return await this.accountImport.importFromCsv(buffer, fileName, options, onProgress);
+    return await this.accountImport.importFromCsv(source, fileName, options, onProgress);
   }
 
   async importProducts(
-    buffer: Buffer,
+    source: ImportSource,
     fileName: string,
     options?: ProductImportOptions,
     onProgress?: (progress: ProductImportProgress) => void
   ) {
-    return await this.productImport.importFromCsv(buffer, fileName, options, onProgress);
+    return await this.productImport.importFromCsv(source, fileName, options, onProgress);
   }
 
   async importOpportunities(
-    buffer: Buffer,
+    source: ImportSource,
     fileName: string,
     options?: OpportunityImportOptions,
     onProgress?: (progress: OpportunityImportProgress) => void
   ) {
-    return await this.opportunityImport.importFromCsv(buffer, fileName, options, onProgress);
+    return await this.opportunityImport.importFromCsv(source, fileName, options, onProgress);
+  }
+
+  async importContacts(
+    source: ImportSource,
+    fileName: string,
+    options?: ContactImportOptions,
+    onProgress?: (progress: ContactImportProgress) => void
+  ) {
+    return await this.contactImport.importFromCsv(source, fileName, options, onProgress);
   }
 
   async importAsset(
@@ -149,12 +436,14 @@ export class ImportService {
       accountStats,
       productStats,
       opportunityStats,
+      contactStats,
       assetStats,
       orchestratorStats,
     ] = await Promise.all([
       this.accountImport.getImportStats(timeRange),
       this.productImport.getImportStats(timeRange),
       this.opportunityImport.getImportStats(timeRange),
+      this.contactImport.getImportStats(timeRange),
       this.assetImport.getImportStats(timeRange),
       this.orchestrator.getImportStats(userId, timeRange),
     ]);
@@ -163,6 +452,7 @@ export class ImportService {
       accounts: accountStats,
       products: productStats,
       opportunities: opportunityStats,
+      contacts: contactStats,
       assets: assetStats,
       jobs: orchestratorStats,
       timeRange,
@@ -170,6 +460,7 @@ export class ImportService {
         totalImported: (accountStats.totalImported || 0) + 
                       (productStats.totalProducts || 0) + 
                       (opportunityStats.totalOpportunities || 0) + 
+                      (contactStats.totalContacts || 0) + 
                       (assetStats.statusDistribution?.reduce((sum, stat) => sum + stat.count, 0) || 0),
         totalJobs: orchestratorStats.totalJobs,
       },
@@ -180,23 +471,33 @@ export class ImportService {
    * Validate import data before processing
    */
   async validateImportData(
-    type: 'accounts' | 'products' | 'opportunities',
+    type: 'accounts' | 'products' | 'opportunities' | 'contacts',
     buffer: Buffer,
-    fileName: string
+    fileName: string,
+    columnMappings?: ColumnMapping[],
+    recordPath?: string
   ): Promise<{
     valid: boolean;
     errors: string[];
     warnings: string[];
     preview: any[];
+    headers: string[];
     totalRows: number;
+    rowIssues?: ImportRowIssues;
   }> {
-    try {
-      // Parse the CSV to get preview data
-      const parserResult = await import('@/lib/services/parsers').then(
-        module => module.QuickParse.csv(buffer, fileName, { hasHeaders: true })
-      );
+    const rules = await getImportValidationRuleService().getActiveRules(type);
 
-      const data = parserResult.blocks.map(block => block.content.data);
+    try {
+      // Parse the CSV, workbook or JSON to get preview data
+      const { FileParserUtils, QuickParse } = await import('@/lib/services/parsers');
+      const parserResult = await QuickParse.tabular(buffer, fileName, { hasHeaders: true, recordPath });
+
+      const records = FileParserUtils.tableBlocksToRecords(parserResult);
+      const headers = records.length > 0 ? Object.keys(records[0]) : [];
+      const mappingService = getColumnMappingService();
+      const data: Record<string, unknown>[] = columnMappings?.length
+        ? records.map(row => mappingService.applyMappings(row, columnMappings))
+        : records;
       const preview = data.slice(0, 5); // First 5 rows for preview
       const errors: string[] = [];
       const warnings: string[] = [];
@@ -223,6 +524,25 @@ export class ImportService {
             errors.push('No customer name column found. Expected: customerName, customer_name, or account_name');
           }
           break;
+
+        case 'contacts':
+          if (!preview.some(row => row.name || row.contact_name || row.full_name || row.first_name || row.firstName)) {
+            errors.push('No contact name column found. Expected: name, contact_name, full_name, or first_name');
+          }
+          break;
+      }
+
+      // Run every row through the importer's own checks and the configured validation rules
+      const rowIssues = this.checkImportRows(type, data, rules);
+      errors.push(...rowIssues.errors.slice(0, MAX_REPORTED_ROW_ISSUES).map(({ row, error }) => `Row ${row}: ${error}`));
+      if (rowIssues.errors.length > MAX_REPORTED_ROW_ISSUES) {
+        errors.push(`...and ${rowIssues.errors.length - MAX_REPORTED_ROW_ISSUES} more row errors`);
+      }
+      warnings.push(
+        ...rowIssues.warnings.slice(0, MAX_REPORTED_ROW_ISSUES).map(({ row, warning }) => `Row ${row}: ${warning}`)
+      );
+      if (rowIssues.warnings.length > MAX_REPORTED_ROW_ISSUES) {
+        warnings.push(`...and ${rowIssues.warnings.length - MAX_REPORTED_ROW_ISSUES} more row warnings`);
       }
 
       // Check for empty data
@@ -242,7 +562,9 @@ export class ImportService {
         errors,
         warnings,
         preview,
+        headers,
         totalRows: data.length,
+        rowIssues,
       };
 
     } catch (error) {
@@ -251,11 +573,38 @@ export class ImportService {
         errors: [`Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`],
         warnings: [],
         preview: [],
+        headers: [],
         totalRows: 0,
       };
     }
   }
 
+  /**
+   * Validate every row the way the entity's importer would, without importing
+   */
+  private checkImportRows(
+    type: 'accounts' | 'products' | 'opportunities' | 'contacts',
+    rows: Record<string, unknown>[],
+    rules: ImportValidationRule[]
+  ): ImportRowIssues {
+    const importer = {
+      accounts: this.accountImport,
+      products: this.productImport,
+      opportunities: this.opportunityImport,
+      contacts: this.contactImport,
+    }[type];
+    const issues: ImportRowIssues = { invalidRows: 0, errors: [], warnings: [] };
+
+    rows.forEach((row, index) => {
+      const { errors, warnings } = importer.validateRow(row, index + 1, rules);
+      if (errors.length > 0) issues.invalidRows++;
+      issues.errors.push(...errors.map(({ row, error }) => ({ row, error })));
+      issues.warnings.push(...warnings.map(({ row, warning }) => ({ row, warning })));
+    });
+
+    return issues;
+  }
+
   /**
    * Get supported file types for assets
    */
@@ -274,7 +623,11 @@ export class ImportService {
    * Get job status
    */
   async getJobStatus(jobId: string) {
-    return await this.orchestrator.getImportJobStatus(jobId);
+    const [status, rejectedRows] = await Promise.all([
+      this.orchestrator.getImportJobStatus(jobId),
+      getImportRejectionService().getRejectedRowSummary(jobId),
+    ]);
+    return { ...status, rejectedRows };
   }
 
   /**
@@ -284,6 +637,53 @@ export class ImportService {
     return await this.orchestrator.cancelImportJob(jobId, userId);
   }
 
+  /**
+   * Undo a finished import job
+   */
+  async undoImport(jobId: string, userId: string) {
+    return await getImportSnapshotService().undoImport(jobId, userId);
+  }
+
+  /**
+   * Chunk and vectorize accounts again, as queued by an undo
+   */
+  async vectorizeAccounts(
+    accountIds: string[],
+    onProgress?: (progress: AccountImportProgress) => void
+  ) {
+    return await this.accountImport.vectorizeAccounts(accountIds, onProgress);
+  }
+
+  /**
+   * Build a file of the source rows an import job rejected, with the reasons
+   */
+  async getRejectedRowsReport(
+    jobId: string,
+    userId: string,
+    format: RejectedRowsReportFormat,
+    entityType?: ImportRejectionEntity
+  ) {
+    return await getImportRejectionService().buildRejectedRowsReport(jobId, userId, format, entityType);
+  }
+
+  /**
+   * List the user's fuzzy account matches held for review
+   */
+  async listAccountMatchReviews(userId: string, query: AccountMatchReviewQuery) {
+    return await getAccountMatchReviewService().listReviews(userId, query);
+  }
+
+  /**
+   * Confirm or reject a fuzzy account match and write the rows it held
+   */
+  async resolveAccountMatch(
+    reviewId: string,
+    userId: string,
+    decision: { action: 'confirm' | 'reject'; accountId?: string }
+  ) {
+    return await this.opportunityImport.resolveAccountMatchReview(reviewId, userId, decision);
+  }
+
   /**
    * Health check for all import services
    */
@@ -331,6 +731,18 @@ export class ImportService {
       allHealthy = false;
     }
 
+    try {
+      // Test contact import
+      await this.contactImport.getImportStats('day');
+      services.contactImport = { status: 'healthy' };
+    } catch (error) {
+      services.contactImport = { 
+        status: 'unhealthy', 
+        message: error instanceof Error ? error.message : 'Unknown error' 
+      };
+      allHealthy = false;
+    }
+
     try {
       // Test asset import
       await this.assetImport.getImportStats('day');
@@ -414,6 +826,10 @@ export const IMPORT_CONSTANTS = {
     'application/csv',
     'text/comma-separated-values',
   ],
+  SUPPORTED_SPREADSHEET_TYPES: [
+    'application/vnd.ms-excel', // XLS
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // XLSX
+  ],
   SUPPORTED_ASSET_TYPES: [
     'application/pdf',
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // DOCX
@@ -429,9 +845,14 @@ export const ImportUtils = {
   /**
    * Detect import type from file name or content
    */
-  detectImportType(fileName: string, sampleData?: any[]): 'accounts' | 'products' | 'opportunities' | 'assets' | 'unknown' {
+  detectImportType(fileName: string, sampleData?: Record<string, unknown>[]): 'accounts' | 'products' | 'opportunities' | 'contacts' | 'assets' | 'unknown' {
     const lowerFileName = fileName.toLowerCase();
     
+    // Checked first, as contact exports are often named after the accounts they belong to
+    if (lowerFileName.includes('contact') || lowerFileName.includes('people')) {
+      return 'contacts';
+    }
+    
     // File name patterns
     if (lowerFileName.includes('account') || lowerFileName.includes('company') || lowerFileName.includes('customer')) {
       return 'accounts';
@@ -1,19 +1,75 @@
 import { Prisma } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 
-import { prisma } from '@/lib/prisma';
+import { REPORTING_CURRENCY } from '@/lib/config/currency-config';
 import { logger } from '@/lib/logger';
-import { QuickParse } from '@/lib/services/parsers';
+import { NotFoundError } from '@/lib/middleware/error-handler';
+import { prisma } from '@/lib/prisma';
+
+import { getAccountMatchReviewService } from './account-match-review.service';
+import {
+  AccountMatchThresholds,
+  DEFAULT_ACCOUNT_MATCH_THRESHOLDS,
+  getAccountMatchingService,
+  normalizeCompanyName,
+  normalizeDomain,
+} from './account-matching.service';
+import {
+  ColumnMapping,
+  normalizeColumnName,
+  OPPORTUNITY_PRODUCT_FIELDS,
+  resolveTargetField,
+} from './column-mapping.service';
+import {
+  CurrencyConverter,
+  getConversionDate,
+  getExchangeRateService,
+  normalizeCurrencyCode,
+} from './exchange-rate.service';
+import { FieldLineageOrigin, getFieldLineageService } from './field-lineage.service';
+import { getImportCheckpointService } from './import-checkpoint.service';
+import {
+  createImportDelta,
+  getImportDeltaService,
+  hashImportRow,
+  ImportDelta,
+  isUnchangedRecord,
+} from './import-delta.service';
+import {
+  createImportPlan,
+  diffFields,
+  ImportPlan,
+  ImportPlanLink,
+  recordPlanEntry,
+  recordPlanOrphan,
+} from './import-plan';
+import { getImportRejectionService } from './import-rejection.service';
+import { getImportSnapshotService } from './import-snapshot.service';
+import { ImportSource, ImportSourceRow, readImportBatches } from './import-source';
+import {
+  evaluateValidationRules,
+  getImportValidationRuleService,
+  ImportValidationRule,
+} from './import-validation-rule.service';
+import {
+  calculateLineTotal,
+  checkRevenueRollup,
+  describeRollupMismatch,
+  summarizeLineItems,
+  validateLineItem,
+} from './opportunity-line-items';
 
 export interface OpportunityImportData {
   opportunityNumber: string;
   customerName: string;
+  customerDomain?: string;
   oppStage?: string;
   salesPerson?: string;
   salesDirector?: string;
   bookedGrossRevenue?: number;
   pipelineGrossRevenue?: number;
   margin?: number;
+  currency?: string; // ISO 4217 code of the revenue fields; the reporting currency when blank
   bookedDate?: Date;
   estimatedCloseDate?: Date;
   accountId?: string;
@@ -31,7 +87,10 @@ export interface ProductPurchaseData {
   itemCategory?: string;
   quantity?: number;
   unitPrice?: number;
-  totalValue?: number;
+  discount?: number; // Percent off the unit price
+  totalValue?: number; // Net line value; calculated from quantity, unit price and discount when blank
+  lineMargin?: number;
+  lineCurrency?: string; // ISO 4217 code of the line, when it differs from the opportunity's
 }
 
 export interface OpportunityImportOptions {
@@ -42,6 +101,18 @@ export interface OpportunityImportOptions {
   createMissingProducts?: boolean;
   validateRevenue?: boolean;
   linkProducts?: boolean;
+  incremental?: boolean; // Leave opportunities whose row content has not changed since the last import untouched
+  fullSnapshot?: boolean; // The file holds every opportunity; flag imported opportunities it no longer contains
+  sheetName?: string; // Worksheet to read when importing from an Excel workbook
+  recordPath?: string; // Dotted path to the records when importing JSON, e.g. "data.items"
+  columnMappings?: ColumnMapping[]; // Resolved mapping profile applied before field transformation
+  dryRun?: boolean; // Build an import plan instead of writing
+  maxPlanRecords?: number; // Cap on records listed per plan section
+  pendingAccounts?: Array<{ name: string; accountNumber?: string }>; // Accounts a batch dry run would create first
+  accountMatchThresholds?: Partial<AccountMatchThresholds>; // Scores that link a customer by name or hold it for review
+  pendingProducts?: string[]; // Item numbers a batch dry run would create first
+  jobId?: string; // Processing job that records undo snapshots and resume checkpoints
+  sourceSize?: number; // Byte length of a streamed source, for progress
 }
 
 export interface OpportunityImportResult {
@@ -53,6 +124,7 @@ export interface OpportunityImportResult {
   duplicates: number;
   accountsCreated: number;
   productsLinked: number;
+  heldForReview: number; // Rows waiting on an account match review
   errors: Array<{
     row: number;
     opportunity: string;
@@ -64,7 +136,9 @@ export interface OpportunityImportResult {
     warning: string;
   }>;
   opportunityIds: string[];
+  delta?: ImportDelta; // New, changed, unchanged and removed rows of incremental and full-snapshot imports
   processingTime: number;
+  plan?: ImportPlan;
 }
 
 export interface OpportunityImportProgress {
@@ -72,16 +146,103 @@ export interface OpportunityImportProgress {
   processed: number;
   total: number;
   currentOpportunity?: string;
+  bytesRead?: number; // Source bytes read so far, while streaming
+  totalBytes?: number; // Source size, when known
   errors: number;
   warnings: number;
 }
 
+// Source column names mapped onto opportunity fields, besides the field names themselves
+export const OPPORTUNITY_COLUMN_ALIASES: Record<string, string> = {
+  'opportunity_number': 'opportunityNumber',
+  'opp_number': 'opportunityNumber',
+  'opportunity_id': 'opportunityNumber',
+  'customer_name': 'customerName',
+  'opp_stage': 'oppStage',
+  'stage': 'oppStage',
+  'opportunity_stage': 'oppStage',
+  'sales_person': 'salesPerson',
+  'sales_rep': 'salesPerson',
+  'salesperson': 'salesPerson',
+  'sales_director': 'salesDirector',
+  'director': 'salesDirector',
+  'booked_gross_revenue': 'bookedGrossRevenue',
+  'booked_revenue': 'bookedGrossRevenue',
+  'revenue': 'bookedGrossRevenue',
+  'pipeline_gross_revenue': 'pipelineGrossRevenue',
+  'pipeline_revenue': 'pipelineGrossRevenue',
+  'pipeline': 'pipelineGrossRevenue',
+  'margin': 'margin',
+  'profit_margin': 'margin',
+  'currency': 'currency',
+  'currency_code': 'currency',
+  'curr': 'currency',
+  'booked_date': 'bookedDate',
+  'close_date': 'bookedDate',
+  'estimated_close_date': 'estimatedCloseDate',
+  'est_close_date': 'estimatedCloseDate',
+  'projected_close': 'estimatedCloseDate',
+  'account_id': 'accountId',
+  'account_number': 'accountNumber',
+  'account_name': 'accountName',
+  'customer_domain': 'customerDomain',
+  'account_domain': 'customerDomain',
+  'domain': 'customerDomain',
+  'website': 'customerDomain',
+};
+
+// Source column names mapped onto the product fields of an opportunity row
+export const OPPORTUNITY_PRODUCT_COLUMN_ALIASES: Record<string, string> = {
+  'item_number': 'itemNumber',
+  'product_number': 'itemNumber',
+  'sku': 'itemNumber',
+  'gp_revenue_category': 'gpRevenueCategory',
+  'revenue_category': 'gpRevenueCategory',
+  'mapped_solution_area': 'mappedSolutionArea',
+  'solution_area': 'mappedSolutionArea',
+  'mapped_segment': 'mappedSegment',
+  'segment': 'mappedSegment',
+  'mapped_capability': 'mappedCapability',
+  'capability': 'mappedCapability',
+  'item_category': 'itemCategory',
+  'product_category': 'itemCategory',
+  'quantity': 'quantity',
+  'unit_price': 'unitPrice',
+  'price': 'unitPrice',
+  'discount': 'discount',
+  'discount_percent': 'discount',
+  'total_value': 'totalValue',
+  'line_total': 'totalValue',
+  'value': 'totalValue',
+  'line_margin': 'lineMargin',
+  'line_currency': 'lineCurrency',
+};
+
+// Dry-run state carried from one batch to the next
+interface OpportunityPlanState {
+  plan: ImportPlan;
+  seen: Map<string, number>;
+  pendingAccounts: Array<{ name: string; accountNumber?: string }>;
+  pendingProducts: Set<string>;
+}
+
 export class OpportunityImportService {
+  private readonly snapshotService = getImportSnapshotService();
+  private readonly checkpointService = getImportCheckpointService();
+  private readonly rejectionService = getImportRejectionService();
+  private readonly deltaService = getImportDeltaService();
+  private readonly validationRuleService = getImportValidationRuleService();
+  private readonly lineageService = getFieldLineageService();
+  private readonly exchangeRateService = getExchangeRateService();
+  private readonly matchingService = getAccountMatchingService();
+  private readonly reviewService = getAccountMatchReviewService();
+
   /**
-   * Import opportunities from CSV buffer
+   * Import opportunities from a CSV or Excel source. CSV rows are streamed, then validated,
+   * linked and written batch by batch, so memory stays bounded whatever the file size.
    */
   async importFromCsv(
-    buffer: Buffer,
+    source: ImportSource,
     fileName: string,
     options: OpportunityImportOptions = {},
     onProgress?: (progress: OpportunityImportProgress) => void
@@ -96,6 +257,7 @@ export class OpportunityImportService {
       duplicates: 0,
       accountsCreated: 0,
       productsLinked: 0,
+      heldForReview: 0,
       errors: [],
       warnings: [],
       opportunityIds: [],
@@ -103,7 +265,7 @@ export class OpportunityImportService {
     };
 
     try {
-      // Stage 1: Parse CSV
+      // Stage 1: Open the source
       onProgress?.({
         stage: 'parsing',
         processed: 0,
@@ -112,110 +274,220 @@ export class OpportunityImportService {
         warnings: 0,
       });
 
-      const parserResult = await QuickParse.csv(buffer, fileName, {
-        hasHeaders: true,
-        inferTypes: true,
-        skipEmptyLines: true,
-      });
+      const planState: OpportunityPlanState | undefined = options.dryRun
+        ? {
+            plan: createImportPlan('opportunities', options.maxPlanRecords),
+            seen: new Map(),
+            pendingAccounts: [...(options.pendingAccounts || [])],
+            pendingProducts: new Set(options.pendingProducts || []),
+          }
+        : undefined;
+      const delta = !planState && (options.incremental || options.fullSnapshot) ? createImportDelta() : undefined;
+      const seenIds: string[] = [];
+
+      // Resume after the last batch an interrupted attempt committed
+      const checkpoint = planState
+        ? null
+        : await this.checkpointService.beginStage<OpportunityImportResult['warnings'][number]>(
+            options.jobId,
+            'opportunities'
+          );
+      if (checkpoint) {
+        result.created = checkpoint.counters.created || 0;
+        result.updated = checkpoint.counters.updated || 0;
+        result.skipped = checkpoint.counters.skipped || 0;
+        result.failed = checkpoint.counters.failed || 0;
+        result.duplicates = checkpoint.counters.duplicates || 0;
+        result.accountsCreated = checkpoint.counters.accountsCreated || 0;
+        result.productsLinked = checkpoint.counters.productsLinked || 0;
+        result.heldForReview = checkpoint.counters.heldForReview || 0;
+        result.opportunityIds.push(...await this.snapshotService.getRecordIds(options.jobId, 'opportunities'));
+        for (const { row, data, error } of await this.rejectionService.getRejectedErrors(options.jobId, 'opportunities')) {
+          result.errors.push({ row, opportunity: data.opportunityNumber || `Row ${row}`, error });
+        }
+        result.warnings.push(...(checkpoint.warnings || []));
+        if (delta) delta.unchanged = checkpoint.counters.unchanged || 0;
+      }
+      // Only the first batch after a checkpoint can hold rows an interrupted attempt already wrote
+      let replay = !!checkpoint;
 
-      const rawData = parserResult.blocks.map(block => block.content.data);
-      result.total = rawData.length;
+      // Rules configured for opportunities through the validation rules API
+      const rules = await this.validationRuleService.getActiveRules('opportunities');
 
-      logger.info(`OpportunityImportService: Parsed ${result.total} opportunities from CSV`, {
-        fileName,
-        total: result.total,
-      });
+      // Rates for checking that revenue in other currencies can be converted for reporting
+      const converter = await this.exchangeRateService.getConverter();
 
-      // Stage 2: Validate and transform data
-      onProgress?.({
-        stage: 'validation',
-        processed: 0,
-        total: result.total,
-        errors: 0,
-        warnings: 0,
+      // Recorded against every field the import writes
+      const origin: FieldLineageOrigin = { source: 'import', sourceFile: fileName, jobId: options.jobId };
+
+      // Stages 2 to 5: Validate, link accounts, import and link products for each batch as it is read
+      const batches = readImportBatches(source, fileName, {
+        batchSize: options.batchSize || 50,
+        sheetName: options.sheetName,
+        recordPath: options.recordPath,
+        columnMappings: options.columnMappings,
+        totalBytes: options.sourceSize,
       });
 
-      const validOpportunities: OpportunityImportData[] = [];
-      for (let i = 0; i < rawData.length; i++) {
-        const row = rawData[i];
-        const rowNumber = i + 1;
-
-        try {
-          const opportunityData = this.transformCsvRow(row, rowNumber);
-          const validation = this.validateOpportunityData(opportunityData, rowNumber);
-          
-          if (validation.errors.length > 0) {
-            result.errors.push(...validation.errors);
-            result.failed++;
-          } else {
-            validOpportunities.push(opportunityData);
-            if (validation.warnings.length > 0) {
-              result.warnings.push(...validation.warnings);
+      for await (const batch of batches) {
+        result.total += batch.rows.length;
+        const pending = checkpoint
+          ? batch.rows.filter(({ rowNumber }) => rowNumber > checkpoint.lastCommittedRow)
+          : batch.rows;
+        if (checkpoint && options.fullSnapshot && pending.length < batch.rows.length) {
+          // Rows an interrupted attempt committed still count as present in the snapshot
+          const committed = batch.rows.filter(({ rowNumber }) => rowNumber <= checkpoint.lastCommittedRow);
+          seenIds.push(...await this.deltaService.resolveSeenIds(committed, row => this.findExistingOpportunityId(row)));
+        }
+        if (pending.length === 0) continue;
+
+        const errorsBefore = result.errors.length;
+        const validOpportunities: OpportunityImportData[] = [];
+        const validRowNumbers: number[] = [];
+        for (const { row, rowNumber } of pending) {
+          try {
+            const opportunityData = this.transformCsvRow(row, rowNumber);
+            const validation = this.validateOpportunityData(opportunityData, rowNumber, rules, converter);
+
+            if (validation.errors.length > 0) {
+              result.errors.push(...validation.errors);
+              result.failed++;
+            } else {
+              validOpportunities.push(opportunityData);
+              validRowNumbers.push(rowNumber);
+              if (validation.warnings.length > 0) {
+                result.warnings.push(...validation.warnings);
+              }
             }
+          } catch (error) {
+            result.errors.push({
+              row: rowNumber,
+              opportunity: String(row.opportunityNumber || `Row ${rowNumber}`),
+              error: error instanceof Error ? error.message : 'Unknown validation error',
+            });
+            result.failed++;
           }
-        } catch (error) {
-          result.errors.push({
-            row: rowNumber,
-            opportunity: row.opportunityNumber || `Row ${rowNumber}`,
-            error: error instanceof Error ? error.message : 'Unknown validation error',
-          });
-          result.failed++;
+        }
+
+        if (planState) {
+          // Dry run: add the batch to the plan instead of writing it
+          await this.planOpportunityImport(validOpportunities, validRowNumbers, options, planState);
+        } else {
+          // Rows held for review drop out of the batch, so row numbers follow the rows themselves
+          const rowNumberOf = new Map(validOpportunities.map((opportunity, i) => [opportunity, validRowNumbers[i]]));
+
+          // Rows matched to an account with middling confidence are held for review
+          const linkedOpportunities = options.createMissingAccounts
+            ? await this.linkOrCreateAccounts(validOpportunities, result, options, origin, replay, rowNumberOf)
+            : validOpportunities;
+
+          const batchResult = await this.importOpportunityBatch(linkedOpportunities, options, origin, replay, rowNumberOf);
+
+          result.created += batchResult.created;
+          result.updated += batchResult.updated;
+          result.skipped += batchResult.skipped;
+          result.duplicates += batchResult.duplicates;
+          result.opportunityIds.push(...batchResult.opportunityIds);
+          result.errors.push(...batchResult.errors);
+          if (delta) delta.unchanged += batchResult.unchanged;
+          if (options.fullSnapshot) {
+            // Rejected and held rows are still in the file: the records they match are not missing
+            const unresolved = new Set(result.errors.slice(errorsBefore).map(({ row }) => row));
+            validOpportunities
+              .filter(opportunity => !linkedOpportunities.includes(opportunity))
+              .forEach(opportunity => unresolved.add(rowNumberOf.get(opportunity) ?? 0));
+            seenIds.push(...batchResult.seenIds, ...await this.deltaService.resolveSeenIds(
+              pending.filter(({ rowNumber }) => unresolved.has(rowNumber)),
+              row => this.findExistingOpportunityId(row)
+            ));
+          }
+
+          if (options.linkProducts && batchResult.opportunityIds.length > 0) {
+            await this.linkProducts(batchResult.opportunityIds, linkedOpportunities, result, options, replay);
+          }
+          replay = false;
+
+          await this.rejectionService.recordRejectedRows(
+            options.jobId,
+            'opportunities',
+            pending,
+            result.errors.slice(errorsBefore)
+          );
+          await this.checkpointService.saveCheckpoint(options.jobId, 'opportunities', {
+            lastCommittedRow: pending[pending.length - 1].rowNumber,
+            counters: {
+              created: result.created,
+              updated: result.updated,
+              skipped: result.skipped,
+              failed: result.failed,
+              duplicates: result.duplicates,
+              accountsCreated: result.accountsCreated,
+              productsLinked: result.productsLinked,
+              heldForReview: result.heldForReview,
+              unchanged: delta?.unchanged || 0,
+            },
+            warnings: result.warnings,
+          }, batch.totalBytes ? (batch.bytesRead / batch.totalBytes) * 100 : 0);
         }
 
         onProgress?.({
-          stage: 'validation',
-          processed: i + 1,
+          stage: planState ? 'validation' : 'importing',
+          processed: result.total,
           total: result.total,
-          currentOpportunity: row.opportunityNumber,
+          currentOpportunity: validOpportunities[validOpportunities.length - 1]?.opportunityNumber,
+          bytesRead: batch.bytesRead,
+          totalBytes: batch.totalBytes,
           errors: result.errors.length,
           warnings: result.warnings.length,
         });
       }
 
-      // Stage 3: Link accounts
-      if (options.createMissingAccounts) {
-        await this.linkOrCreateAccounts(validOpportunities, result, onProgress);
-      }
+      // Rows replayed after a checkpoint report opportunities the snapshots already listed
+      if (checkpoint) result.opportunityIds = [...new Set(result.opportunityIds)];
 
-      // Stage 4: Import opportunities
-      onProgress?.({
-        stage: 'importing',
-        processed: 0,
-        total: validOpportunities.length,
-        errors: result.errors.length,
-        warnings: result.warnings.length,
+      logger.info(`OpportunityImportService: Read ${result.total} opportunities`, {
+        fileName,
+        total: result.total,
       });
 
-      const batchSize = options.batchSize || 50;
-      for (let i = 0; i < validOpportunities.length; i += batchSize) {
-        const batch = validOpportunities.slice(i, i + batchSize);
-        const batchResult = await this.importOpportunityBatch(batch, options);
-        
-        result.created += batchResult.created;
-        result.updated += batchResult.updated;
-        result.skipped += batchResult.skipped;
-        result.duplicates += batchResult.duplicates;
-        result.opportunityIds.push(...batchResult.opportunityIds);
-        result.errors.push(...batchResult.errors);
+      // Dry run: report what would be written and stop
+      if (planState) {
+        result.plan = planState.plan;
+        result.plan.summary.total = result.total;
+        result.plan.summary.invalid = result.failed;
+        result.processingTime = Date.now() - startTime;
 
         onProgress?.({
-          stage: 'importing',
-          processed: Math.min(i + batchSize, validOpportunities.length),
-          total: validOpportunities.length,
+          stage: 'completed',
+          processed: result.total,
+          total: result.total,
           errors: result.errors.length,
           warnings: result.warnings.length,
         });
+
+        return result;
       }
 
-      // Stage 5: Link products if requested
-      if (options.linkProducts && result.opportunityIds.length > 0) {
-        await this.linkProducts(result.opportunityIds, validOpportunities, result, onProgress);
+      if (delta) {
+        delta.new = result.created;
+        delta.changed = result.updated;
+        if (options.fullSnapshot) {
+          await this.deltaService.flagMissingRecords(
+            options.jobId,
+            'opportunities',
+            [...result.opportunityIds, ...seenIds],
+            delta
+          );
+        }
+        result.delta = delta;
       }
 
+      await this.checkpointService.completeStage(options.jobId, 'opportunities');
+
       onProgress?.({
         stage: 'completed',
-        processed: validOpportunities.length,
-        total: validOpportunities.length,
+        processed: result.total,
+        total: result.total,
         errors: result.errors.length,
         warnings: result.warnings.length,
       });
@@ -241,43 +513,32 @@ export class OpportunityImportService {
     }
   }
 
+  /**
+   * Transform and validate one source row without importing it
+   */
+  validateRow(row: Record<string, unknown>, rowNumber: number, rules: ImportValidationRule[] = []) {
+    const data = this.transformCsvRow(row, rowNumber);
+    return { data, ...this.validateOpportunityData(data, rowNumber, rules) };
+  }
+
+  /**
+   * Id of the existing opportunity a source row numbers
+   */
+  private async findExistingOpportunityId({ row, rowNumber }: ImportSourceRow): Promise<string | undefined> {
+    const { opportunityNumber } = this.transformCsvRow(row, rowNumber);
+    if (!opportunityNumber) return undefined;
+
+    const existing = await prisma.opportunity.findUnique({
+      where: { opportunityNumber },
+      select: { id: true },
+    });
+    return existing?.id;
+  }
+
   /**
    * Transform CSV row to OpportunityImportData
    */
   private transformCsvRow(row: any, rowNumber: number): OpportunityImportData {
-    // Map common CSV column names to our schema
-    const columnMapping: Record<string, string> = {
-      'opportunity_number': 'opportunityNumber',
-      'opp_number': 'opportunityNumber',
-      'opportunity_id': 'opportunityNumber',
-      'customer_name': 'customerName',
-      'account_name': 'customerName',
-      'opp_stage': 'oppStage',
-      'stage': 'oppStage',
-      'opportunity_stage': 'oppStage',
-      'sales_person': 'salesPerson',
-      'sales_rep': 'salesPerson',
-      'salesperson': 'salesPerson',
-      'sales_director': 'salesDirector',
-      'director': 'salesDirector',
-      'booked_gross_revenue': 'bookedGrossRevenue',
-      'booked_revenue': 'bookedGrossRevenue',
-      'revenue': 'bookedGrossRevenue',
-      'pipeline_gross_revenue': 'pipelineGrossRevenue',
-      'pipeline_revenue': 'pipelineGrossRevenue',
-      'pipeline': 'pipelineGrossRevenue',
-      'margin': 'margin',
-      'profit_margin': 'margin',
-      'booked_date': 'bookedDate',
-      'close_date': 'bookedDate',
-      'estimated_close_date': 'estimatedCloseDate',
-      'est_close_date': 'estimatedCloseDate',
-      'projected_close': 'estimatedCloseDate',
-      'account_id': 'accountId',
-      'account_number': 'accountNumber',
-      'account_name': 'accountName',
-    };
-
     const opportunityData: OpportunityImportData = {
       opportunityNumber: '',
       customerName: '',
@@ -288,7 +549,7 @@ export class OpportunityImportService {
       if (value === null || value === undefined || value === '') continue;
 
       const normalizedKey = csvKey.toLowerCase().trim();
-      const mappedKey = columnMapping[normalizedKey] || normalizedKey;
+      const mappedKey = OPPORTUNITY_COLUMN_ALIASES[normalizedKey] || resolveTargetField('opportunities', csvKey) || normalizedKey;
 
       if (mappedKey === 'opportunityNumber') {
         opportunityData.opportunityNumber = String(value).trim();
@@ -301,12 +562,18 @@ export class OpportunityImportService {
         if (!isNaN(numValue)) {
           (opportunityData as any)[mappedKey] = numValue;
         }
+      } else if (mappedKey === 'currency') {
+        // Invalid codes are kept as given so validation can report them
+        opportunityData.currency = normalizeCurrencyCode(value) || String(value).trim();
       } else if (['bookedDate', 'estimatedCloseDate'].includes(mappedKey)) {
         const dateValue = this.parseDate(value);
         if (dateValue) {
           (opportunityData as any)[mappedKey] = dateValue;
         }
-      } else if (Object.prototype.hasOwnProperty.call(opportunityData, mappedKey)) {
+      } else if (
+        resolveTargetField('opportunities', mappedKey) === mappedKey &&
+        !OPPORTUNITY_PRODUCT_FIELDS.includes(mappedKey)
+      ) {
         (opportunityData as any)[mappedKey] = String(value).trim();
       }
     }
@@ -321,27 +588,6 @@ export class OpportunityImportService {
    * Extract product purchase data from CSV row
    */
   private extractProductData(row: any, opportunityData: OpportunityImportData) {
-    const productFields = {
-      'item_number': 'itemNumber',
-      'product_number': 'itemNumber',
-      'sku': 'itemNumber',
-      'gp_revenue_category': 'gpRevenueCategory',
-      'revenue_category': 'gpRevenueCategory',
-      'mapped_solution_area': 'mappedSolutionArea',
-      'solution_area': 'mappedSolutionArea',
-      'mapped_segment': 'mappedSegment',
-      'segment': 'mappedSegment',
-      'mapped_capability': 'mappedCapability',
-      'capability': 'mappedCapability',
-      'item_category': 'itemCategory',
-      'product_category': 'itemCategory',
-      'quantity': 'quantity',
-      'unit_price': 'unitPrice',
-      'price': 'unitPrice',
-      'total_value': 'totalValue',
-      'value': 'totalValue',
-    };
-
     const productData: ProductPurchaseData = {
       itemNumber: '',
     };
@@ -351,17 +597,20 @@ export class OpportunityImportService {
       if (value === null || value === undefined || value === '') continue;
 
       const normalizedKey = csvKey.toLowerCase().trim();
-      const mappedKey = productFields[normalizedKey as keyof typeof productFields];
+      const mappedKey = OPPORTUNITY_PRODUCT_COLUMN_ALIASES[normalizedKey] ||
+        OPPORTUNITY_PRODUCT_FIELDS.find(field => normalizeColumnName(field) === normalizeColumnName(csvKey));
 
       if (mappedKey) {
         hasProductData = true;
         if (mappedKey === 'itemNumber') {
           productData.itemNumber = String(value).trim();
-        } else if (['quantity', 'unitPrice', 'totalValue'].includes(mappedKey)) {
+        } else if (['quantity', 'unitPrice', 'discount', 'totalValue', 'lineMargin'].includes(mappedKey)) {
           const numValue = parseFloat(String(value));
           if (!isNaN(numValue)) {
             (productData as any)[mappedKey] = numValue;
           }
+        } else if (mappedKey === 'lineCurrency') {
+          productData.lineCurrency = normalizeCurrencyCode(value) || String(value).trim();
         } else {
           (productData as any)[mappedKey] = String(value).trim();
         }
@@ -378,7 +627,9 @@ export class OpportunityImportService {
    */
   private validateOpportunityData(
     data: OpportunityImportData,
-    rowNumber: number
+    rowNumber: number,
+    rules: ImportValidationRule[] = [],
+    converter?: CurrencyConverter
   ): {
     errors: Array<{ row: number; opportunity: string; error: string }>;
     warnings: Array<{ row: number; opportunity: string; warning: string }>;
@@ -429,6 +680,37 @@ export class OpportunityImportService {
       });
     }
 
+    for (const code of [data.currency, ...(data.products || []).map(product => product.lineCurrency)]) {
+      if (code && !normalizeCurrencyCode(code)) {
+        errors.push({
+          row: rowNumber,
+          opportunity: opportunityName,
+          error: `Currency "${code}" is not a three-letter ISO 4217 code`,
+        });
+      }
+    }
+
+    // Revenue without a rate on its conversion date is left out of converted totals
+    const currency = data.currency && normalizeCurrencyCode(data.currency);
+    if (converter && currency && converter.convert(1, currency, getConversionDate(data)) === null) {
+      warnings.push({
+        row: rowNumber,
+        opportunity: opportunityName,
+        warning: `No exchange rate from ${currency} to ${converter.reportingCurrency} on ` +
+          `${getConversionDate(data).toISOString().slice(0, 10)}; revenue stays unconverted in reports`,
+      });
+    }
+
+    for (const product of data.products || []) {
+      for (const warning of validateLineItem(product)) {
+        warnings.push({
+          row: rowNumber,
+          opportunity: opportunityName,
+          warning: `Product ${product.itemNumber}: ${warning}`,
+        });
+      }
+    }
+
     if (data.bookedDate && data.estimatedCloseDate && data.bookedDate > data.estimatedCloseDate) {
       warnings.push({
         row: rowNumber,
@@ -445,17 +727,33 @@ export class OpportunityImportService {
       });
     }
 
+    for (const violation of evaluateValidationRules(rules, { ...data.products?.[0], ...data })) {
+      if (violation.severity === 'error') {
+        errors.push({ row: rowNumber, opportunity: opportunityName, error: violation.message });
+      } else {
+        warnings.push({ row: rowNumber, opportunity: opportunityName, warning: violation.message });
+      }
+    }
+
     return { errors, warnings };
   }
 
   /**
-   * Link or create accounts for opportunities
+   * Link or create accounts for opportunities. Customers named without an account id or number
+   * are matched by domain and name: confident matches link, middling ones are held for review
+   * and only customers with no match get a new account. Returns the rows ready to import.
    */
   private async linkOrCreateAccounts(
     opportunities: OpportunityImportData[],
     result: OpportunityImportResult,
+    options: OpportunityImportOptions,
+    origin: FieldLineageOrigin,
+    replay: boolean,
+    rowNumberOf?: Map<OpportunityImportData, number>,
     onProgress?: (progress: OpportunityImportProgress) => void
-  ) {
+  ): Promise<OpportunityImportData[]> {
+    const linked: OpportunityImportData[] = [];
+
     onProgress?.({
       stage: 'linking_accounts',
       processed: 0,
@@ -469,42 +767,56 @@ export class OpportunityImportService {
       
       try {
         // Try to find existing account
-        let account = null;
+        let accountId: string | undefined;
         
-        if (opportunity.accountId) {
-          account = await prisma.companyAccount.findUnique({
-            where: { id: opportunity.accountId },
-          });
-        } else if (opportunity.accountNumber) {
-          account = await prisma.companyAccount.findUnique({
-            where: { accountNumber: opportunity.accountNumber },
+        if (opportunity.accountId || opportunity.accountNumber) {
+          const account = await prisma.companyAccount.findUnique({
+            where: opportunity.accountId ? { id: opportunity.accountId } : { accountNumber: opportunity.accountNumber },
           });
+          accountId = account?.id;
         } else {
-          // Search by customer name
-          account = await prisma.companyAccount.findFirst({
-            where: {
-              name: {
-                equals: opportunity.customerName,
-                mode: 'insensitive',
-              },
-            },
-          });
+          const match = await this.matchingService.matchAccount(
+            { name: opportunity.customerName, domain: opportunity.customerDomain },
+            options.accountMatchThresholds
+          );
+
+          if (match.confidence === 'review' && match.account) {
+            await this.reviewService.queueOpportunity(
+              match,
+              { name: opportunity.customerName, domain: opportunity.customerDomain },
+              opportunity,
+              options.jobId,
+              {
+                updateExisting: options.updateExisting,
+                skipDuplicates: options.skipDuplicates,
+                linkProducts: options.linkProducts,
+              }
+            );
+            result.heldForReview++;
+            result.warnings.push({
+              row: rowNumberOf?.get(opportunity) ?? 0,
+              opportunity: opportunity.opportunityNumber,
+              warning: `Held for review: "${opportunity.customerName}" may be account "${match.account.name}" (score ${match.score})`,
+            });
+            continue;
+          }
+
+          accountId = match.account?.id;
         }
 
-        if (!account) {
-          // Create new account
-          account = await prisma.companyAccount.create({
-            data: {
-              name: opportunity.customerName,
-              accountNumber: opportunity.accountNumber || this.generateAccountNumber(),
-              createdAt: new Date(),
-              updatedAt: new Date(),
-            },
-          });
+        if (!accountId) {
+          accountId = await this.createAccount(opportunity, { ...origin, rowNumber: rowNumberOf?.get(opportunity) });
+          result.accountsCreated++;
+        } else if (
+          replay &&
+          await this.snapshotService.getRecordedAction(options.jobId, 'accounts', accountId) === 'created'
+        ) {
+          // Created by an interrupted attempt of this job
           result.accountsCreated++;
         }
 
-        opportunity.accountId = account.id;
+        opportunity.accountId = accountId;
+        linked.push(opportunity);
 
         onProgress?.({
           stage: 'linking_accounts',
@@ -517,12 +829,129 @@ export class OpportunityImportService {
 
       } catch (error) {
         result.errors.push({
-          row: 0,
+          row: rowNumberOf?.get(opportunity) ?? 0,
           opportunity: opportunity.opportunityNumber,
           error: `Failed to link account: ${error instanceof Error ? error.message : 'Unknown error'}`,
         });
+        linked.push(opportunity);
       }
     }
+
+    return linked;
+  }
+
+  /**
+   * Create the account for a customer that matched none
+   */
+  private async createAccount(opportunity: OpportunityImportData, origin: FieldLineageOrigin): Promise<string> {
+    const account = await prisma.companyAccount.create({
+      data: {
+        name: opportunity.customerName,
+        accountNumber: opportunity.accountNumber || this.generateAccountNumber(),
+        domain: opportunity.customerDomain ? normalizeDomain(opportunity.customerDomain) : undefined,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+    await this.snapshotService.recordCreated(origin.jobId, 'accounts', account.id);
+    await this.lineageService.recordFields(
+      'accounts',
+      account.id,
+      { name: account.name, accountNumber: account.accountNumber, domain: account.domain ?? undefined },
+      origin
+    );
+
+    return account.id;
+  }
+
+  /**
+   * Resolve an account match review: write the held rows against the candidate account
+   * (or another account the reviewer chose) when confirmed, or against a new account when rejected
+   */
+  async resolveAccountMatchReview(
+    reviewId: string,
+    userId: string,
+    decision: { action: 'confirm' | 'reject'; accountId?: string }
+  ) {
+    const review = await this.reviewService.claimReview(
+      reviewId,
+      userId,
+      decision.action === 'confirm' ? 'CONFIRMED' : 'REJECTED'
+    );
+    const startTime = Date.now();
+    const options: OpportunityImportOptions = { ...review.importOptions, jobId: review.jobId ?? undefined };
+    // The held rows keep their import job; the reviewer decided which account they belong to
+    const origin: FieldLineageOrigin = { source: 'import', jobId: options.jobId, userId };
+    const result: OpportunityImportResult = {
+      total: review.opportunities.length,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      duplicates: 0,
+      accountsCreated: 0,
+      productsLinked: 0,
+      heldForReview: 0,
+      errors: [],
+      warnings: [],
+      opportunityIds: [],
+      processingTime: 0,
+    };
+
+    try {
+      let accountId: string;
+      if (decision.action === 'confirm') {
+        const account = await prisma.companyAccount.findUnique({
+          where: { id: decision.accountId || review.candidateAccountId },
+          select: { id: true },
+        });
+        if (!account) {
+          throw new NotFoundError('Account');
+        }
+        accountId = account.id;
+      } else {
+        accountId = await this.createAccount(
+          {
+            ...review.opportunities[0],
+            customerName: review.customerName,
+            customerDomain: review.customerDomain ?? undefined,
+          },
+          origin
+        );
+        result.accountsCreated++;
+      }
+
+      const opportunities = review.opportunities.map(opportunity => ({ ...opportunity, accountId }));
+      const batchResult = await this.importOpportunityBatch(opportunities, options, origin);
+
+      result.created = batchResult.created;
+      result.updated = batchResult.updated;
+      result.skipped = batchResult.skipped;
+      result.failed = batchResult.failed;
+      result.duplicates = batchResult.duplicates;
+      result.opportunityIds = batchResult.opportunityIds;
+      result.errors = batchResult.errors;
+
+      if (options.linkProducts && batchResult.opportunityIds.length > 0) {
+        await this.linkProducts(batchResult.opportunityIds, opportunities, result, options, false);
+      }
+
+      await this.reviewService.completeReview(reviewId, accountId);
+      result.processingTime = Date.now() - startTime;
+
+      logger.info('OpportunityImportService: Account match review resolved', {
+        reviewId,
+        action: decision.action,
+        accountId,
+        created: result.created,
+        updated: result.updated,
+      });
+
+      return { reviewId, action: decision.action, accountId, result };
+    } catch (error) {
+      await this.reviewService.releaseReview(reviewId);
+      throw error;
+    }
   }
 
   /**
@@ -530,52 +959,88 @@ export class OpportunityImportService {
    */
   private async importOpportunityBatch(
     opportunities: OpportunityImportData[],
-    options: OpportunityImportOptions
-  ): Promise<Omit<OpportunityImportResult, 'total' | 'processingTime' | 'accountsCreated' | 'productsLinked'>> {
+    options: OpportunityImportOptions,
+    origin: FieldLineageOrigin,
+    replay = false,
+    rowNumberOf?: Map<OpportunityImportData, number>
+  ): Promise<
+    Omit<OpportunityImportResult, 'total' | 'processingTime' | 'accountsCreated' | 'productsLinked'>
+    & { unchanged: number; seenIds: string[] }
+  > {
     const result = {
       created: 0,
       updated: 0,
       skipped: 0,
       failed: 0,
       duplicates: 0,
+      unchanged: 0,
       errors: [] as Array<{ row: number; opportunity: string; error: string }>,
       opportunityIds: [] as string[],
+      seenIds: [] as string[], // Matched opportunities this batch did not write
     };
 
     for (const opportunityData of opportunities) {
+      const row = rowNumberOf?.get(opportunityData) ?? 0;
+      const importHash = hashImportRow(opportunityData);
       try {
         // Check for existing opportunity
         const existingOpportunity = await prisma.opportunity.findUnique({
           where: { opportunityNumber: opportunityData.opportunityNumber },
         });
-        
-        if (existingOpportunity) {
-          if (options.updateExisting) {
+
+        // A replayed row this job already wrote is counted as before, not written again
+        const recorded = existingOpportunity && replay
+          ? await this.snapshotService.getRecordedAction(options.jobId, 'opportunities', existingOpportunity.id)
+          : null;
+
+        if (existingOpportunity && recorded) {
+          result[recorded]++;
+          result.opportunityIds.push(existingOpportunity.id);
+        } else if (existingOpportunity) {
+          if (options.updateExisting && options.incremental && isUnchangedRecord(existingOpportunity, importHash)) {
+            // Same content as the row that last wrote it: no write, no product relinking
+            result.unchanged++;
+            result.seenIds.push(existingOpportunity.id);
+          } else if (options.updateExisting) {
             // Update existing opportunity
+            await this.snapshotService.recordUpdated(
+              options.jobId,
+              'opportunities',
+              existingOpportunity,
+              [
+                ...Object.keys(this.buildOpportunityWriteData(opportunityData)),
+                'accountId',
+                'importHash',
+                'missingFromImportAt',
+                'updatedAt',
+              ]
+            );
             const updated = await prisma.opportunity.update({
               where: { id: existingOpportunity.id },
               data: {
-                customerName: opportunityData.customerName,
-                oppStage: opportunityData.oppStage,
-                salesPerson: opportunityData.salesPerson,
-                salesDirector: opportunityData.salesDirector,
-                bookedGrossRevenue: opportunityData.bookedGrossRevenue || 0,
-                pipelineGrossRevenue: opportunityData.pipelineGrossRevenue || 0,
-                margin: opportunityData.margin || 0,
-                bookedDate: opportunityData.bookedDate,
-                estimatedCloseDate: opportunityData.estimatedCloseDate,
+                ...this.buildOpportunityWriteData(opportunityData),
                 accountId: opportunityData.accountId || existingOpportunity.accountId,
+                importHash,
+                missingFromImportAt: null,
                 updatedAt: new Date(),
               },
             });
+            await this.lineageService.recordFields(
+              'opportunities',
+              updated.id,
+              { ...this.buildOpportunityWriteData(opportunityData), accountId: updated.accountId },
+              { ...origin, rowNumber: rowNumberOf?.get(opportunityData) }
+            );
             result.updated++;
             result.opportunityIds.push(updated.id);
           } else if (options.skipDuplicates) {
             result.skipped++;
             result.duplicates++;
+            result.seenIds.push(existingOpportunity.id);
           } else {
+            result.seenIds.push(existingOpportunity.id);
             result.errors.push({
-              row: 0,
+              row,
               opportunity: opportunityData.opportunityNumber,
               error: 'Opportunity already exists',
             });
@@ -585,7 +1050,7 @@ export class OpportunityImportService {
           // Create new opportunity
           if (!opportunityData.accountId) {
             result.errors.push({
-              row: 0,
+              row,
               opportunity: opportunityData.opportunityNumber,
               error: 'Missing account ID for opportunity',
             });
@@ -596,26 +1061,31 @@ export class OpportunityImportService {
           const created = await prisma.opportunity.create({
             data: {
               opportunityNumber: opportunityData.opportunityNumber,
-              customerName: opportunityData.customerName,
-              oppStage: opportunityData.oppStage,
-              salesPerson: opportunityData.salesPerson,
-              salesDirector: opportunityData.salesDirector,
-              bookedGrossRevenue: opportunityData.bookedGrossRevenue || 0,
-              pipelineGrossRevenue: opportunityData.pipelineGrossRevenue || 0,
-              margin: opportunityData.margin || 0,
-              bookedDate: opportunityData.bookedDate,
-              estimatedCloseDate: opportunityData.estimatedCloseDate,
+              ...this.buildOpportunityWriteData(opportunityData),
+              currency: opportunityData.currency || REPORTING_CURRENCY,
               accountId: opportunityData.accountId,
+              importHash,
               createdAt: new Date(),
               updatedAt: new Date(),
             },
           });
+          await this.snapshotService.recordCreated(options.jobId, 'opportunities', created.id);
+          await this.lineageService.recordFields(
+            'opportunities',
+            created.id,
+            {
+              opportunityNumber: created.opportunityNumber,
+              ...this.buildOpportunityWriteData(opportunityData),
+              accountId: created.accountId,
+            },
+            { ...origin, rowNumber: rowNumberOf?.get(opportunityData) }
+          );
           result.created++;
           result.opportunityIds.push(created.id);
         }
       } catch (error) {
         result.errors.push({
-          row: 0,
+          row,
           opportunity: opportunityData.opportunityNumber,
           error: error instanceof Error ? error.message : 'Unknown database error',
         });
@@ -626,6 +1096,207 @@ export class OpportunityImportService {
     return result;
   }
 
+  /**
+   * Fields written for an opportunity on both create and update
+   */
+  private buildOpportunityWriteData(opportunityData: OpportunityImportData) {
+    return {
+      customerName: opportunityData.customerName,
+      oppStage: opportunityData.oppStage,
+      salesPerson: opportunityData.salesPerson,
+      salesDirector: opportunityData.salesDirector,
+      bookedGrossRevenue: opportunityData.bookedGrossRevenue || 0,
+      pipelineGrossRevenue: opportunityData.pipelineGrossRevenue || 0,
+      margin: opportunityData.margin || 0,
+      currency: opportunityData.currency,
+      bookedDate: opportunityData.bookedDate,
+      estimatedCloseDate: opportunityData.estimatedCloseDate,
+    };
+  }
+
+  /**
+   * Add a batch to a dry-run plan; the state carries duplicates and pending creates across batches
+   */
+  private async planOpportunityImport(
+    opportunities: OpportunityImportData[],
+    rowNumbers: number[],
+    options: OpportunityImportOptions,
+    state: OpportunityPlanState
+  ): Promise<void> {
+    const { plan, seen, pendingAccounts, pendingProducts } = state;
+
+    for (let i = 0; i < opportunities.length; i++) {
+      const opportunityData = opportunities[i];
+      const row = rowNumbers[i];
+      const key = opportunityData.opportunityNumber;
+
+      if (seen.has(key)) {
+        recordPlanEntry(plan, {
+          row,
+          key,
+          action: 'conflict',
+          matchedBy: 'opportunityNumber',
+          reason: `Duplicate of row ${seen.get(key)} in this file`,
+        });
+        continue;
+      }
+      seen.set(key, row);
+
+      const existingOpportunity = await prisma.opportunity.findUnique({
+        where: { opportunityNumber: key },
+      });
+
+      if (existingOpportunity && !options.updateExisting) {
+        recordPlanEntry(plan, {
+          row,
+          key,
+          action: options.skipDuplicates ? 'skip' : 'conflict',
+          existingId: existingOpportunity.id,
+          matchedBy: 'opportunityNumber',
+          reason: 'Opportunity already exists',
+        });
+        continue;
+      }
+
+      const accountLink = await this.planAccountLink(opportunityData, options, pendingAccounts);
+      if (!accountLink && !existingOpportunity) {
+        recordPlanOrphan(plan, {
+          row,
+          key,
+          reference: opportunityData.accountId || opportunityData.customerName,
+          reason: opportunityData.accountId
+            ? `Account ${opportunityData.accountId} not found`
+            : 'No linked account; enable createMissingAccounts to create one',
+        });
+        continue;
+      }
+
+      const links: ImportPlanLink[] = accountLink ? [accountLink] : [];
+      if (options.linkProducts) {
+        for (const productData of opportunityData.products || []) {
+          const product = await prisma.product.findFirst({
+            where: { itemNumber: productData.itemNumber, isCurrentRecordFlag: true },
+          });
+
+          if (product) {
+            links.push({ entityType: 'products', key: productData.itemNumber, status: 'existing', id: product.id });
+          } else if (pendingProducts.has(productData.itemNumber)) {
+            links.push({ entityType: 'products', key: productData.itemNumber, status: 'pending' });
+          } else {
+            recordPlanOrphan(plan, {
+              row,
+              key,
+              reference: productData.itemNumber,
+              reason: `Product ${productData.itemNumber} not found; the line will not be linked`,
+            });
+          }
+        }
+      }
+
+      const writeData = this.buildOpportunityWriteData(opportunityData);
+      const heldReason = accountLink?.status === 'review'
+        ? 'Held until the account match is confirmed or rejected'
+        : undefined;
+
+      if (!existingOpportunity) {
+        recordPlanEntry(plan, {
+          row,
+          key,
+          action: 'create',
+          links,
+          reason: heldReason,
+          data: {
+            opportunityNumber: key,
+            ...writeData,
+            accountId: accountLink?.status === 'review' ? undefined : accountLink?.id,
+          },
+        });
+        continue;
+      }
+
+      const changes = diffFields(existingOpportunity, {
+        ...writeData,
+        accountId: accountLink?.status === 'existing' ? accountLink.id : undefined,
+      });
+
+      recordPlanEntry(plan, {
+        row,
+        key,
+        action: changes.length > 0 || accountLink?.status === 'create' ? 'update' : 'unchanged',
+        existingId: existingOpportunity.id,
+        matchedBy: 'opportunityNumber',
+        changes,
+        links,
+        reason: heldReason,
+      });
+    }
+
+  }
+
+  /**
+   * Resolve the account an opportunity would link to, mirroring linkOrCreateAccounts
+   */
+  private async planAccountLink(
+    opportunity: OpportunityImportData,
+    options: OpportunityImportOptions,
+    pendingAccounts: Array<{ name: string; accountNumber?: string }>
+  ): Promise<ImportPlanLink | null> {
+    if (!options.createMissingAccounts) {
+      if (!opportunity.accountId) return null;
+
+      const account = await prisma.companyAccount.findUnique({
+        where: { id: opportunity.accountId },
+      });
+      return account
+        ? { entityType: 'accounts', key: account.name, status: 'existing', id: account.id }
+        : null;
+    }
+
+    let account: { id: string; name: string } | null | undefined = null;
+    if (opportunity.accountId) {
+      account = await prisma.companyAccount.findUnique({
+        where: { id: opportunity.accountId },
+      });
+    } else if (opportunity.accountNumber) {
+      account = await prisma.companyAccount.findUnique({
+        where: { accountNumber: opportunity.accountNumber },
+      });
+    } else {
+      const match = await this.matchingService.matchAccount(
+        { name: opportunity.customerName, domain: opportunity.customerDomain },
+        options.accountMatchThresholds
+      );
+      if (match.confidence === 'review' && match.account) {
+        return { entityType: 'accounts', key: match.account.name, status: 'review', id: match.account.id, score: match.score };
+      }
+      account = match.account;
+    }
+
+    if (account) {
+      return { entityType: 'accounts', key: account.name, status: 'existing', id: account.id };
+    }
+
+    const customerName = normalizeCompanyName(opportunity.customerName);
+    const thresholds = { ...DEFAULT_ACCOUNT_MATCH_THRESHOLDS, ...options.accountMatchThresholds };
+    const pending = pendingAccounts.find(candidate =>
+      opportunity.accountNumber
+        ? candidate.accountNumber === opportunity.accountNumber
+        : this.matchingService.rankCandidates(
+            [{ id: candidate.name, name: candidate.name }],
+            customerName,
+            undefined,
+            thresholds
+          ).confidence === 'high'
+    );
+    if (pending) {
+      return { entityType: 'accounts', key: pending.name, status: 'pending' };
+    }
+
+    // Later rows for the same customer link to the account this row creates
+    pendingAccounts.push({ name: opportunity.customerName, accountNumber: opportunity.accountNumber });
+    return { entityType: 'accounts', key: opportunity.customerName, status: 'create' };
+  }
+
   /**
    * Link products to opportunities
    */
@@ -633,6 +1304,8 @@ export class OpportunityImportService {
     opportunityIds: string[],
     opportunities: OpportunityImportData[],
     result: OpportunityImportResult,
+    options: OpportunityImportOptions,
+    replay: boolean,
     onProgress?: (progress: OpportunityImportProgress) => void
   ) {
     onProgress?.({
@@ -648,6 +1321,9 @@ export class OpportunityImportService {
       opportunityMap.set(opp.opportunityNumber, opp);
     });
 
+    // Lines in another currency are converted to the opportunity's before the rollup check
+    const converter = options.validateRevenue !== false ? await this.exchangeRateService.getConverter() : undefined;
+
     for (let i = 0; i < opportunityIds.length; i++) {
       const opportunityId = opportunityIds[i];
       
@@ -664,27 +1340,57 @@ export class OpportunityImportService {
         for (const productData of opportunityData.products) {
           try {
             // Find the product
-            const product = await prisma.product.findUnique({
-              where: { itemNumber: productData.itemNumber },
+            const product = await prisma.product.findFirst({
+              where: { itemNumber: productData.itemNumber, isCurrentRecordFlag: true },
             });
+            if (!product) continue;
 
-            if (product) {
-              // Create purchase product link
-              await prisma.purchaseProduct.create({
-                data: {
-                  opportunityId,
-                  productId: product.id,
-                  gpRevenueCategory: productData.gpRevenueCategory,
-                  mappedSolutionArea: productData.mappedSolutionArea,
-                  mappedSegment: productData.mappedSegment,
-                  mappedCapability: productData.mappedCapability,
-                  itemCategory: productData.itemCategory,
-                  createdAt: new Date(),
-                  updatedAt: new Date(),
-                },
-              });
-              result.productsLinked++;
+            const existingLink = await prisma.purchaseProduct.findUnique({
+              where: { opportunityId_productId: { opportunityId, productId: product.id } },
+            });
+
+            if (existingLink && replay) {
+              // Links written by an interrupted attempt of this job are counted, not written again
+              const recorded = await this.snapshotService.getRecordedAction(
+                options.jobId,
+                'purchaseProducts',
+                existingLink.id
+              );
+              if (recorded === 'created') result.productsLinked++;
+              if (recorded) continue;
+            }
+
+            const lineData = this.buildPurchaseLineData(productData);
+
+            if (existingLink) {
+              // Lines already on the opportunity take the row's categories and commercials when updating
+              if (options.updateExisting) {
+                await this.snapshotService.recordUpdated(
+                  options.jobId,
+                  'purchaseProducts',
+                  existingLink,
+                  [...Object.keys(lineData), 'updatedAt']
+                );
+                await prisma.purchaseProduct.update({
+                  where: { id: existingLink.id },
+                  data: { ...lineData, updatedAt: new Date() },
+                });
+              }
+              continue;
             }
+
+            // Create purchase product link
+            const link = await prisma.purchaseProduct.create({
+              data: {
+                opportunityId,
+                productId: product.id,
+                ...lineData,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+              },
+            });
+            await this.snapshotService.recordCreated(options.jobId, 'purchaseProducts', link.id);
+            result.productsLinked++;
           } catch (error) {
             // Ignore duplicate key errors for product links
             if (!error.message?.includes('unique constraint')) {
@@ -697,6 +1403,32 @@ export class OpportunityImportService {
           }
         }
 
+        // Every line of the opportunity counts, including lines linked by earlier imports
+        if (converter) {
+          const lines = await prisma.purchaseProduct.findMany({
+            where: { opportunityId },
+            select: {
+              quantity: true,
+              unitPrice: true,
+              discount: true,
+              totalValue: true,
+              lineMargin: true,
+              currency: true,
+            },
+          });
+          const totals = summarizeLineItems(lines, (amount, currency) =>
+            converter.convert(amount, currency, getConversionDate(opportunity), opportunity.currency)
+          );
+          const rollup = checkRevenueRollup(opportunity, totals);
+          if (rollup && !rollup.consistent) {
+            result.warnings.push({
+              row: 0,
+              opportunity: opportunity.opportunityNumber,
+              warning: describeRollupMismatch(rollup),
+            });
+          }
+        }
+
         onProgress?.({
           stage: 'linking_products',
           processed: i + 1,
@@ -715,6 +1447,25 @@ export class OpportunityImportService {
     }
   }
 
+  /**
+   * Categories and commercials written for a purchase line on both create and update
+   */
+  private buildPurchaseLineData(productData: ProductPurchaseData) {
+    return {
+      gpRevenueCategory: productData.gpRevenueCategory,
+      mappedSolutionArea: productData.mappedSolutionArea,
+      mappedSegment: productData.mappedSegment,
+      mappedCapability: productData.mappedCapability,
+      itemCategory: productData.itemCategory,
+      quantity: productData.quantity,
+      unitPrice: productData.unitPrice,
+      discount: productData.discount,
+      totalValue: calculateLineTotal(productData),
+      lineMargin: productData.lineMargin,
+      currency: productData.lineCurrency,
+    };
+  }
+
   /**
    * Parse date values from various formats
    */
@@ -752,19 +1503,22 @@ export class OpportunityImportService {
         break;
     }
 
-    const [totalOpportunities, pipelineValue, stageStats] = await Promise.all([
+    const [totalOpportunities, revenues, stageStats, converter] = await Promise.all([
       prisma.opportunity.count({
         where: {
           createdAt: { gte: startDate },
         },
       }),
-      prisma.opportunity.aggregate({
+      prisma.opportunity.findMany({
         where: {
           createdAt: { gte: startDate },
         },
-        _sum: {
+        select: {
           pipelineGrossRevenue: true,
           bookedGrossRevenue: true,
+          currency: true,
+          bookedDate: true,
+          estimatedCloseDate: true,
         },
       }),
       prisma.opportunity.groupBy({
@@ -776,12 +1530,31 @@ export class OpportunityImportService {
         _count: { id: true },
         orderBy: { _count: { id: 'desc' } },
       }),
+      this.exchangeRateService.getConverter(),
     ]);
 
+    // Revenue is summed in the reporting currency; opportunities without a rate are counted instead
+    let pipelineValue = 0;
+    let bookedValue = 0;
+    let unconvertedOpportunities = 0;
+    for (const opportunity of revenues) {
+      const date = getConversionDate(opportunity);
+      const pipeline = converter.convert(opportunity.pipelineGrossRevenue, opportunity.currency, date);
+      const booked = converter.convert(opportunity.bookedGrossRevenue, opportunity.currency, date);
+      if (pipeline === null || booked === null) {
+        unconvertedOpportunities++;
+        continue;
+      }
+      pipelineValue += pipeline;
+      bookedValue += booked;
+    }
+
     return {
       totalOpportunities,
-      pipelineValue: pipelineValue._sum.pipelineGrossRevenue || 0,
-      bookedValue: pipelineValue._sum.bookedGrossRevenue || 0,
+      pipelineValue: Math.round(pipelineValue * 100) / 100,
+      bookedValue: Math.round(bookedValue * 100) / 100,
+      reportingCurrency: converter.reportingCurrency,
+      unconvertedOpportunities,
       stageDistribution: stageStats.map(stat => ({
         stage: stat.oppStage,
         count: stat._count.id,
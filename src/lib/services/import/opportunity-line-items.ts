@@ -0,0 +1,152 @@
+/**
+ * Opportunity Line Items
+ * Commercials of the product lines on an opportunity, and how their totals roll up into its revenue
+ */
+
+export interface LineItemCommercials {
+  quantity?: number | null;
+  unitPrice?: number | null;
+  discount?: number | null; // Percent off the unit price
+  totalValue?: number | null; // Net line revenue
+  lineMargin?: number | null;
+  currency?: string | null; // The opportunity's currency when blank
+}
+
+export interface LineItemTotals {
+  lines: number;
+  pricedLines: number; // Lines with a total value, given or calculated, in the opportunity's currency
+  quantity: number;
+  totalValue: number;
+  margin: number | null; // Line margins weighted by line value
+}
+
+export interface RevenueRollupCheck {
+  revenueField: 'bookedGrossRevenue' | 'pipelineGrossRevenue';
+  revenue: number;
+  lineTotal: number;
+  difference: number; // Line total less the opportunity's revenue
+  consistent: boolean;
+}
+
+// Share of the larger amount two revenue figures may differ by and still agree
+export const LINE_ITEM_ROLLUP_TOLERANCE = 0.01;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const agrees = (a: number, b: number) =>
+  Math.abs(a - b) <= Math.max(0.01, LINE_ITEM_ROLLUP_TOLERANCE * Math.max(Math.abs(a), Math.abs(b)));
+
+/**
+ * Net value of a line: the given total, or quantity times unit price less the discount
+ */
+export function calculateLineTotal(line: LineItemCommercials): number | undefined {
+  if (line.totalValue !== undefined && line.totalValue !== null) return line.totalValue;
+  if (line.quantity === undefined || line.quantity === null) return undefined;
+  if (line.unitPrice === undefined || line.unitPrice === null) return undefined;
+
+  return roundCurrency(line.quantity * line.unitPrice * (1 - (line.discount || 0) / 100));
+}
+
+/**
+ * Warnings for line commercials that look wrong on their own
+ */
+export function validateLineItem(line: LineItemCommercials): string[] {
+  const warnings: string[] = [];
+
+  if (line.quantity !== undefined && line.quantity !== null && line.quantity < 0) {
+    warnings.push('Negative quantity detected');
+  }
+
+  if (line.unitPrice !== undefined && line.unitPrice !== null && line.unitPrice < 0) {
+    warnings.push('Negative unit price detected');
+  }
+
+  if (line.discount !== undefined && line.discount !== null && (line.discount < 0 || line.discount > 100)) {
+    warnings.push('Discount should be a percentage between 0 and 100');
+  }
+
+  if (line.lineMargin !== undefined && line.lineMargin !== null && (line.lineMargin < -100 || line.lineMargin > 100)) {
+    warnings.push('Line margin value seems unusual (should be percentage)');
+  }
+
+  if (line.totalValue !== undefined && line.totalValue !== null) {
+    const calculated = calculateLineTotal({ ...line, totalValue: undefined });
+    if (calculated !== undefined && !agrees(line.totalValue, calculated)) {
+      warnings.push(
+        `Total value ${line.totalValue} does not match quantity × unit price less discount (${calculated})`
+      );
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Totals of an opportunity's lines. Lines in another currency count once converted to the
+ * opportunity's; lines that cannot be converted are left unpriced.
+ */
+export function summarizeLineItems(
+  lines: LineItemCommercials[],
+  toOpportunityCurrency?: (amount: number, currency: string) => number | null
+): LineItemTotals {
+  let pricedLines = 0;
+  let quantity = 0;
+  let totalValue = 0;
+  let marginValue = 0;
+  let marginWeight = 0;
+
+  for (const line of lines) {
+    quantity += line.quantity || 0;
+
+    let lineTotal: number | null | undefined = calculateLineTotal(line);
+    if (lineTotal !== undefined && line.currency && toOpportunityCurrency) {
+      lineTotal = toOpportunityCurrency(lineTotal, line.currency);
+    }
+    if (lineTotal === undefined || lineTotal === null) continue;
+
+    pricedLines++;
+    totalValue += lineTotal;
+    if (line.lineMargin !== undefined && line.lineMargin !== null) {
+      marginValue += line.lineMargin * lineTotal;
+      marginWeight += lineTotal;
+    }
+  }
+
+  return {
+    lines: lines.length,
+    pricedLines,
+    quantity,
+    totalValue: roundCurrency(totalValue),
+    margin: marginWeight !== 0 ? marginValue / marginWeight : null,
+  };
+}
+
+/**
+ * Compare the line total with the opportunity's booked revenue, or its pipeline revenue while it
+ * is unbooked. Opportunities without priced lines have nothing to compare.
+ */
+export function checkRevenueRollup(
+  opportunity: { bookedGrossRevenue: number; pipelineGrossRevenue: number },
+  totals: LineItemTotals
+): RevenueRollupCheck | null {
+  if (totals.pricedLines === 0) return null;
+
+  const revenueField = opportunity.bookedGrossRevenue ? 'bookedGrossRevenue' : 'pipelineGrossRevenue';
+  const revenue = opportunity[revenueField];
+
+  return {
+    revenueField,
+    revenue,
+    lineTotal: totals.totalValue,
+    difference: roundCurrency(totals.totalValue - revenue),
+    consistent: agrees(totals.totalValue, revenue),
+  };
+}
+
+/**
+ * Warning text for a rollup that does not agree
+ */
+export function describeRollupMismatch(check: RevenueRollupCheck): string {
+  const label = check.revenueField === 'bookedGrossRevenue' ? 'booked gross revenue' : 'pipeline gross revenue';
+  return `Line items total ${check.lineTotal} but ${label} is ${check.revenue}`;
+}
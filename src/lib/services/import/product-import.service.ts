@@ -1,9 +1,28 @@
-import { Prisma } from '@prisma/client';
+import { Prisma, Product } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
-import { QuickParse } from '@/lib/services/parsers';
+
+import { ColumnMapping, resolveTargetField } from './column-mapping.service';
+import { FieldLineageOrigin, getFieldLineageService } from './field-lineage.service';
+import { getImportCheckpointService } from './import-checkpoint.service';
+import {
+  createImportDelta,
+  getImportDeltaService,
+  hashImportRow,
+  ImportDelta,
+  isUnchangedRecord,
+} from './import-delta.service';
+import { createImportPlan, diffFields, ImportPlan, recordPlanEntry } from './import-plan';
+import { getImportRejectionService } from './import-rejection.service';
+import { getImportSnapshotService } from './import-snapshot.service';
+import { ImportSource, ImportSourceRow, readImportBatches } from './import-source';
+import {
+  evaluateValidationRules,
+  getImportValidationRuleService,
+  ImportValidationRule,
+} from './import-validation-rule.service';
 
 export interface ProductImportData {
   itemNumber: string;
@@ -37,6 +56,15 @@ export interface ProductImportOptions {
   batchSize?: number;
   validateItemNumbers?: boolean;
   enableSCD?: boolean; // Slowly Changing Dimensions
+  sheetName?: string; // Worksheet to read when importing from an Excel workbook
+  recordPath?: string; // Dotted path to the records when importing JSON, e.g. "data.items"
+  columnMappings?: ColumnMapping[]; // Resolved mapping profile applied before field transformation
+  dryRun?: boolean; // Build an import plan instead of writing
+  maxPlanRecords?: number; // Cap on records listed per plan section
+  jobId?: string; // Processing job that records undo snapshots and resume checkpoints
+  sourceSize?: number; // Byte length of a streamed source, for progress
+  incremental?: boolean; // Leave items whose row content has not changed since the last import untouched
+  fullSnapshot?: boolean; // The file holds the whole catalog; flag imported items it no longer contains
 }
 
 export interface ProductImportResult {
@@ -57,7 +85,9 @@ export interface ProductImportResult {
     warning: string;
   }>;
   productIds: string[];
+  delta?: ImportDelta; // New, changed, unchanged and removed rows of incremental and full-snapshot imports
   processingTime: number;
+  plan?: ImportPlan;
 }
 
 export interface ProductImportProgress {
@@ -65,16 +95,79 @@ export interface ProductImportProgress {
   processed: number;
   total: number;
   currentProduct?: string;
+  bytesRead?: number; // Source bytes read so far, while streaming
+  totalBytes?: number; // Source size, when known
   errors: number;
   warnings: number;
 }
 
+// Fields whose change closes the current product version when SCD is enabled
+const SCD_SIGNIFICANT_FIELDS = [
+  'itemDescription',
+  'itemCategory',
+  'itemManufacturer',
+  'solutionSegment',
+  'businessSegment',
+  'currentCost',
+];
+
+// Source column names mapped onto product fields, besides the field names themselves
+export const PRODUCT_COLUMN_ALIASES: Record<string, string> = {
+  'item_number': 'itemNumber',
+  'product_number': 'itemNumber',
+  'sku': 'itemNumber',
+  'item_description': 'itemDescription',
+  'product_description': 'itemDescription',
+  'description': 'itemDescription',
+  'item_type_code': 'itemTypeCode',
+  'type_code': 'itemTypeCode',
+  'item_type_description': 'itemTypeDescription',
+  'type_description': 'itemTypeDescription',
+  'product_type': 'productType',
+  'item_revenue_category': 'itemRevenueCategory',
+  'revenue_category': 'itemRevenueCategory',
+  'item_manufacturer': 'itemManufacturer',
+  'manufacturer': 'itemManufacturer',
+  'item_category': 'itemCategory',
+  'category': 'itemCategory',
+  'item_line_of_business': 'itemLineOfBusiness',
+  'line_of_business': 'itemLineOfBusiness',
+  'lob': 'itemLineOfBusiness',
+  'item_subcategory': 'itemSubcategory',
+  'subcategory': 'itemSubcategory',
+  'item_class': 'itemClass',
+  'class': 'itemClass',
+  'current_cost': 'currentCost',
+  'cost': 'currentCost',
+  'price': 'currentCost',
+  'scd_start_date': 'scdStartDate',
+  'start_date': 'scdStartDate',
+  'scd_end_date': 'scdEndDate',
+  'end_date': 'scdEndDate',
+  'is_current_record_flag': 'isCurrentRecordFlag',
+  'is_current': 'isCurrentRecordFlag',
+  'active': 'isCurrentRecordFlag',
+  'solution_segment': 'solutionSegment',
+  'business_segment': 'businessSegment',
+  'manufacturer_practice': 'manufacturerPractice',
+  'manufacturer_item_category': 'manufacturerItemCategory',
+  'growth_category': 'growthCategory',
+};
+
 export class ProductImportService {
+  private readonly snapshotService = getImportSnapshotService();
+  private readonly checkpointService = getImportCheckpointService();
+  private readonly rejectionService = getImportRejectionService();
+  private readonly deltaService = getImportDeltaService();
+  private readonly validationRuleService = getImportValidationRuleService();
+  private readonly lineageService = getFieldLineageService();
+
   /**
-   * Import products from CSV buffer
+   * Import products from a CSV or Excel source. CSV rows are streamed, validated and
+   * written batch by batch, so memory stays bounded whatever the file size.
    */
   async importFromCsv(
-    buffer: Buffer,
+    source: ImportSource,
     fileName: string,
     options: ProductImportOptions = {},
     onProgress?: (progress: ProductImportProgress) => void
@@ -94,7 +187,7 @@ export class ProductImportService {
     };
 
     try {
-      // Stage 1: Parse CSV
+      // Stage 1: Open the source
       onProgress?.({
         stage: 'parsing',
         processed: 0,
@@ -103,96 +196,188 @@ export class ProductImportService {
         warnings: 0,
       });
 
-      const parserResult = await QuickParse.csv(buffer, fileName, {
-        hasHeaders: true,
-        inferTypes: true,
-        skipEmptyLines: true,
-      });
-
-      const rawData = parserResult.blocks.map(block => block.content.data);
-      result.total = rawData.length;
-
-      logger.info(`ProductImportService: Parsed ${result.total} products from CSV`, {
-        fileName,
-        total: result.total,
-      });
-
-      // Stage 2: Validate and transform data
-      onProgress?.({
-        stage: 'validation',
-        processed: 0,
-        total: result.total,
-        errors: 0,
-        warnings: 0,
+      const plan = options.dryRun ? createImportPlan('products', options.maxPlanRecords) : undefined;
+      const planSeen = new Map<string, number>();
+      const delta = !plan && (options.incremental || options.fullSnapshot) ? createImportDelta() : undefined;
+      const seenIds: string[] = [];
+
+      // Resume after the last batch an interrupted attempt committed
+      const checkpoint = plan
+        ? null
+        : await this.checkpointService.beginStage<ProductImportResult['warnings'][number]>(options.jobId, 'products');
+      if (checkpoint) {
+        result.created = checkpoint.counters.created || 0;
+        result.updated = checkpoint.counters.updated || 0;
+        result.skipped = checkpoint.counters.skipped || 0;
+        result.failed = checkpoint.counters.failed || 0;
+        result.duplicates = checkpoint.counters.duplicates || 0;
+        // With SCD an update closes a version instead of listing it; the new version is matched again below
+        result.productIds.push(...await this.snapshotService.getRecordIds(
+          options.jobId,
+          'products',
+          options.enableSCD ? ['created'] : ['created', 'updated']
+        ));
+        for (const { row, data, error } of await this.rejectionService.getRejectedErrors(options.jobId, 'products')) {
+          result.errors.push({ row, product: data.itemNumber || `Row ${row}`, error });
+        }
+        result.warnings.push(...(checkpoint.warnings || []));
+        if (delta) delta.unchanged = checkpoint.counters.unchanged || 0;
+      }
+      // Only the first batch after a checkpoint can hold rows an interrupted attempt already wrote
+      let replay = !!checkpoint;
+
+      // Rules configured for products through the validation rules API
+      const rules = await this.validationRuleService.getActiveRules('products');
+
+      // Recorded against every field the import writes
+      const origin: FieldLineageOrigin = { source: 'import', sourceFile: fileName, jobId: options.jobId };
+
+      // Stages 2 and 3: Validate and import each batch as it is read
+      const batches = readImportBatches(source, fileName, {
+        batchSize: options.batchSize || 100,
+        sheetName: options.sheetName,
+        recordPath: options.recordPath,
+        columnMappings: options.columnMappings,
+        totalBytes: options.sourceSize,
       });
 
-      const validProducts: ProductImportData[] = [];
-      for (let i = 0; i < rawData.length; i++) {
-        const row = rawData[i];
-        const rowNumber = i + 1;
-
-        try {
-          const productData = this.transformCsvRow(row, rowNumber);
-          const validation = this.validateProductData(productData, rowNumber);
-          
-          if (validation.errors.length > 0) {
-            result.errors.push(...validation.errors);
-            result.failed++;
-          } else {
-            validProducts.push(productData);
-            if (validation.warnings.length > 0) {
-              result.warnings.push(...validation.warnings);
+      for await (const batch of batches) {
+        result.total += batch.rows.length;
+        const pending = checkpoint
+          ? batch.rows.filter(({ rowNumber }) => rowNumber > checkpoint.lastCommittedRow)
+          : batch.rows;
+        if (checkpoint && options.fullSnapshot && pending.length < batch.rows.length) {
+          // Rows an interrupted attempt committed still count as present in the snapshot
+          const committed = batch.rows.filter(({ rowNumber }) => rowNumber <= checkpoint.lastCommittedRow);
+          seenIds.push(...await this.deltaService.resolveSeenIds(committed, row => this.findExistingProductId(row)));
+        }
+        if (pending.length === 0) continue;
+
+        const errorsBefore = result.errors.length;
+        const validProducts: ProductImportData[] = [];
+        const validRowNumbers: number[] = [];
+        for (const { row, rowNumber } of pending) {
+          try {
+            const productData = this.transformCsvRow(row, rowNumber);
+            const validation = this.validateProductData(productData, rowNumber, rules);
+
+            if (validation.errors.length > 0) {
+              result.errors.push(...validation.errors);
+              result.failed++;
+            } else {
+              validProducts.push(productData);
+              validRowNumbers.push(rowNumber);
+              if (validation.warnings.length > 0) {
+                result.warnings.push(...validation.warnings);
+              }
             }
+          } catch (error) {
+            result.errors.push({
+              row: rowNumber,
+              product: String(row.itemNumber || `Row ${rowNumber}`),
+              error: error instanceof Error ? error.message : 'Unknown validation error',
+            });
+            result.failed++;
           }
-        } catch (error) {
-          result.errors.push({
-            row: rowNumber,
-            product: row.itemNumber || `Row ${rowNumber}`,
-            error: error instanceof Error ? error.message : 'Unknown validation error',
-          });
-          result.failed++;
+        }
+
+        if (plan) {
+          // Dry run: add the batch to the plan instead of writing it
+          await this.planProductImport(validProducts, validRowNumbers, options, plan, planSeen);
+        } else {
+          const batchResult = await this.importProductBatch(validProducts, validRowNumbers, options, origin, replay);
+          replay = false;
+
+          result.created += batchResult.created;
+          result.updated += batchResult.updated;
+          result.skipped += batchResult.skipped;
+          result.duplicates += batchResult.duplicates;
+          result.productIds.push(...batchResult.productIds);
+          result.errors.push(...batchResult.errors);
+          if (delta) delta.unchanged += batchResult.unchanged;
+          if (options.fullSnapshot) {
+            // Rejected rows are still in the file: the records they match are not missing
+            const unresolved = new Set(result.errors.slice(errorsBefore).map(({ row }) => row));
+            seenIds.push(...batchResult.seenIds, ...await this.deltaService.resolveSeenIds(
+              pending.filter(({ rowNumber }) => unresolved.has(rowNumber)),
+              row => this.findExistingProductId(row)
+            ));
+          }
+
+          await this.rejectionService.recordRejectedRows(
+            options.jobId,
+            'products',
+            pending,
+            result.errors.slice(errorsBefore)
+          );
+          await this.checkpointService.saveCheckpoint(options.jobId, 'products', {
+            lastCommittedRow: pending[pending.length - 1].rowNumber,
+            counters: {
+              created: result.created,
+              updated: result.updated,
+              skipped: result.skipped,
+              failed: result.failed,
+              duplicates: result.duplicates,
+              unchanged: delta?.unchanged || 0,
+            },
+            warnings: result.warnings,
+          }, batch.totalBytes ? (batch.bytesRead / batch.totalBytes) * 100 : 0);
         }
 
         onProgress?.({
-          stage: 'validation',
-          processed: i + 1,
+          stage: plan ? 'validation' : 'importing',
+          processed: result.total,
           total: result.total,
-          currentProduct: row.itemNumber,
+          currentProduct: validProducts[validProducts.length - 1]?.itemNumber,
+          bytesRead: batch.bytesRead,
+          totalBytes: batch.totalBytes,
           errors: result.errors.length,
           warnings: result.warnings.length,
         });
       }
 
-      // Stage 3: Import products
-      onProgress?.({
-        stage: 'importing',
-        processed: 0,
-        total: validProducts.length,
-        errors: result.errors.length,
-        warnings: result.warnings.length,
+      // Rows replayed after a checkpoint report products the snapshots already listed
+      if (checkpoint) result.productIds = [...new Set(result.productIds)];
+
+      logger.info(`ProductImportService: Read ${result.total} products`, {
+        fileName,
+        total: result.total,
       });
 
-      const batchSize = options.batchSize || 100;
-      for (let i = 0; i < validProducts.length; i += batchSize) {
-        const batch = validProducts.slice(i, i + batchSize);
-        const batchResult = await this.importProductBatch(batch, options);
-        
-        result.created += batchResult.created;
-        result.updated += batchResult.updated;
-        result.skipped += batchResult.skipped;
-        result.duplicates += batchResult.duplicates;
-        result.productIds.push(...batchResult.productIds);
-        result.errors.push(...batchResult.errors);
+      // Dry run: report what would be written and stop
+      if (plan) {
+        result.plan = plan;
+        result.plan.summary.total = result.total;
+        result.plan.summary.invalid = result.failed;
+        result.processingTime = Date.now() - startTime;
 
         onProgress?.({
-          stage: 'importing',
-          processed: Math.min(i + batchSize, validProducts.length),
-          total: validProducts.length,
+          stage: 'completed',
+          processed: result.total,
+          total: result.total,
           errors: result.errors.length,
           warnings: result.warnings.length,
         });
+
+        return result;
       }
 
+      if (delta) {
+        delta.new = result.created;
+        delta.changed = result.updated;
+        if (options.fullSnapshot) {
+          await this.deltaService.flagMissingRecords(
+            options.jobId,
+            'products',
+            [...result.productIds, ...seenIds],
+            delta
+          );
+        }
+        result.delta = delta;
+      }
+
+      await this.checkpointService.completeStage(options.jobId, 'products');
+
       // Stage 4: Process SCD (Slowly Changing Dimensions) if enabled
       if (options.enableSCD && result.productIds.length > 0) {
         await this.processSCDUpdates(result.productIds, onProgress);
@@ -200,8 +385,8 @@ export class ProductImportService {
 
       onProgress?.({
         stage: 'completed',
-        processed: validProducts.length,
-        total: validProducts.length,
+        processed: result.total,
+        total: result.total,
         errors: result.errors.length,
         warnings: result.warnings.length,
       });
@@ -227,53 +412,32 @@ export class ProductImportService {
     }
   }
 
+  /**
+   * Transform and validate one source row without importing it
+   */
+  validateRow(row: Record<string, unknown>, rowNumber: number, rules: ImportValidationRule[] = []) {
+    const data = this.transformCsvRow(row, rowNumber);
+    return { data, ...this.validateProductData(data, rowNumber, rules) };
+  }
+
+  /**
+   * Id of the current version of the item a source row names
+   */
+  private async findExistingProductId({ row, rowNumber }: ImportSourceRow): Promise<string | undefined> {
+    const { itemNumber } = this.transformCsvRow(row, rowNumber);
+    if (!itemNumber) return undefined;
+
+    const existing = await prisma.product.findFirst({
+      where: { itemNumber, isCurrentRecordFlag: true },
+      select: { id: true },
+    });
+    return existing?.id;
+  }
+
   /**
    * Transform CSV row to ProductImportData
    */
   private transformCsvRow(row: any, rowNumber: number): ProductImportData {
-    // Map common CSV column names to our schema
-    const columnMapping: Record<string, string> = {
-      'item_number': 'itemNumber',
-      'product_number': 'itemNumber',
-      'sku': 'itemNumber',
-      'item_description': 'itemDescription',
-      'product_description': 'itemDescription',
-      'description': 'itemDescription',
-      'item_type_code': 'itemTypeCode',
-      'type_code': 'itemTypeCode',
-      'item_type_description': 'itemTypeDescription',
-      'type_description': 'itemTypeDescription',
-      'product_type': 'productType',
-      'item_revenue_category': 'itemRevenueCategory',
-      'revenue_category': 'itemRevenueCategory',
-      'item_manufacturer': 'itemManufacturer',
-      'manufacturer': 'itemManufacturer',
-      'item_category': 'itemCategory',
-      'category': 'itemCategory',
-      'item_line_of_business': 'itemLineOfBusiness',
-      'line_of_business': 'itemLineOfBusiness',
-      'lob': 'itemLineOfBusiness',
-      'item_subcategory': 'itemSubcategory',
-      'subcategory': 'itemSubcategory',
-      'item_class': 'itemClass',
-      'class': 'itemClass',
-      'current_cost': 'currentCost',
-      'cost': 'currentCost',
-      'price': 'currentCost',
-      'scd_start_date': 'scdStartDate',
-      'start_date': 'scdStartDate',
-      'scd_end_date': 'scdEndDate',
-      'end_date': 'scdEndDate',
-      'is_current_record_flag': 'isCurrentRecordFlag',
-      'is_current': 'isCurrentRecordFlag',
-      'active': 'isCurrentRecordFlag',
-      'solution_segment': 'solutionSegment',
-      'business_segment': 'businessSegment',
-      'manufacturer_practice': 'manufacturerPractice',
-      'manufacturer_item_category': 'manufacturerItemCategory',
-      'growth_category': 'growthCategory',
-    };
-
     const productData: ProductImportData = {
       itemNumber: '', // Required field
       isCurrentRecordFlag: true, // Default to active
@@ -284,7 +448,7 @@ export class ProductImportService {
       if (value === null || value === undefined || value === '') continue;
 
       const normalizedKey = csvKey.toLowerCase().trim();
-      const mappedKey = columnMapping[normalizedKey] || normalizedKey;
+      const mappedKey = PRODUCT_COLUMN_ALIASES[normalizedKey] || resolveTargetField('products', csvKey) || normalizedKey;
 
       if (mappedKey === 'itemNumber') {
         productData.itemNumber = String(value).trim();
@@ -305,7 +469,7 @@ export class ProductImportService {
         if (dateValue) {
           (productData as any)[mappedKey] = dateValue;
         }
-      } else if (Object.prototype.hasOwnProperty.call(productData, mappedKey)) {
+      } else if (resolveTargetField('products', mappedKey) === mappedKey) {
         (productData as any)[mappedKey] = String(value).trim();
       }
     }
@@ -318,7 +482,8 @@ export class ProductImportService {
    */
   private validateProductData(
     data: ProductImportData,
-    rowNumber: number
+    rowNumber: number,
+    rules: ImportValidationRule[] = []
   ): {
     errors: Array<{ row: number; product: string; error: string }>;
     warnings: Array<{ row: number; product: string; warning: string }>;
@@ -369,6 +534,14 @@ export class ProductImportService {
       });
     }
 
+    for (const violation of evaluateValidationRules(rules, data)) {
+      if (violation.severity === 'error') {
+        errors.push({ row: rowNumber, product: productName, error: violation.message });
+      } else {
+        warnings.push({ row: rowNumber, product: productName, warning: violation.message });
+      }
+    }
+
     return { errors, warnings };
   }
 
@@ -377,48 +550,85 @@ export class ProductImportService {
    */
   private async importProductBatch(
     products: ProductImportData[],
-    options: ProductImportOptions
-  ): Promise<Omit<ProductImportResult, 'total' | 'processingTime'>> {
+    rowNumbers: number[],
+    options: ProductImportOptions,
+    origin: FieldLineageOrigin,
+    replay = false
+  ): Promise<Omit<ProductImportResult, 'total' | 'processingTime'> & { unchanged: number; seenIds: string[] }> {
     const result = {
       created: 0,
       updated: 0,
       skipped: 0,
       failed: 0,
       duplicates: 0,
+      unchanged: 0,
       errors: [] as Array<{ row: number; product: string; error: string }>,
       productIds: [] as string[],
+      seenIds: [] as string[], // Current versions this batch matched but did not list in productIds
     };
 
-    for (const productData of products) {
+    for (let i = 0; i < products.length; i++) {
+      const productData = products[i];
+      const row = rowNumbers[i];
+      const importHash = hashImportRow(productData);
       try {
-        // Check for existing product
-        const existingProduct = await prisma.product.findUnique({
-          where: { itemNumber: productData.itemNumber },
+        // Check for existing product; closed SCD versions share the item number
+        const existingProduct = await prisma.product.findFirst({
+          where: { itemNumber: productData.itemNumber, isCurrentRecordFlag: true },
         });
-        
-        if (existingProduct) {
-          if (options.updateExisting) {
+
+        // A replayed row this job already wrote is counted as before, not written again
+        const recorded = existingProduct && replay
+          ? await this.snapshotService.getRecordedAction(options.jobId, 'products', existingProduct.id)
+          : null;
+
+        if (existingProduct && recorded) {
+          result[recorded]++;
+          if (recorded === 'created' || !options.enableSCD) {
+            result.productIds.push(existingProduct.id);
+          } else {
+            result.seenIds.push(existingProduct.id);
+          }
+        } else if (existingProduct) {
+          if (options.updateExisting && options.incremental && isUnchangedRecord(existingProduct, importHash)) {
+            // Same content as the row that last wrote it: no write and no new SCD version
+            result.unchanged++;
+            result.seenIds.push(existingProduct.id);
+          } else if (options.updateExisting) {
             // Handle SCD updates if enabled
             if (options.enableSCD) {
-              await this.handleSCDUpdate(existingProduct, productData);
+              result.seenIds.push(
+                await this.handleSCDUpdate(existingProduct, productData, importHash, { ...origin, rowNumber: row })
+              );
             } else {
               // Simple update
+              await this.snapshotService.recordUpdated(
+                options.jobId,
+                'products',
+                existingProduct,
+                [...Object.keys(productData), 'importHash', 'missingFromImportAt', 'updatedAt']
+              );
               const updated = await prisma.product.update({
                 where: { id: existingProduct.id },
                 data: {
                   ...productData,
+                  importHash,
+                  missingFromImportAt: null,
                   updatedAt: new Date(),
                 },
               });
+              await this.lineageService.recordFields('products', updated.id, productData, { ...origin, rowNumber: row });
               result.productIds.push(updated.id);
             }
             result.updated++;
           } else if (options.skipDuplicates) {
             result.skipped++;
             result.duplicates++;
+            result.seenIds.push(existingProduct.id);
           } else {
+            result.seenIds.push(existingProduct.id);
             result.errors.push({
-              row: 0,
+              row,
               product: productData.itemNumber,
               error: 'Product already exists',
             });
@@ -429,17 +639,20 @@ export class ProductImportService {
           const created = await prisma.product.create({
             data: {
               ...productData,
+              importHash,
               scdStartDate: productData.scdStartDate || new Date(),
               createdAt: new Date(),
               updatedAt: new Date(),
             },
           });
+          await this.snapshotService.recordCreated(options.jobId, 'products', created.id);
+          await this.lineageService.recordFields('products', created.id, productData, { ...origin, rowNumber: row });
           result.created++;
           result.productIds.push(created.id);
         }
       } catch (error) {
         result.errors.push({
-          row: 0,
+          row,
           product: productData.itemNumber,
           error: error instanceof Error ? error.message : 'Unknown database error',
         });
@@ -450,56 +663,134 @@ export class ProductImportService {
     return result;
   }
 
+  /**
+   * Add a batch to a dry-run plan; `seen` carries in-file duplicate detection across batches
+   */
+  private async planProductImport(
+    products: ProductImportData[],
+    rowNumbers: number[],
+    options: ProductImportOptions,
+    plan: ImportPlan,
+    seen: Map<string, number>
+  ): Promise<void> {
+    for (let i = 0; i < products.length; i++) {
+      const productData = products[i];
+      const row = rowNumbers[i];
+      const key = productData.itemNumber;
+
+      if (seen.has(key)) {
+        recordPlanEntry(plan, {
+          row,
+          key,
+          action: 'conflict',
+          matchedBy: 'itemNumber',
+          reason: `Duplicate of row ${seen.get(key)} in this file`,
+        });
+        continue;
+      }
+      seen.set(key, row);
+
+      const existingProduct = await prisma.product.findFirst({
+        where: { itemNumber: productData.itemNumber, isCurrentRecordFlag: true },
+      });
+
+      if (!existingProduct) {
+        recordPlanEntry(plan, { row, key, action: 'create', data: { ...productData } });
+      } else if (options.updateExisting) {
+        const changes = diffFields(existingProduct, productData);
+        const newVersion = options.enableSCD &&
+          changes.some(change => SCD_SIGNIFICANT_FIELDS.includes(change.field));
+
+        recordPlanEntry(plan, {
+          row,
+          key,
+          action: changes.length > 0 ? 'update' : 'unchanged',
+          existingId: existingProduct.id,
+          matchedBy: 'itemNumber',
+          changes,
+          reason: newVersion ? 'Closes the current record and creates a new SCD version' : undefined,
+        });
+      } else {
+        recordPlanEntry(plan, {
+          row,
+          key,
+          action: options.skipDuplicates ? 'skip' : 'conflict',
+          existingId: existingProduct.id,
+          matchedBy: 'itemNumber',
+          reason: 'Product already exists',
+        });
+      }
+    }
+
+  }
+
   /**
    * Handle Slowly Changing Dimension updates
    */
-  private async handleSCDUpdate(existingProduct: any, newData: ProductImportData) {
+  private async handleSCDUpdate(
+    existingProduct: Product,
+    newData: ProductImportData,
+    importHash: string,
+    origin: FieldLineageOrigin
+  ): Promise<string> {
+    const { jobId } = origin;
     // Check if significant fields have changed
-    const significantFields = [
-      'itemDescription',
-      'itemCategory',
-      'itemManufacturer',
-      'solutionSegment',
-      'businessSegment',
-      'currentCost',
-    ];
-
-    const hasChanges = significantFields.some(field => {
-      const existingValue = existingProduct[field];
-      const newValue = (newData as any)[field];
-      return existingValue !== newValue;
-    });
+    const hasChanges = diffFields(existingProduct, newData, SCD_SIGNIFICANT_FIELDS).length > 0;
 
     if (hasChanges) {
+      // The closed version ends exactly where the new one starts
+      const changedAt = new Date();
+
       // Close the current record
+      await this.snapshotService.recordUpdated(
+        jobId,
+        'products',
+        existingProduct,
+        ['scdEndDate', 'isCurrentRecordFlag', 'updatedAt']
+      );
       await prisma.product.update({
         where: { id: existingProduct.id },
         data: {
-          scdEndDate: new Date(),
+          scdEndDate: changedAt,
           isCurrentRecordFlag: false,
           updatedAt: new Date(),
         },
       });
 
       // Create a new current record
-      await prisma.product.create({
+      const created = await prisma.product.create({
         data: {
           ...newData,
-          scdStartDate: new Date(),
+          importHash,
+          scdStartDate: changedAt,
+          scdEndDate: null,
           isCurrentRecordFlag: true,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
       });
+      await this.snapshotService.recordCreated(jobId, 'products', created.id);
+      await this.lineageService.recordFields('products', created.id, newData, origin);
+      return created.id;
     } else {
       // Update the existing record
+      await this.snapshotService.recordUpdated(
+        jobId,
+        'products',
+        existingProduct,
+        [...Object.keys(newData), 'importHash', 'missingFromImportAt', 'updatedAt']
+      );
       await prisma.product.update({
         where: { id: existingProduct.id },
         data: {
           ...newData,
+          importHash,
+          missingFromImportAt: null,
           updatedAt: new Date(),
         },
       });
+      await this.lineageService.recordFields('products', existingProduct.id, newData, origin);
+      return existingProduct.id;
     }
   }
 
@@ -0,0 +1,322 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+
+export type TechnologyCategory =
+  | 'contact_center'
+  | 'unified_communications'
+  | 'data_center'
+  | 'networking'
+  | 'software';
+
+export type VendorField = 'ccVendor' | 'ucVendor' | 'dcVendor' | 'enVendor' | 'sxVendor';
+
+export interface DerivedTechnology {
+  name: string; // Canonical "Vendor Product" name, or the vendor alone
+  vendor: string;
+  product?: string;
+  category: TechnologyCategory;
+  confidence: number;
+  sourceField: VendorField;
+  rawValue: string; // Vendor text the technology was parsed from
+  intent?: string;
+}
+
+export interface TechnologySyncResult {
+  accounts: number;
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+interface VendorDefinition {
+  vendor: string;
+  aliases: string[];
+  products?: Array<{ name: string; aliases: string[] }>;
+}
+
+// RSF vendor columns, the intent column beside each and the category they describe
+const VENDOR_FIELDS: Array<{ field: VendorField; intentField: string; category: TechnologyCategory }> = [
+  { field: 'ccVendor', intentField: 'ccIntent', category: 'contact_center' },
+  { field: 'ucVendor', intentField: 'ucIntent', category: 'unified_communications' },
+  { field: 'dcVendor', intentField: 'dcIntent', category: 'data_center' },
+  { field: 'enVendor', intentField: 'enIntent', category: 'networking' },
+  { field: 'sxVendor', intentField: 'sxIntent', category: 'software' },
+];
+
+// Aliases are matched as whole words against the lower-cased vendor text; the more
+// specific product comes first where one alias contains another
+const VENDOR_CATALOG: VendorDefinition[] = [
+  {
+    vendor: 'Cisco',
+    aliases: ['cisco'],
+    products: [
+      { name: 'Contact Center', aliases: ['uccx', 'ucce', 'pcce', 'webex contact center'] },
+      { name: 'Webex', aliases: ['webex'] },
+      { name: 'Meraki', aliases: ['meraki'] },
+      { name: 'Unified Communications Manager', aliases: ['cucm', 'callmanager', 'call manager'] },
+      { name: 'UCS', aliases: ['ucs'] },
+    ],
+  },
+  {
+    vendor: 'Microsoft',
+    aliases: ['microsoft', 'msft'],
+    products: [
+      { name: 'Teams', aliases: ['teams', 'ms teams'] },
+      { name: 'Skype for Business', aliases: ['skype for business', 'sfb', 'lync'] },
+      { name: 'Azure', aliases: ['azure'] },
+      { name: 'Dynamics 365', aliases: ['dynamics', 'd365'] },
+      { name: 'Office 365', aliases: ['office 365', 'o365', 'm365', 'microsoft 365'] },
+    ],
+  },
+  {
+    vendor: 'Avaya',
+    aliases: ['avaya'],
+    products: [
+      { name: 'Aura', aliases: ['aura'] },
+      { name: 'IP Office', aliases: ['ip office', 'ipo'] },
+      { name: 'Experience Portal', aliases: ['experience portal'] },
+    ],
+  },
+  {
+    vendor: 'Genesys',
+    aliases: ['genesys'],
+    products: [
+      { name: 'Cloud CX', aliases: ['cloud cx', 'purecloud', 'genesys cloud'] },
+      { name: 'Engage', aliases: ['engage', 'pureengage'] },
+      { name: 'PureConnect', aliases: ['pureconnect', 'interactive intelligence'] },
+    ],
+  },
+  {
+    vendor: 'NICE',
+    aliases: ['nice'],
+    products: [{ name: 'CXone', aliases: ['cxone', 'incontact', 'in contact'] }],
+  },
+  {
+    vendor: 'Amazon',
+    aliases: ['aws', 'amazon'],
+    products: [{ name: 'Connect', aliases: ['amazon connect', 'aws connect'] }],
+  },
+  { vendor: 'Five9', aliases: ['five9', 'five 9'] },
+  { vendor: 'Talkdesk', aliases: ['talkdesk'] },
+  { vendor: '8x8', aliases: ['8x8'] },
+  { vendor: 'Mitel', aliases: ['mitel', 'shoretel'] },
+  { vendor: 'RingCentral', aliases: ['ringcentral', 'ring central'] },
+  { vendor: 'Zoom', aliases: ['zoom'], products: [{ name: 'Phone', aliases: ['zoom phone'] }] },
+  { vendor: 'Vonage', aliases: ['vonage'] },
+  { vendor: 'Dell Technologies', aliases: ['dell', 'emc', 'dell emc'] },
+  { vendor: 'Hewlett Packard Enterprise', aliases: ['hpe', 'hp', 'hewlett packard'] },
+  { vendor: 'Aruba', aliases: ['aruba'] },
+  { vendor: 'NetApp', aliases: ['netapp'] },
+  { vendor: 'Pure Storage', aliases: ['pure storage', 'purestorage'] },
+  { vendor: 'VMware', aliases: ['vmware'] },
+  { vendor: 'Nutanix', aliases: ['nutanix'] },
+  { vendor: 'IBM', aliases: ['ibm'] },
+  { vendor: 'Lenovo', aliases: ['lenovo'] },
+  { vendor: 'Juniper Networks', aliases: ['juniper'] },
+  { vendor: 'Arista Networks', aliases: ['arista'] },
+  { vendor: 'Extreme Networks', aliases: ['extreme networks', 'extreme'] },
+  { vendor: 'Fortinet', aliases: ['fortinet', 'fortigate'] },
+  { vendor: 'Palo Alto Networks', aliases: ['palo alto'] },
+  { vendor: 'Salesforce', aliases: ['salesforce', 'sfdc'] },
+  { vendor: 'ServiceNow', aliases: ['servicenow', 'service now'] },
+  { vendor: 'Oracle', aliases: ['oracle'] },
+  { vendor: 'SAP', aliases: ['sap'] },
+  { vendor: 'Zendesk', aliases: ['zendesk'] },
+];
+
+// Placeholder values that name no vendor
+const EMPTY_VALUES = new Set(['none', 'n/a', 'na', 'unknown', 'other', 'tbd', 'no', '-', '?']);
+
+const PRODUCT_CONFIDENCE = 0.9;
+const VENDOR_CONFIDENCE = 0.8;
+const UNKNOWN_CONFIDENCE = 0.5;
+
+// Source recorded on Technology rows this service owns; other sources are never touched
+export const IMPORT_TECHNOLOGY_SOURCE = 'import';
+
+/**
+ * Whether an alias appears as a whole word in lower-cased text
+ */
+function containsAlias(text: string, alias: string): boolean {
+  const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
+}
+
+/**
+ * Parse one vendor column into canonical technologies. Values may list several vendors
+ * separated by commas, semicolons, slashes, pipes, plus signs or "and".
+ */
+export function parseVendorField(
+  value: string,
+  field: VendorField,
+  category: TechnologyCategory,
+  intent?: string | null
+): DerivedTechnology[] {
+  if (EMPTY_VALUES.has(value.trim().toLowerCase())) return [];
+
+  const tokens = value
+    .replace(/\bn\/a\b/gi, '') // Would otherwise split on its slash
+    .split(/\s*(?:[,;|/+\n]|\s&\s|\sand\s)\s*/i)
+    .map(token => token.trim())
+    .filter(token => token.length > 1 && !EMPTY_VALUES.has(token.toLowerCase()) && !/^\d+$/.test(token));
+
+  const technologies = new Map<string, DerivedTechnology>();
+  for (const token of tokens) {
+    const text = token.toLowerCase();
+    let match: Pick<DerivedTechnology, 'vendor' | 'product' | 'confidence'> | null = null;
+
+    for (const definition of VENDOR_CATALOG) {
+      const product = definition.products?.find(p => p.aliases.some(alias => containsAlias(text, alias)));
+      if (product) {
+        match = { vendor: definition.vendor, product: product.name, confidence: PRODUCT_CONFIDENCE };
+        break;
+      }
+      if (!match && definition.aliases.some(alias => containsAlias(text, alias))) {
+        match = { vendor: definition.vendor, confidence: VENDOR_CONFIDENCE };
+      }
+    }
+
+    // Unrecognised vendors are kept as written, at a lower confidence
+    const { vendor, product, confidence } = match ?? { vendor: token, confidence: UNKNOWN_CONFIDENCE };
+    const name = product ? `${vendor} ${product}` : vendor;
+    const key = name.toLowerCase();
+    if (technologies.has(key)) continue;
+
+    technologies.set(key, {
+      name,
+      vendor,
+      product,
+      category,
+      confidence,
+      sourceField: field,
+      rawValue: value,
+      intent: intent?.trim() || undefined,
+    });
+  }
+
+  return [...technologies.values()];
+}
+
+/**
+ * Every technology an account's vendor columns describe
+ */
+export function deriveAccountTechnologies(account: Record<string, unknown>): DerivedTechnology[] {
+  return VENDOR_FIELDS.flatMap(({ field, intentField, category }) => {
+    const value = account[field];
+    if (typeof value !== 'string' || value.trim().length === 0) return [];
+    const intent = account[intentField];
+    return parseVendorField(value, field, category, typeof intent === 'string' ? intent : null);
+  });
+}
+
+const technologyKey = (category: string, name: string) => `${category}:${name.toLowerCase()}`;
+
+export class TechnologyEnrichmentService {
+  /**
+   * Bring the import-sourced Technology rows of accounts in line with their vendor columns:
+   * new vendors are added, changed ones updated and vendors no longer listed removed
+   */
+  async syncAccountTechnologies(accountIds: string[], batchSize = 100): Promise<TechnologySyncResult> {
+    const result: TechnologySyncResult = { accounts: 0, created: 0, updated: 0, removed: 0 };
+    const uniqueIds = [...new Set(accountIds)];
+
+    for (let i = 0; i < uniqueIds.length; i += batchSize) {
+      const accounts = await prisma.companyAccount.findMany({
+        where: { id: { in: uniqueIds.slice(i, i + batchSize) } },
+        select: {
+          id: true,
+          ccIntent: true,
+          ccVendor: true,
+          ucIntent: true,
+          ucVendor: true,
+          dcIntent: true,
+          dcVendor: true,
+          enIntent: true,
+          enVendor: true,
+          sxIntent: true,
+          sxVendor: true,
+          technologies: { where: { source: IMPORT_TECHNOLOGY_SOURCE } },
+        },
+      });
+
+      const creates: Prisma.TechnologyCreateManyInput[] = [];
+      const removals: string[] = [];
+
+      for (const account of accounts) {
+        const existing = new Map(account.technologies.map(tech => [technologyKey(tech.category, tech.name), tech]));
+
+        for (const derived of deriveAccountTechnologies(account)) {
+          const key = technologyKey(derived.category, derived.name);
+          const current = existing.get(key);
+          existing.delete(key);
+          const metadata = this.buildMetadata(derived);
+
+          if (!current) {
+            creates.push({
+              accountId: account.id,
+              name: derived.name,
+              category: derived.category,
+              confidence: derived.confidence,
+              source: IMPORT_TECHNOLOGY_SOURCE,
+              metadata,
+            });
+          } else if (current.confidence !== derived.confidence || !this.sameMetadata(current.metadata, metadata)) {
+            await prisma.technology.update({
+              where: { id: current.id },
+              data: { name: derived.name, confidence: derived.confidence, metadata },
+            });
+            result.updated++;
+          }
+        }
+
+        // Whatever is left was derived from a vendor the account no longer lists
+        removals.push(...[...existing.values()].map(tech => tech.id));
+        result.accounts++;
+      }
+
+      if (creates.length > 0) {
+        result.created += (await prisma.technology.createMany({ data: creates })).count;
+      }
+      if (removals.length > 0) {
+        result.removed += (await prisma.technology.deleteMany({ where: { id: { in: removals } } })).count;
+      }
+    }
+
+    logger.info('TechnologyEnrichmentService: Synced account technologies', { ...result });
+
+    return result;
+  }
+
+  private buildMetadata(derived: DerivedTechnology): Record<string, string> {
+    const metadata: Record<string, string> = {
+      vendor: derived.vendor,
+      sourceField: derived.sourceField,
+      rawValue: derived.rawValue,
+    };
+    if (derived.product) metadata.product = derived.product;
+    if (derived.intent) metadata.intent = derived.intent;
+    return metadata;
+  }
+
+  /**
+   * Compare stored metadata key by key; jsonb does not keep key order
+   */
+  private sameMetadata(stored: Prisma.JsonValue, metadata: Record<string, string>): boolean {
+    if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return false;
+    const keys = Object.keys(stored);
+    return keys.length === Object.keys(metadata).length &&
+      keys.every(key => stored[key] === metadata[key]);
+  }
+}
+
+// Singleton instance
+let technologyEnrichmentService: TechnologyEnrichmentService | null = null;
+
+export function getTechnologyEnrichmentService(): TechnologyEnrichmentService {
+  if (!technologyEnrichmentService) {
+    technologyEnrichmentService = new TechnologyEnrichmentService();
+  }
+  return technologyEnrichmentService;
+}
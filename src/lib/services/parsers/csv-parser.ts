@@ -1,5 +1,7 @@
-import { Readable } from 'stream';
+import { pipeline, Readable, Transform } from 'stream';
+
 import csv from 'csv-parser';
+
 import { 
   BaseFileParser, 
   IParserConfig, 
@@ -16,6 +18,16 @@ export interface ICsvParserConfig extends IParserConfig {
   inferTypes?: boolean;
 }
 
+export interface ICsvStreamRow {
+  row: Record<string, unknown>;
+  rowNumber: number; // 1-based data row, not counting the header
+  bytesRead: number; // Source bytes consumed so far
+}
+
+// Buffers are fed to the stream in slices so byte progress advances as rows are read.
+// csv-parser buffers up to 16 written chunks, which bounds read-ahead to 16 slices.
+const STREAM_CHUNK_SIZE = 16 * 1024;
+
 export class CsvParser extends BaseFileParser {
   readonly name = 'CSV Parser';
   readonly version = '1.0.0';
@@ -116,7 +128,8 @@ export class CsvParser extends BaseFileParser {
       const csvOptions = {
         separator: config.delimiter,
         skipEmptyLines: config.skipEmptyLines,
-        headers: config.hasHeaders,
+        // csv-parser reads the first row as headers only when the option is left unset
+        headers: config.hasHeaders === false ? false : undefined,
       };
 
       stream
@@ -128,7 +141,7 @@ export class CsvParser extends BaseFileParser {
 
           // Infer types if enabled
           if (config.inferTypes) {
-            row = this.inferRowTypes(row);
+            row = CsvParser.inferRowTypes(row);
           }
 
           rows.push(row);
@@ -142,7 +155,72 @@ export class CsvParser extends BaseFileParser {
     });
   }
 
-  private inferRowTypes(row: Record<string, any>): Record<string, any> {
+  /**
+   * Stream rows one at a time, for files too large to hold as parsed blocks.
+   * The source is read only as fast as the caller consumes rows; no row limit applies
+   * unless maxRows is set.
+   */
+  async *streamRows(
+    source: Buffer | Readable,
+    config?: ICsvParserConfig
+  ): AsyncGenerator<ICsvStreamRow> {
+    const csvConfig: ICsvParserConfig = {
+      delimiter: ',',
+      hasHeaders: true,
+      skipEmptyLines: true,
+      inferTypes: true,
+      ...config,
+    };
+
+    let bytesRead = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytesRead += chunk.length;
+        callback(null, chunk);
+      },
+    });
+
+    const csvOptions = {
+      separator: csvConfig.delimiter,
+      skipEmptyLines: csvConfig.skipEmptyLines,
+      headers: csvConfig.hasHeaders === false ? false : undefined,
+    };
+
+    const input = Buffer.isBuffer(source) ? Readable.from(CsvParser.sliceBuffer(source)) : source;
+    const rows = pipeline(
+      input,
+      counter,
+      csv(csvOptions),
+      () => {
+        // Errors surface through the async iterator below
+      }
+    );
+
+    let rowNumber = 0;
+    try {
+      for await (const row of rows as AsyncIterable<Record<string, string>>) {
+        rowNumber++;
+        if (csvConfig.maxRows && rowNumber > csvConfig.maxRows) break;
+
+        yield {
+          row: csvConfig.inferTypes ? CsvParser.inferRowTypes(row) : row,
+          rowNumber,
+          bytesRead,
+        };
+      }
+    } catch (error) {
+      throw new Error(`CSV parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static *sliceBuffer(buffer: Buffer): Generator<Buffer> {
+    for (let offset = 0; offset < buffer.length; offset += STREAM_CHUNK_SIZE) {
+      yield buffer.subarray(offset, offset + STREAM_CHUNK_SIZE);
+    }
+  }
+
+  // Utility method to convert string cells to numbers, booleans and ISO dates
+  static inferRowTypes(row: Record<string, any>): Record<string, any> {
     const typedRow: Record<string, any> = {};
     
     for (const [key, value] of Object.entries(row)) {
@@ -328,6 +406,9 @@ export class CsvParser extends BaseFileParser {
     const firstRow = lines[0].split(delimiter);
     const secondRow = lines[1].split(delimiter);
     
+    // Header cells are names, so a number in the first row makes it data
+    if (firstRow.some(cell => cell.trim().length > 0 && !isNaN(Number(cell.trim())))) return false;
+    
     // If first row has different data types than second row, likely headers
     if (firstRow.length !== secondRow.length) return false;
     
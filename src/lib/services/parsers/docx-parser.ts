@@ -6,6 +6,7 @@ import {
   TParsedBlock,
   TBaseMetadata 
 } from './file-parser.interface';
+import { OfficePackage, type IOfficeComment } from './office-package';
 
 export interface IDocxParserConfig extends IParserConfig {
   includeHiddenText?: boolean;
@@ -14,6 +15,7 @@ export interface IDocxParserConfig extends IParserConfig {
   extractTables?: boolean;
   extractHeaders?: boolean;
   extractFooters?: boolean;
+  extractComments?: boolean;
   detectLists?: boolean;
   minParagraphLength?: number;
 }
@@ -30,6 +32,12 @@ export interface IDocxElement {
   };
 }
 
+interface IDocxDocumentParts {
+  headers: string[];
+  footers: string[];
+  comments: IOfficeComment[];
+}
+
 export class DocxParser extends BaseFileParser {
   readonly name = 'DOCX Parser';
   readonly version = '1.0.0';
@@ -47,6 +55,7 @@ export class DocxParser extends BaseFileParser {
       'Style preservation',
       'Image extraction',
       'Header/footer extraction',
+      'Reviewer comments',
       'Paragraph analysis',
     ];
   }
@@ -69,8 +78,9 @@ export class DocxParser extends BaseFileParser {
         preserveFormatting: true,
         convertImages: false,
         extractTables: true,
-        extractHeaders: false,
-        extractFooters: false,
+        extractHeaders: true,
+        extractFooters: true,
+        extractComments: true,
         detectLists: true,
         minParagraphLength: 5,
         ...config,
@@ -154,6 +164,7 @@ export class DocxParser extends BaseFileParser {
         value: rawResult.value,
         html: htmlResult?.value,
         messages: rawResult.messages || [],
+        parts: DocxParser.readDocumentParts(buffer),
       };
     } catch (error) {
       throw new Error(`DOCX parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -181,6 +192,13 @@ export class DocxParser extends BaseFileParser {
       documentMetadata
     ));
 
+    const parts: IDocxDocumentParts = docxData.parts;
+    if (config.extractHeaders) {
+      parts.headers.forEach(header => {
+        blocks.push(this.createTextBlock(header, 'Header', { ...documentMetadata, part: 'header' }));
+      });
+    }
+
     // Parse structure if HTML is available
     if (config.preserveFormatting && docxData.html) {
       const structuredBlocks = this.parseHtmlStructure(docxData.html, config, documentMetadata);
@@ -191,9 +209,87 @@ export class DocxParser extends BaseFileParser {
       blocks.push(...textBlocks);
     }
 
+    if (config.extractFooters) {
+      parts.footers.forEach(footer => {
+        blocks.push(this.createTextBlock(footer, 'Footer', { ...documentMetadata, part: 'footer' }));
+      });
+    }
+
+    if (config.extractComments) {
+      parts.comments.forEach(comment => {
+        blocks.push(this.createCommentBlock(comment, documentMetadata));
+      });
+    }
+
     return blocks;
   }
 
+  private createCommentBlock(comment: IOfficeComment, baseMetadata: TBaseMetadata): TParsedBlock {
+    const anchor = comment.anchor && comment.anchor.length > 60 ? `${comment.anchor.slice(0, 57)}...` : comment.anchor;
+    const title = [
+      comment.author ? `Comment by ${comment.author}` : 'Comment',
+      anchor ? `on "${anchor}"` : '',
+    ].filter(Boolean).join(' ');
+
+    return this.createTextBlock(comment.text, title, {
+      ...baseMetadata,
+      part: 'comment',
+      author: comment.author,
+      paragraphNumber: comment.paragraphNumber,
+    });
+  }
+
+  /**
+   * Header, footer and comment text, which mammoth leaves out; headers and footers repeated
+   * across sections are kept once
+   */
+  private static readDocumentParts(buffer: Buffer): IDocxDocumentParts {
+    const officePackage = new OfficePackage(buffer);
+    const partTexts = (pattern: RegExp) => Array.from(new Set(
+      officePackage.paths(pattern)
+        .map(partPath => OfficePackage.paragraphs(officePackage.read(partPath) || '', 'w').join('\n'))
+        .filter(partText => partText.length > 0)
+    ));
+
+    return {
+      headers: partTexts(/^word\/header\d+\.xml$/),
+      footers: partTexts(/^word\/footer\d+\.xml$/),
+      comments: DocxParser.parseComments(
+        officePackage.read('word/comments.xml') || '',
+        officePackage.read('word/document.xml') || ''
+      ),
+    };
+  }
+
+  /**
+   * Comments with the text they mark and the number of the body paragraph they start in,
+   * counting every paragraph of document.xml including table cells
+   */
+  private static parseComments(commentsXml: string, documentXml: string): IOfficeComment[] {
+    const paragraphStarts = Array.from(documentXml.matchAll(/<w:p(?:\s[^>]*)?>/g), match => match.index ?? 0);
+    const findMarker = (element: string, id: string) =>
+      new RegExp(`<w:${element}\\s[^>]*?w:id="${id.replace(/\W/g, '')}"`).exec(documentXml)?.index;
+
+    return Array.from(commentsXml.matchAll(/<w:comment\s([^>]*)>([\s\S]*?)<\/w:comment>/g))
+      .map(match => {
+        const attributes = OfficePackage.attributes(match[1]);
+        const id = attributes['w:id'] || '';
+        const start = findMarker('commentRangeStart', id) ?? findMarker('commentReference', id);
+        const end = findMarker('commentRangeEnd', id);
+        const anchor = start !== undefined && end !== undefined && end > start
+          ? OfficePackage.runText(documentXml.slice(start, end), 'w').replace(/\s+/g, ' ').trim()
+          : '';
+
+        return {
+          author: attributes['w:author'] || undefined,
+          text: OfficePackage.paragraphs(match[2], 'w').join('\n'),
+          anchor: anchor || undefined,
+          paragraphNumber: start !== undefined ? paragraphStarts.filter(index => index < start).length : undefined,
+        };
+      })
+      .filter(comment => comment.text.length > 0);
+  }
+
   private parseHtmlStructure(
     html: string,
     config: IDocxParserConfig,
@@ -516,6 +612,20 @@ export class DocxParser extends BaseFileParser {
     }
   }
 
+  // Utility method to count comments, headers and footers without full parsing
+  static async getParserInfo(buffer: Buffer): Promise<{ commentCount: number; headerCount: number; footerCount: number }> {
+    try {
+      const { headers, footers, comments } = DocxParser.readDocumentParts(buffer);
+      return {
+        commentCount: comments.length,
+        headerCount: headers.length,
+        footerCount: footers.length,
+      };
+    } catch (error) {
+      throw new Error(`Failed to get document info: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Utility method to convert to HTML
   static async convertToHtml(buffer: Buffer): Promise<string> {
     try {
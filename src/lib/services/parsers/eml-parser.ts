@@ -0,0 +1,633 @@
+import {
+  BaseFileParser,
+  IParserConfig,
+  TParserResult,
+  TParsedBlock,
+  TEmailMetadata
+} from './file-parser.interface';
+import { HtmlParser } from './html-parser';
+
+export interface IEmlParserConfig extends IParserConfig {
+  splitQuotedReplies?: boolean; // Separate blocks for each message quoted in a reply chain
+  parseAttachments?: boolean;
+  maxAttachmentDepth?: number; // Emails attached to emails attached to...
+  attachmentDepth?: number; // Set when parsing an attached email
+}
+
+// Parses attachments with the parser for their type; FileParserService passes itself
+export interface IEmlAttachmentParser {
+  isSupported(mimeType: string): boolean;
+  parseFromBuffer(
+    buffer: Buffer,
+    fileName: string,
+    mimeType: string,
+    config?: IParserConfig
+  ): Promise<TParserResult>;
+}
+
+interface IMimePart {
+  headers: Map<string, string>;
+  body: string; // Raw bytes as latin1, decoded by its transfer encoding and charset later
+}
+
+interface IEmailAttachment {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+interface IReplySegment {
+  depth: number;
+  email: Partial<TEmailMetadata>;
+  lines: string[];
+}
+
+interface IEmailAddress {
+  address: string;
+  name?: string;
+}
+
+const MAX_MIME_NESTING = 20;
+
+const ATTRIBUTION = /^On\s+(.+)\s+wrote:\s*$/i;
+const ORIGINAL_MESSAGE = /^-{2,}\s*(?:Original Message|Forwarded message)\s*-{2,}$/i;
+const QUOTED_HEADER = /^\*?(From|Sent|Date|To|Cc|Subject)\*?:\s*(.*)$/i;
+
+export class EmlParser extends BaseFileParser {
+  readonly name = 'Email Parser';
+  readonly version = '1.0.0';
+  readonly supportedMimeTypes = [
+    'message/rfc822',
+  ];
+
+  constructor(private readonly attachmentParser?: IEmlAttachmentParser) {
+    super();
+  }
+
+  protected getFeatures(): string[] {
+    return [
+      'RFC 822 and MIME multipart messages',
+      'From, to, cc, date and subject in block metadata',
+      'Quoted reply chains split into separate blocks',
+      'Base64, quoted-printable and encoded-word decoding',
+      'Attachments parsed by their own parsers',
+    ];
+  }
+
+  async parseFromBuffer(
+    buffer: Buffer,
+    fileName: string,
+    mimeType: string,
+    config?: IEmlParserConfig
+  ): Promise<TParserResult> {
+    const startTime = Date.now();
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    try {
+      await this.validateFile(buffer, mimeType);
+
+      const emlConfig: IEmlParserConfig = {
+        splitQuotedReplies: true,
+        parseAttachments: true,
+        maxAttachmentDepth: 3,
+        attachmentDepth: 0,
+        ...config,
+      };
+
+      const message = EmlParser.parsePart(buffer.toString('latin1'));
+      const email = EmlParser.readEmailHeaders(message.headers);
+      const attachments: IEmailAttachment[] = [];
+      const body = this.readContent(message, attachments, warnings);
+
+      const blocks = this.createBlocksFromBody(body, email, emlConfig);
+      blocks.push(...await this.parseAttachments(attachments, email, emlConfig, warnings));
+
+      if (blocks.length === 0) {
+        warnings.push('No text content found in email');
+      }
+
+      return this.createParserResult(
+        blocks,
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown email parsing error';
+      errors.push(errorMessage);
+
+      return this.createParserResult(
+        [],
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+    }
+  }
+
+  /**
+   * Text of a MIME part and its children, collecting attachments on the way. Of alternative
+   * bodies the plain-text one is read, as its quoting is what the reply splitter understands.
+   */
+  private readContent(
+    part: IMimePart,
+    attachments: IEmailAttachment[],
+    warnings: string[],
+    nesting = 0
+  ): string {
+    const contentType = EmlParser.parseHeaderValue(part.headers.get('content-type') || 'text/plain');
+    const disposition = EmlParser.parseHeaderValue(part.headers.get('content-disposition') || '');
+    const fileName = disposition.params.filename || contentType.params.name;
+
+    if (contentType.value.startsWith('multipart/')) {
+      if (nesting >= MAX_MIME_NESTING) {
+        warnings.push('MIME parts nested too deeply were skipped');
+        return '';
+      }
+      if (!contentType.params.boundary) {
+        warnings.push(`${contentType.value} section without a boundary was skipped`);
+        return '';
+      }
+
+      const children = EmlParser.splitMultipart(part.body, contentType.params.boundary).map(EmlParser.parsePart);
+      if (contentType.value === 'multipart/alternative' && children.length > 0) {
+        const plain = children.find(child => EmlParser.contentTypeOf(child) === 'text/plain');
+        return this.readContent(plain || children[children.length - 1], attachments, warnings, nesting + 1);
+      }
+
+      return children
+        .map(child => this.readContent(child, attachments, warnings, nesting + 1))
+        .filter(text => text.trim().length > 0)
+        .join('\n\n');
+    }
+
+    if (disposition.value === 'attachment' || fileName || contentType.value === 'message/rfc822') {
+      attachments.push({
+        fileName: fileName || (contentType.value === 'message/rfc822' ? 'attached-message.eml' : 'attachment'),
+        mimeType: contentType.value,
+        content: EmlParser.decodeBody(part),
+      });
+      return '';
+    }
+
+    // Inline images and other parts without a name carry no text
+    if (contentType.value !== 'text/plain' && contentType.value !== 'text/html') {
+      return '';
+    }
+
+    const text = EmlParser.decodeText(EmlParser.decodeBody(part), contentType.params.charset);
+    return contentType.value === 'text/html' ? HtmlParser.toText(text) : text;
+  }
+
+  private createBlocksFromBody(
+    body: string,
+    email: Omit<TEmailMetadata, 'quoteDepth'>,
+    config: IEmlParserConfig
+  ): TParsedBlock[] {
+    const lines = body.replace(/\r\n?/g, '\n').split('\n');
+    const segments = config.splitQuotedReplies
+      ? this.splitReplies(lines, 0, email)
+      : [{ depth: 0, email, lines }];
+
+    return segments.flatMap(segment => {
+      const text = segment.lines
+        .map(line => line.replace(/\s+$/, ''))
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+      if (!text) return [];
+
+      const sender = segment.email.fromName || segment.email.from;
+      const title = segment.depth === 0
+        ? email.subject
+        : sender ? `Quoted message from ${sender}` : 'Quoted message';
+
+      return [this.createTextBlock(text, title, {
+        email: { to: [], cc: [], ...segment.email, quoteDepth: segment.depth },
+      })];
+    });
+  }
+
+  /**
+   * Split a message body into the reply and the messages it quotes: '>' quoted lines, text
+   * after an "On ... wrote:" line and text after an Outlook-style header block each go one
+   * level deeper, with whatever sender, date and subject the quoting gives
+   */
+  private splitReplies(lines: string[], depth: number, email: Partial<TEmailMetadata>): IReplySegment[] {
+    const segments: IReplySegment[] = [];
+    let current: IReplySegment = { depth, email, lines: [] };
+    let attribution: Partial<TEmailMetadata> | null = null;
+
+    const pushCurrent = () => {
+      if (current.lines.some(line => line.trim().length > 0)) {
+        segments.push(current);
+      }
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i].trim();
+
+      if (line.startsWith('>')) {
+        const quoted: string[] = [];
+        while (
+          i < lines.length &&
+          (lines[i].trim().startsWith('>') || (lines[i].trim() === '' && lines[i + 1]?.trim().startsWith('>')))
+        ) {
+          quoted.push(lines[i].trim().replace(/^>[ \t]?/, ''));
+          i++;
+        }
+
+        pushCurrent();
+        segments.push(...this.splitReplies(quoted, depth + 1, attribution || {}));
+        // Text after the quote is an inline reply from the outer message
+        current = { depth, email, lines: [] };
+        attribution = null;
+        continue;
+      }
+
+      // Long attributions wrap before "wrote:"
+      let wrapped = 0;
+      if (ATTRIBUTION.test(line)) {
+        wrapped = 1;
+      } else if (/^On\s/i.test(line) && ATTRIBUTION.test(`${line} ${lines[i + 1]?.trim()}`)) {
+        wrapped = 2;
+      }
+      if (wrapped > 0) {
+        const quotedEmail = EmlParser.readAttribution(lines.slice(i, i + wrapped).map(text => text.trim()).join(' '));
+        const rest = lines.slice(i + wrapped);
+        if (rest.find(text => text.trim().length > 0)?.trim().startsWith('>')) {
+          attribution = quotedEmail;
+          i += wrapped;
+          continue;
+        }
+
+        // Quoted without '>' markers: the rest of the body is the earlier message
+        pushCurrent();
+        return [...segments, ...this.splitReplies(rest, depth + 1, quotedEmail)];
+      }
+
+      if (ORIGINAL_MESSAGE.test(line) || this.startsHeaderBlock(lines, i)) {
+        let j = ORIGINAL_MESSAGE.test(line) ? i + 1 : i;
+        while (j < lines.length && lines[j].trim() === '') j++;
+
+        const quotedEmail: Partial<TEmailMetadata> = {};
+        let header: RegExpExecArray | null;
+        while (j < lines.length && (header = QUOTED_HEADER.exec(lines[j].trim()))) {
+          EmlParser.applyQuotedHeader(quotedEmail, header[1].toLowerCase(), header[2]);
+          j++;
+        }
+
+        pushCurrent();
+        return [...segments, ...this.splitReplies(lines.slice(j), depth + 1, quotedEmail)];
+      }
+
+      current.lines.push(lines[i]);
+      i++;
+    }
+
+    pushCurrent();
+    return segments;
+  }
+
+  /**
+   * A "From:" line followed closely by "Sent:" or "Date:" and "To:" or "Subject:" lines
+   */
+  private startsHeaderBlock(lines: string[], index: number): boolean {
+    if (!/^\*?From\*?:\s*\S/i.test(lines[index].trim())) return false;
+
+    const following = lines.slice(index + 1, index + 5).map(line => line.trim());
+    return following.some(line => /^\*?(Sent|Date)\*?:/i.test(line)) &&
+      following.some(line => /^\*?(To|Subject)\*?:/i.test(line));
+  }
+
+  private async parseAttachments(
+    attachments: IEmailAttachment[],
+    email: Omit<TEmailMetadata, 'quoteDepth'>,
+    config: IEmlParserConfig,
+    warnings: string[]
+  ): Promise<TParsedBlock[]> {
+    const blocks: TParsedBlock[] = [];
+    if (!config.parseAttachments || attachments.length === 0) return blocks;
+
+    if (!this.attachmentParser) {
+      warnings.push(`${attachments.length} attachment(s) were not parsed: no attachment parser is configured`);
+      return blocks;
+    }
+
+    const depth = (config.attachmentDepth || 0) + 1;
+    for (const attachment of attachments) {
+      if (depth > (config.maxAttachmentDepth ?? 3)) {
+        warnings.push(`Attachment "${attachment.fileName}" was skipped: attachments are nested too deeply`);
+        continue;
+      }
+
+      const extension = attachment.fileName.includes('.')
+        ? attachment.fileName.slice(attachment.fileName.lastIndexOf('.')).toLowerCase()
+        : '';
+      const mimeType = this.attachmentParser.isSupported(attachment.mimeType)
+        ? attachment.mimeType
+        : this.getMimeTypeFromExtension(extension);
+      if (!this.attachmentParser.isSupported(mimeType)) {
+        warnings.push(`Attachment "${attachment.fileName}" was skipped: ${attachment.mimeType} is not supported`);
+        continue;
+      }
+
+      try {
+        const result = await this.attachmentParser.parseFromBuffer(
+          attachment.content,
+          attachment.fileName,
+          mimeType,
+          { ...config, attachmentDepth: depth } as IEmlParserConfig
+        );
+
+        [...result.metadata.errors, ...result.metadata.warnings].forEach(message => {
+          warnings.push(`Attachment "${attachment.fileName}": ${message}`);
+        });
+
+        // Attached emails keep their own headers; other attachments take the message's
+        blocks.push(...result.blocks.map(block => ({
+          ...block,
+          metadata: {
+            ...block.metadata,
+            source: block.metadata.source ? `${attachment.fileName}/${block.metadata.source}` : attachment.fileName,
+            email: block.metadata.email || { ...email, quoteDepth: 0 },
+          },
+        })));
+      } catch (error) {
+        const message = typeof error === 'object' && error !== null && 'message' in error
+          ? String(error.message)
+          : 'Unknown error';
+        warnings.push(`Attachment "${attachment.fileName}" could not be parsed: ${message}`);
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Headers and raw body of a message or MIME part; folded header lines are joined and
+   * the first occurrence of a header wins
+   */
+  private static parsePart(raw: string): IMimePart {
+    const separator = /\r?\n\r?\n/.exec(raw);
+    const headerText = separator ? raw.slice(0, separator.index) : raw;
+    const body = separator ? raw.slice(separator.index + separator[0].length) : '';
+
+    const headers = new Map<string, string>();
+    for (const line of headerText.replace(/\r?\n(?=[ \t])/g, '').split(/\r?\n/)) {
+      const colon = line.indexOf(':');
+      if (colon <= 0) continue;
+
+      const name = line.slice(0, colon).trim().toLowerCase();
+      if (!headers.has(name)) {
+        // Raw 8-bit headers are nearly always UTF-8
+        headers.set(name, Buffer.from(line.slice(colon + 1).trim(), 'latin1').toString('utf-8'));
+      }
+    }
+
+    return { headers, body };
+  }
+
+  private static readEmailHeaders(headers: Map<string, string>): Omit<TEmailMetadata, 'quoteDepth'> {
+    const [from] = EmlParser.parseAddresses(EmlParser.decodeHeader(headers.get('from') || ''));
+    const date = headers.has('date') ? new Date(headers.get('date') || '') : undefined;
+    const subject = EmlParser.decodeHeader(headers.get('subject') || '').trim();
+    const messageId = (headers.get('message-id') || '').replace(/^<|>$/g, '').trim();
+
+    return {
+      from: from?.address,
+      fromName: from?.name,
+      to: EmlParser.parseAddresses(EmlParser.decodeHeader(headers.get('to') || '')).map(({ address }) => address),
+      cc: EmlParser.parseAddresses(EmlParser.decodeHeader(headers.get('cc') || '')).map(({ address }) => address),
+      date: date && !isNaN(date.getTime()) ? date : undefined,
+      subject: subject || undefined,
+      messageId: messageId || undefined,
+    };
+  }
+
+  /**
+   * Sender of an "On <date>, <name> <address> wrote:" line
+   */
+  private static readAttribution(line: string): Partial<TEmailMetadata> {
+    const match = ATTRIBUTION.exec(line);
+    if (!match) return {};
+
+    const [address] = EmlParser.parseAddresses(match[1]);
+    const beforeAddress = match[1].includes('<') ? match[1].slice(0, match[1].indexOf('<')) : match[1];
+    const name = beforeAddress.split(/,\s*|\s\d{1,2}:\d{2}(?::\d{2})?(?:\s*[AP]M)?\s+/i).pop()?.replace(/"/g, '').trim();
+
+    return {
+      from: address?.address,
+      fromName: name && !name.includes('@') ? name : address?.name,
+    };
+  }
+
+  private static applyQuotedHeader(email: Partial<TEmailMetadata>, name: string, value: string): void {
+    const addresses = EmlParser.parseAddresses(value).map(({ address }) => address);
+
+    switch (name) {
+      case 'from': {
+        const [from] = EmlParser.parseAddresses(value);
+        email.from = from?.address;
+        email.fromName = from?.name || (from ? undefined : value.replace(/"/g, '').trim()) || undefined;
+        break;
+      }
+      case 'sent':
+      case 'date': {
+        const date = new Date(value);
+        if (!isNaN(date.getTime())) email.date = date;
+        break;
+      }
+      case 'to':
+        email.to = addresses;
+        break;
+      case 'cc':
+        email.cc = addresses;
+        break;
+      case 'subject':
+        email.subject = value.trim() || undefined;
+        break;
+    }
+  }
+
+  /**
+   * Addresses of an address list header, lower-cased, with display names where given
+   */
+  static parseAddresses(value: string): IEmailAddress[] {
+    const entries: string[] = [];
+    let entry = '';
+    let quoted = false;
+    let angled = false;
+
+    for (const char of value) {
+      if (char === '"') quoted = !quoted;
+      else if (char === '<') angled = true;
+      else if (char === '>') angled = false;
+
+      if (char === ',' && !quoted && !angled) {
+        entries.push(entry);
+        entry = '';
+      } else {
+        entry += char;
+      }
+    }
+    entries.push(entry);
+
+    return entries.flatMap(item => {
+      const angle = /<([^<>\s]+@[^<>\s]+)>/.exec(item);
+      const address = angle ? angle[1] : /[^\s<>"(),;:[\]]+@[^\s<>"(),;:[\]]+/.exec(item)?.[0];
+      if (!address) return [];
+
+      const name = angle ? item.slice(0, angle.index).replace(/"/g, '').trim() : '';
+      return [{ address: address.toLowerCase(), ...(name && { name }) }];
+    });
+  }
+
+  /**
+   * Value and parameters of a structured header such as Content-Type, including RFC 2231
+   * extended and continued parameters
+   */
+  private static parseHeaderValue(header: string): { value: string; params: Record<string, string> } {
+    const params: Record<string, string> = {};
+    const sections: Record<string, string[]> = {};
+    const paramRegex = /;\s*([^=\s;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+    let match;
+
+    while ((match = paramRegex.exec(header)) !== null) {
+      const name = match[1].toLowerCase();
+      const value = match[2].trim().replace(/^"([\s\S]*)"$/, '$1').replace(/\\(.)/g, '$1');
+
+      const section = /^(.+?)\*(\d+)\*?$/.exec(name);
+      if (section) {
+        (sections[section[1]] ||= [])[Number(section[2])] = value;
+      } else if (name.endsWith('*')) {
+        params[name.slice(0, -1)] = EmlParser.decodeExtendedValue(value);
+      } else {
+        params[name] = value;
+      }
+    }
+
+    for (const [name, parts] of Object.entries(sections)) {
+      const joined = parts.join('');
+      params[name] ??= /^[^']*'[^']*'/.test(joined) ? EmlParser.decodeExtendedValue(joined) : joined;
+    }
+
+    return { value: header.split(';')[0].trim().toLowerCase(), params };
+  }
+
+  /**
+   * An RFC 2231 charset'language'percent-encoded value
+   */
+  private static decodeExtendedValue(value: string): string {
+    const match = /^([^']*)'[^']*'([\s\S]*)$/.exec(value);
+    if (!match) return value;
+
+    const bytes = Buffer.from(match[2].replace(/%([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+    return EmlParser.decodeText(bytes, match[1] || 'utf-8');
+  }
+
+  private static contentTypeOf(part: IMimePart): string {
+    return EmlParser.parseHeaderValue(part.headers.get('content-type') || 'text/plain').value;
+  }
+
+  /**
+   * Body parts between the boundary lines of a multipart body; the preamble and epilogue are dropped
+   */
+  private static splitMultipart(body: string, boundary: string): string[] {
+    const parts: string[] = [];
+    let current: string[] | null = null;
+
+    for (const line of body.split(/\r?\n/)) {
+      const trimmed = line.trimEnd();
+      if (trimmed === `--${boundary}--`) {
+        if (current) parts.push(current.join('\n'));
+        current = null;
+        break;
+      }
+      if (trimmed === `--${boundary}`) {
+        if (current) parts.push(current.join('\n'));
+        current = [];
+      } else if (current) {
+        current.push(line);
+      }
+    }
+
+    // Unterminated final part
+    if (current) parts.push(current.join('\n'));
+
+    return parts;
+  }
+
+  private static decodeBody(part: IMimePart): Buffer {
+    const encoding = (part.headers.get('content-transfer-encoding') || '').trim().toLowerCase();
+
+    if (encoding === 'base64') {
+      return Buffer.from(part.body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    }
+    if (encoding === 'quoted-printable') {
+      return EmlParser.decodeQuotedPrintable(part.body);
+    }
+    return Buffer.from(part.body, 'latin1');
+  }
+
+  static decodeQuotedPrintable(text: string): Buffer {
+    const input = text.replace(/=\r?\n/g, ''); // Soft line breaks
+    const bytes: number[] = [];
+
+    for (let i = 0; i < input.length; i++) {
+      const hex = input.slice(i + 1, i + 3);
+      if (input[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+        bytes.push(parseInt(hex, 16));
+        i += 2;
+      } else {
+        bytes.push(input.charCodeAt(i) & 0xff);
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Decode RFC 2047 encoded words, joining adjacent ones as the standard requires
+   */
+  static decodeHeader(value: string): string {
+    const encodedWord = /=\?([^?*]+)(?:\*[^?]*)?\?([bq])\?([^?]*)\?=/gi;
+
+    return value
+      .replace(/(\?=)\s+(?==\?[^?]+\?[bq]\?)/gi, '$1')
+      .replace(encodedWord, (_, charset: string, encoding: string, text: string) => {
+        const bytes = encoding.toLowerCase() === 'b'
+          ? Buffer.from(text, 'base64')
+          : EmlParser.decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return EmlParser.decodeText(bytes, charset);
+      });
+  }
+
+  private static decodeText(content: Buffer, charset = 'utf-8'): string {
+    try {
+      return new TextDecoder(charset.trim().toLowerCase()).decode(content);
+    } catch {
+      // Unknown charsets are read as UTF-8
+      return content.toString('utf-8');
+    }
+  }
+
+  async validateFile(buffer: Buffer, mimeType: string): Promise<void> {
+    await super.validateFile(buffer, mimeType);
+
+    // A message starts with header fields
+    const firstLine = buffer.toString('latin1', 0, Math.min(buffer.length, 1024)).replace(/^\xEF\xBB\xBF/, '').trimStart().split(/\r?\n/)[0];
+    if (!/^[!-9;-~]+:/.test(firstLine)) {
+      throw new Error('File does not appear to be an email message');
+    }
+  }
+}
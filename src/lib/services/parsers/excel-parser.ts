@@ -0,0 +1,325 @@
+import * as XLSX from 'xlsx';
+
+import { CsvParser } from './csv-parser';
+import {
+  BaseFileParser,
+  IParserConfig,
+  TParserResult,
+  TParsedBlock,
+  TBaseMetadata
+} from './file-parser.interface';
+
+export interface IExcelParserConfig extends IParserConfig {
+  sheets?: Array<string | number>; // Sheet names or zero-based indexes to parse (default: all)
+  headerRow?: number | 'auto'; // One-based header row, or 'auto' to detect it
+  hasHeaders?: boolean;
+  skipEmptyLines?: boolean;
+  maxRows?: number; // Per sheet
+  inferTypes?: boolean;
+}
+
+export interface IExcelSheetData {
+  sheetName: string;
+  sheetIndex: number;
+  headerRowNumber: number; // One-based, 0 when the sheet has no header row
+  headers: string[];
+  rows: Record<string, unknown>[];
+  truncated: boolean;
+}
+
+export class ExcelParser extends BaseFileParser {
+  readonly name = 'Excel Parser';
+  readonly version = '1.0.0';
+  readonly supportedMimeTypes = [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-excel',
+  ];
+
+  protected getFeatures(): string[] {
+    return [
+      'XLSX and legacy XLS workbooks',
+      'Table extraction per sheet',
+      'Sheet selection',
+      'Header row detection',
+      'Type inference',
+      'Row limits',
+    ];
+  }
+
+  async parseFromBuffer(
+    buffer: Buffer,
+    fileName: string,
+    mimeType: string,
+    config?: IExcelParserConfig
+  ): Promise<TParserResult> {
+    const startTime = Date.now();
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    try {
+      await this.validateFile(buffer, mimeType);
+
+      const excelConfig: IExcelParserConfig = {
+        headerRow: 'auto',
+        hasHeaders: true,
+        skipEmptyLines: true,
+        maxRows: 10000,
+        inferTypes: true,
+        ...config,
+      };
+
+      const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+      const sheetNames = this.selectSheets(workbook.SheetNames, excelConfig.sheets, warnings);
+
+      const blocks: TParsedBlock[] = [];
+      for (const sheetName of sheetNames) {
+        const sheetIndex = workbook.SheetNames.indexOf(sheetName);
+        const sheet = this.readSheet(workbook.Sheets[sheetName], sheetName, sheetIndex, excelConfig);
+
+        if (sheet.rows.length === 0) {
+          warnings.push(`No data rows found in sheet "${sheetName}"`);
+          continue;
+        }
+
+        if (sheet.truncated) {
+          warnings.push(`Sheet "${sheetName}" truncated to ${excelConfig.maxRows} rows`);
+        }
+
+        blocks.push(...this.createBlocksFromSheet(sheet));
+      }
+
+      if (blocks.length === 0) {
+        warnings.push('No data rows found in workbook');
+      }
+
+      return this.createParserResult(
+        blocks,
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown Excel parsing error';
+      errors.push(errorMessage);
+
+      return this.createParserResult(
+        [],
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+    }
+  }
+
+  /**
+   * Resolve requested sheet names/indexes against the workbook
+   */
+  private selectSheets(
+    available: string[],
+    requested: Array<string | number> | undefined,
+    warnings: string[]
+  ): string[] {
+    if (!requested || requested.length === 0) {
+      return available;
+    }
+
+    const selected: string[] = [];
+    for (const sheet of requested) {
+      const name = typeof sheet === 'number'
+        ? available[sheet]
+        : available.find(s => s.toLowerCase() === sheet.toLowerCase());
+
+      if (!name) {
+        warnings.push(`Sheet "${sheet}" not found in workbook`);
+        continue;
+      }
+
+      if (!selected.includes(name)) {
+        selected.push(name);
+      }
+    }
+
+    return selected;
+  }
+
+  private readSheet(
+    worksheet: XLSX.WorkSheet,
+    sheetName: string,
+    sheetIndex: number,
+    config: IExcelParserConfig
+  ): IExcelSheetData {
+    const matrix = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+      header: 1,
+      raw: true,
+      defval: '',
+      blankrows: !config.skipEmptyLines,
+    });
+
+    let headerIndex = -1;
+    if (config.hasHeaders !== false) {
+      headerIndex = typeof config.headerRow === 'number'
+        ? config.headerRow - 1
+        : ExcelParser.detectHeaderRow(matrix);
+    }
+
+    const width = matrix.reduce((max, row) => Math.max(max, row.length), 0);
+    const headers = this.buildHeaders(headerIndex >= 0 ? matrix[headerIndex] || [] : [], width);
+
+    const dataRows = matrix.slice(headerIndex + 1);
+    const limit = config.maxRows || dataRows.length;
+    const rows: Record<string, unknown>[] = [];
+
+    for (const cells of dataRows.slice(0, limit)) {
+      if (config.skipEmptyLines && cells.every(cell => this.isEmptyCell(cell))) {
+        continue;
+      }
+
+      let row: Record<string, unknown> = {};
+      headers.forEach((header, index) => {
+        const value = cells[index];
+        row[header] = value instanceof Date ? value.toISOString() : value ?? '';
+      });
+
+      if (config.inferTypes) {
+        row = CsvParser.inferRowTypes(row);
+      }
+
+      rows.push(row);
+    }
+
+    return {
+      sheetName,
+      sheetIndex,
+      headerRowNumber: headerIndex + 1,
+      headers,
+      rows,
+      truncated: dataRows.length > limit,
+    };
+  }
+
+  /**
+   * Turn the header cells into unique, non-empty column names
+   */
+  private buildHeaders(headerCells: unknown[], width: number): string[] {
+    const headers: string[] = [];
+    const seen = new Map<string, number>();
+
+    for (let i = 0; i < width; i++) {
+      const cell = headerCells[i];
+      let header = this.isEmptyCell(cell) ? `Column ${i + 1}` : String(cell).trim();
+
+      const count = seen.get(header) || 0;
+      seen.set(header, count + 1);
+      if (count > 0) {
+        header = `${header}_${count + 1}`;
+      }
+
+      headers.push(header);
+    }
+
+    return headers;
+  }
+
+  private createBlocksFromSheet(sheet: IExcelSheetData): TParsedBlock[] {
+    const metadata: TBaseMetadata = {
+      source: 'excel-parser',
+      confidence: 1.0,
+      sheetName: sheet.sheetName,
+    };
+
+    const tableRows = sheet.rows.map(row =>
+      sheet.headers.map(header => {
+        const value = row[header];
+        return value === null || value === undefined ? '' : String(value);
+      })
+    );
+
+    return [
+      this.createTextBlock(
+        this.createSummaryText(sheet),
+        `Sheet Summary: ${sheet.sheetName}`,
+        metadata
+      ),
+      this.createTableBlock(
+        sheet.headers,
+        tableRows,
+        `Sheet Data: ${sheet.sheetName}`,
+        metadata
+      ),
+    ];
+  }
+
+  private createSummaryText(sheet: IExcelSheetData): string {
+    const rowCount = sheet.rows.length;
+
+    let summary = `Sheet "${sheet.sheetName}" contains ${rowCount} rows and ${sheet.headers.length} columns.\n\n`;
+    summary += `Columns: ${sheet.headers.join(', ')}\n\n`;
+
+    if (sheet.headerRowNumber > 1) {
+      summary += `Header row detected at row ${sheet.headerRowNumber}.\n\n`;
+    }
+
+    summary += 'Sample data:\n';
+    sheet.rows.slice(0, 3).forEach((row, index) => {
+      summary += `Row ${index + 1}: ${JSON.stringify(row, null, 2)}\n`;
+    });
+
+    if (rowCount > 3) {
+      summary += `... and ${rowCount - 3} more rows\n`;
+    }
+
+    return summary;
+  }
+
+  private isEmptyCell(cell: unknown): boolean {
+    return cell === null || cell === undefined || String(cell).trim() === '';
+  }
+
+  async validateFile(buffer: Buffer, mimeType: string): Promise<void> {
+    await super.validateFile(buffer, mimeType);
+
+    // XLSX is a ZIP container, legacy XLS is an OLE2 compound document
+    const isZip = buffer.length >= 4 && buffer.readUInt32BE(0) === 0x504b0304;
+    const isOle = buffer.length >= 8 && buffer.slice(0, 8).equals(
+      Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+    );
+
+    if (!isZip && !isOle) {
+      throw new Error('File does not have a valid Excel workbook signature');
+    }
+  }
+
+  // Utility method to find the header row in the first rows of a sheet.
+  // Extracts often carry a title or export banner above the real header,
+  // so pick the first mostly-filled row of text followed by a data row.
+  static detectHeaderRow(matrix: unknown[][], scanRows: number = 10): number {
+    const candidates = matrix.slice(0, scanRows);
+    const width = candidates.reduce((max, row) => Math.max(max, row.length), 0);
+    if (width === 0) return -1;
+
+    const filled = (row: unknown[]) =>
+      row.filter(cell => cell !== null && cell !== undefined && String(cell).trim() !== '');
+
+    for (let i = 0; i < candidates.length; i++) {
+      const cells = filled(candidates[i]);
+      if (cells.length < Math.max(1, width * 0.5)) continue;
+
+      const textCells = cells.filter(cell => typeof cell === 'string' && isNaN(Number(cell)));
+      if (textCells.length < cells.length * 0.8) continue;
+
+      const next = candidates[i + 1];
+      if (!next || filled(next).length > 0) {
+        return i;
+      }
+    }
+
+    return 0;
+  }
+}
@@ -1,14 +1,33 @@
 import { z } from 'zod';
 
+// Headers of the email a block came from; quoteDepth 0 is the message itself, 1 the message it quotes
+export const emailMetadataSchema = z.object({
+  from: z.string().optional(), // Lower-cased address
+  fromName: z.string().optional(),
+  to: z.array(z.string()),
+  cc: z.array(z.string()),
+  date: z.date().optional(),
+  subject: z.string().optional(),
+  messageId: z.string().optional(),
+  quoteDepth: z.number(),
+});
+
+// Part of the document a block comes from, so notes, comments and page furniture can be left out
+export const documentPartSchema = z.enum(['body', 'notes', 'comment', 'header', 'footer']);
+
 // Base metadata for all parsed blocks
 export const baseMetadataSchema = z.object({
   pageNumber: z.number().optional(),
   lineNumber: z.number().optional(),
   slideNumber: z.number().optional(),
   paragraphNumber: z.number().optional(),
+  sheetName: z.string().optional(),
   confidence: z.number().min(0).max(1).optional(),
   source: z.string().optional(),
   timestamp: z.date().optional(),
+  email: emailMetadataSchema.optional(),
+  part: documentPartSchema.optional(), // Body when absent
+  author: z.string().optional(), // Author of a comment
 });
 
 // Parsed block content types
@@ -65,6 +84,8 @@ export const parserErrorSchema = z.object({
 });
 
 // Type exports
+export type TEmailMetadata = z.infer<typeof emailMetadataSchema>;
+export type TDocumentPart = z.infer<typeof documentPartSchema>;
 export type TBaseMetadata = z.infer<typeof baseMetadataSchema>;
 export type TParsedBlockContent = z.infer<typeof parsedBlockContentSchema>;
 export type TParsedBlock = z.infer<typeof parsedBlockSchema>;
@@ -203,6 +224,12 @@ export abstract class BaseFileParser implements IFileParser {
       '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
       '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
       '.xls': 'application/vnd.ms-excel',
+      '.md': 'text/markdown',
+      '.markdown': 'text/markdown',
+      '.html': 'text/html',
+      '.htm': 'text/html',
+      '.txt': 'text/plain',
+      '.eml': 'message/rfc822',
     };
 
     return mimeTypes[ext] || 'application/octet-stream';
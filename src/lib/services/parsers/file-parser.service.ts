@@ -1,3 +1,7 @@
+import { CsvParser, ICsvParserConfig } from './csv-parser';
+import { DocxParser, IDocxParserConfig } from './docx-parser';
+import { EmlParser, IEmlParserConfig } from './eml-parser';
+import { ExcelParser, IExcelParserConfig } from './excel-parser';
 import { 
   IFileParser, 
   IParserConfig, 
@@ -5,10 +9,13 @@ import {
   TParserError,
   parserErrorSchema 
 } from './file-parser.interface';
-import { CsvParser, ICsvParserConfig } from './csv-parser';
+import { HtmlParser, IHtmlParserConfig } from './html-parser';
+import { JsonParser, IJsonParserConfig } from './json-parser';
+import { MarkdownParser, IMarkdownParserConfig } from './markdown-parser';
+import { ParserSandbox } from './parser-sandbox';
 import { PdfParser, IPdfParserConfig } from './pdf-parser';
-import { DocxParser, IDocxParserConfig } from './docx-parser';
 import { PptxParser, IPptxParserConfig } from './pptx-parser';
+import { TextParser, ITextParserConfig } from './text-parser';
 
 export interface IFileParserServiceConfig {
   maxFileSize?: number; // Global max file size in bytes
@@ -19,9 +26,26 @@ export interface IFileParserServiceConfig {
     pdf?: IPdfParserConfig;
     docx?: IDocxParserConfig;
     pptx?: IPptxParserConfig;
+    excel?: IExcelParserConfig;
+    markdown?: IMarkdownParserConfig;
+    html?: IHtmlParserConfig;
+    text?: ITextParserConfig;
+    eml?: IEmlParserConfig;
+    json?: IJsonParserConfig;
+  };
+  isolation?: {
+    enabled?: boolean; // Parse built-in formats in a worker thread, terminated on timeout (default: where it resolves)
+    maxMemoryMb?: number; // Heap limit of the worker
+  };
+  archiveLimits?: {
+    maxCompressionRatio?: number; // Uncompressed to compressed size of an OOXML file
+    maxUncompressedSize?: number; // Total uncompressed bytes of an OOXML file
   };
 }
 
+// Below this size a high compression ratio is harmless, e.g. a short but repetitive XML part
+const MIN_RATIO_CHECK_SIZE = 1024 * 1024;
+
 export interface IParsingTask {
   id: string;
   fileName: string;
@@ -38,14 +62,26 @@ export interface IParsingTask {
 export class FileParserService {
   private parsers: Map<string, IFileParser> = new Map();
   private activeTasks: Map<string, IParsingTask> = new Map();
+  private customParsers: Set<string> = new Set();
   private config: IFileParserServiceConfig;
 
   constructor(config: IFileParserServiceConfig = {}) {
     this.config = {
       maxFileSize: 50 * 1024 * 1024, // 50MB default
       timeout: 5 * 60 * 1000, // 5 minutes default
-      enabledParsers: ['csv', 'pdf', 'docx', 'pptx'],
+      enabledParsers: ['csv', 'pdf', 'docx', 'pptx', 'excel', 'markdown', 'html', 'text', 'eml', 'json'],
       ...config,
+      isolation: {
+        // Bundled server code ships without the worker script, so only an explicit opt-in fails closed there
+        enabled: ParserSandbox.resolveWorkerScript() !== null,
+        maxMemoryMb: 512,
+        ...config.isolation,
+      },
+      archiveLimits: {
+        maxCompressionRatio: 100,
+        maxUncompressedSize: 512 * 1024 * 1024,
+        ...config.archiveLimits,
+      },
     };
 
     this.initializeParsers();
@@ -69,6 +105,31 @@ export class FileParserService {
     if (!enabledParsers || enabledParsers.includes('pptx')) {
       this.parsers.set('pptx', new PptxParser());
     }
+
+    if (!enabledParsers || enabledParsers.includes('excel')) {
+      this.parsers.set('excel', new ExcelParser());
+    }
+
+    if (!enabledParsers || enabledParsers.includes('markdown')) {
+      this.parsers.set('markdown', new MarkdownParser());
+    }
+
+    if (!enabledParsers || enabledParsers.includes('html')) {
+      this.parsers.set('html', new HtmlParser());
+    }
+
+    if (!enabledParsers || enabledParsers.includes('text')) {
+      this.parsers.set('text', new TextParser());
+    }
+
+    // Attachments go back through this service to the parser for their type
+    if (!enabledParsers || enabledParsers.includes('eml')) {
+      this.parsers.set('eml', new EmlParser(this));
+    }
+
+    if (!enabledParsers || enabledParsers.includes('json')) {
+      this.parsers.set('json', new JsonParser());
+    }
   }
 
   /**
@@ -150,24 +211,42 @@ export class FileParserService {
       task.startTime = new Date();
       task.progress = 10;
 
+      // Zip bombs are turned away before a parser inflates them
+      this.checkArchiveExpansion(buffer, mimeType);
+
       // Get parser-specific config
       const parserConfig = this.getParserConfig(parser.name, config);
 
       // Set up timeout
       const timeout = parserConfig?.timeout || this.config.timeout || 5 * 60 * 1000;
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(this.createError(
-            'PARSING_ERROR',
-            `Parsing timeout after ${timeout}ms`,
-            { timeout, fileName }
-          ));
-        }, timeout);
-      });
 
-      // Parse with timeout
-      const parsePromise = parser.parseFromBuffer(buffer, fileName, mimeType, parserConfig);
-      const result = await Promise.race([parsePromise, timeoutPromise]);
+      let result: TParserResult;
+      if (this.canIsolate(parser)) {
+        // The worker rebuilds this service, so it gets the caller's config and applies the defaults itself
+        result = await ParserSandbox.parse(
+          { buffer, fileName, mimeType, config, serviceConfig: { ...this.config, isolation: { enabled: false } } },
+          { timeout, maxMemoryMb: this.config.isolation?.maxMemoryMb || 512 }
+        );
+      } else {
+        let timer: NodeJS.Timeout | undefined;
+        const timeoutPromise = new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            reject(this.createError(
+              'PARSING_ERROR',
+              `Parsing timeout after ${timeout}ms`,
+              { timeout, fileName }
+            ));
+          }, timeout);
+        });
+
+        // Parse with timeout
+        const parsePromise = parser.parseFromBuffer(buffer, fileName, mimeType, parserConfig);
+        try {
+          result = await Promise.race([parsePromise, timeoutPromise]);
+        } finally {
+          clearTimeout(timer);
+        }
+      }
 
       // Update task completion
       task.status = 'completed';
@@ -313,12 +392,14 @@ export class FileParserService {
    */
   registerParser(name: string, parser: IFileParser): void {
     this.parsers.set(name, parser);
+    this.customParsers.add(name);
   }
 
   /**
    * Unregister a parser
    */
   unregisterParser(name: string): boolean {
+    this.customParsers.delete(name);
     return this.parsers.delete(name);
   }
 
@@ -342,11 +423,56 @@ export class FileParserService {
         return { ...baseConfig, ...defaultConfigs.docx };
       case 'pptx parser':
         return { ...baseConfig, ...defaultConfigs.pptx };
+      case 'excel parser':
+        return { ...baseConfig, ...defaultConfigs.excel };
+      case 'markdown parser':
+        return { ...baseConfig, ...defaultConfigs.markdown };
+      case 'html parser':
+        return { ...baseConfig, ...defaultConfigs.html };
+      case 'text parser':
+        return { ...baseConfig, ...defaultConfigs.text };
+      case 'email parser':
+        return { ...baseConfig, ...defaultConfigs.eml };
+      case 'json parser':
+        return { ...baseConfig, ...defaultConfigs.json };
       default:
         return baseConfig;
     }
   }
 
+  /**
+   * Built-in parsers can be rebuilt inside a worker; registered ones only exist in this process
+   */
+  private canIsolate(parser: IFileParser): boolean {
+    if (!this.config.isolation?.enabled) return false;
+
+    return Array.from(this.parsers.entries())
+      .some(([name, registered]) => registered === parser && !this.customParsers.has(name));
+  }
+
+  /**
+   * Reject OOXML files whose declared contents expand far beyond their size on disk
+   */
+  private checkArchiveExpansion(buffer: Buffer, mimeType: string): void {
+    if (!mimeType.startsWith('application/vnd.openxmlformats-officedocument.')) return;
+
+    const archive = ParserSandbox.inspectArchive(buffer);
+    if (!archive) return; // Left to the parser to report
+
+    const { maxCompressionRatio = 100, maxUncompressedSize = 512 * 1024 * 1024 } = this.config.archiveLimits || {};
+    const ratio = archive.uncompressedSize / Math.max(archive.compressedSize, 1);
+    if (
+      archive.uncompressedSize > maxUncompressedSize ||
+      (archive.uncompressedSize > MIN_RATIO_CHECK_SIZE && ratio > maxCompressionRatio)
+    ) {
+      throw this.createError(
+        'CORRUPTED_FILE',
+        `Archive expands to ${archive.uncompressedSize} bytes, ${Math.round(ratio)} times its compressed size`,
+        { ...archive, ratio, maxCompressionRatio, maxUncompressedSize }
+      );
+    }
+  }
+
   private getMimeTypeFromPath(filePath: string): string {
     const path = require('path');
     const ext = path.extname(filePath).toLowerCase();
@@ -360,6 +486,15 @@ export class FileParserService {
       '.xls': 'application/vnd.ms-excel',
       '.doc': 'application/msword',
       '.ppt': 'application/vnd.ms-powerpoint',
+      '.md': 'text/markdown',
+      '.markdown': 'text/markdown',
+      '.html': 'text/html',
+      '.htm': 'text/html',
+      '.txt': 'text/plain',
+      '.eml': 'message/rfc822',
+      '.json': 'application/json',
+      '.ndjson': 'application/x-ndjson',
+      '.jsonl': 'application/x-ndjson',
     };
 
     return mimeTypes[ext] || 'application/octet-stream';
@@ -477,6 +612,12 @@ export const FileParserUtils = {
           return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
         }
       }
+
+      // HTML pages, whatever their extension
+      const head = buffer.toString('utf-8', 0, Math.min(512, buffer.length)).replace(/^\uFEFF/, '').trimStart().toLowerCase();
+      if (head.startsWith('<!doctype html') || head.startsWith('<html')) {
+        return 'text/html';
+      }
     }
 
     // Fall back to file extension if available
@@ -491,6 +632,15 @@ export const FileParserUtils = {
         'xls': 'application/vnd.ms-excel',
         'doc': 'application/msword',
         'ppt': 'application/vnd.ms-powerpoint',
+        'md': 'text/markdown',
+        'markdown': 'text/markdown',
+        'html': 'text/html',
+        'htm': 'text/html',
+        'txt': 'text/plain',
+        'eml': 'message/rfc822',
+        'json': 'application/json',
+        'ndjson': 'application/x-ndjson',
+        'jsonl': 'application/x-ndjson',
       };
       
       if (ext && mimeTypes[ext]) {
@@ -507,6 +657,50 @@ export const FileParserUtils = {
     return 'application/octet-stream';
   },
 
+  /**
+   * Check whether a buffer holds an Excel workbook rather than delimited text
+   */
+  isSpreadsheet(buffer: Buffer, fileName?: string): boolean {
+    const mimeType = this.detectMimeType(buffer, fileName);
+    return mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+      mimeType === 'application/vnd.ms-excel';
+  },
+
+  /**
+   * Check whether a buffer holds JSON or NDJSON records rather than delimited text
+   */
+  isJson(buffer: Buffer, fileName?: string): boolean {
+    const mimeType = this.detectMimeType(buffer, fileName);
+    if (mimeType === 'application/json' || mimeType === 'application/x-ndjson') return true;
+    if (mimeType !== 'text/csv' && mimeType !== 'application/octet-stream') return false;
+
+    // Exports saved without a .json extension
+    const start = buffer.toString('utf-8', 0, Math.min(buffer.length, 64)).replace(/^\uFEFF/, '').trimStart();
+    return start.startsWith('{') || /^\[\s*[{\[]/.test(start);
+  },
+
+  /**
+   * Convert the table blocks of a parser result into row records keyed by header
+   */
+  tableBlocksToRecords(result: TParserResult): Record<string, string>[] {
+    const records: Record<string, string>[] = [];
+
+    for (const block of result.blocks) {
+      if (block.content.type !== 'table') continue;
+
+      const { headers, rows } = block.content;
+      for (const row of rows) {
+        const record: Record<string, string> = {};
+        headers.forEach((header, index) => {
+          record[header] = row[index] ?? '';
+        });
+        records.push(record);
+      }
+    }
+
+    return records;
+  },
+
   /**
    * Validate file before parsing
    */
@@ -549,6 +743,8 @@ export const FileParserUtils = {
       estimatedParsingTime = Math.max(1, sizeMB * 2); // 2 seconds per MB for PDF
     } else if (detectedMimeType.includes('docx') || detectedMimeType.includes('pptx')) {
       estimatedParsingTime = Math.max(1, sizeMB * 1.5); // 1.5 seconds per MB for Office docs
+    } else if (detectedMimeType.includes('spreadsheetml') || detectedMimeType.includes('ms-excel')) {
+      estimatedParsingTime = Math.max(1, sizeMB * 1); // 1 second per MB for workbooks
     } else if (detectedMimeType.includes('csv')) {
       estimatedParsingTime = Math.max(0.5, sizeMB * 0.5); // 0.5 seconds per MB for CSV
     }
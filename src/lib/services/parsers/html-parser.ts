@@ -0,0 +1,606 @@
+import {
+  BaseFileParser,
+  IParserConfig,
+  TParserResult,
+  TParsedBlock,
+  TBaseMetadata
+} from './file-parser.interface';
+
+export interface IHtmlParserConfig extends IParserConfig {
+  stripBoilerplate?: boolean; // Drop navigation, headers, footers, sidebars and forms
+  mainContentOnly?: boolean; // Keep only <main> (or <article>) when the page has one
+  boilerplatePatterns?: string[]; // Extra class/id words marking boilerplate
+  minParagraphLength?: number;
+}
+
+interface IHtmlToken {
+  type: 'open' | 'close' | 'text';
+  name: string;
+  attributes: Record<string, string>;
+  text: string;
+}
+
+interface IHtmlTableState {
+  caption: string;
+  headers: string[] | null;
+  rows: string[][];
+  row: string[] | null;
+  cell: string[] | null;
+  headerRow: boolean; // Every cell of the current row so far is a <th>
+  inHead: boolean;
+  depth: number;
+}
+
+// Elements whose content is never document text
+const RAW_TEXT_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object'];
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Elements that end the paragraph being collected
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'header', 'hr', 'html', 'li', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'summary', 'table', 'tr', 'ul',
+]);
+
+const BOILERPLATE_ELEMENTS = new Set(['nav', 'aside', 'form', 'button', 'select', 'dialog', 'menu']);
+
+// Page-level header and footer; the same elements inside an article belong to it
+const PAGE_CHROME_ELEMENTS = new Set(['header', 'footer']);
+
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'search', 'complementary', 'menu']);
+
+const BOILERPLATE_PATTERNS = [
+  'nav', 'navbar', 'navigation', 'menu', 'breadcrumb', 'breadcrumbs', 'sidebar', 'footer', 'cookie',
+  'banner', 'toc', 'skip', 'share', 'social', 'pagination', 'comments',
+];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+  times: '×',
+};
+
+export class HtmlParser extends BaseFileParser {
+  readonly name = 'HTML Parser';
+  readonly version = '1.0.0';
+  readonly supportedMimeTypes = [
+    'text/html',
+    'application/xhtml+xml',
+  ];
+
+  protected getFeatures(): string[] {
+    return [
+      'Heading extraction with levels',
+      'List extraction',
+      'Table extraction',
+      'Navigation and boilerplate removal',
+      'Main content detection',
+      'Entity decoding',
+    ];
+  }
+
+  async parseFromBuffer(
+    buffer: Buffer,
+    fileName: string,
+    mimeType: string,
+    config?: IHtmlParserConfig
+  ): Promise<TParserResult> {
+    const startTime = Date.now();
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    try {
+      await this.validateFile(buffer, mimeType);
+
+      const htmlConfig: IHtmlParserConfig = {
+        stripBoilerplate: true,
+        mainContentOnly: true,
+        extractTables: true,
+        minParagraphLength: 1,
+        ...config,
+      };
+
+      const blocks = this.createBlocksFromHtml(buffer.toString('utf-8'), htmlConfig);
+
+      if (blocks.length === 0) {
+        warnings.push('No text content found in HTML document');
+      }
+
+      return this.createParserResult(
+        blocks,
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown HTML parsing error';
+      errors.push(errorMessage);
+
+      return this.createParserResult(
+        [],
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+    }
+  }
+
+  /**
+   * Walk the document and emit heading, text, list and table blocks in document order
+   */
+  private createBlocksFromHtml(html: string, config: IHtmlParserConfig): TParsedBlock[] {
+    const blocks: TParsedBlock[] = [];
+    const tokens = HtmlParser.tokenize(html);
+    const patterns = [...BOILERPLATE_PATTERNS, ...(config.boilerplatePatterns || [])];
+
+    const scopeElement = config.mainContentOnly ? this.findContentScope(tokens) : null;
+    let scopeDepth = 0;
+
+    let skip: { name: string; depth: number } | null = null;
+    let articleDepth = 0;
+    let preDepth = 0;
+    let blockNumber = 0;
+    let documentTitle = '';
+    let inTitle = false;
+
+    let paragraph: string[] = [];
+    let heading: { level: number; text: string[] } | null = null;
+    let list: { ordered: boolean; items: string[]; depth: number } | null = null;
+    let listItem: string[] = [];
+    let table: IHtmlTableState | null = null;
+
+    const metadata = (): TBaseMetadata => ({ paragraphNumber: ++blockNumber });
+
+    const flushParagraph = () => {
+      const text = this.normalizeText(paragraph.join(''), preDepth > 0);
+      paragraph = [];
+      if (text.length >= (config.minParagraphLength || 1)) {
+        blocks.push(this.createTextBlock(text, undefined, metadata()));
+      }
+    };
+
+    const flushListItem = () => {
+      const text = this.normalizeText(listItem.join(''), false);
+      listItem = [];
+      if (list && text.length > 0) {
+        list.items.push(text);
+      }
+    };
+
+    for (const token of tokens) {
+      if (token.type === 'open' && token.name === 'title') inTitle = true;
+      if (token.type === 'close' && token.name === 'title') inTitle = false;
+      if (inTitle && token.type === 'text') {
+        documentTitle += token.text;
+        continue;
+      }
+
+      // Content outside the main element, when the page has one
+      if (scopeElement) {
+        if (scopeDepth === 0) {
+          if (token.type === 'open' && this.isScopeElement(token, scopeElement)) scopeDepth = 1;
+          continue;
+        }
+        if (token.name === scopeElement.name) {
+          if (token.type === 'open') scopeDepth++;
+          if (token.type === 'close' && --scopeDepth === 0) {
+            flushParagraph();
+            continue;
+          }
+        }
+      }
+
+      // Navigation and other page chrome
+      if (skip) {
+        if (token.name === skip.name) {
+          if (token.type === 'open') skip.depth++;
+          if (token.type === 'close') skip.depth--;
+          if (skip.depth === 0) skip = null;
+        }
+        continue;
+      }
+      if (
+        token.type === 'open' &&
+        config.stripBoilerplate &&
+        !VOID_ELEMENTS.has(token.name) &&
+        this.isBoilerplate(token, articleDepth > 0 || scopeDepth > 0, patterns)
+      ) {
+        skip = { name: token.name, depth: 1 };
+        continue;
+      }
+
+      if (token.name === 'article' || token.name === 'main') {
+        if (token.type === 'open') articleDepth++;
+        if (token.type === 'close') articleDepth = Math.max(0, articleDepth - 1);
+      }
+
+      // Tables collect cells until they close; nested tables become cell text
+      if (table && config.extractTables) {
+        if (token.type === 'text') {
+          table.cell?.push(token.text);
+          continue;
+        }
+        if (token.name === 'table') {
+          if (token.type === 'open') {
+            table.depth++;
+            continue;
+          }
+          table.depth--;
+          if (table.depth > 0) continue;
+
+          blocks.push(...this.createTableBlocks(table, metadata));
+          table = null;
+          continue;
+        }
+        if (table.depth > 1) {
+          if (token.name === 'br' || token.name === 'td' || token.name === 'th') table.cell?.push(' ');
+          continue;
+        }
+
+        switch (token.name) {
+          case 'caption':
+            if (token.type === 'open') {
+              table.cell = [];
+            } else if (table.cell) {
+              table.caption = this.normalizeText(table.cell.join(''), false);
+              table.cell = null;
+            }
+            break;
+          case 'thead':
+            table.inHead = token.type === 'open';
+            break;
+          case 'tr':
+            if (token.type === 'open') {
+              table.row = [];
+              table.headerRow = true;
+            } else if (table.row) {
+              if (table.cell) {
+                table.row.push(this.normalizeText(table.cell.join(''), false));
+                table.cell = null;
+              }
+              if (table.row.some(cell => cell.length > 0)) {
+                if (!table.headers && table.rows.length === 0 && (table.inHead || table.headerRow)) {
+                  table.headers = table.row;
+                } else {
+                  table.rows.push(table.row);
+                }
+              }
+              table.row = null;
+            }
+            break;
+          case 'th':
+          case 'td':
+            if (token.type === 'open') {
+              if (!table.row) {
+                table.row = [];
+                table.headerRow = true;
+              }
+              if (table.cell) table.row.push(this.normalizeText(table.cell.join(''), false));
+              table.cell = [];
+              if (token.name === 'td') table.headerRow = false;
+            } else if (table.cell && table.row) {
+              table.row.push(this.normalizeText(table.cell.join(''), false));
+              table.cell = null;
+            }
+            break;
+          case 'br':
+            table.cell?.push(' ');
+            break;
+        }
+        continue;
+      }
+
+      if (token.type === 'text') {
+        if (heading) {
+          heading.text.push(token.text);
+        } else if (list) {
+          listItem.push(token.text);
+        } else {
+          paragraph.push(token.text);
+        }
+        continue;
+      }
+
+      const headingMatch = /^h([1-6])$/.exec(token.name);
+      if (headingMatch) {
+        if (token.type === 'open' && !list) {
+          flushParagraph();
+          heading = { level: parseInt(headingMatch[1], 10), text: [] };
+        } else if (token.type === 'close' && heading) {
+          const text = this.normalizeText(heading.text.join(''), false);
+          if (text.length > 0) {
+            blocks.push(this.createHeadingBlock(text, heading.level, metadata()));
+          }
+          heading = null;
+        }
+        continue;
+      }
+
+      switch (token.name) {
+        case 'ul':
+        case 'ol':
+          if (token.type === 'open') {
+            if (list) {
+              flushListItem();
+              list.depth++;
+            } else {
+              flushParagraph();
+              list = { ordered: token.name === 'ol', items: [], depth: 1 };
+            }
+          } else if (list) {
+            flushListItem();
+            list.depth--;
+            if (list.depth === 0) {
+              if (list.items.length > 0) {
+                blocks.push(this.createListBlock(list.items, list.ordered, undefined, metadata()));
+              }
+              list = null;
+            }
+          }
+          continue;
+        case 'li':
+          if (list) flushListItem();
+          continue;
+        case 'table':
+          if (token.type === 'open' && config.extractTables) {
+            flushParagraph();
+            table = { caption: '', headers: null, rows: [], row: null, cell: null, headerRow: false, inHead: false, depth: 1 };
+          }
+          continue;
+        case 'pre':
+          flushParagraph();
+          preDepth = Math.max(0, preDepth + (token.type === 'open' ? 1 : -1));
+          continue;
+        case 'br':
+          if (heading) heading.text.push(' ');
+          else if (list) listItem.push(' ');
+          else paragraph.push('\n');
+          continue;
+      }
+
+      if (BLOCK_ELEMENTS.has(token.name)) {
+        if (list) listItem.push(' ');
+        else flushParagraph();
+      } else if (token.name === 'td' || token.name === 'th') {
+        // Cells of tables left as text; other inline elements run into their neighbours
+        paragraph.push(' ');
+      }
+    }
+
+    if (list) {
+      flushListItem();
+      if (list.items.length > 0) {
+        blocks.push(this.createListBlock(list.items, list.ordered, undefined, metadata()));
+      }
+    }
+    if (table) {
+      blocks.push(...this.createTableBlocks(table, metadata));
+    }
+    flushParagraph();
+
+    // Wiki exports often carry the page name only in <title>
+    const title = this.normalizeText(documentTitle, false);
+    const hasTopHeading = blocks.some(block => block.content.type === 'heading' && block.content.level === 1);
+    if (title && !hasTopHeading) {
+      blocks.unshift(this.createHeadingBlock(title, 1, { paragraphNumber: 0 }));
+    }
+
+    return blocks;
+  }
+
+  /**
+   * A table with a header becomes a table block; single-column layout tables become text
+   */
+  private createTableBlocks(table: IHtmlTableState, metadata: () => TBaseMetadata): TParsedBlock[] {
+    const { caption, headers, rows } = table;
+    const allRows = headers ? [headers, ...rows] : rows;
+    if (allRows.length === 0) return [];
+
+    const columns = Math.max(...allRows.map(row => row.length));
+    if (columns < 2) {
+      const text = allRows.map(row => row.join(' ')).filter(line => line.length > 0).join('\n');
+      return text ? [this.createTextBlock(text, caption || undefined, metadata())] : [];
+    }
+
+    const tableHeaders = headers || allRows[0];
+    const tableRows = headers ? rows : allRows.slice(1);
+    return [this.createTableBlock(tableHeaders, tableRows, caption || undefined, metadata())];
+  }
+
+  /**
+   * The element holding the page's own content: <main> (or role="main"), else <article>
+   */
+  private findContentScope(tokens: IHtmlToken[]): { name: string; role?: string } | null {
+    const main = tokens.find(token => token.type === 'open' && (token.name === 'main' || token.attributes.role === 'main'));
+    if (main) {
+      return main.name === 'main' ? { name: 'main' } : { name: main.name, role: 'main' };
+    }
+
+    const article = tokens.find(token => token.type === 'open' && token.name === 'article');
+    return article ? { name: 'article' } : null;
+  }
+
+  private isScopeElement(token: IHtmlToken, scope: { name: string; role?: string }): boolean {
+    return token.name === scope.name && (!scope.role || token.attributes.role === scope.role);
+  }
+
+  private isBoilerplate(token: IHtmlToken, inArticle: boolean, patterns: string[]): boolean {
+    if (BOILERPLATE_ELEMENTS.has(token.name)) return true;
+    if (PAGE_CHROME_ELEMENTS.has(token.name) && !inArticle) return true;
+
+    const role = token.attributes.role?.toLowerCase();
+    if (role && BOILERPLATE_ROLES.has(role)) return true;
+    if (token.attributes['aria-hidden'] === 'true' || 'hidden' in token.attributes) return true;
+
+    const words = `${token.attributes.class || ''} ${token.attributes.id || ''}`
+      .toLowerCase()
+      .split(/[\s_-]+/)
+      .filter(word => word.length > 0);
+    return words.some(word => patterns.includes(word));
+  }
+
+  private normalizeText(text: string, preserveWhitespace: boolean): string {
+    if (preserveWhitespace) {
+      return text.replace(/^\n+|\s+$/g, '');
+    }
+    return text
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(line => line.length > 0)
+      .join('\n');
+  }
+
+  async validateFile(buffer: Buffer, mimeType: string): Promise<void> {
+    await super.validateFile(buffer, mimeType);
+
+    // Binary content is not HTML
+    const sample = buffer.subarray(0, Math.min(buffer.length, 1024));
+    if (sample.includes(0)) {
+      throw new Error('File does not appear to be an HTML document');
+    }
+  }
+
+  /**
+   * Split markup into open tag, close tag and decoded text tokens. Comments and the content of
+   * scripts, styles and other non-text elements are dropped.
+   */
+  static tokenize(html: string): IHtmlToken[] {
+    const cleaned = html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '')
+      .replace(/<![^>]*>/g, '')
+      .replace(/<\?[\s\S]*?\?>/g, '')
+      .replace(new RegExp(`<(${RAW_TEXT_ELEMENTS.join('|')})\\b[^>]*>[\\s\\S]*?<\\/\\1\\s*>`, 'gi'), '');
+
+    const tokens: IHtmlToken[] = [];
+    const tagRegex = /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+    let lastIndex = 0;
+    let match;
+
+    while ((match = tagRegex.exec(cleaned)) !== null) {
+      if (match.index > lastIndex) {
+        tokens.push({ type: 'text', name: '', attributes: {}, text: HtmlParser.decodeEntities(cleaned.slice(lastIndex, match.index)) });
+      }
+      lastIndex = tagRegex.lastIndex;
+
+      const name = match[2].toLowerCase();
+      if (match[1]) {
+        tokens.push({ type: 'close', name, attributes: {}, text: '' });
+        continue;
+      }
+
+      tokens.push({ type: 'open', name, attributes: HtmlParser.parseAttributes(match[3]), text: '' });
+      if (!VOID_ELEMENTS.has(name) && /\/\s*$/.test(match[3])) {
+        tokens.push({ type: 'close', name, attributes: {}, text: '' });
+      }
+    }
+
+    if (lastIndex < cleaned.length) {
+      tokens.push({ type: 'text', name: '', attributes: {}, text: HtmlParser.decodeEntities(cleaned.slice(lastIndex)) });
+    }
+
+    return tokens;
+  }
+
+  private static parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const attributeRegex = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+    let match;
+
+    while ((match = attributeRegex.exec(source)) !== null) {
+      attributes[match[1].toLowerCase()] = HtmlParser.decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Decode named and numeric character references
+   */
+  static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+      }
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+
+  /**
+   * Plain text of an HTML fragment
+   */
+  static stripTags(html: string): string {
+    return HtmlParser.tokenize(html)
+      .filter(token => token.type === 'text')
+      .map(token => token.text)
+      .join('');
+  }
+
+  /**
+   * Plain text of an HTML fragment with a line per block, and each line inside a blockquote
+   * marked with '>' per level, the way mail clients quote replies in plain text
+   */
+  static toText(html: string): string {
+    const lines: string[] = [];
+    let line = '';
+    let quoteDepth = 0;
+
+    const endLine = (paragraph = false) => {
+      const text = line.replace(/\s+/g, ' ').trim();
+      const prefix = '>'.repeat(quoteDepth);
+      if (text) {
+        lines.push(prefix ? `${prefix} ${text}` : text);
+      } else if (paragraph && lines.length > 0 && lines[lines.length - 1] !== prefix) {
+        lines.push(prefix);
+      }
+      line = '';
+    };
+
+    for (const token of HtmlParser.tokenize(html)) {
+      if (token.type === 'text') {
+        line += token.text;
+      } else if (token.name === 'br') {
+        endLine();
+      } else if (token.name === 'td' || token.name === 'th') {
+        line += ' ';
+      } else if (BLOCK_ELEMENTS.has(token.name) || /^h[1-6]$/.test(token.name)) {
+        endLine(token.type === 'close' && token.name === 'p');
+        if (token.name === 'blockquote') {
+          quoteDepth = Math.max(0, quoteDepth + (token.type === 'open' ? 1 : -1));
+        }
+      }
+    }
+    endLine();
+
+    return lines.join('\n').trim();
+  }
+}
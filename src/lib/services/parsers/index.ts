@@ -1,3 +1,31 @@
+import { Readable } from 'stream';
+
+import { CsvParser, type ICsvParserConfig, type ICsvStreamRow } from './csv-parser';
+import { DocxParser, type IDocxParserConfig } from './docx-parser';
+import { EmlParser, type IEmlParserConfig } from './eml-parser';
+import { ExcelParser, type IExcelParserConfig } from './excel-parser';
+import {
+  parsedBlockSchema,
+  parserResultSchema,
+  parserErrorSchema,
+  type IParserConfig,
+  type TParsedBlock,
+  type TParserResult,
+  type TParserError,
+} from './file-parser.interface';
+import {
+  FileParserService,
+  fileParserService,
+  FileParserUtils,
+  type IFileParserServiceConfig,
+} from './file-parser.service';
+import { HtmlParser, type IHtmlParserConfig } from './html-parser';
+import { JsonParser, type IJsonParserConfig } from './json-parser';
+import { MarkdownParser, type IMarkdownParserConfig } from './markdown-parser';
+import { PdfParser, type IPdfParserConfig } from './pdf-parser';
+import { PptxParser, type IPptxParserConfig } from './pptx-parser';
+import { TextParser, type ITextParserConfig } from './text-parser';
+
 // Main service export
 export { 
   FileParserService, 
@@ -16,6 +44,8 @@ export {
   type TParserResult,
   type TParserError,
   type TBaseMetadata,
+  type TEmailMetadata,
+  type TDocumentPart,
   BaseFileParser,
   parsedBlockSchema,
   parserResultSchema,
@@ -26,6 +56,7 @@ export {
 export { 
   CsvParser,
   type ICsvParserConfig,
+  type ICsvStreamRow,
 } from './csv-parser';
 
 export { 
@@ -43,6 +74,50 @@ export {
   type IPptxParserConfig,
 } from './pptx-parser';
 
+export {
+  ExcelParser,
+  type IExcelParserConfig,
+  type IExcelSheetData,
+} from './excel-parser';
+
+export {
+  MarkdownParser,
+  type IMarkdownParserConfig,
+} from './markdown-parser';
+
+export {
+  HtmlParser,
+  type IHtmlParserConfig,
+} from './html-parser';
+
+export {
+  TextParser,
+  type ITextParserConfig,
+} from './text-parser';
+
+export {
+  EmlParser,
+  type IEmlParserConfig,
+  type IEmlAttachmentParser,
+} from './eml-parser';
+
+export {
+  JsonParser,
+  type IJsonParserConfig,
+  type IJsonRecordSet,
+} from './json-parser';
+
+export {
+  OfficePackage,
+  type IOfficeComment,
+} from './office-package';
+
+export {
+  ParserSandbox,
+  type IParserSandboxLimits,
+  type IArchiveSize,
+} from './parser-sandbox';
+
 // Utility functions for quick access
 export const ParserFactory = {
   /**
@@ -77,6 +152,54 @@ export const ParserFactory = {
     return parser;
   },
 
+  /**
+   * Create an Excel parser; its config is given per parse
+   */
+  createExcelParser: () => {
+    const parser = new ExcelParser();
+    return parser;
+  },
+
+  /**
+   * Create a Markdown parser; its config is given per parse
+   */
+  createMarkdownParser: () => {
+    const parser = new MarkdownParser();
+    return parser;
+  },
+
+  /**
+   * Create an HTML parser; its config is given per parse
+   */
+  createHtmlParser: () => {
+    const parser = new HtmlParser();
+    return parser;
+  },
+
+  /**
+   * Create a plain-text parser; its config is given per parse
+   */
+  createTextParser: () => {
+    const parser = new TextParser();
+    return parser;
+  },
+
+  /**
+   * Create an email parser whose attachments are parsed by the shared file parser service
+   */
+  createEmlParser: () => {
+    const parser = new EmlParser(fileParserService);
+    return parser;
+  },
+
+  /**
+   * Create JSON/NDJSON parser
+   */
+  createJsonParser: () => {
+    const parser = new JsonParser();
+    return parser;
+  },
+
   /**
    * Create the main file parser service with custom config
    */
@@ -95,6 +218,14 @@ export const QuickParse = {
     return parser.parseFromBuffer(buffer, fileName, 'text/csv', config);
   },
 
+  /**
+   * Stream CSV rows from a buffer or readable stream, with backpressure
+   */
+  csvRows: (source: Buffer | Readable, config?: ICsvParserConfig): AsyncGenerator<ICsvStreamRow> => {
+    const parser = new CsvParser();
+    return parser.streamRows(source, config);
+  },
+
   /**
    * Parse PDF from buffer
    */
@@ -119,6 +250,78 @@ export const QuickParse = {
     return parser.parseFromBuffer(buffer, fileName, 'application/vnd.openxmlformats-officedocument.presentationml.presentation', config);
   },
 
+  /**
+   * Parse an Excel workbook (XLSX or XLS) from buffer
+   */
+  excel: async (buffer: Buffer, fileName: string, config?: IExcelParserConfig): Promise<TParserResult> => {
+    const parser = new ExcelParser();
+    const mimeType = fileName.toLowerCase().endsWith('.xls')
+      ? 'application/vnd.ms-excel'
+      : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    return parser.parseFromBuffer(buffer, fileName, mimeType, config);
+  },
+
+  /**
+   * Parse Markdown from buffer
+   */
+  markdown: async (buffer: Buffer, fileName: string, config?: IMarkdownParserConfig): Promise<TParserResult> => {
+    const parser = new MarkdownParser();
+    return parser.parseFromBuffer(buffer, fileName, 'text/markdown', config);
+  },
+
+  /**
+   * Parse an HTML page from buffer, without its navigation and other boilerplate
+   */
+  html: async (buffer: Buffer, fileName: string, config?: IHtmlParserConfig): Promise<TParserResult> => {
+    const parser = new HtmlParser();
+    return parser.parseFromBuffer(buffer, fileName, 'text/html', config);
+  },
+
+  /**
+   * Parse plain text from buffer
+   */
+  text: async (buffer: Buffer, fileName: string, config?: ITextParserConfig): Promise<TParserResult> => {
+    const parser = new TextParser();
+    return parser.parseFromBuffer(buffer, fileName, 'text/plain', config);
+  },
+
+  /**
+   * Parse an .eml email from buffer, with its quoted replies and attachments as separate blocks
+   */
+  eml: async (buffer: Buffer, fileName: string, config?: IEmlParserConfig): Promise<TParserResult> => {
+    const parser = new EmlParser(fileParserService);
+    return parser.parseFromBuffer(buffer, fileName, 'message/rfc822', config);
+  },
+
+  /**
+   * Parse JSON or NDJSON records from buffer into a table with dotted columns for nested fields
+   */
+  json: async (buffer: Buffer, fileName: string, config?: IJsonParserConfig): Promise<TParserResult> => {
+    const parser = new JsonParser();
+    const mimeType = JsonParser.isNdjson(buffer.toString('utf-8'), fileName)
+      ? 'application/x-ndjson'
+      : 'application/json';
+    return parser.parseFromBuffer(buffer, fileName, mimeType, config);
+  },
+
+  /**
+   * Parse tabular data, picking the Excel parser for workbooks, the JSON parser for JSON
+   * and NDJSON, and CSV otherwise
+   */
+  tabular: async (
+    buffer: Buffer,
+    fileName: string,
+    config?: ICsvParserConfig & IExcelParserConfig & IJsonParserConfig
+  ): Promise<TParserResult> => {
+    if (FileParserUtils.isSpreadsheet(buffer, fileName)) {
+      return QuickParse.excel(buffer, fileName, config);
+    }
+    if (FileParserUtils.isJson(buffer, fileName)) {
+      return QuickParse.json(buffer, fileName, config);
+    }
+    return QuickParse.csv(buffer, fileName, config);
+  },
+
   /**
    * Auto-detect and parse any supported file
    */
@@ -140,6 +343,15 @@ export const SUPPORTED_MIME_TYPES = [
   'application/vnd.ms-excel',
   'application/msword',
   'application/vnd.ms-powerpoint',
+  'text/markdown',
+  'text/x-markdown',
+  'text/html',
+  'application/xhtml+xml',
+  'text/plain',
+  'message/rfc822',
+  'application/json',
+  'application/x-ndjson',
+  'application/jsonl',
 ] as const;
 
 export const SUPPORTED_EXTENSIONS = [
@@ -151,6 +363,15 @@ export const SUPPORTED_EXTENSIONS = [
   '.xls',
   '.doc',
   '.ppt',
+  '.md',
+  '.markdown',
+  '.html',
+  '.htm',
+  '.txt',
+  '.eml',
+  '.json',
+  '.ndjson',
+  '.jsonl',
 ] as const;
 
 // Re-export specific types from individual parsers
@@ -205,6 +426,7 @@ export const DEFAULT_CONFIGS = {
     mergeLines: true,
     detectHeadings: true,
     detectLists: true,
+    extractTables: true,
   } as IPdfParserConfig,
 
   docx: {
@@ -212,8 +434,9 @@ export const DEFAULT_CONFIGS = {
     preserveFormatting: true,
     convertImages: false,
     extractTables: true,
-    extractHeaders: false,
-    extractFooters: false,
+    extractHeaders: true,
+    extractFooters: true,
+    extractComments: true,
     detectLists: true,
     minParagraphLength: 5,
   } as IDocxParserConfig,
@@ -221,16 +444,53 @@ export const DEFAULT_CONFIGS = {
   pptx: {
     extractImages: false,
     extractTables: true,
-    extractNotes: false,
+    extractNotes: true,
+    extractComments: true,
     combineSlides: false,
     minTextLength: 3,
     detectTitles: true,
     includeSlideNumbers: true,
   } as IPptxParserConfig,
 
+  excel: {
+    headerRow: 'auto',
+    hasHeaders: true,
+    skipEmptyLines: true,
+    maxRows: 10000,
+    inferTypes: true,
+  } as IExcelParserConfig,
+
+  markdown: {
+    includeCodeBlocks: true,
+    extractTables: true,
+  } as IMarkdownParserConfig,
+
+  html: {
+    stripBoilerplate: true,
+    mainContentOnly: true,
+    extractTables: true,
+  } as IHtmlParserConfig,
+
+  text: {
+    detectHeadings: true,
+    detectLists: true,
+    detectTables: true,
+  } as ITextParserConfig,
+
+  eml: {
+    splitQuotedReplies: true,
+    parseAttachments: true,
+    maxAttachmentDepth: 3,
+  } as IEmlParserConfig,
+
+  json: {
+    maxDepth: 5,
+    maxRows: 10000,
+  } as IJsonParserConfig,
+
   service: {
     maxFileSize: 50 * 1024 * 1024, // 50MB
     timeout: 5 * 60 * 1000, // 5 minutes
-    enabledParsers: ['csv', 'pdf', 'docx', 'pptx'],
+    enabledParsers: ['csv', 'pdf', 'docx', 'pptx', 'excel', 'markdown', 'html', 'text', 'eml', 'json'],
   } as IFileParserServiceConfig,
 } as const;
\ No newline at end of file
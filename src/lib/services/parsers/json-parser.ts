@@ -0,0 +1,264 @@
+import {
+  BaseFileParser,
+  IParserConfig,
+  TParserResult,
+  TParsedBlock,
+  TBaseMetadata
+} from './file-parser.interface';
+
+export interface IJsonParserConfig extends IParserConfig {
+  recordPath?: string; // Dotted path to the array of records, e.g. "data.accounts" (default: detected)
+  maxDepth?: number; // Nesting levels flattened into dotted columns; deeper values are kept as JSON
+  maxRows?: number; // 0 for all records
+}
+
+export interface IJsonRecordSet {
+  recordPath?: string; // Path the records were read from, when not the document itself
+  headers: string[];
+  rows: Record<string, string>[];
+  truncated: boolean;
+}
+
+const NDJSON_EXTENSIONS = ['.ndjson', '.jsonl'];
+
+export class JsonParser extends BaseFileParser {
+  readonly name = 'JSON Parser';
+  readonly version = '1.0.0';
+  readonly supportedMimeTypes = [
+    'application/json',
+    'application/x-ndjson',
+    'application/jsonl',
+  ];
+
+  protected getFeatures(): string[] {
+    return [
+      'JSON arrays and newline-delimited JSON (NDJSON)',
+      'Record path selection, or detection of the records array in API responses',
+      'Nested objects flattened into dotted columns',
+      'Row limits',
+    ];
+  }
+
+  async parseFromBuffer(
+    buffer: Buffer,
+    fileName: string,
+    mimeType: string,
+    config?: IJsonParserConfig
+  ): Promise<TParserResult> {
+    const startTime = Date.now();
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    try {
+      await this.validateFile(buffer, mimeType);
+
+      const jsonConfig: IJsonParserConfig = {
+        maxDepth: 5,
+        maxRows: 10000,
+        ...config,
+      };
+
+      const text = buffer.toString('utf-8').replace(/^\uFEFF/, '');
+      const documents = JsonParser.isNdjson(text, fileName, mimeType)
+        ? JsonParser.parseLines(text, warnings)
+        : [JSON.parse(text)];
+
+      const recordSet = JsonParser.readRecords(documents, jsonConfig, warnings);
+      if (recordSet.truncated) {
+        warnings.push(`Records truncated to ${jsonConfig.maxRows} rows`);
+      }
+
+      const blocks = recordSet.rows.length > 0 ? this.createBlocksFromRecords(recordSet) : [];
+      if (blocks.length === 0) {
+        warnings.push('No records found in JSON file');
+      }
+
+      return this.createParserResult(
+        blocks,
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown JSON parsing error';
+      errors.push(errorMessage);
+
+      return this.createParserResult(
+        [],
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+    }
+  }
+
+  private createBlocksFromRecords(recordSet: IJsonRecordSet): TParsedBlock[] {
+    const metadata: TBaseMetadata = {
+      source: 'json-parser',
+      confidence: 1.0,
+    };
+    const label = recordSet.recordPath || 'root';
+
+    let summary = `JSON file contains ${recordSet.rows.length} records and ${recordSet.headers.length} columns`;
+    summary += recordSet.recordPath ? ` at "${recordSet.recordPath}".\n\n` : '.\n\n';
+    summary += `Columns: ${recordSet.headers.join(', ')}`;
+
+    return [
+      this.createTextBlock(summary, `Records Summary: ${label}`, metadata),
+      this.createTableBlock(
+        recordSet.headers,
+        recordSet.rows.map(row => recordSet.headers.map(header => row[header] ?? '')),
+        `Records: ${label}`,
+        metadata
+      ),
+    ];
+  }
+
+  async validateFile(buffer: Buffer, mimeType: string): Promise<void> {
+    await super.validateFile(buffer, mimeType);
+
+    const start = buffer.toString('utf-8', 0, Math.min(buffer.length, 64)).replace(/^\uFEFF/, '').trimStart();
+    if (!start.startsWith('{') && !start.startsWith('[')) {
+      throw new Error('File does not appear to be JSON: expected an object or array');
+    }
+  }
+
+  // Utility method to tell newline-delimited JSON from a single document: by extension or
+  // MIME type, else when the text is not one document but its first line is one
+  static isNdjson(text: string, fileName?: string, mimeType?: string): boolean {
+    if (mimeType === 'application/x-ndjson' || mimeType === 'application/jsonl') return true;
+    if (fileName && NDJSON_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension))) return true;
+
+    const firstLine = text.trimStart().split('\n', 1)[0];
+    if (firstLine.length === text.trim().length) return false;
+    try {
+      JSON.parse(text);
+      return false;
+    } catch {
+      try {
+        JSON.parse(firstLine);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+  }
+
+  // Utility method to parse one JSON document per non-empty line; invalid lines become warnings
+  static parseLines(text: string, warnings: string[] = []): unknown[] {
+    const documents: unknown[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        documents.push(JSON.parse(line));
+      } catch {
+        warnings.push(`Line ${index + 1} is not valid JSON and was skipped`);
+      }
+    });
+    return documents;
+  }
+
+  // Utility method to collect flattened records from parsed documents. The record path is
+  // applied to each document, so NDJSON pages of an API response work like a single array.
+  static readRecords(documents: unknown[], config: IJsonParserConfig = {}, warnings: string[] = []): IJsonRecordSet {
+    const recordPath = config.recordPath ?? (documents.length === 1 ? JsonParser.detectRecordPath(documents[0]) : undefined);
+    const headers: string[] = [];
+    const seen = new Set<string>();
+    const rows: Record<string, string>[] = [];
+    const limit = config.maxRows || Infinity;
+    let total = 0;
+
+    for (const document of documents) {
+      const selected = recordPath ? JsonParser.getPath(document, recordPath) : document;
+      if (selected === undefined) {
+        warnings.push(`Record path "${recordPath}" not found`);
+        continue;
+      }
+
+      for (const record of Array.isArray(selected) ? selected : [selected]) {
+        total++;
+        if (rows.length >= limit) continue;
+
+        const row = JsonParser.flattenRecord(record, config.maxDepth ?? 5);
+        for (const header of Object.keys(row)) {
+          if (!seen.has(header)) {
+            seen.add(header);
+            headers.push(header);
+          }
+        }
+        rows.push(row);
+      }
+    }
+
+    return { recordPath, headers, rows, truncated: total > rows.length };
+  }
+
+  // Utility method to find the records of an API response such as { "data": [...], "paging": {...} }:
+  // the first property holding an array of objects, searched breadth first
+  static detectRecordPath(document: unknown): string | undefined {
+    if (!JsonParser.isObject(document)) return undefined;
+
+    const queue: Array<{ value: Record<string, unknown>; path: string[] }> = [{ value: document, path: [] }];
+    while (queue.length > 0) {
+      const { value, path } = queue.shift() as { value: Record<string, unknown>; path: string[] };
+      for (const [key, child] of Object.entries(value)) {
+        if (Array.isArray(child) && child.length > 0 && child.every(JsonParser.isObject)) {
+          return [...path, key].join('.');
+        }
+        if (JsonParser.isObject(child) && path.length < 3) {
+          queue.push({ value: child, path: [...path, key] });
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  // Utility method to read a dotted path; numeric segments index arrays ("data.0.items")
+  static getPath(value: unknown, path: string): unknown {
+    return path.split('.').filter(Boolean).reduce<unknown>((current, segment) => {
+      if (Array.isArray(current) && /^\d+$/.test(segment)) return current[Number(segment)];
+      return JsonParser.isObject(current) ? current[segment] : undefined;
+    }, value);
+  }
+
+  // Utility method to flatten a record into string cells keyed by dotted path. Arrays of plain
+  // values are joined with commas; other arrays, and objects below maxDepth, are kept as JSON.
+  static flattenRecord(record: unknown, maxDepth: number = 5): Record<string, string> {
+    const row: Record<string, string> = {};
+
+    const visit = (value: unknown, path: string, depth: number) => {
+      if (JsonParser.isObject(value) && depth < maxDepth && Object.keys(value).length > 0) {
+        for (const [key, child] of Object.entries(value)) {
+          visit(child, path ? `${path}.${key}` : key, depth + 1);
+        }
+        return;
+      }
+      row[path || 'value'] = JsonParser.toCell(value);
+    };
+
+    visit(record, '', 0);
+    return row;
+  }
+
+  private static toCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) {
+      return value.every(item => item === null || typeof item !== 'object')
+        ? value.filter(item => item !== null && item !== undefined).join(', ')
+        : JSON.stringify(value);
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
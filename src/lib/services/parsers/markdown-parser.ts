@@ -0,0 +1,344 @@
+import {
+  BaseFileParser,
+  IParserConfig,
+  TParserResult,
+  TParsedBlock
+} from './file-parser.interface';
+import { HtmlParser } from './html-parser';
+
+export interface IMarkdownParserConfig extends IParserConfig {
+  includeCodeBlocks?: boolean; // Keep fenced code as text blocks
+  minParagraphLength?: number;
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const LIST_ITEM = /^([ \t]*)([-*+]|\d{1,9}[.)])[ \t]+(.*)$/;
+const BLOCKQUOTE = /^ {0,3}>[ \t]?(.*)$/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LINK_DEFINITION = /^ {0,3}\[[^\]]+\]:[ \t]*\S+/;
+
+export class MarkdownParser extends BaseFileParser {
+  readonly name = 'Markdown Parser';
+  readonly version = '1.0.0';
+  readonly supportedMimeTypes = [
+    'text/markdown',
+    'text/x-markdown',
+  ];
+
+  protected getFeatures(): string[] {
+    return [
+      'ATX and setext headings with levels',
+      'Ordered, unordered and task lists',
+      'GitHub-flavoured tables',
+      'Fenced code blocks',
+      'Front matter removal',
+      'Inline formatting removal',
+    ];
+  }
+
+  async parseFromBuffer(
+    buffer: Buffer,
+    fileName: string,
+    mimeType: string,
+    config?: IMarkdownParserConfig
+  ): Promise<TParserResult> {
+    const startTime = Date.now();
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    try {
+      await this.validateFile(buffer, mimeType);
+
+      const markdownConfig: IMarkdownParserConfig = {
+        includeCodeBlocks: true,
+        extractTables: true,
+        minParagraphLength: 1,
+        ...config,
+      };
+
+      const text = buffer.toString('utf-8').replace(/^\uFEFF/, '');
+      const blocks = this.createBlocksFromMarkdown(text, markdownConfig, warnings);
+
+      if (blocks.length === 0) {
+        warnings.push('No text content found in Markdown document');
+      }
+
+      return this.createParserResult(
+        blocks,
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown Markdown parsing error';
+      errors.push(errorMessage);
+
+      return this.createParserResult(
+        [],
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+    }
+  }
+
+  /**
+   * Read the document line by line into heading, text, list and table blocks
+   */
+  private createBlocksFromMarkdown(
+    text: string,
+    config: IMarkdownParserConfig,
+    warnings: string[]
+  ): TParsedBlock[] {
+    const blocks: TParsedBlock[] = [];
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+    let paragraph: string[] = [];
+    let paragraphStart = 0;
+
+    const flushParagraph = () => {
+      const content = MarkdownParser.toPlainText(paragraph.join(' '));
+      if (content.length >= (config.minParagraphLength || 1)) {
+        blocks.push(this.createTextBlock(content, undefined, { lineNumber: paragraphStart + 1 }));
+      }
+      paragraph = [];
+    };
+
+    let i = this.skipFrontMatter(lines);
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (line.trim().length === 0) {
+        flushParagraph();
+        i++;
+        continue;
+      }
+
+      // Setext headings underline the paragraph above them
+      const setext = SETEXT_UNDERLINE.exec(line);
+      if (setext && paragraph.length > 0) {
+        const headingText = MarkdownParser.toPlainText(paragraph.join(' '));
+        paragraph = [];
+        if (headingText) {
+          blocks.push(this.createHeadingBlock(headingText, setext[1][0] === '=' ? 1 : 2, { lineNumber: paragraphStart + 1 }));
+        }
+        i++;
+        continue;
+      }
+
+      if (THEMATIC_BREAK.test(line) || LINK_DEFINITION.test(line)) {
+        flushParagraph();
+        i++;
+        continue;
+      }
+
+      const atx = ATX_HEADING.exec(line);
+      if (atx) {
+        flushParagraph();
+        const headingText = MarkdownParser.toPlainText(atx[2] || '');
+        if (headingText) {
+          blocks.push(this.createHeadingBlock(headingText, atx[1].length, { lineNumber: i + 1 }));
+        }
+        i++;
+        continue;
+      }
+
+      const fence = FENCE.exec(line);
+      if (fence) {
+        flushParagraph();
+        const start = i;
+        const code: string[] = [];
+        i++;
+        while (i < lines.length && !this.closesFence(lines[i], fence[1])) {
+          code.push(lines[i]);
+          i++;
+        }
+        if (i >= lines.length) {
+          warnings.push(`Code block opened on line ${start + 1} is never closed`);
+        }
+        i++;
+
+        const codeText = code.join('\n').replace(/\s+$/, '');
+        if (config.includeCodeBlocks && codeText.length > 0) {
+          const title = fence[2] ? `Code (${fence[2]})` : 'Code';
+          blocks.push(this.createTextBlock(codeText, title, { lineNumber: start + 1 }));
+        }
+        continue;
+      }
+
+      if (
+        config.extractTables &&
+        paragraph.length === 0 &&
+        line.includes('|') &&
+        i + 1 < lines.length &&
+        TABLE_DELIMITER.test(lines[i + 1]) &&
+        lines[i + 1].includes('|')
+      ) {
+        const start = i;
+        const headers = this.splitTableRow(line);
+        const rows: string[][] = [];
+        i += 2;
+        while (i < lines.length && lines[i].trim().length > 0 && lines[i].includes('|')) {
+          const cells = this.splitTableRow(lines[i]);
+          rows.push(headers.map((_, index) => cells[index] ?? ''));
+          i++;
+        }
+        blocks.push(this.createTableBlock(headers, rows, undefined, { lineNumber: start + 1 }));
+        continue;
+      }
+
+      const quote = BLOCKQUOTE.exec(line);
+      if (quote && paragraph.length === 0) {
+        const start = i;
+        const quoted: string[] = [];
+        while (i < lines.length && lines[i].trim().length > 0) {
+          const quoteLine = BLOCKQUOTE.exec(lines[i]);
+          quoted.push(quoteLine ? quoteLine[1] : lines[i]);
+          i++;
+        }
+        const quoteText = MarkdownParser.toPlainText(quoted.join(' '));
+        if (quoteText) {
+          blocks.push(this.createTextBlock(quoteText, undefined, { lineNumber: start + 1 }));
+        }
+        continue;
+      }
+
+      const item = LIST_ITEM.exec(line);
+      if (item && (paragraph.length === 0 || !/^\d/.test(item[2]) || item[2].startsWith('1'))) {
+        flushParagraph();
+        const start = i;
+        const { items, ordered, nextLine } = this.readList(lines, i);
+        blocks.push(this.createListBlock(items, ordered, undefined, { lineNumber: start + 1 }));
+        i = nextLine;
+        continue;
+      }
+
+      if (paragraph.length === 0) {
+        paragraphStart = i;
+      }
+      paragraph.push(line);
+      i++;
+    }
+
+    flushParagraph();
+    return blocks;
+  }
+
+  /**
+   * Collect a list and its nested items, which follow their parent item. Continuation lines
+   * join the item above them; a blank line ends the list unless another item follows.
+   */
+  private readList(lines: string[], start: number): { items: string[]; ordered: boolean; nextLine: number } {
+    const items: string[] = [];
+    const first = LIST_ITEM.exec(lines[start]);
+    const ordered = first ? /^\d/.test(first[2]) : false;
+    let current: string[] = [];
+    let i = start;
+
+    const flushItem = () => {
+      const itemText = MarkdownParser.toPlainText(current.join(' '));
+      if (itemText) items.push(itemText);
+      current = [];
+    };
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (line.trim().length === 0) {
+        const next = lines[i + 1];
+        if (next !== undefined && (LIST_ITEM.test(next) || (/^[ \t]{2,}\S/.test(next) && current.length > 0))) {
+          i++;
+          continue;
+        }
+        break;
+      }
+
+      const item = LIST_ITEM.exec(line);
+      if (item) {
+        flushItem();
+        current.push(item[3]);
+      } else if (/^[ \t]+\S/.test(line) || !(ATX_HEADING.test(line) || FENCE.test(line) || BLOCKQUOTE.test(line))) {
+        // Indented or lazy continuation of the item
+        if (THEMATIC_BREAK.test(line)) break;
+        current.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    flushItem();
+    return { items, ordered, nextLine: i };
+  }
+
+  /**
+   * Index of the first line after a leading YAML front matter block
+   */
+  private skipFrontMatter(lines: string[]): number {
+    if (lines[0]?.trim() !== '---') return 0;
+
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (line === '---' || line === '...') return i + 1;
+    }
+    return 0;
+  }
+
+  private closesFence(line: string, fence: string): boolean {
+    const trimmed = line.trim();
+    return trimmed.startsWith(fence[0].repeat(fence.length)) && new RegExp(`^\\${fence[0]}+$`).test(trimmed);
+  }
+
+  private splitTableRow(line: string): string[] {
+    return line
+      .trim()
+      .replace(/^\|/, '')
+      .replace(/(?<!\\)\|$/, '')
+      .split(/(?<!\\)\|/)
+      .map(cell => MarkdownParser.toPlainText(cell.replace(/\\\|/g, '|')));
+  }
+
+  /**
+   * Plain text of inline Markdown: links and images become their text, emphasis and code
+   * markers, inline HTML and escapes are removed
+   */
+  static toPlainText(markdown: string): string {
+    const withoutLinks = markdown
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/<((?:https?|mailto):[^>\s]+)>/g, '$1')
+      .replace(/`+([^`]+?)`+/g, '$1');
+
+    return HtmlParser.stripTags(withoutLinks)
+      .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+      .replace(/(^|[^\w*])\*(?=\S)([^*]*?\S)\*(?!\w)/g, '$1$2')
+      .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1$2')
+      .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1')
+      .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, '$1')
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(line => line.length > 0)
+      .join('\n');
+  }
+
+  async validateFile(buffer: Buffer, mimeType: string): Promise<void> {
+    await super.validateFile(buffer, mimeType);
+
+    // Binary content is not Markdown
+    const sample = buffer.subarray(0, Math.min(buffer.length, 1024));
+    if (sample.includes(0)) {
+      throw new Error('File does not appear to be a Markdown document');
+    }
+  }
+}
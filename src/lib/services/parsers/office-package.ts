@@ -0,0 +1,108 @@
+import path from 'path';
+
+import AdmZip from 'adm-zip';
+
+import { HtmlParser } from './html-parser';
+
+export interface IOfficeComment {
+  author?: string;
+  text: string;
+  anchor?: string; // Commented text, when the format records it
+  paragraphNumber?: number;
+}
+
+export interface IOfficeRelationship {
+  id: string;
+  type: string;
+  target: string; // Package path of the related part
+}
+
+/**
+ * Read access to the XML parts of an Office Open XML package (DOCX, PPTX), for the content
+ * the document libraries leave out: speaker notes, comments, headers and footers
+ */
+export class OfficePackage {
+  private readonly zip: AdmZip;
+
+  constructor(buffer: Buffer) {
+    this.zip = new AdmZip(buffer);
+  }
+
+  /**
+   * XML of a part, or null when the package does not have it
+   */
+  read(partPath: string): string | null {
+    const entry = this.zip.getEntry(partPath);
+    return entry ? entry.getData().toString('utf8') : null;
+  }
+
+  /**
+   * Paths of the parts matching a pattern, in numeric order (header2 before header10)
+   */
+  paths(pattern: RegExp): string[] {
+    return this.zip.getEntries()
+      .map(entry => entry.entryName)
+      .filter(entryName => pattern.test(entryName))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }
+
+  /**
+   * Internal relationships of a part, with targets resolved to package paths
+   */
+  relationships(partPath: string): IOfficeRelationship[] {
+    const directory = path.posix.dirname(partPath);
+    const xml = this.read(path.posix.join(directory, '_rels', `${path.posix.basename(partPath)}.rels`));
+    if (!xml) return [];
+
+    const relationships: IOfficeRelationship[] = [];
+    for (const match of xml.matchAll(/<Relationship\s([^>]*?)\/?>/g)) {
+      const attributes = OfficePackage.attributes(match[1]);
+      if (!attributes.Id || !attributes.Target || attributes.TargetMode === 'External') continue;
+
+      relationships.push({
+        id: attributes.Id,
+        type: attributes.Type || '',
+        target: attributes.Target.startsWith('/')
+          ? attributes.Target.slice(1)
+          : path.posix.normalize(path.posix.join(directory, attributes.Target)),
+      });
+    }
+    return relationships;
+  }
+
+  /**
+   * Text of each non-empty paragraph; prefix is 'w' for WordprocessingML and 'a' for DrawingML
+   */
+  static paragraphs(xml: string, prefix: 'w' | 'a'): string[] {
+    const paragraph = new RegExp(`<${prefix}:p(?:\\s[^>]*?)?(?<!/)>([\\s\\S]*?)</${prefix}:p>`, 'g');
+    const paragraphs: string[] = [];
+    for (const match of xml.matchAll(paragraph)) {
+      const text = OfficePackage.runText(match[1], prefix).replace(/\s+/g, ' ').trim();
+      if (text) paragraphs.push(text);
+    }
+    return paragraphs;
+  }
+
+  /**
+   * Text of the runs in a fragment, with tabs and line breaks as spaces
+   */
+  static runText(xml: string, prefix: 'w' | 'a'): string {
+    const run = new RegExp(`<${prefix}:t(?:\\s[^>]*)?>([^<]*)</${prefix}:t>|<${prefix}:(?:tab|br)\\b[^>]*/>`, 'g');
+    let text = '';
+    for (const match of xml.matchAll(run)) {
+      text += match[1] !== undefined ? HtmlParser.decodeEntities(match[1]) : ' ';
+    }
+    return text;
+  }
+
+  /**
+   * Attributes of a start tag by qualified name (w:id, r:id, Target)
+   */
+  static attributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[match[1]] = HtmlParser.decodeEntities(match[2] ?? match[3] ?? '');
+    }
+    return attributes;
+  }
+}
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import { Worker } from 'worker_threads';
+
+import AdmZip from 'adm-zip';
+
+import type { IParserConfig, TParserError, TParserResult } from './file-parser.interface';
+import type { IFileParserServiceConfig } from './file-parser.service';
+
+export interface IParserWorkerData {
+  buffer: Uint8Array;
+  fileName: string;
+  mimeType: string;
+  config?: IParserConfig;
+  serviceConfig: IFileParserServiceConfig; // Rebuilds the parent's parsers inside the worker
+}
+
+export type TParserWorkerMessage = { result: TParserResult } | { error: TParserError };
+
+export interface IParserSandboxLimits {
+  timeout: number; // in milliseconds
+  maxMemoryMb: number; // Heap limit of the worker
+}
+
+export interface IArchiveSize {
+  entries: number;
+  compressedSize: number;
+  uncompressedSize: number;
+}
+
+/**
+ * Runs a parse in a worker thread with a heap limit, terminated on timeout, so a pathological
+ * file cannot block the event loop or exhaust the memory of the process
+ */
+export class ParserSandbox {
+  private static workerScript: string | null | undefined;
+
+  /**
+   * Worker entry next to this module: compiled JavaScript, or TypeScript loaded through tsx
+   * when running from source with tsx installed. Null in bundled server code, which ships without it.
+   */
+  static resolveWorkerScript(): string | null {
+    if (ParserSandbox.workerScript === undefined) {
+      ParserSandbox.workerScript = ['.js', '.ts']
+        .map(extension => path.join(__dirname, `parser-worker${extension}`))
+        .find(candidate =>
+          fs.existsSync(candidate) && (!candidate.endsWith('.ts') || ParserSandbox.canLoadTypeScript())
+        ) ?? null;
+    }
+    return ParserSandbox.workerScript;
+  }
+
+  /**
+   * tsx is a development dependency, so a production install cannot run the TypeScript entry
+   */
+  private static canLoadTypeScript(): boolean {
+    try {
+      require.resolve('tsx/cjs', { paths: [__dirname] });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parse in a worker. Fails closed when the worker script is missing: parsing without the limits
+   * has to be chosen by disabling isolation, never fallen back to silently.
+   */
+  static parse(data: IParserWorkerData, limits: IParserSandboxLimits): Promise<TParserResult> {
+    const script = ParserSandbox.resolveWorkerScript();
+    if (!script) {
+      return Promise.reject(ParserSandbox.createError(
+        'PARSING_ERROR',
+        'Parser worker script is not available; disable isolation to parse files in-process',
+        { fileName: data.fileName, directory: __dirname, reason: 'unavailable' }
+      ));
+    }
+
+    return new Promise<TParserResult>((resolve, reject) => {
+      const options = {
+        workerData: data,
+        resourceLimits: { maxOldGenerationSizeMb: limits.maxMemoryMb },
+      };
+      const worker = script.endsWith('.ts')
+        ? new Worker(
+          `require(require.resolve('tsx/cjs', { paths: [${JSON.stringify(path.dirname(script))}] }));\n` +
+          `require(${JSON.stringify(script)});`,
+          { ...options, eval: true }
+        )
+        : new Worker(script, options);
+
+      let settled = false;
+      const settle = (outcome: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        void worker.terminate();
+        outcome();
+      };
+
+      const timer = setTimeout(() => {
+        settle(() => reject(ParserSandbox.createError('PARSING_ERROR', `Parsing timeout after ${limits.timeout}ms`, {
+          timeout: limits.timeout,
+          fileName: data.fileName,
+          reason: 'timeout',
+        })));
+      }, limits.timeout);
+
+      worker.on('message', (message: TParserWorkerMessage) => {
+        settle(() => ('result' in message ? resolve(message.result) : reject(message.error)));
+      });
+
+      worker.on('error', (error: Error & { code?: string }) => {
+        settle(() => reject(error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? ParserSandbox.createError(
+            'CORRUPTED_FILE',
+            `Parsing stopped: the file needs more than ${limits.maxMemoryMb} MB of memory`,
+            { maxMemoryMb: limits.maxMemoryMb, fileName: data.fileName, reason: 'memory' }
+          )
+          : ParserSandbox.createError('PARSING_ERROR', `Parser worker failed: ${error.message}`, {
+            fileName: data.fileName,
+            reason: 'crash',
+          })));
+      });
+
+      worker.on('exit', code => {
+        settle(() => reject(ParserSandbox.createError(
+          'PARSING_ERROR',
+          `Parser worker exited with code ${code} before returning a result`,
+          { fileName: data.fileName, reason: 'crash' }
+        )));
+      });
+    });
+  }
+
+  /**
+   * Sizes a ZIP archive declares in its central directory, read without inflating anything;
+   * null when the buffer is not a readable archive
+   */
+  static inspectArchive(buffer: Buffer): IArchiveSize | null {
+    try {
+      return new AdmZip(buffer).getEntries().reduce<IArchiveSize>((size, entry) => ({
+        entries: size.entries + 1,
+        compressedSize: size.compressedSize + entry.header.compressedSize,
+        uncompressedSize: size.uncompressedSize + entry.header.size,
+      }), { entries: 0, compressedSize: 0, uncompressedSize: 0 });
+    } catch {
+      return null;
+    }
+  }
+
+  private static createError(
+    code: TParserError['code'],
+    message: string,
+    details?: Record<string, unknown>
+  ): TParserError {
+    return { code, message, details };
+  }
+}
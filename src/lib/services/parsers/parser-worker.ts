@@ -0,0 +1,21 @@
+/**
+ * Worker thread entry of ParserSandbox: parses one file with the parent's service
+ * configuration and posts back the result or the parser error
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+
+import { FileParserService } from './file-parser.service';
+
+import type { IParserWorkerData, TParserWorkerMessage } from './parser-sandbox';
+
+const { buffer, fileName, mimeType, config, serviceConfig } = workerData as IParserWorkerData;
+const service = new FileParserService({ ...serviceConfig, isolation: { enabled: false } });
+
+service
+  .parseFromBuffer(Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength), fileName, mimeType, config)
+  .then(
+    (result): TParserWorkerMessage => ({ result }),
+    (error): TParserWorkerMessage => ({ error })
+  )
+  .then(message => parentPort?.postMessage(message));
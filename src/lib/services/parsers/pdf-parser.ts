@@ -27,6 +27,39 @@ export interface IPdfTextItem {
   hasEOL: boolean;
 }
 
+interface IPdfPageData {
+  pageIndex: number;
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{ items: IPdfTextItem[] }>;
+}
+
+interface IPdfCell {
+  x0: number;
+  x1: number;
+  text: string;
+  items: number[]; // Indexes of the text items in the page content
+}
+
+interface IPdfLine {
+  y: number;
+  fontSize: number;
+  cells: IPdfCell[];
+}
+
+interface IPdfTable {
+  headers: string[];
+  rows: string[][];
+  items: Set<number>;
+  firstItem: number;
+}
+
+// Distances below are in multiples of the font size of the line
+const CELL_GAP = 1; // Horizontal gap that separates two cells of a row
+const WORD_GAP = 0.15; // Horizontal gap that separates two words of a cell
+const MAX_ROW_GAP = 2.5; // Vertical gap beyond which a table ends
+const MAX_WRAP_GAP = 1.5; // Vertical gap of a wrapped cell line under its row
+const MIN_TABLE_ROWS = 2; // Body rows under the header
+const MAX_CELL_WORDS = 6; // Average words per cell; side-by-side text columns have more
+
 export class PdfParser extends BaseFileParser {
   readonly name = 'PDF Parser';
   readonly version = '1.0.0';
@@ -40,6 +73,7 @@ export class PdfParser extends BaseFileParser {
       'Page-based parsing',
       'Heading detection',
       'List detection',
+      'Table detection from column-aligned text',
       'Layout preservation',
       'Metadata extraction',
       'Page range support',
@@ -66,6 +100,7 @@ export class PdfParser extends BaseFileParser {
         mergeLines: true,
         detectHeadings: true,
         detectLists: true,
+        extractTables: true,
         ...config,
       };
 
@@ -131,9 +166,21 @@ export class PdfParser extends BaseFileParser {
       if (config.pageRange.end) options.max = config.pageRange.end;
     }
 
+    // Positioned text of each page, kept for table detection
+    const pages: IPdfTextItem[][] = [];
+    if (config.extractTables) {
+      options.pagerender = (pageData: IPdfPageData) => pageData
+        .getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+        .then(({ items }) => {
+          pages[pageData.pageIndex] = items;
+          return PdfParser.renderPageText(items);
+        });
+    }
+
     try {
-      const data = await pdf(buffer, options);
-      return data;
+      // pdf.js misreads some files handed over as a Node Buffer; a plain view of the bytes is safe
+      const data = await pdf(new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length) as Buffer, options);
+      return { ...data, pages };
     } catch (error) {
       throw new Error(`PDF parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -160,38 +207,24 @@ export class PdfParser extends BaseFileParser {
       documentMetadata
     ));
 
+    // Pages with tables are laid out from their positioned text
+    const pages: IPdfTextItem[][] = pdfData.pages || [];
+    const tables = config.extractTables ? pages.map(items => (items ? this.detectTables(items) : [])) : [];
+    if (tables.some(pageTables => pageTables.length > 0)) {
+      blocks.push(...this.createBlocksFromPages(pages, tables, documentMetadata, config));
+      return blocks;
+    }
+
     // Split text into logical sections
     const sections = this.splitIntoSections(text, config);
     
     sections.forEach((section, index) => {
-      const sectionMetadata: TBaseMetadata = {
+      const block = this.createSectionBlock(section, {
         ...documentMetadata,
         pageNumber: section.pageNumber,
         paragraphNumber: index + 1,
-      };
-
-      if (config.detectHeadings && this.isHeading(section.text)) {
-        const level = this.detectHeadingLevel(section.text);
-        blocks.push(this.createHeadingBlock(
-          section.text.trim(),
-          level,
-          sectionMetadata
-        ));
-      } else if (config.detectLists && this.isList(section.text)) {
-        const { items, ordered } = this.parseList(section.text);
-        blocks.push(this.createListBlock(
-          items,
-          ordered,
-          undefined,
-          sectionMetadata
-        ));
-      } else if (section.text.trim().length >= (config.minLineLength || 3)) {
-        blocks.push(this.createTextBlock(
-          section.text.trim(),
-          section.title,
-          sectionMetadata
-        ));
-      }
+      }, config);
+      if (block) blocks.push(block);
     });
 
     // If no meaningful sections found, create page-based blocks
@@ -203,6 +236,261 @@ export class PdfParser extends BaseFileParser {
     return blocks;
   }
 
+  private createSectionBlock(
+    section: { text: string; title?: string },
+    sectionMetadata: TBaseMetadata,
+    config: IPdfParserConfig
+  ): TParsedBlock | null {
+    if (config.detectHeadings && this.isHeading(section.text)) {
+      const level = this.detectHeadingLevel(section.text);
+      return this.createHeadingBlock(
+        section.text.trim(),
+        level,
+        sectionMetadata
+      );
+    }
+    if (config.detectLists && this.isList(section.text)) {
+      const { items, ordered } = this.parseList(section.text);
+      return this.createListBlock(
+        items,
+        ordered,
+        undefined,
+        sectionMetadata
+      );
+    }
+    if (section.text.trim().length >= (config.minLineLength || 3)) {
+      return this.createTextBlock(
+        section.text.trim(),
+        section.title,
+        sectionMetadata
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Blocks page by page with the real page numbers; each table takes the place of its first
+   * text item and the rest of the page is split into sections as usual
+   */
+  private createBlocksFromPages(
+    pages: IPdfTextItem[][],
+    tables: IPdfTable[][],
+    baseMetadata: TBaseMetadata,
+    config: IPdfParserConfig
+  ): TParsedBlock[] {
+    const blocks: TParsedBlock[] = [];
+    let paragraphNumber = 0;
+
+    pages.forEach((items, pageIndex) => {
+      if (!items) return;
+      const pageNumber = pageIndex + 1;
+      const pageTables = tables[pageIndex] || [];
+      let textItems: IPdfTextItem[] = [];
+
+      const flushText = () => {
+        for (const section of this.splitIntoSections(PdfParser.renderPageText(textItems), config)) {
+          const block = this.createSectionBlock(section, {
+            ...baseMetadata,
+            pageNumber,
+            paragraphNumber: ++paragraphNumber,
+          }, config);
+          if (block) blocks.push(block);
+        }
+        textItems = [];
+      };
+
+      items.forEach((item, index) => {
+        const table = pageTables.find(pageTable => pageTable.firstItem === index);
+        if (table) {
+          flushText();
+          blocks.push(this.createTableBlock(table.headers, table.rows, undefined, {
+            ...baseMetadata,
+            pageNumber,
+            paragraphNumber: ++paragraphNumber,
+          }));
+        }
+        if (!pageTables.some(pageTable => pageTable.items.has(index))) {
+          textItems.push(item);
+        }
+      });
+      flushText();
+    });
+
+    return blocks;
+  }
+
+  /**
+   * Runs of lines whose cells line up in the same columns. The first line is the header; a
+   * single-cell line just under a row continues the cell of its column.
+   */
+  private detectTables(items: IPdfTextItem[]): IPdfTable[] {
+    const tables: IPdfTable[] = [];
+    let columns: Array<{ x0: number; x1: number }> = [];
+    let rows: string[][] = [];
+    let tableItems: number[] = [];
+    let lastLine: IPdfLine | null = null;
+
+    const closeTable = () => {
+      const cells = rows.flat().filter(cell => cell.length > 0);
+      const averageWords = cells.reduce((sum, cell) => sum + cell.split(' ').length, 0) / cells.length;
+      if (rows.length > MIN_TABLE_ROWS && averageWords <= MAX_CELL_WORDS) {
+        tables.push({
+          headers: rows[0],
+          rows: rows.slice(1),
+          items: new Set(tableItems),
+          firstItem: Math.min(...tableItems),
+        });
+      }
+      rows = [];
+      lastLine = null;
+    };
+
+    for (const line of this.groupLines(items)) {
+      if (lastLine) {
+        const gap = lastLine.y - line.y;
+        const cellColumns = this.matchColumns(line.cells, columns, line.fontSize);
+
+        if (cellColumns && line.cells.length >= 2 && gap <= line.fontSize * MAX_ROW_GAP) {
+          const row = columns.map(() => '');
+          line.cells.forEach((cell, index) => {
+            const column = columns[cellColumns[index]];
+            row[cellColumns[index]] = cell.text;
+            column.x0 = Math.min(column.x0, cell.x0);
+            column.x1 = Math.max(column.x1, cell.x1);
+          });
+          rows.push(row);
+          tableItems.push(...line.cells.flatMap(cell => cell.items));
+          lastLine = line;
+          continue;
+        }
+
+        const previous = rows[rows.length - 1];
+        if (
+          cellColumns &&
+          line.cells.length === 1 &&
+          gap <= line.fontSize * MAX_WRAP_GAP &&
+          previous[cellColumns[0]] &&
+          columns.every((column, index) => index === cellColumns[0] || !this.overlaps(line.cells[0], column))
+        ) {
+          previous[cellColumns[0]] += ' ' + line.cells[0].text;
+          tableItems.push(...line.cells[0].items);
+          lastLine = line;
+          continue;
+        }
+
+        closeTable();
+      }
+
+      if (line.cells.length >= 2) {
+        columns = line.cells.map(({ x0, x1 }) => ({ x0, x1 }));
+        rows = [line.cells.map(cell => cell.text)];
+        tableItems = line.cells.flatMap(cell => cell.items);
+        lastLine = line;
+      }
+    }
+    if (lastLine) closeTable();
+
+    return tables;
+  }
+
+  /**
+   * Column of each cell, by overlap or else by the nearest column start; null when a cell
+   * matches no column or two cells share one
+   */
+  private matchColumns(
+    cells: IPdfCell[],
+    columns: Array<{ x0: number; x1: number }>,
+    tolerance: number
+  ): number[] | null {
+    const matched: number[] = [];
+
+    for (const cell of cells) {
+      let best = -1;
+      let bestScore = -Infinity;
+      columns.forEach((column, index) => {
+        const overlap = Math.min(cell.x1, column.x1) - Math.max(cell.x0, column.x0);
+        const score = overlap > 0 ? overlap : -Math.abs(cell.x0 - column.x0);
+        if (score > bestScore && (overlap > 0 || -score <= tolerance)) {
+          best = index;
+          bestScore = score;
+        }
+      });
+
+      if (best === -1 || (matched.length > 0 && best <= matched[matched.length - 1])) return null;
+      matched.push(best);
+    }
+
+    return matched;
+  }
+
+  private overlaps(cell: IPdfCell, column: { x0: number; x1: number }): boolean {
+    return Math.min(cell.x1, column.x1) > Math.max(cell.x0, column.x0);
+  }
+
+  /**
+   * Text items grouped into lines from the top of the page down, each split into cells at wide
+   * horizontal gaps
+   */
+  private groupLines(items: IPdfTextItem[]): IPdfLine[] {
+    const positioned = items
+      .map((item, index) => ({
+        item,
+        index,
+        x: item.transform[4],
+        y: item.transform[5],
+        fontSize: item.height || Math.hypot(item.transform[2], item.transform[3]) || 10,
+      }))
+      .filter(({ item }) => item.str.trim().length > 0)
+      .sort((a, b) => b.y - a.y || a.x - b.x);
+
+    const lines: Array<typeof positioned> = [];
+    for (const entry of positioned) {
+      const line = lines[lines.length - 1];
+      if (line && Math.abs(line[0].y - entry.y) <= Math.max(line[0].fontSize, entry.fontSize) / 2) {
+        line.push(entry);
+      } else {
+        lines.push([entry]);
+      }
+    }
+
+    return lines.map(line => {
+      line.sort((a, b) => a.x - b.x);
+      const fontSize = Math.max(...line.map(entry => entry.fontSize));
+      const cells: IPdfCell[] = [];
+
+      for (const entry of line) {
+        const cell = cells[cells.length - 1];
+        const gap = cell ? entry.x - cell.x1 : Infinity;
+        if (cell && gap < fontSize * CELL_GAP) {
+          cell.text += (gap > fontSize * WORD_GAP ? ' ' : '') + entry.item.str;
+          cell.x1 = Math.max(cell.x1, entry.x + entry.item.width);
+          cell.items.push(entry.index);
+        } else {
+          cells.push({ x0: entry.x, x1: entry.x + entry.item.width, text: entry.item.str, items: [entry.index] });
+        }
+      }
+
+      cells.forEach(cell => {
+        cell.text = cell.text.replace(/\s+/g, ' ').trim();
+      });
+      return { y: line[0].y, fontSize, cells };
+    });
+  }
+
+  /**
+   * Page text the way pdf-parse renders it: items on one baseline joined, a line break between
+   * baselines
+   */
+  private static renderPageText(items: IPdfTextItem[]): string {
+    let text = '';
+    let lastY: number | undefined;
+    for (const item of items) {
+      text += lastY === undefined || lastY === item.transform[5] ? item.str : '\n' + item.str;
+      lastY = item.transform[5];
+    }
+    return text;
+  }
+
   private splitIntoSections(text: string, config: IPdfParserConfig): Array<{
     text: string;
     title?: string;
@@ -5,6 +5,8 @@ import {
   TParsedBlock,
   TBaseMetadata 
 } from './file-parser.interface';
+import { HtmlParser } from './html-parser';
+import { OfficePackage, type IOfficeComment } from './office-package';
 
 // Note: pptx2json doesn't have proper TypeScript types, so we'll define our own
 declare module 'pptx2json' {
@@ -33,6 +35,7 @@ export interface IPptxParserConfig extends IParserConfig {
   extractImages?: boolean;
   extractTables?: boolean;
   extractNotes?: boolean;
+  extractComments?: boolean;
   combineSlides?: boolean;
   minTextLength?: number;
   detectTitles?: boolean;
@@ -44,10 +47,25 @@ export interface IPptxSlideContent {
   title?: string;
   content: string[];
   notes?: string;
+  comments?: IOfficeComment[];
   images?: any[];
   tables?: any[];
 }
 
+// A slide as read from the presentation, before its texts are sorted into title and content
+interface IPptxParsedSlide {
+  slide?: number;
+  texts?: Array<{ text?: string; type?: string; level?: number }>;
+  notes?: string;
+  images?: unknown[];
+  tables?: unknown[];
+}
+
+interface IPptxSlideExtras {
+  notes?: string;
+  comments: IOfficeComment[];
+}
+
 export class PptxParser extends BaseFileParser {
   readonly name = 'PPTX Parser';
   readonly version = '1.0.0';
@@ -64,6 +82,7 @@ export class PptxParser extends BaseFileParser {
       'Table extraction',
       'Image extraction',
       'Speaker notes',
+      'Reviewer comments',
       'Slide-by-slide parsing',
       'Content combination',
     ];
@@ -79,20 +98,21 @@ export class PptxParser extends BaseFileParser {
     const errors: string[] = [];
     const warnings: string[] = [];
 
+    const pptxConfig: IPptxParserConfig = {
+      extractImages: false,
+      extractTables: true,
+      extractNotes: true,
+      extractComments: true,
+      combineSlides: false,
+      minTextLength: 3,
+      detectTitles: true,
+      includeSlideNumbers: true,
+      ...config,
+    };
+
     try {
       await this.validateFile(buffer, mimeType);
 
-      const pptxConfig: IPptxParserConfig = {
-        extractImages: false,
-        extractTables: true,
-        extractNotes: false,
-        combineSlides: false,
-        minTextLength: 3,
-        detectTitles: true,
-        includeSlideNumbers: true,
-        ...config,
-      };
-
       const pptxData = await this.parsePptxBuffer(buffer, pptxConfig);
       
       if (!pptxData.slides || pptxData.slides.length === 0) {
@@ -108,7 +128,7 @@ export class PptxParser extends BaseFileParser {
         );
       }
 
-      const blocks = await this.createBlocksFromPptxData(pptxData, pptxConfig);
+      const blocks = await this.createBlocksFromPptxData(pptxData, pptxConfig, PptxParser.readSlideExtras(buffer));
       
       if (pptxData.slideCount > 0) {
         warnings.push(`Presentation contains ${pptxData.slideCount} slide(s)`);
@@ -130,7 +150,7 @@ export class PptxParser extends BaseFileParser {
       
       // Fallback: Try basic ZIP-based text extraction
       try {
-        const fallbackBlocks = await this.fallbackTextExtraction(buffer, fileName);
+        const fallbackBlocks = await this.fallbackTextExtraction(buffer, pptxConfig);
         if (fallbackBlocks.length > 0) {
           warnings.push('Used fallback text extraction method');
           return this.createParserResult(
@@ -181,7 +201,8 @@ export class PptxParser extends BaseFileParser {
 
   private async createBlocksFromPptxData(
     pptxData: any,
-    config: IPptxParserConfig
+    config: IPptxParserConfig,
+    extras: Map<number, IPptxSlideExtras>
   ): Promise<TParsedBlock[]> {
     const blocks: TParsedBlock[] = [];
     
@@ -201,12 +222,15 @@ export class PptxParser extends BaseFileParser {
 
     // Process each slide
     if (pptxData.slides && Array.isArray(pptxData.slides)) {
-      const slideContents = this.extractSlideContents(pptxData.slides, config);
+      const slideContents = this.extractSlideContents(pptxData.slides, config, extras);
       
       if (config.combineSlides) {
         // Combine all slides into fewer blocks
         const combinedBlocks = this.createCombinedBlocks(slideContents, documentMetadata);
         blocks.push(...combinedBlocks);
+        slideContents.forEach(slide => {
+          blocks.push(...this.createNotesAndCommentBlocks(slide, { ...documentMetadata, slideNumber: slide.slideNumber }, config));
+        });
       } else {
         // Create individual blocks for each slide
         slideContents.forEach(slide => {
@@ -219,7 +243,11 @@ export class PptxParser extends BaseFileParser {
     return blocks;
   }
 
-  private extractSlideContents(slides: any[], config: IPptxParserConfig): IPptxSlideContent[] {
+  private extractSlideContents(
+    slides: IPptxParsedSlide[],
+    config: IPptxParserConfig,
+    extras: Map<number, IPptxSlideExtras>
+  ): IPptxSlideContent[] {
     return slides.map(slide => {
       const slideNumber = slide.slide || 0;
       const texts = slide.texts || [];
@@ -228,7 +256,7 @@ export class PptxParser extends BaseFileParser {
       let title: string | undefined;
       const contentTexts: string[] = [];
       
-      texts.forEach((textItem: any) => {
+      texts.forEach(textItem => {
         const text = textItem.text ? textItem.text.trim() : '';
         if (text.length < (config.minTextLength || 3)) return;
         
@@ -247,7 +275,8 @@ export class PptxParser extends BaseFileParser {
         slideNumber,
         title,
         content: contentTexts,
-        notes: slide.notes,
+        notes: extras.get(slideNumber)?.notes ?? slide.notes,
+        comments: extras.get(slideNumber)?.comments,
         images: config.extractImages ? slide.images : undefined,
         tables: config.extractTables ? slide.tables : undefined,
       };
@@ -305,18 +334,135 @@ export class PptxParser extends BaseFileParser {
       });
     }
 
-    // Add speaker notes if present
+    blocks.push(...this.createNotesAndCommentBlocks(slide, slideMetadata, config));
+
+    return blocks;
+  }
+
+  /**
+   * Speaker notes and comments of a slide, marked with their document part so chunking can
+   * include or leave them out
+   */
+  private createNotesAndCommentBlocks(
+    slide: IPptxSlideContent,
+    slideMetadata: TBaseMetadata,
+    config: IPptxParserConfig
+  ): TParsedBlock[] {
+    const blocks: TParsedBlock[] = [];
+
     if (slide.notes && config.extractNotes) {
       blocks.push(this.createTextBlock(
         slide.notes,
         `Slide ${slide.slideNumber} Notes`,
-        { ...slideMetadata, source: 'speaker-notes' }
+        { ...slideMetadata, part: 'notes' }
       ));
     }
 
+    if (slide.comments && config.extractComments) {
+      slide.comments.forEach(comment => {
+        blocks.push(this.createTextBlock(
+          comment.text,
+          comment.author ? `Comment by ${comment.author}` : 'Comment',
+          { ...slideMetadata, part: 'comment', author: comment.author }
+        ));
+      });
+    }
+
     return blocks;
   }
 
+  /**
+   * Speaker notes and comments by slide number, read from the package since pptx2json does
+   * not return them
+   */
+  private static readSlideExtras(buffer: Buffer): Map<number, IPptxSlideExtras> {
+    const officePackage = new OfficePackage(buffer);
+    const authors = PptxParser.readCommentAuthors(officePackage);
+    const extras = new Map<number, IPptxSlideExtras>();
+
+    PptxParser.slidePaths(officePackage).forEach((slidePath, index) => {
+      const relationships = officePackage.relationships(slidePath);
+      const notesPath = relationships.find(relationship => relationship.type.endsWith('/notesSlide'))?.target;
+      const notesXml = notesPath ? officePackage.read(notesPath) : null;
+      const notes = notesXml ? PptxParser.parseNotes(notesXml) : '';
+
+      extras.set(index + 1, {
+        notes: notes || undefined,
+        comments: relationships
+          .filter(relationship => relationship.type.endsWith('/comments'))
+          .flatMap(relationship => PptxParser.parseComments(officePackage.read(relationship.target) || '', authors)),
+      });
+    });
+
+    return extras;
+  }
+
+  /**
+   * Slide parts in presentation order, or by file name when the presentation part is missing
+   */
+  private static slidePaths(officePackage: OfficePackage): string[] {
+    const presentation = officePackage.read('ppt/presentation.xml') || '';
+    const relationships = officePackage.relationships('ppt/presentation.xml');
+    const ordered = Array.from(presentation.matchAll(/<p:sldId\s([^>]*?)\/?>/g))
+      .map(match => relationships.find(relationship => relationship.id === OfficePackage.attributes(match[1])['r:id'])?.target)
+      .filter((target): target is string => target !== undefined);
+
+    return ordered.length > 0 ? ordered : officePackage.paths(/^ppt\/slides\/slide\d+\.xml$/);
+  }
+
+  /**
+   * Text of the body placeholder of a notes slide; the slide image and number placeholders are skipped
+   */
+  private static parseNotes(xml: string): string {
+    return Array.from(xml.matchAll(/<p:sp(?:\s[^>]*)?>([\s\S]*?)<\/p:sp>/g))
+      .filter(match => /<p:ph\s[^>]*type="body"/.test(match[1]))
+      .flatMap(match => OfficePackage.paragraphs(match[1], 'a'))
+      .join('\n');
+  }
+
+  /**
+   * Comments of a slide, both the legacy format (p:cm with p:text) and modern threaded comments
+   * (p188:cm with a text body and replies)
+   */
+  private static parseComments(xml: string, authors: Map<string, string>): IOfficeComment[] {
+    const comments: IOfficeComment[] = [];
+
+    for (const match of xml.matchAll(/<((?:\w+:)?(?:cm|reply))\s([^>]*)>([\s\S]*?)<\/\1>/g)) {
+      const replyList = /<((?:\w+:)?replyLst)>([\s\S]*?)<\/\1>/.exec(match[3]);
+      const body = replyList ? match[3].replace(replyList[0], '') : match[3];
+      const legacyText = /<(?:\w+:)?text>([\s\S]*?)<\/(?:\w+:)?text>/.exec(body);
+      const text = legacyText
+        ? HtmlParser.decodeEntities(legacyText[1]).trim()
+        : OfficePackage.paragraphs(body, 'a').join('\n');
+
+      if (text) {
+        comments.push({ author: authors.get(OfficePackage.attributes(match[2]).authorId ?? ''), text });
+      }
+      if (replyList) {
+        comments.push(...PptxParser.parseComments(replyList[2], authors));
+      }
+    }
+
+    return comments;
+  }
+
+  /**
+   * Comment author names by id, from the legacy and the modern authors part
+   */
+  private static readCommentAuthors(officePackage: OfficePackage): Map<string, string> {
+    const authors = new Map<string, string>();
+
+    for (const partPath of ['ppt/commentAuthors.xml', 'ppt/authors.xml']) {
+      const xml = officePackage.read(partPath) || '';
+      for (const match of xml.matchAll(/<(?:\w+:)?(?:cmAuthor|author)\s([^>]*?)\/?>/g)) {
+        const { id, name } = OfficePackage.attributes(match[1]);
+        if (id && name) authors.set(id, name);
+      }
+    }
+
+    return authors;
+  }
+
   private createCombinedBlocks(
     slides: IPptxSlideContent[],
     baseMetadata: TBaseMetadata
@@ -471,37 +617,31 @@ export class PptxParser extends BaseFileParser {
     return summary;
   }
 
-  private async fallbackTextExtraction(buffer: Buffer, fileName: string): TParsedBlock[] {
-    // Simple fallback: try to extract XML content from the ZIP structure
+  private async fallbackTextExtraction(buffer: Buffer, config: IPptxParserConfig): TParsedBlock[] {
+    // Simple fallback: extract the paragraph text of each slide from the ZIP structure
     try {
-      const AdmZip = require('adm-zip');
-      const zip = new AdmZip(buffer);
-      const entries = zip.getEntries();
-      
-      const textContents: string[] = [];
+      const officePackage = new OfficePackage(buffer);
       
-      entries.forEach((entry: any) => {
-        if (entry.entryName.includes('slide') && entry.entryName.endsWith('.xml')) {
-          const content = entry.getData().toString('utf8');
-          // Extract text between XML tags (very basic)
-          const textMatches = content.match(/<a:t[^>]*>([^<]+)<\/a:t>/g);
-          if (textMatches) {
-            textMatches.forEach(match => {
-              const text = match.replace(/<[^>]+>/g, '').trim();
-              if (text.length > 0) {
-                textContents.push(text);
-              }
-            });
-          }
-        }
-      });
+      // Slide parts only: layouts and masters hold placeholder text, notes have their own blocks
+      const textContents = PptxParser.slidePaths(officePackage)
+        .flatMap(slidePath => OfficePackage.paragraphs(officePackage.read(slidePath) || '', 'a'));
       
       if (textContents.length > 0) {
-        return [this.createTextBlock(
+        const metadata: TBaseMetadata = { source: 'fallback-extraction', confidence: 0.6 };
+        const blocks = [this.createTextBlock(
           textContents.join('\n'),
           'Extracted PPTX Content (Fallback)',
-          { source: 'fallback-extraction', confidence: 0.6 }
+          metadata
         )];
+
+        PptxParser.readSlideExtras(buffer).forEach((extras, slideNumber) => {
+          blocks.push(...this.createNotesAndCommentBlocks(
+            { slideNumber, content: [], ...extras },
+            { ...metadata, slideNumber },
+            config
+          ));
+        });
+        return blocks;
       }
       
       return [];
@@ -555,6 +695,20 @@ export class PptxParser extends BaseFileParser {
     }
   }
 
+  // Utility method to count slides, speaker notes and comments without full parsing
+  static async getParserInfo(buffer: Buffer): Promise<{ slideCount: number; notesCount: number; commentCount: number }> {
+    try {
+      const slides = Array.from(PptxParser.readSlideExtras(buffer).values());
+      return {
+        slideCount: slides.length,
+        notesCount: slides.filter(slide => slide.notes).length,
+        commentCount: slides.reduce((count, slide) => count + slide.comments.length, 0),
+      };
+    } catch (error) {
+      throw new Error(`Failed to get presentation info: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Utility method to extract only slide titles
   static async extractTitles(buffer: Buffer): Promise<string[]> {
     try {
@@ -0,0 +1,261 @@
+import {
+  BaseFileParser,
+  IParserConfig,
+  TParserResult,
+  TParsedBlock,
+  TBaseMetadata
+} from './file-parser.interface';
+
+export interface ITextParserConfig extends IParserConfig {
+  detectHeadings?: boolean;
+  detectLists?: boolean;
+  detectTables?: boolean; // Tab- or pipe-separated lines
+  minParagraphLength?: number;
+}
+
+const BULLET_PATTERNS = [
+  { pattern: /^[•·▪▫◦‣⁃]\s+(.+)$/, ordered: false },
+  { pattern: /^[-*+]\s+(.+)$/, ordered: false },
+  { pattern: /^\d{1,3}[.)]\s+(.+)$/, ordered: true },
+  { pattern: /^[a-zA-Z][.)]\s+(.+)$/, ordered: true },
+  { pattern: /^\([a-zA-Z0-9]+\)\s+(.+)$/, ordered: true },
+];
+
+export class TextParser extends BaseFileParser {
+  readonly name = 'Text Parser';
+  readonly version = '1.0.0';
+  readonly supportedMimeTypes = [
+    'text/plain',
+  ];
+
+  protected getFeatures(): string[] {
+    return [
+      'Paragraph splitting',
+      'Heading detection with levels',
+      'List detection',
+      'Tab- and pipe-separated tables',
+      'Byte order mark and line ending normalization',
+    ];
+  }
+
+  async parseFromBuffer(
+    buffer: Buffer,
+    fileName: string,
+    mimeType: string,
+    config?: ITextParserConfig
+  ): Promise<TParserResult> {
+    const startTime = Date.now();
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    try {
+      await this.validateFile(buffer, mimeType);
+
+      const textConfig: ITextParserConfig = {
+        detectHeadings: true,
+        detectLists: true,
+        detectTables: true,
+        minParagraphLength: 1,
+        ...config,
+      };
+
+      const text = buffer.toString('utf-8').replace(/^\uFEFF/, '');
+      const blocks = this.createBlocksFromText(text, textConfig);
+
+      if (blocks.length === 0) {
+        warnings.push('No text content found in text file');
+      }
+
+      return this.createParserResult(
+        blocks,
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown text parsing error';
+      errors.push(errorMessage);
+
+      return this.createParserResult(
+        [],
+        fileName,
+        buffer.length,
+        mimeType,
+        Date.now() - startTime,
+        errors,
+        warnings
+      );
+    }
+  }
+
+  /**
+   * Split the text into paragraphs at blank lines and classify each one
+   */
+  private createBlocksFromText(text: string, config: ITextParserConfig): TParsedBlock[] {
+    const blocks: TParsedBlock[] = [];
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+    let paragraph: string[] = [];
+    let paragraphStart = 0;
+
+    lines.forEach((line, index) => {
+      if (line.trim().length === 0) {
+        if (paragraph.length > 0) {
+          blocks.push(...this.createBlocksFromParagraph(paragraph, paragraphStart, config));
+          paragraph = [];
+        }
+        return;
+      }
+
+      if (paragraph.length === 0) {
+        paragraphStart = index;
+      }
+      paragraph.push(line.replace(/\s+$/, ''));
+    });
+
+    if (paragraph.length > 0) {
+      blocks.push(...this.createBlocksFromParagraph(paragraph, paragraphStart, config));
+    }
+
+    return blocks;
+  }
+
+  private createBlocksFromParagraph(
+    lines: string[],
+    startLine: number,
+    config: ITextParserConfig
+  ): TParsedBlock[] {
+    const metadata = (offset: number): TBaseMetadata => ({ lineNumber: startLine + offset + 1 });
+
+    // Underlined headings
+    if (config.detectHeadings && lines.length >= 2 && /^(=+|-+)$/.test(lines[1].trim()) && lines[1].trim().length >= 3) {
+      const headingText = lines[0].trim();
+      const rest = lines.slice(2);
+      return [
+        this.createHeadingBlock(headingText, lines[1].trim()[0] === '=' ? 1 : 2, metadata(0)),
+        ...(rest.length > 0 ? this.createBlocksFromParagraph(rest, startLine + 2, config) : []),
+      ];
+    }
+
+    if (config.detectTables) {
+      const table = this.parseTable(lines);
+      if (table) {
+        return [this.createTableBlock(table.headers, table.rows, undefined, metadata(0))];
+      }
+    }
+
+    // Checked before lists: a lone numbered line is more likely a section title than a list
+    if (config.detectHeadings && lines.length === 1) {
+      const level = this.detectHeadingLevel(lines[0].trim());
+      if (level) {
+        return [this.createHeadingBlock(lines[0].trim().replace(/:$/, ''), level, metadata(0))];
+      }
+    }
+
+    if (!config.detectLists) {
+      return this.createTextBlocks(lines, metadata(0), config);
+    }
+
+    // A paragraph may run from an introduction straight into its list
+    const listStart = lines.findIndex(line => this.parseListLine(line.trim()) !== null);
+    if (listStart === -1) {
+      return this.createTextBlocks(lines, metadata(0), config);
+    }
+
+    const intro = lines.slice(0, listStart);
+    const items: string[] = [];
+    let ordered = false;
+    for (const line of lines.slice(listStart)) {
+      const listLine = this.parseListLine(line.trim());
+      if (listLine) {
+        if (items.length === 0) ordered = listLine.ordered;
+        items.push(listLine.text);
+      } else if (items.length > 0) {
+        // Wrapped continuation of the item above
+        items[items.length - 1] += ' ' + line.trim();
+      }
+    }
+
+    const blocks: TParsedBlock[] = [];
+    let title: string | undefined;
+    if (intro.length === 1 && /:$/.test(intro[0].trim()) && intro[0].trim().length <= 80) {
+      title = intro[0].trim().replace(/:$/, '');
+    } else if (intro.length > 0) {
+      blocks.push(...this.createTextBlocks(intro, metadata(0), config));
+    }
+    blocks.push(this.createListBlock(items, ordered, title, metadata(listStart)));
+    return blocks;
+  }
+
+  private createTextBlocks(lines: string[], metadata: TBaseMetadata, config: ITextParserConfig): TParsedBlock[] {
+    const text = lines.map(line => line.trim()).join(' ').replace(/\s+/g, ' ');
+    if (text.length < (config.minParagraphLength || 1)) return [];
+    return [this.createTextBlock(text, undefined, metadata)];
+  }
+
+  /**
+   * Heading level of a standalone line: ALL CAPS titles, numbered sections (deeper numbering,
+   * deeper level) and short labels ending in a colon; null for ordinary text
+   */
+  private detectHeadingLevel(line: string): number | null {
+    if (line.length > 80 || /[.!?,;]$/.test(line)) return null;
+
+    if (/^[A-Z][A-Z0-9\s&/'-]{2,}$/.test(line) && /[A-Z]{2}/.test(line)) return 1;
+
+    const numbered = /^(\d+(?:\.\d+)*)\.?\s+[A-Z]/.exec(line);
+    if (numbered) return Math.min(numbered[1].split('.').length, 6);
+
+    if (/^(Chapter|Part)\s+\w+/i.test(line)) return 1;
+    if (/^Section\s+\w+/i.test(line)) return 2;
+    if (/^[A-Z][\w\s&/'-]{1,60}:$/.test(line)) return 3;
+
+    return null;
+  }
+
+  private parseListLine(line: string): { text: string; ordered: boolean } | null {
+    for (const { pattern, ordered } of BULLET_PATTERNS) {
+      const match = pattern.exec(line);
+      if (match) {
+        return { text: match[1].trim(), ordered };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Lines that all split into the same number of columns on tabs or pipes; the first is the header
+   */
+  private parseTable(lines: string[]): { headers: string[]; rows: string[][] } | null {
+    if (lines.length < 2) return null;
+
+    for (const separator of ['\t', '|']) {
+      const rows = lines
+        .filter(line => !/^[\s|:+-]+$/.test(line)) // Ruler lines between header and body
+        .map(line => {
+          const trimmed = separator === '|' ? line.trim().replace(/^\||\|$/g, '') : line;
+          return trimmed.split(separator).map(cell => cell.trim());
+        });
+
+      const columns = rows[0]?.length || 0;
+      if (columns >= 2 && rows.length >= 2 && rows.every(row => row.length === columns)) {
+        return { headers: rows[0], rows: rows.slice(1) };
+      }
+    }
+
+    return null;
+  }
+
+  async validateFile(buffer: Buffer, mimeType: string): Promise<void> {
+    await super.validateFile(buffer, mimeType);
+
+    // Binary content is not text
+    const sample = buffer.subarray(0, Math.min(buffer.length, 1024));
+    if (sample.includes(0)) {
+      throw new Error('File does not appear to be a text file');
+    }
+  }
+}
@@ -301,6 +301,42 @@ export class VectorStoreService {
     }
   }
 
+  /**
+   * Set payload fields on points by IDs, keeping their other payload fields
+   */
+  async setPayload(
+    ids: (string | number)[],
+    payload: Partial<VectorMetadata>,
+    collectionName?: string
+  ): Promise<void> {
+    const collection = collectionName || this.collectionName
+
+    try {
+      await this.client.withRetry(async () => {
+        const qdrantClient = this.client.getClient()
+        
+        await qdrantClient.setPayload(collection, {
+          wait: true,
+          points: ids,
+          payload,
+        })
+      }, `Set payload on ${ids.length} points`)
+
+      logger.info('Point payloads updated', {
+        collection,
+        pointCount: ids.length,
+        fields: Object.keys(payload),
+      })
+    } catch (error) {
+      logger.error('Failed to update point payloads', {
+        collection,
+        pointCount: ids.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  }
+
   /**
    * Get point by ID
    */
@@ -32,6 +32,33 @@ export const accountQuerySchema = z.object({
   includeFacets: z.coerce.boolean().default(false),
 });
 
+// Field lineage query parameters validation
+export const accountLineageQuerySchema = z.object({
+  field: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Account merge validation
+export const accountMergeChoiceSchema = z.enum(['survivor', 'merged']);
+
+export const accountMergeSchema = z.object({
+  survivorId: z.string().min(1, 'Surviving account is required'),
+  mergedId: z.string().min(1, 'Account to merge is required'),
+  fields: z.record(accountMergeChoiceSchema).optional(),
+});
+
+export const accountMergePreviewQuerySchema = accountMergeSchema.pick({ survivorId: true, mergedId: true });
+
+export const accountMergeQuerySchema = z.object({
+  accountId: z.string().optional(),
+});
+
+export const accountDuplicatesQuerySchema = z.object({
+  minScore: z.coerce.number().min(0).max(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
 // Bulk account operations validation
 export const bulkAccountIdsSchema = z.object({
   ids: z.array(z.string().cuid()).min(1, 'At least one account ID is required'),
@@ -70,6 +97,9 @@ export const updateTechnologySchema = createTechnologySchema.partial();
 export type CreateAccountInput = z.infer<typeof createAccountSchema>;
 export type UpdateAccountInput = z.infer<typeof updateAccountSchema>;
 export type AccountQueryParams = z.infer<typeof accountQuerySchema>;
+export type AccountLineageQuery = z.infer<typeof accountLineageQuerySchema>;
+export type AccountMergeInput = z.infer<typeof accountMergeSchema>;
+export type AccountDuplicatesQuery = z.infer<typeof accountDuplicatesQuerySchema>;
 export type BulkAccountIds = z.infer<typeof bulkAccountIdsSchema>;
 export type BulkUpdateAccounts = z.infer<typeof bulkUpdateAccountsSchema>;
 export type CreateContactInput = z.infer<typeof createContactSchema>;
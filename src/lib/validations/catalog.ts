@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Product catalog query validation
+export const productCatalogQuerySchema = z.object({
+  asOf: z.coerce.date().optional(), // Catalog as it stood at this date
+  search: z.string().max(200).optional(),
+  category: z.string().max(200).optional(),
+  manufacturer: z.string().max(200).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Type exports
+export type ProductCatalogQueryParams = z.infer<typeof productCatalogQuerySchema>;
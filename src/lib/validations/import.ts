@@ -1,11 +1,46 @@
 import { z } from 'zod';
 import { DocumentScope } from '@prisma/client';
 
+export const importEntityTypeSchema = z.enum(['accounts', 'products', 'opportunities', 'contacts']);
+
+// Column mapping schemas
+export const columnMappingSchema = z.object({
+  sourceColumn: z.string().min(1).max(200),
+  targetField: z.string().min(1).max(100),
+  transforms: z.array(
+    z.enum(['trim', 'upper', 'lower', 'title', 'collapse_whitespace', 'number', 'boolean', 'date'])
+  ).optional(),
+  dateFormat: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY', 'YYYYMMDD']).optional(),
+});
+
+export const mappingProfileCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  entityType: importEntityTypeSchema,
+  description: z.string().max(500).optional(),
+  mappings: z.array(columnMappingSchema).min(1).max(200),
+  isDefault: z.boolean().optional().default(false),
+});
+
+export const mappingProfileUpdateSchema = mappingProfileCreateSchema
+  .omit({ entityType: true, isDefault: true })
+  .extend({ isDefault: z.boolean().optional() })
+  .partial();
+
+export const mappingProfileQuerySchema = z.object({
+  entityType: importEntityTypeSchema.optional(),
+});
+
 // Base import options
 const baseImportOptionsSchema = z.object({
   skipDuplicates: z.boolean().optional().default(true),
   updateExisting: z.boolean().optional().default(false),
   batchSize: z.number().min(1).max(1000).optional().default(50),
+  sheetName: z.string().optional(), // Worksheet to read from Excel workbooks
+  recordPath: z.string().optional(), // Dotted path to the records of a JSON export, e.g. "data.items"
+  mappingProfileId: z.string().optional(),
+  columnMappings: z.array(columnMappingSchema).optional(), // Inline overrides on top of the profile
+  incremental: z.boolean().optional().default(false), // Skip rows unchanged since the last import
+  fullSnapshot: z.boolean().optional().default(false), // Flag previously imported records the file omits
 });
 
 // Account import schemas
@@ -14,6 +49,7 @@ export const accountImportOptionsSchema = baseImportOptionsSchema.extend({
   createChunks: z.boolean().optional().default(false),
   storeVectors: z.boolean().optional().default(false),
   validateDomains: z.boolean().optional().default(true),
+  deriveTechnologies: z.boolean().optional().default(true), // Sync Technology rows from the vendor columns
 });
 
 export const accountImportRequestSchema = z.object({
@@ -36,12 +72,25 @@ export const opportunityImportOptionsSchema = baseImportOptionsSchema.extend({
   createMissingProducts: z.boolean().optional().default(false),
   validateRevenue: z.boolean().optional().default(true),
   linkProducts: z.boolean().optional().default(true),
+  accountMatchThresholds: z.object({
+    autoLink: z.number().min(0).max(1).optional(),
+    review: z.number().min(0).max(1).optional(),
+  }).optional(), // Fuzzy account match scores that link automatically or queue a review
 });
 
 export const opportunityImportRequestSchema = z.object({
   options: opportunityImportOptionsSchema.optional(),
 });
 
+// Contact import schemas
+export const contactImportOptionsSchema = baseImportOptionsSchema.extend({
+  linkByEmailDomain: z.boolean().optional().default(true), // Link by the domain of a work email
+});
+
+export const contactImportRequestSchema = z.object({
+  options: contactImportOptionsSchema.optional(),
+});
+
 // Asset import schemas
 export const assetImportOptionsSchema = z.object({
   batchSize: z.number().min(1).max(10).optional().default(3),
@@ -52,6 +101,11 @@ export const assetImportOptionsSchema = z.object({
   extractMetadata: z.boolean().optional().default(true),
   maxFileSize: z.number().min(1024).max(100 * 1024 * 1024).optional().default(50 * 1024 * 1024), // 50MB
   allowedMimeTypes: z.array(z.string()).optional(),
+  archiveLimits: z.object({
+    maxEntries: z.number().min(1).max(2000).optional(),
+    maxTotalSize: z.number().min(1024).max(1024 * 1024 * 1024).optional(), // 1GB
+    maxCompressionRatio: z.number().min(1).max(1000).optional(),
+  }).optional(),
   chunkingOptions: z.object({
     chunkSize: z.number().min(100).max(4000).optional().default(1000),
     chunkOverlap: z.number().min(0).max(500).optional().default(100),
@@ -74,9 +128,11 @@ export const batchImportOptionsSchema = z.object({
   createVectors: z.boolean().optional().default(false),
   linkRelatedData: z.boolean().optional().default(true),
   validateRelationships: z.boolean().optional().default(true),
-  processOrder: z.array(z.enum(['accounts', 'products', 'opportunities', 'assets'])).optional(),
+  processOrder: z.array(z.enum(['accounts', 'contacts', 'products', 'opportunities', 'assets'])).optional(),
   rollbackOnError: z.boolean().optional().default(false),
   continueOnError: z.boolean().optional().default(true),
+  dryRun: z.boolean().optional().default(false), // Return an import plan without writing
+  maxPlanRecords: z.number().min(1).max(5000).optional(),
 });
 
 export const batchImportRequestSchema = z.object({
@@ -85,23 +141,114 @@ export const batchImportRequestSchema = z.object({
 
 // Import validation schemas
 export const importValidationRequestSchema = z.object({
-  type: z.enum(['accounts', 'products', 'opportunities']),
+  type: importEntityTypeSchema,
+  mappingProfileId: z.string().optional(),
+  columnMappings: z.array(columnMappingSchema).optional(),
+  dryRun: z.boolean().optional().default(false), // Also build an import plan against existing data
+  maxPlanRecords: z.number().min(1).max(5000).optional(),
 });
 
+// Import options used when planning a dry run for each entity type
+export const importOptionsSchemas = {
+  accounts: accountImportOptionsSchema,
+  products: productImportOptionsSchema,
+  opportunities: opportunityImportOptionsSchema,
+  contacts: contactImportOptionsSchema,
+} as const;
+
 // Import job schemas
 export const jobQuerySchema = z.object({
   page: z.coerce.number().min(1).optional().default(1),
   pageSize: z.coerce.number().min(1).max(100).optional().default(20),
   status: z.enum(['QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'PENDING', 'CANCELLED', 'PAUSED']).optional(),
-  type: z.enum(['IMPORT_ACCOUNTS', 'IMPORT_PRODUCTS', 'IMPORT_OPPORTUNITIES', 'IMPORT_ASSETS']).optional(),
+  type: z.enum(['IMPORT_ACCOUNTS', 'IMPORT_PRODUCTS', 'IMPORT_OPPORTUNITIES', 'IMPORT_CONTACTS', 'IMPORT_ASSETS']).optional(),
   sortBy: z.enum(['createdAt', 'updatedAt', 'startedAt', 'completedAt']).optional().default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
 });
 
+// Rejected-row report downloads
+export const rejectedRowsDownloadQuerySchema = z.object({
+  download: z.literal('rejected'),
+  format: z.enum(['csv', 'xlsx']).optional().default('csv'),
+  entity: importEntityTypeSchema.optional(), // Required for CSV when several entities rejected rows
+});
+
+// Import template downloads
+export const importTemplateQuerySchema = z.object({
+  format: z.enum(['csv', 'xlsx']).optional().default('csv'),
+});
+
+// Validation rule schemas
+export const validationRuleTypeSchema = z.enum(['required', 'pattern', 'enum', 'requires']);
+
+export const validationRuleConfigSchema = z.object({
+  pattern: z.string().min(1).max(500).optional(),
+  flags: z.string().regex(/^[dimsuv]*$/, 'Unsupported RegExp flags').optional(),
+  values: z.array(z.string().min(1).max(200)).max(500).optional(),
+  valueSet: z.string().optional(),
+  caseSensitive: z.boolean().optional(),
+  fields: z.array(z.string().min(1)).max(20).optional(),
+});
+
+export const validationRuleCreateSchema = z.object({
+  entityType: importEntityTypeSchema,
+  field: z.string().min(1).max(100),
+  type: validationRuleTypeSchema,
+  severity: z.enum(['error', 'warning']).optional().default('error'),
+  config: validationRuleConfigSchema.optional().default({}),
+  message: z.string().max(500).nullable().optional(), // {field} and {value} are filled in
+  description: z.string().max(500).nullable().optional(),
+  enabled: z.boolean().optional().default(true),
+});
+
+export const validationRuleUpdateSchema = z.object({
+  field: z.string().min(1).max(100).optional(),
+  type: validationRuleTypeSchema.optional(),
+  severity: z.enum(['error', 'warning']).optional(),
+  config: validationRuleConfigSchema.optional(),
+  message: z.string().max(500).nullable().optional(),
+  description: z.string().max(500).nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const validationRuleQuerySchema = z.object({
+  entityType: importEntityTypeSchema.optional(),
+  enabled: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+// Exchange rate schemas
+const currencyCodeSchema = z.string().trim().regex(/^[A-Za-z]{3}$/, 'Expected a three-letter ISO 4217 code')
+  .transform(code => code.toUpperCase());
+
+export const exchangeRateCreateSchema = z.object({
+  fromCurrency: currencyCodeSchema,
+  toCurrency: currencyCodeSchema.optional(), // The reporting currency when omitted
+  rate: z.number().positive(),
+  effectiveDate: z.coerce.date(),
+});
+
+export const exchangeRateQuerySchema = z.object({
+  fromCurrency: currencyCodeSchema.optional(),
+  toCurrency: currencyCodeSchema.optional(),
+});
+
+// Account match review schemas
+export const accountMatchReviewQuerySchema = z.object({
+  status: z.enum(['PENDING', 'CONFIRMED', 'REJECTED']).optional().default('PENDING'),
+  jobId: z.string().optional(),
+  page: z.coerce.number().min(1).optional().default(1),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20),
+});
+
+export const accountMatchResolveSchema = z.object({
+  action: z.enum(['confirm', 'reject']),
+  accountId: z.string().optional(), // Link to this account instead of the suggested one
+});
+
 // Import stats schemas
 export const importStatsQuerySchema = z.object({
   timeRange: z.enum(['day', 'week', 'month']).optional().default('day'),
-  type: z.enum(['accounts', 'products', 'opportunities', 'assets', 'all']).optional().default('all'),
+  type: z.enum(['accounts', 'products', 'opportunities', 'contacts', 'assets', 'all']).optional().default('all'),
 });
 
 // File upload validation
@@ -117,6 +264,13 @@ export const fileUploadValidationSchema = z.object({
     'application/vnd.ms-excel',
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
     'text/plain',
+    'text/markdown',
+    'text/html',
+    'message/rfc822',
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/json',
+    'application/x-ndjson',
   ]),
 });
 
@@ -137,6 +291,7 @@ export const importResultSchema = z.object({
     account: z.string().optional(),
     product: z.string().optional(),
     opportunity: z.string().optional(),
+    contact: z.string().optional(),
     error: z.string(),
   })),
   warnings: z.array(z.object({
@@ -145,6 +300,7 @@ export const importResultSchema = z.object({
     account: z.string().optional(),
     product: z.string().optional(),
     opportunity: z.string().optional(),
+    contact: z.string().optional(),
     warning: z.string(),
   })),
   processingTime: z.number(),
@@ -155,6 +311,7 @@ export const batchImportResultSchema = z.object({
   accounts: importResultSchema.optional(),
   products: importResultSchema.optional(),
   opportunities: importResultSchema.optional(),
+  contacts: importResultSchema.optional(),
   assets: importResultSchema.optional(),
   totalProcessingTime: z.number(),
   overallStatus: z.enum(['completed', 'partial', 'failed']),
@@ -198,7 +355,7 @@ export const ImportValidation = {
   /**
    * Validate file upload
    */
-  validateFileUpload(file: File, options?: z.infer<typeof fileUploadValidationSchema>) {
+  validateFileUpload(file: Pick<File, 'size' | 'type'>, options?: z.input<typeof fileUploadValidationSchema>) {
     const validation = fileUploadValidationSchema.parse(options || {});
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -230,7 +387,7 @@ export const ImportValidation = {
    */
   validateCsvStructure(
     headers: string[],
-    type: 'accounts' | 'products' | 'opportunities'
+    type: 'accounts' | 'products' | 'opportunities' | 'contacts'
   ): { valid: boolean; errors: string[]; warnings: string[] } {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -268,6 +425,20 @@ export const ImportValidation = {
           errors.push('Missing required customer name field. Expected one of: ' + customerFields.join(', '));
         }
         break;
+
+      case 'contacts':
+        const contactNameFields = ['name', 'contact_name', 'full_name', 'first_name', 'firstname'];
+        if (!contactNameFields.some(field => lowerHeaders.includes(field))) {
+          errors.push('Missing required contact name field. Expected one of: ' + contactNameFields.join(', '));
+        }
+
+        const accountReferenceFields = [
+          'account_id', 'accountid', 'account_number', 'accountnumber', 'account_domain', 'domain', 'email',
+        ];
+        if (!accountReferenceFields.some(field => lowerHeaders.includes(field))) {
+          warnings.push('No account id, account number, domain or email field found. Contacts cannot be linked to accounts.');
+        }
+        break;
     }
 
     return { valid: errors.length === 0, errors, warnings };
@@ -276,7 +447,7 @@ export const ImportValidation = {
   /**
    * Get recommended field mappings
    */
-  getFieldMappings(headers: string[], type: 'accounts' | 'products' | 'opportunities') {
+  getFieldMappings(headers: string[], type: 'accounts' | 'products' | 'opportunities' | 'contacts') {
     const lowerHeaders = headers.map(h => h.toLowerCase().trim());
     const mappings: Record<string, string> = {};
 
@@ -358,6 +529,24 @@ export const ImportValidation = {
           }
         });
         break;
+
+      case 'contacts':
+        // Find contact name
+        const contactNameField = lowerHeaders.find(h =>
+          ['name', 'contact_name', 'full_name'].includes(h)
+        );
+        if (contactNameField) {
+          mappings.name = headers[lowerHeaders.indexOf(contactNameField)];
+        }
+
+        // Find account reference fields
+        ['email', 'account_number', 'account_domain', 'title', 'department'].forEach(field => {
+          const foundField = lowerHeaders.find(h => h.includes(field));
+          if (foundField) {
+            mappings[field] = headers[lowerHeaders.indexOf(foundField)];
+          }
+        });
+        break;
     }
 
     return mappings;
@@ -368,10 +557,20 @@ export const ImportValidation = {
 export type AccountImportOptions = z.infer<typeof accountImportOptionsSchema>;
 export type ProductImportOptions = z.infer<typeof productImportOptionsSchema>;
 export type OpportunityImportOptions = z.infer<typeof opportunityImportOptionsSchema>;
+export type ContactImportOptions = z.infer<typeof contactImportOptionsSchema>;
 export type AssetImportOptions = z.infer<typeof assetImportOptionsSchema>;
 export type BatchImportOptions = z.infer<typeof batchImportOptionsSchema>;
 export type ImportValidationRequest = z.infer<typeof importValidationRequestSchema>;
+export type MappingProfileCreate = z.infer<typeof mappingProfileCreateSchema>;
+export type MappingProfileUpdate = z.infer<typeof mappingProfileUpdateSchema>;
 export type JobQuery = z.infer<typeof jobQuerySchema>;
+export type RejectedRowsDownloadQuery = z.infer<typeof rejectedRowsDownloadQuerySchema>;
+export type ImportTemplateQuery = z.infer<typeof importTemplateQuerySchema>;
+export type ValidationRuleCreate = z.infer<typeof validationRuleCreateSchema>;
+export type ValidationRuleUpdate = z.infer<typeof validationRuleUpdateSchema>;
+export type ValidationRuleQuery = z.infer<typeof validationRuleQuerySchema>;
+export type ExchangeRateCreate = z.infer<typeof exchangeRateCreateSchema>;
+export type ExchangeRateQuery = z.infer<typeof exchangeRateQuerySchema>;
 export type ImportStatsQuery = z.infer<typeof importStatsQuerySchema>;
 export type FileUploadValidation = z.infer<typeof fileUploadValidationSchema>;
 export type ImportResult = z.infer<typeof importResultSchema>;
@@ -1,12 +1,18 @@
-import { Worker, Job as BullJob } from 'bullmq';
 import { ProcessingJobType, JobStatus } from '@prisma/client';
+import { Worker, Job as BullJob } from 'bullmq';
 
-import { redisConnection } from '@/lib/redis';
-import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
-import { QUEUE_NAMES, ImportJobData } from '@/lib/queue';
-import { getImportService, BatchImportData, BatchImportOptions } from '@/lib/services/import';
-import { JobTracker } from '@/lib/queue';
+import { prisma } from '@/lib/prisma';
+import { JobTracker, QUEUE_NAMES, ImportJobData } from '@/lib/queue';
+import { redisConnection } from '@/lib/redis';
+import {
+  getImportService,
+  openImportSource,
+  BatchImportData,
+  BatchImportOptions,
+  type ContactImportOptions,
+  type ImportFileData,
+} from '@/lib/services/import';
 
 export class ImportWorker {
   private worker: Worker;
@@ -40,28 +46,46 @@ export class ImportWorker {
       queueJobId: job.id,
     });
 
+    // Entity imports checkpoint against a processing job, which a retry picks up again
+    const checkpointed = type === 'accounts' || type === 'products' || type === 'opportunities' || type === 'contacts';
+
     try {
       // Update job status to running
       await JobTracker.updateJobStatus(jobId, JobStatus.RUNNING);
+      if (checkpointed) {
+        await this.startProcessingJob(jobId, type, userId, data.fileName);
+      }
+      if (job.attemptsMade > 0) {
+        logger.info('ImportWorker: Retrying import job from its last checkpoint', {
+          jobId,
+          attempt: job.attemptsMade + 1,
+        });
+      }
       await this.updateJobProgress(job, 0, 'Starting import process');
 
       let result;
 
       switch (type) {
         case 'accounts':
-          result = await this.processAccountsImport(job, data, options);
+          result = await this.processAccountsImport(job, data, { ...options, jobId });
           break;
         case 'products':
-          result = await this.processProductsImport(job, data, options);
+          result = await this.processProductsImport(job, data, { ...options, jobId });
           break;
         case 'opportunities':
-          result = await this.processOpportunitiesImport(job, data, options);
+          result = await this.processOpportunitiesImport(job, data, { ...options, jobId });
+          break;
+        case 'contacts':
+          result = await this.processContactsImport(job, data, { ...options, jobId });
           break;
         case 'assets':
           result = await this.processAssetsImport(job, data, options, userId);
           break;
         case 'batch':
-          result = await this.processBatchImport(job, data, options, userId);
+          result = await this.processBatchImport(job, data, { ...options, jobId }, userId);
+          break;
+        case 'vectorize':
+          result = await this.processAccountVectorization(job, data.accountIds);
           break;
         default:
           throw new Error(`Unsupported import type: ${type}`);
@@ -69,13 +93,24 @@ export class ImportWorker {
 
       // Update job as completed
       await JobTracker.updateJobStatus(jobId, JobStatus.COMPLETED, result);
+      if (checkpointed && 'created' in result) {
+        await this.finishProcessingJob(jobId, JobStatus.COMPLETED, {
+          result: {
+            total: result.total,
+            created: result.created,
+            updated: result.updated,
+            failed: result.failed,
+            skipped: result.skipped,
+          },
+        });
+      }
       await this.updateJobProgress(job, 100, 'Import completed successfully');
 
       logger.info('ImportWorker: Import job completed', {
         jobId,
         type,
         userId,
-        result: result.summary || result,
+        result: 'summary' in result ? result.summary : result,
       });
 
       return result;
@@ -85,6 +120,9 @@ export class ImportWorker {
       
       // Update job as failed
       await JobTracker.updateJobStatus(jobId, JobStatus.FAILED, null, errorMessage);
+      if (checkpointed) {
+        await this.finishProcessingJob(jobId, JobStatus.FAILED, { errorMessage });
+      }
 
       logger.error('ImportWorker: Import job failed', {
         jobId,
@@ -99,17 +137,18 @@ export class ImportWorker {
 
   private async processAccountsImport(
     job: BullJob<ImportJobData>,
-    data: { buffer: Buffer; fileName: string },
+    data: ImportFileData,
     options: any
   ) {
+    const { source, size } = await openImportSource(data);
     return await this.importService.importAccounts(
-      data.buffer,
+      source,
       data.fileName,
-      options,
+      { ...options, sourceSize: size },
       (progress) => {
         this.updateJobProgress(
           job,
-          (progress.processed / progress.total) * 100,
+          this.getImportPercentage(progress),
           `Processing accounts: ${progress.processed}/${progress.total} - ${progress.currentAccount || ''}`
         );
       }
@@ -118,17 +157,18 @@ export class ImportWorker {
 
   private async processProductsImport(
     job: BullJob<ImportJobData>,
-    data: { buffer: Buffer; fileName: string },
+    data: ImportFileData,
     options: any
   ) {
+    const { source, size } = await openImportSource(data);
     return await this.importService.importProducts(
-      data.buffer,
+      source,
       data.fileName,
-      options,
+      { ...options, sourceSize: size },
       (progress) => {
         this.updateJobProgress(
           job,
-          (progress.processed / progress.total) * 100,
+          this.getImportPercentage(progress),
           `Processing products: ${progress.processed}/${progress.total} - ${progress.currentProduct || ''}`
         );
       }
@@ -137,23 +177,44 @@ export class ImportWorker {
 
   private async processOpportunitiesImport(
     job: BullJob<ImportJobData>,
-    data: { buffer: Buffer; fileName: string },
+    data: ImportFileData,
     options: any
   ) {
+    const { source, size } = await openImportSource(data);
     return await this.importService.importOpportunities(
-      data.buffer,
+      source,
       data.fileName,
-      options,
+      { ...options, sourceSize: size },
       (progress) => {
         this.updateJobProgress(
           job,
-          (progress.processed / progress.total) * 100,
+          this.getImportPercentage(progress),
           `Processing opportunities: ${progress.processed}/${progress.total} - ${progress.currentOpportunity || ''}`
         );
       }
     );
   }
 
+  private async processContactsImport(
+    job: BullJob<ImportJobData>,
+    data: ImportFileData,
+    options: ContactImportOptions
+  ) {
+    const { source, size } = await openImportSource(data);
+    return await this.importService.importContacts(
+      source,
+      data.fileName,
+      { ...options, sourceSize: size },
+      (progress) => {
+        this.updateJobProgress(
+          job,
+          this.getImportPercentage(progress),
+          `Processing contacts: ${progress.processed}/${progress.total} - ${progress.currentContact || ''}`
+        );
+      }
+    );
+  }
+
   private async processAssetsImport(
     job: BullJob<ImportJobData>,
     data: any[], // Array of AssetImportData
@@ -192,6 +253,17 @@ export class ImportWorker {
     }
   }
 
+  private async processAccountVectorization(job: BullJob<ImportJobData>, accountIds: string[]) {
+    await this.importService.vectorizeAccounts(accountIds, (progress) => {
+      this.updateJobProgress(
+        job,
+        progress.total > 0 ? (progress.processed / progress.total) * 100 : 0,
+        `Vectorizing accounts: ${progress.processed}/${progress.total} - ${progress.currentAccount || ''}`
+      );
+    });
+    return { accounts: accountIds.length };
+  }
+
   private async processBatchImport(
     job: BullJob<ImportJobData>,
     data: BatchImportData,
@@ -221,6 +293,70 @@ export class ImportWorker {
     );
   }
 
+  // Streamed imports know their row count only at the end, so bytes read drive the percentage
+  private getImportPercentage(progress: { processed: number; total: number; bytesRead?: number; totalBytes?: number }) {
+    if (progress.totalBytes) {
+      return ((progress.bytesRead || 0) / progress.totalBytes) * 100;
+    }
+    return progress.total > 0 ? (progress.processed / progress.total) * 100 : 0;
+  }
+
+  /**
+   * Create the processing job an entity import checkpoints against, or reopen it on retry
+   */
+  private async startProcessingJob(
+    jobId: string,
+    type: 'accounts' | 'products' | 'opportunities' | 'contacts',
+    userId: string,
+    fileName?: string
+  ) {
+    const jobTypes = {
+      accounts: ProcessingJobType.IMPORT_ACCOUNTS,
+      products: ProcessingJobType.IMPORT_PRODUCTS,
+      opportunities: ProcessingJobType.IMPORT_OPPORTUNITIES,
+      contacts: ProcessingJobType.IMPORT_CONTACTS,
+    };
+
+    await prisma.processingJob.upsert({
+      where: { id: jobId },
+      create: {
+        id: jobId,
+        type: jobTypes[type],
+        title: `Import ${type}`,
+        description: fileName,
+        status: JobStatus.RUNNING,
+        userId,
+        startedAt: new Date(),
+        metadata: { importTypes: [type], fileName },
+      },
+      update: {
+        status: JobStatus.RUNNING,
+        errorMessage: null,
+        failedAt: null,
+      },
+    });
+  }
+
+  private async finishProcessingJob(
+    jobId: string,
+    status: typeof JobStatus.COMPLETED | typeof JobStatus.FAILED,
+    details: { result?: Record<string, number>; errorMessage?: string }
+  ) {
+    try {
+      await prisma.processingJob.update({
+        where: { id: jobId },
+        data: status === JobStatus.COMPLETED
+          ? { status, progress: 100, completedAt: new Date(), result: details.result }
+          : { status, failedAt: new Date(), errorMessage: details.errorMessage },
+      });
+    } catch (error) {
+      logger.warn('ImportWorker: Failed to update processing job', {
+        jobId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
   private async updateJobProgress(job: BullJob<ImportJobData>, progress: number, message?: string) {
     try {
       await job.updateProgress(Math.round(progress));
@@ -50,6 +50,25 @@ export interface AccountAnalysisRequest {
   priority: 'low' | 'medium' | 'high'
 }
 
+export interface FieldLineageEntry {
+  id: string
+  field: string
+  value: string | null
+  source: 'import' | 'ai_normalization' | 'manual'
+  sourceFile: string | null
+  jobId: string | null
+  rowNumber: number | null
+  userId: string | null
+  createdAt: string
+}
+
+export interface FieldLineageResponse {
+  accountId: string
+  field: string
+  current: FieldLineageEntry | null
+  history: FieldLineageEntry[]
+}
+
 class AccountService {
   async getAccounts(params?: AccountSearchParams): Promise<AccountsListResponse> {
     try {
@@ -150,6 +169,16 @@ class AccountService {
     }
   }
 
+  async getFieldLineage(id: string, field: string, limit = 5): Promise<FieldLineageResponse> {
+    try {
+      const response = await apiClient.get<FieldLineageResponse>(`/accounts/${id}/lineage`, { field, limit })
+      return response.data
+    } catch (error) {
+      console.error('Failed to fetch field lineage:', error)
+      throw error
+    }
+  }
+
   async getAccountInsights(id: string): Promise<any[]> {
     try {
       const response = await apiClient.get<any[]>(`/accounts/${id}/insights`)
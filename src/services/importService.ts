@@ -0,0 +1,93 @@
+import { apiClient } from './apiClient'
+
+import type { ImportPlan } from '@/lib/services/import/import-plan'
+
+export type ImportEntityType = 'accounts' | 'products' | 'opportunities' | 'contacts'
+
+export interface ImportPreviewOptions {
+  updateExisting?: boolean
+  skipDuplicates?: boolean
+  createMissingAccounts?: boolean
+  linkProducts?: boolean
+  enableSCD?: boolean
+  mappingProfileId?: string
+  maxPlanRecords?: number
+}
+
+export interface ImportPreviewResponse {
+  valid: boolean
+  errors: string[]
+  warnings: string[]
+  totalRows: number
+  plan?: ImportPlan
+}
+
+export interface AccountMatchReview {
+  id: string
+  customerName: string
+  customerDomain: string | null
+  score: number
+  matchedBy: 'name' | 'domain' | 'similarity'
+  status: 'PENDING' | 'CONFIRMED' | 'REJECTED'
+  opportunityCount: number
+  candidateAccount: { id: string; name: string; domain: string | null; accountNumber: string | null } | null
+  createdAt: string
+}
+
+export interface AccountMatchReviewList {
+  reviews: AccountMatchReview[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+export interface AccountMatchResolution {
+  reviewId: string
+  action: 'confirm' | 'reject'
+  accountId: string
+  result: { created: number; updated: number; failed: number; errors: Array<{ error: string }> }
+}
+
+class ImportService {
+  async previewImport(
+    file: File,
+    type: ImportEntityType,
+    options: ImportPreviewOptions = {}
+  ): Promise<ImportPreviewResponse> {
+    const { mappingProfileId, maxPlanRecords, ...importOptions } = options
+
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('type', type)
+    formData.append('dryRun', 'true')
+    formData.append('options', JSON.stringify(importOptions))
+    if (mappingProfileId) {
+      formData.append('mappingProfileId', mappingProfileId)
+    }
+    if (maxPlanRecords) {
+      formData.append('maxPlanRecords', String(maxPlanRecords))
+    }
+
+    const response = await apiClient.upload<ImportPreviewResponse>('/import/validate', formData)
+    return response.data
+  }
+
+  async getAccountMatchReviews(page = 1, pageSize = 20): Promise<AccountMatchReviewList> {
+    const response = await apiClient.get<AccountMatchReviewList>('/import/account-matches', { page, pageSize })
+    return response.data
+  }
+
+  async resolveAccountMatch(
+    reviewId: string,
+    action: 'confirm' | 'reject',
+    accountId?: string
+  ): Promise<AccountMatchResolution> {
+    const response = await apiClient.post<AccountMatchResolution>(`/import/account-matches/${reviewId}`, {
+      action,
+      accountId,
+    })
+    return response.data
+  }
+}
+
+export const importService = new ImportService()